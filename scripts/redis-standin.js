@@ -0,0 +1,185 @@
+/**
+ * Redis Stand-in
+ *
+ * A local stand-in for Redis that speaks just enough of the Redis protocol for the
+ * shared API rate limit store (RedisRateLimitStore in src/lib/rateLimitStore.ts), so
+ * limits can be shared between several `next dev` / `next start` processes without
+ * installing Redis. A real Redis server works the same way.
+ *
+ * Supported commands: PING, AUTH, GET, SET (with PX/EX and NX/XX), INCR, PTTL, DEL,
+ * MULTI, EXEC and DISCARD.
+ *
+ * Run this script with: node scripts/redis-standin.js
+ * and set in .env.local:
+ *   RATE_LIMIT_REDIS_URL=redis://localhost:6380
+ *   (add a password as redis://:secret@localhost:6380 if REDIS_STANDIN_PASSWORD is set)
+ */
+
+const net = require('net');
+
+const PORT = parseInt(process.env.REDIS_STANDIN_PORT || '6380', 10);
+const PASSWORD = process.env.REDIS_STANDIN_PASSWORD || null;
+
+// In-memory store; restarting the server forgets all keys
+const keys = new Map();
+
+const simple = (value) => `+${value}\r\n`;
+const error = (message) => `-ERR ${message}\r\n`;
+const integer = (value) => `:${value}\r\n`;
+const bulk = (value) => value === null ? '$-1\r\n' : `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+const array = (items) => `*${items.length}\r\n${items.join('')}`;
+
+const getEntry = (key) => {
+  const entry = keys.get(key);
+  if (entry && entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+    keys.delete(key);
+    return null;
+  }
+  return entry || null;
+};
+
+// Drop expired keys once a minute so idle keys do not pile up
+setInterval(() => {
+  for (const key of keys.keys()) getEntry(key);
+}, 60 * 1000).unref();
+
+const commands = {
+  PING: () => simple('PONG'),
+
+  GET: ([key]) => {
+    const entry = getEntry(key);
+    return bulk(entry ? entry.value : null);
+  },
+
+  SET: ([key, value, ...options]) => {
+    let expiresAt = null;
+    let onlyIfMissing = false;
+    let onlyIfExists = false;
+
+    for (let i = 0; i < options.length; i++) {
+      const option = options[i].toUpperCase();
+      if (option === 'PX') expiresAt = Date.now() + parseInt(options[++i], 10);
+      else if (option === 'EX') expiresAt = Date.now() + parseInt(options[++i], 10) * 1000;
+      else if (option === 'NX') onlyIfMissing = true;
+      else if (option === 'XX') onlyIfExists = true;
+      else return error('syntax error');
+    }
+
+    const exists = getEntry(key) !== null;
+    if ((onlyIfMissing && exists) || (onlyIfExists && !exists)) {
+      return bulk(null);
+    }
+
+    keys.set(key, { value, expiresAt });
+    return simple('OK');
+  },
+
+  INCR: ([key]) => {
+    const entry = getEntry(key) || { value: '0', expiresAt: null };
+    const current = parseInt(entry.value, 10);
+    if (Number.isNaN(current)) {
+      return error('value is not an integer or out of range');
+    }
+
+    entry.value = String(current + 1);
+    keys.set(key, entry);
+    return integer(current + 1);
+  },
+
+  PTTL: ([key]) => {
+    const entry = getEntry(key);
+    if (!entry) return integer(-2);
+    if (entry.expiresAt === null) return integer(-1);
+    return integer(entry.expiresAt - Date.now());
+  },
+
+  DEL: (args) => integer(args.filter(key => getEntry(key) !== null && keys.delete(key)).length),
+};
+
+// Parse as many complete commands (arrays of bulk strings) as the buffer holds
+const parseCommands = (buffer) => {
+  const parsed = [];
+  let offset = 0;
+
+  while (offset < buffer.length) {
+    if (buffer[offset] !== 0x2a) throw new Error('Protocol error: expected an array');
+
+    let lineEnd = buffer.indexOf('\r\n', offset);
+    if (lineEnd === -1) break;
+    const count = parseInt(buffer.toString('utf8', offset + 1, lineEnd), 10);
+
+    const args = [];
+    let next = lineEnd + 2;
+    for (let i = 0; i < count; i++) {
+      lineEnd = buffer.indexOf('\r\n', next);
+      if (lineEnd === -1) break;
+      const length = parseInt(buffer.toString('utf8', next + 1, lineEnd), 10);
+      if (buffer.length < lineEnd + 2 + length + 2) break;
+      args.push(buffer.toString('utf8', lineEnd + 2, lineEnd + 2 + length));
+      next = lineEnd + 2 + length + 2;
+    }
+
+    if (args.length < count) break;
+    parsed.push(args);
+    offset = next;
+  }
+
+  return { parsed, rest: buffer.subarray(offset) };
+};
+
+const server = net.createServer((socket) => {
+  let buffer = Buffer.alloc(0);
+  let authenticated = !PASSWORD;
+  let queue = null;
+
+  socket.on('data', (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+
+    let result;
+    try {
+      result = parseCommands(buffer);
+    } catch (err) {
+      socket.end(error(err.message));
+      return;
+    }
+    buffer = result.rest;
+
+    for (const [rawName, ...args] of result.parsed) {
+      const name = rawName.toUpperCase();
+
+      if (name === 'AUTH') {
+        authenticated = !PASSWORD || args[args.length - 1] === PASSWORD;
+        socket.write(authenticated ? simple('OK') : error('invalid password'));
+      } else if (!authenticated) {
+        socket.write('-NOAUTH Authentication required.\r\n');
+      } else if (name === 'MULTI') {
+        queue = [];
+        socket.write(simple('OK'));
+      } else if (name === 'EXEC') {
+        if (!queue) {
+          socket.write(error('EXEC without MULTI'));
+          continue;
+        }
+        // Commands run back to back, so a transaction is never interleaved
+        socket.write(array(queue.map(([queued, queuedArgs]) => commands[queued](queuedArgs))));
+        queue = null;
+      } else if (name === 'DISCARD') {
+        queue = null;
+        socket.write(simple('OK'));
+      } else if (!commands[name]) {
+        socket.write(error(`unknown command '${rawName}'`));
+      } else if (queue) {
+        queue.push([name, args]);
+        socket.write(simple('QUEUED'));
+      } else {
+        socket.write(commands[name](args));
+      }
+    }
+  });
+
+  socket.on('error', () => socket.destroy());
+});
+
+server.listen(PORT, () => {
+  console.log(`Redis stand-in listening on redis://localhost:${PORT}`);
+});
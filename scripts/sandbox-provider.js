@@ -0,0 +1,358 @@
+/**
+ * Sandbox Payment Provider
+ *
+ * A local stand-in for a hosted payment provider, used by the `sandbox` payment
+ * adapter so the checkout flow, webhooks and the Payments page can be exercised
+ * without real provider keys or network access.
+ *
+ * - POST /v1/payments creates a payment and returns a checkout_url
+ * - GET  /checkout/:id shows a hosted checkout page and redirects back to the app
+ * - Every state change is sent as a signed webhook to the app's webhook_url
+ * - GET  /v1/ping checks the API key, for the app's provider health check
+ *
+ * Outcomes can be scripted per payment with `scenario` on creation (or
+ * `metadata.sandbox_scenario` in POST /api/payments), or for every payment with
+ * SANDBOX_DEFAULT_SCENARIO:
+ *   manual           the checkout page asks which outcome to use (default)
+ *   success          checkout authorizes the payment immediately
+ *   decline          checkout declines the payment
+ *   expire           checkout lets the payment expire
+ *   refund_rejected  checkout authorizes the payment, but every refund is rejected
+ *
+ * Payments can also be driven from scripts with
+ * POST /v1/payments/:id/simulate {"outcome": "success" | "decline" | "expire"}.
+ *
+ * Run this script with: node scripts/sandbox-provider.js
+ * and set in .env.local:
+ *   SANDBOX_PROVIDER_URL=http://localhost:4010
+ *   SANDBOX_API_KEY / SANDBOX_WEBHOOK_SECRET (optional, must match this server)
+ */
+
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = parseInt(process.env.SANDBOX_PORT || '4010', 10);
+const API_KEY = process.env.SANDBOX_API_KEY || 'sandbox_secret_key';
+const WEBHOOK_SECRET = process.env.SANDBOX_WEBHOOK_SECRET || 'sandbox_webhook_secret';
+const DEFAULT_SCENARIO = process.env.SANDBOX_DEFAULT_SCENARIO || 'manual';
+const SCENARIOS = ['manual', 'success', 'decline', 'expire', 'refund_rejected'];
+
+// In-memory store; restarting the server forgets all payments
+const payments = new Map();
+
+const generateId = (prefix) => `${prefix}_${crypto.randomBytes(12).toString('hex')}`;
+
+// Avoid floating point drift on amounts with up to 3 decimal places (e.g. KWD)
+const round = (amount) => Math.round(amount * 1000) / 1000;
+
+// Strip internal fields before a payment leaves the server
+const toPublicPayment = (payment) => ({
+  id: payment.id,
+  order_id: payment.order_id,
+  status: payment.status,
+  amount: payment.amount,
+  currency: payment.currency,
+  captured_amount: payment.captured_amount,
+  refunded_amount: payment.refunded_amount,
+  scenario: payment.scenario,
+  created_at: payment.created_at,
+});
+
+// Send a signed webhook in the `t=<timestamp>,v1=<hmac>` format the app verifies
+async function sendWebhook(payment, type, refund) {
+  if (!payment.webhook_url) {
+    return;
+  }
+
+  const event = {
+    id: generateId('evt'),
+    type,
+    created: Math.floor(Date.now() / 1000),
+    data: {
+      payment: toPublicPayment(payment),
+      ...(refund ? { refund } : {}),
+    },
+  };
+
+  const body = JSON.stringify(event);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = crypto
+    .createHmac('sha256', WEBHOOK_SECRET)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+
+  try {
+    const response = await fetch(payment.webhook_url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Sandbox-Signature': `t=${timestamp},v1=${signature}`,
+      },
+      body,
+    });
+    console.log(`→ ${type} for ${payment.id}: ${response.status}`);
+  } catch (error) {
+    console.error(`→ ${type} for ${payment.id} failed:`, error.message);
+  }
+}
+
+// Apply a checkout outcome and notify the app
+async function completeCheckout(payment, outcome) {
+  if (payment.status !== 'created') {
+    return;
+  }
+
+  switch (outcome) {
+    case 'success':
+    case 'refund_rejected':
+      payment.status = 'authorized';
+      await sendWebhook(payment, 'payment.authorized');
+      break;
+    case 'decline':
+      payment.status = 'declined';
+      await sendWebhook(payment, 'payment.declined');
+      break;
+    case 'expire':
+      payment.status = 'expired';
+      await sendWebhook(payment, 'payment.expired');
+      break;
+    default:
+      throw new Error(`Unknown outcome: ${outcome}`);
+  }
+}
+
+function renderCheckoutPage(payment) {
+  const outcomes = [
+    ['success', 'Approve payment'],
+    ['decline', 'Decline'],
+    ['expire', 'Let it expire'],
+  ];
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <title>Sandbox Checkout</title>
+    <style>
+      body { font-family: system-ui, sans-serif; max-width: 420px; margin: 4rem auto; color: #111827; }
+      .card { border: 1px solid #e5e7eb; border-radius: 8px; padding: 1.5rem; }
+      button { display: block; width: 100%; margin-top: .5rem; padding: .6rem; border-radius: 6px; border: 1px solid #d1d5db; cursor: pointer; }
+      button.primary { background: #2563eb; border-color: #2563eb; color: white; }
+    </style>
+  </head>
+  <body>
+    <div class="card">
+      <p><strong>Sandbox Checkout</strong> &middot; no real money is moved</p>
+      <p>Order ${payment.order_id}<br/>${payment.currency} ${payment.amount}</p>
+      <form method="POST" action="/checkout/${payment.id}">
+        ${outcomes.map(([value, label], index) =>
+          `<button name="outcome" value="${value}"${index === 0 ? ' class="primary"' : ''}>${label}</button>`
+        ).join('\n        ')}
+      </form>
+    </div>
+  </body>
+</html>`;
+}
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let data = '';
+  req.on('data', (chunk) => { data += chunk; });
+  req.on('end', () => resolve(data));
+  req.on('error', reject);
+});
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const redirect = (res, location) => {
+  res.writeHead(302, { Location: location });
+  res.end();
+};
+
+async function handleApi(req, res, path, body) {
+  if (req.headers.authorization !== `Bearer ${API_KEY}`) {
+    return sendJson(res, 401, { error: 'Invalid API key' });
+  }
+
+  // Used by the app's provider health check to test the API key
+  if (req.method === 'GET' && path === '/v1/ping') {
+    return sendJson(res, 200, { ok: true });
+  }
+
+  if (req.method === 'POST' && path === '/v1/payments') {
+    const scenario = body.scenario || DEFAULT_SCENARIO;
+    if (!body.order_id || !(body.amount > 0) || !body.currency) {
+      return sendJson(res, 400, { error: 'order_id, amount and currency are required' });
+    }
+    if (!SCENARIOS.includes(scenario)) {
+      return sendJson(res, 400, { error: `scenario must be one of: ${SCENARIOS.join(', ')}` });
+    }
+
+    const payment = {
+      id: generateId('sbx'),
+      order_id: body.order_id,
+      status: 'created',
+      amount: round(body.amount),
+      currency: String(body.currency).toUpperCase(),
+      captured_amount: 0,
+      refunded_amount: 0,
+      scenario,
+      created_at: new Date().toISOString(),
+      success_url: body.success_url,
+      failure_url: body.failure_url,
+      webhook_url: body.webhook_url,
+    };
+    payments.set(payment.id, payment);
+
+    return sendJson(res, 201, {
+      payment: toPublicPayment(payment),
+      checkout_url: `http://localhost:${PORT}/checkout/${payment.id}`,
+    });
+  }
+
+  const match = path.match(/^\/v1\/payments\/([^/]+)(?:\/(capture|refunds|cancel|simulate))?$/);
+  const payment = match && payments.get(match[1]);
+  if (!payment) {
+    return sendJson(res, 404, { error: 'Payment not found' });
+  }
+
+  const action = match[2];
+
+  if (req.method === 'GET' && !action) {
+    return sendJson(res, 200, toPublicPayment(payment));
+  }
+
+  if (req.method !== 'POST') {
+    return sendJson(res, 405, { error: 'Method not allowed' });
+  }
+
+  switch (action) {
+    case 'simulate': {
+      if (payment.status !== 'created') {
+        return sendJson(res, 409, { error: `Payment is already ${payment.status}` });
+      }
+      try {
+        await completeCheckout(payment, body.outcome);
+      } catch (error) {
+        return sendJson(res, 400, { error: error.message });
+      }
+      return sendJson(res, 200, toPublicPayment(payment));
+    }
+
+    case 'capture': {
+      if (payment.status !== 'authorized') {
+        return sendJson(res, 409, { error: `Cannot capture a ${payment.status} payment` });
+      }
+      const amount = round(body.amount || payment.amount);
+      if (amount > payment.amount) {
+        return sendJson(res, 400, { error: 'Capture amount exceeds the authorized amount' });
+      }
+      payment.status = 'captured';
+      payment.captured_amount = amount;
+      await sendWebhook(payment, 'payment.captured');
+      return sendJson(res, 200, toPublicPayment(payment));
+    }
+
+    case 'refunds': {
+      if (payment.status !== 'captured' && payment.status !== 'refunded') {
+        return sendJson(res, 409, { error: `Cannot refund a ${payment.status} payment` });
+      }
+      const remaining = round(payment.captured_amount - payment.refunded_amount);
+      const amount = round(body.amount || remaining);
+      if (amount > remaining) {
+        return sendJson(res, 400, { error: 'Refund amount exceeds the refundable balance' });
+      }
+
+      const refund = { id: generateId('rf'), payment_id: payment.id, amount, status: 'succeeded' };
+      if (payment.scenario === 'refund_rejected') {
+        refund.status = 'rejected';
+        await sendWebhook(payment, 'refund.rejected', refund);
+        return sendJson(res, 200, refund);
+      }
+
+      payment.refunded_amount = round(payment.refunded_amount + amount);
+      if (payment.refunded_amount >= payment.captured_amount) {
+        payment.status = 'refunded';
+      }
+      await sendWebhook(payment, 'refund.created', refund);
+      return sendJson(res, 200, refund);
+    }
+
+    case 'cancel': {
+      if (payment.status !== 'created' && payment.status !== 'authorized') {
+        return sendJson(res, 409, { error: `Cannot cancel a ${payment.status} payment` });
+      }
+      payment.status = 'cancelled';
+      await sendWebhook(payment, 'payment.cancelled');
+      return sendJson(res, 200, toPublicPayment(payment));
+    }
+
+    default:
+      return sendJson(res, 404, { error: 'Not found' });
+  }
+}
+
+async function handleCheckout(req, res, paymentId, rawBody) {
+  const payment = payments.get(paymentId);
+  if (!payment) {
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    return res.end('Payment not found');
+  }
+
+  const outcome = req.method === 'POST'
+    ? new URLSearchParams(rawBody).get('outcome')
+    : payment.scenario !== 'manual' ? payment.scenario : null;
+
+  if (!outcome) {
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    return res.end(renderCheckoutPage(payment));
+  }
+
+  await completeCheckout(payment, outcome);
+  const succeeded = payment.status === 'authorized';
+  const returnUrl = succeeded ? payment.success_url : payment.failure_url;
+
+  if (returnUrl) {
+    return redirect(res, returnUrl);
+  }
+
+  res.writeHead(200, { 'Content-Type': 'text/plain' });
+  res.end(`Payment ${payment.status}`);
+}
+
+const server = http.createServer(async (req, res) => {
+  const { pathname } = new URL(req.url, `http://localhost:${PORT}`);
+
+  try {
+    const rawBody = await readBody(req);
+    console.log(`${req.method} ${pathname}`);
+
+    const checkoutMatch = pathname.match(/^\/checkout\/([^/]+)$/);
+    if (checkoutMatch) {
+      return await handleCheckout(req, res, checkoutMatch[1], rawBody);
+    }
+
+    if (pathname.startsWith('/v1/')) {
+      let body = {};
+      if (rawBody) {
+        try {
+          body = JSON.parse(rawBody);
+        } catch {
+          return sendJson(res, 400, { error: 'Invalid JSON body' });
+        }
+      }
+      return await handleApi(req, res, pathname, body);
+    }
+
+    sendJson(res, 404, { error: 'Not found' });
+  } catch (error) {
+    console.error('Sandbox request failed:', error);
+    sendJson(res, 500, { error: error.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`🧪 Sandbox payment provider listening on http://localhost:${PORT}`);
+  console.log(`   Default scenario: ${DEFAULT_SCENARIO}`);
+});
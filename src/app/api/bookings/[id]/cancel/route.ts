@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { cancelBooking, previewCancellation } from '@/lib/bookingDeposits';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { corsPreflight, staffProtection, withApiProtection } from '@/lib/apiProtection';
+
+// Request validation schema
+const CancelBookingSchema = z.object({
+  type: z.enum(['cancelled', 'no_show'])
+});
+
+const readProtection = staffProtection('bookings.cancel', 'read');
+const writeProtection = staffProtection('bookings.cancel', 'write');
+
+// Preview what the cancellation policy would do, without changing anything
+export const GET = withApiProtection(readProtection, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const validationResult = CancelBookingSchema.safeParse({
+      type: new URL(request.url).searchParams.get('type') || 'cancelled'
+    });
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const outcome = await previewCancellation(id, validationResult.data.type);
+
+    if (!outcome) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: outcome
+    });
+
+  } catch (error: unknown) {
+    console.error('Previewing booking cancellation failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to preview booking cancellation',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Cancel the booking or mark it as a no-show, settling the deposit and any fee
+export const POST = withApiProtection(writeProtection, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body = await request.json();
+
+    // Validate request body
+    const validationResult = CancelBookingSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const result = await cancelBooking(id, validationResult.data.type, user.uid);
+
+    if (!result.cancellation) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const origin = process.env.NEXT_PUBLIC_APP_URL || new URL(request.url).origin;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...result.cancellation,
+        fee_payment_url: result.fee_token ? `${origin}/pay/${result.fee_token}` : undefined
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('Cancelling booking failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to cancel booking',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'GET, POST, OPTIONS');
+}
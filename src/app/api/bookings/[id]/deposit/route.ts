@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getDepositQuote, requestDeposit } from '@/lib/bookingDeposits';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { corsPreflight, staffProtection, withApiProtection } from '@/lib/apiProtection';
+
+// Request validation schema
+const RequestDepositSchema = z.object({
+  expires_in_hours: z.number().int().min(1).max(24 * 30).default(48)
+});
+
+const readProtection = staffProtection('bookings.deposit', 'read');
+const writeProtection = staffProtection('bookings.deposit', 'write');
+
+// Get the deposit the booking requires and the one requested so far
+export const GET = withApiProtection(readProtection, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const { id } = await params;
+    const quote = await getDepositQuote(id);
+
+    if (!quote) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: quote
+    });
+
+  } catch (error: unknown) {
+    console.error('Getting booking deposit failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to get booking deposit',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Request the booking's deposit through a payment link
+export const POST = withApiProtection(writeProtection, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    // Validate request body
+    const validationResult = RequestDepositSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const result = await requestDeposit(id, user.uid, validationResult.data.expires_in_hours);
+
+    if (!result.deposit || !result.token) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const origin = process.env.NEXT_PUBLIC_APP_URL || new URL(request.url).origin;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...result.deposit,
+        url: `${origin}/pay/${result.token}`
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('Requesting booking deposit failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to request booking deposit',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'GET, POST, OPTIONS');
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getAvailability } from '@/lib/availability';
+import { ApiProtectionOptions, corsPreflight, withApiProtection } from '@/lib/apiProtection';
+
+// Public, so the customer app can offer times before anyone signs in. Only free start
+// times are returned, never who booked the others.
+
+// Query validation schema. Services are comma-separated IDs; list a service twice to book it twice.
+const AvailabilityQuerySchema = z.object({
+  branch_id: z.string().min(1),
+  service_ids: z.string()
+    .transform(value => value.split(',').map(id => id.trim()).filter(Boolean))
+    .pipe(z.array(z.string()).min(1, 'At least one service is required').max(10)),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+});
+
+// Booking forms look up a day at a time as customers browse, so allow a fair number
+const protection: ApiProtectionOptions = {
+  name: 'bookings.availability',
+  ip: { limit: 60, windowMs: 60 * 1000 },
+  customer: { limit: 60, windowMs: 60 * 1000 },
+};
+
+// Free start times at a branch on a day for a set of services
+export const GET = withApiProtection(protection, async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const validationResult = AvailabilityQuerySchema.safeParse({
+      branch_id: searchParams.get('branch_id') || undefined,
+      service_ids: searchParams.get('service_ids') || undefined,
+      date: searchParams.get('date') || undefined
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await getAvailability(validationResult.data);
+
+    if (!result.availability) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.availability
+    });
+
+  } catch (error: unknown) {
+    console.error('Availability lookup failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to look up availability',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'GET, OPTIONS');
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getPublicPaymentLink, startPaymentLinkCheckout } from '@/lib/paymentLinks';
+import { paymentProviderSchema } from '@/lib/paymentProviders';
+import { ApiProtectionOptions, withApiProtection } from '@/lib/apiProtection';
+
+// Public endpoints behind the /pay/[token] page. The token is the only credential.
+
+// Request validation schema
+const StartCheckoutSchema = z.object({
+  provider: paymentProviderSchema,
+  customer: z.object({
+    name: z.string().min(1).max(100).optional(),
+    email: z.string().email().optional(),
+    phone: z.string().min(7).max(20).optional(),
+  }).default({}),
+});
+
+// Limits guessing link tokens and starting checkouts over and over
+const linkProtection: ApiProtectionOptions = {
+  name: 'pay.link',
+  ip: { limit: 30, windowMs: 60 * 1000 },
+};
+
+const checkoutProtection: ApiProtectionOptions = {
+  name: 'pay.checkout',
+  ip: { limit: 10, windowMs: 60 * 1000 },
+  customer: { limit: 5, windowMs: 60 * 1000 },
+  getCustomerId: async (request) => {
+    const body = await request.json();
+    return body?.customer?.email;
+  },
+};
+
+// Get the link's amount, status and the providers the customer can choose from
+export const GET = withApiProtection(linkProtection, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) => {
+  try {
+    const { token } = await params;
+    const link = await getPublicPaymentLink(token);
+
+    if (!link) {
+      return NextResponse.json(
+        { error: 'Payment link not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: link
+    });
+
+  } catch (error: unknown) {
+    console.error('Loading payment link failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to load payment link',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Start a checkout with the chosen provider and return the page to redirect to
+export const POST = withApiProtection(checkoutProtection, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) => {
+  try {
+    const { token } = await params;
+    const body = await request.json();
+
+    const validationResult = StartCheckoutSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { provider, customer } = validationResult.data;
+    const result = await startPaymentLinkCheckout(token, provider, customer);
+
+    if (!result.checkout_url) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        checkout_url: result.checkout_url
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('Payment link checkout failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to start payment',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { paymentService } from '@/lib/paymentservice';
+import { hasValidPrecision } from '@/lib/money';
+import { ApiProtectionOptions, corsPreflight, withApiProtection } from '@/lib/apiProtection';
+
+// Public, like the /pay/[token] page it serves. Customer details are optional and only
+// used to ask the providers whether they would score this customer.
+
+// Request validation schema
+const EligibilitySchema = z.object({
+  amount: z.number().positive('Amount must be greater than 0'),
+  currency: z.string().length(3).transform(currency => currency.toUpperCase()),
+  country_code: z.string().length(2).default('SA'),
+  customer: z.object({
+    name: z.string().min(1).max(100).optional(),
+    email: z.string().email().optional(),
+    phone: z.string().min(7).max(20).optional(),
+  }).optional(),
+  items: z.array(z.object({
+    name: z.string().min(1),
+    quantity: z.number().int().positive(),
+    unit_price: z.number().positive(),
+    category: z.string().optional(),
+  })).optional(),
+  // Only check these providers, e.g. the ones the checkout is about to show
+  providers: z.array(z.string()).optional(),
+}).refine(data => hasValidPrecision(data.amount, data.currency), {
+  message: 'Amount has more decimal places than the currency allows',
+  path: ['amount'],
+});
+
+// Each check can reach out to Tamara and Tabby, so keep the rate modest
+const protection: ApiProtectionOptions = {
+  name: 'payments.eligibility',
+  ip: { limit: 30, windowMs: 60 * 1000 },
+  customer: { limit: 10, windowMs: 60 * 1000 },
+  getCustomerId: async (request) => {
+    const body = await request.json();
+    return body?.customer?.phone;
+  },
+};
+
+// Check which instalment providers would accept the basket, with their limits and the
+// amount of each instalment
+export const POST = withApiProtection(protection, async (request: NextRequest) => {
+  try {
+    const body = await request.json();
+
+    // Validate request body
+    const validationResult = EligibilitySchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { providers, ...eligibilityRequest } = validationResult.data;
+    const eligibility = await paymentService.checkBnplEligibility(eligibilityRequest, providers);
+
+    return NextResponse.json({
+      success: true,
+      data: eligibility
+    });
+
+  } catch (error: unknown) {
+    console.error('BNPL eligibility check failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to check eligibility',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'POST, OPTIONS');
+}
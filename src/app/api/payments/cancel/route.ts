@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { paymentService } from '@/lib/paymentservice';
+import { findPaymentByProviderId, getRefundableAmount, recordPayment } from '@/lib/paymentLedger';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { paymentProviderSchema } from '@/lib/paymentProviders';
+import { staffProtection, withApiProtection } from '@/lib/apiProtection';
+
+// Request validation schema
+const CancelPaymentSchema = z.object({
+  paymentId: z.string().min(1, 'Payment ID is required'),
+  provider: paymentProviderSchema
+});
+
+const protection = staffProtection('payments.cancel', 'write');
+
+// Void a payment that has not been captured yet. Captured payments must be refunded instead.
+export const POST = withApiProtection(protection, async (request: NextRequest) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body = await request.json();
+
+    // Validate request body
+    const validationResult = CancelPaymentSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { paymentId, provider } = validationResult.data;
+
+    const payment = await findPaymentByProviderId(provider, paymentId);
+    if (!payment) {
+      return NextResponse.json(
+        { error: 'Payment not found' },
+        { status: 404 }
+      );
+    }
+
+    if (['cancelled', 'failed', 'refunded'].includes(payment.status) || getRefundableAmount(payment) > 0) {
+      return NextResponse.json(
+        { error: 'Only payments that have not been captured can be voided' },
+        { status: 409 }
+      );
+    }
+
+    if (!paymentService.isProviderEnabled(provider)) {
+      return NextResponse.json(
+        { error: `${provider} is not configured or enabled` },
+        { status: 503 }
+      );
+    }
+
+    await paymentService.cancelPayment(provider, paymentId, { amount: payment.amount, currency: payment.currency });
+
+    await recordPayment(payment.order_id, {
+      provider,
+      provider_payment_id: paymentId,
+      source: 'admin',
+      status: 'cancelled',
+      metadata: {
+        cancelled_by: user.uid,
+      },
+      event: 'admin.cancel',
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        order_id: payment.order_id,
+        status: 'cancelled'
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('Payment cancellation failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to cancel payment',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { paymentService } from '@/lib/paymentservice';
+import { findPaymentByProviderId, getRefundableAmount, isAwaitingCapture, recordPayment } from '@/lib/paymentLedger';
+import { formatMoney, hasValidPrecision } from '@/lib/money';
+import { getPaymentProvider, paymentProviderSchema } from '@/lib/paymentProviders';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { staffProtection, withApiProtection } from '@/lib/apiProtection';
+
+// Request validation schema. Without an amount the full authorized amount is captured.
+const CapturePaymentSchema = z.object({
+  paymentId: z.string().min(1, 'Payment ID is required'),
+  provider: paymentProviderSchema.refine(id => getPaymentProvider(id)?.requiresCapture, (id) => ({
+    message: `${id} payments do not need to be captured`
+  })),
+  amount: z.number().positive('Amount must be greater than 0').optional()
+});
+
+const protection = staffProtection('payments.capture', 'write');
+
+// Capture an authorized BNPL order, or any other payment whose provider requires capture
+export const POST = withApiProtection(protection, async (request: NextRequest) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body = await request.json();
+
+    // Validate request body
+    const validationResult = CapturePaymentSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { paymentId, provider, amount } = validationResult.data;
+
+    const payment = await findPaymentByProviderId(provider, paymentId);
+    if (!payment) {
+      return NextResponse.json(
+        { error: 'Payment not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!isAwaitingCapture(payment)) {
+      return NextResponse.json(
+        { error: 'This payment is not awaiting capture' },
+        { status: 409 }
+      );
+    }
+
+    const captureAmount = amount ?? payment.amount;
+    if (!hasValidPrecision(captureAmount, payment.currency)) {
+      return NextResponse.json(
+        { error: `Amount has more decimal places than ${payment.currency} allows` },
+        { status: 400 }
+      );
+    }
+
+    if (captureAmount > payment.amount) {
+      return NextResponse.json(
+        { error: `Capture amount exceeds the authorized amount of ${formatMoney({ amount: payment.amount, currency: payment.currency })}` },
+        { status: 400 }
+      );
+    }
+
+    if (!paymentService.isProviderEnabled(provider)) {
+      return NextResponse.json(
+        { error: `${provider} is not configured or enabled` },
+        { status: 503 }
+      );
+    }
+
+    await paymentService.capturePayment(provider, paymentId, { amount: captureAmount, currency: payment.currency });
+
+    const updated = await recordPayment(payment.order_id, {
+      provider,
+      provider_payment_id: paymentId,
+      source: 'admin',
+      status: 'completed',
+      metadata: {
+        amount_captured: captureAmount,
+        captured_by: user.uid,
+      },
+      event: 'admin.capture',
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        order_id: payment.order_id,
+        amount: captureAmount,
+        currency: payment.currency,
+        refundable_amount: getRefundableAmount(updated)
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('Payment capture failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to capture payment',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getGiftCard, listGiftCardTransactions, setGiftCardDisabled } from '@/lib/giftCardService';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { corsPreflight, staffProtection, withApiProtection } from '@/lib/apiProtection';
+
+// Request validation schema
+const UpdateGiftCardSchema = z.object({
+  disabled: z.boolean()
+});
+
+const readProtection = staffProtection('payments.gift-cards', 'read');
+const writeProtection = staffProtection('payments.gift-cards', 'write');
+
+// Get a gift card's balance and transaction history
+export const GET = withApiProtection(readProtection, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const { code } = await params;
+    const card = await getGiftCard(code);
+
+    if (!card) {
+      return NextResponse.json(
+        { error: 'Gift card not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...card,
+        transactions: await listGiftCardTransactions(card.id)
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('Getting gift card failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to get gift card',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Disable a gift card (e.g. reported lost) or enable it again
+export const PATCH = withApiProtection(writeProtection, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body = await request.json();
+
+    const validationResult = UpdateGiftCardSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { code } = await params;
+    const card = await setGiftCardDisabled(code, validationResult.data.disabled, user.uid);
+
+    if (!card) {
+      return NextResponse.json(
+        { error: 'Gift card not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: card
+    });
+
+  } catch (error: unknown) {
+    console.error('Updating gift card failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update gift card',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'GET, PATCH, OPTIONS');
+}
@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { collection, getDocs, limit, query, where } from 'firebase/firestore';
+import { getServerDb } from '@/lib/firebaseServer';
+import { issueGiftCard, listGiftCards } from '@/lib/giftCardService';
+import { createPaymentLink, revokePaymentLink } from '@/lib/paymentLinks';
+import { PaymentSecurity } from '@/lib/security';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { corsPreflight, staffProtection, withApiProtection } from '@/lib/apiProtection';
+
+// Request validation schema. Sold cards are paid for through a payment link and only
+// become usable once it is paid; other cards are active straight away.
+const IssueGiftCardSchema = z.object({
+  amount: z.number().positive('Amount must be greater than 0'),
+  currency: z.string().length(3, 'Currency must be a 3-letter ISO code').transform(value => value.toUpperCase()),
+  expires_in_months: z.number().int().min(1).max(60).default(12),
+  customer_id: z.string().min(1).optional(),
+  customer_email: z.string().email().optional(),
+  recipient_name: z.string().max(100).optional(),
+  message: z.string().max(500).optional(),
+  sell: z.boolean().default(false),
+});
+
+// Find the customer record a card is issued to
+async function findCustomerId(email: string): Promise<string | null> {
+  const q = query(collection(await getServerDb(), 'customers'), where('email', '==', email), limit(1));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs[0]?.id || null;
+}
+
+const readProtection = staffProtection('payments.gift-cards', 'read');
+const writeProtection = staffProtection('payments.gift-cards', 'write');
+
+// List gift cards, optionally only those of one customer
+export const GET = withApiProtection(readProtection, async (request: NextRequest) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const customerId = new URL(request.url).searchParams.get('customer_id') || undefined;
+    const cards = await listGiftCards(customerId);
+
+    return NextResponse.json({
+      success: true,
+      data: cards
+    });
+
+  } catch (error: unknown) {
+    console.error('Listing gift cards failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to list gift cards',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Issue or sell a gift card
+export const POST = withApiProtection(writeProtection, async (request: NextRequest) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body = await request.json();
+
+    // Validate request body
+    const validationResult = IssueGiftCardSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const input = validationResult.data;
+
+    try {
+      PaymentSecurity.validateAmount(input.amount, input.currency);
+    } catch (validationError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: [validationError instanceof Error ? validationError.message : 'Invalid amount']
+        },
+        { status: 400 }
+      );
+    }
+
+    let customerId = input.customer_id;
+    if (!customerId && input.customer_email) {
+      customerId = await findCustomerId(input.customer_email) || undefined;
+      if (!customerId) {
+        return NextResponse.json(
+          { error: `No customer found with email ${input.customer_email}` },
+          { status: 404 }
+        );
+      }
+    }
+
+    const expiresAt = new Date();
+    expiresAt.setMonth(expiresAt.getMonth() + input.expires_in_months);
+
+    let sale: Awaited<ReturnType<typeof createPaymentLink>> | null = null;
+    if (input.sell) {
+      sale = await createPaymentLink({
+        description: input.recipient_name ? `Gift card for ${input.recipient_name}` : 'Gift card',
+        amount: input.amount,
+        currency: input.currency,
+        customer: input.customer_email ? { email: input.customer_email } : undefined,
+        metadata: { gift_card_sale: true },
+        expires_in_hours: 72,
+        created_by: user.uid,
+      });
+    }
+
+    let card;
+    try {
+      card = await issueGiftCard({
+        amount: input.amount,
+        currency: input.currency,
+        expires_at: expiresAt,
+        customer_id: customerId,
+        recipient_name: input.recipient_name,
+        message: input.message,
+        sale_link_id: sale?.link.id,
+        issued_by: user.uid,
+      });
+    } catch (issueError) {
+      // Don't leave a link behind that would take payment for a card that does not exist
+      if (sale) {
+        await revokePaymentLink(sale.link.id, user.uid);
+      }
+      throw issueError;
+    }
+
+    const origin = process.env.NEXT_PUBLIC_APP_URL || new URL(request.url).origin;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...card,
+        ...(sale ? { payment_url: `${origin}/pay/${sale.token}` } : {})
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('Gift card issue failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to issue gift card',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'GET, POST, OPTIONS');
+}
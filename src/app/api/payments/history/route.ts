@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPaymentStatusHistory } from '@/lib/paymentLedger';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { corsPreflight, staffProtection, withApiProtection } from '@/lib/apiProtection';
+
+const protection = staffProtection('payments.history', 'read');
+
+// Status changes of a payment, with where each came from
+export const GET = withApiProtection(protection, async (request: NextRequest) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const orderId = new URL(request.url).searchParams.get('order_id');
+    if (!orderId) {
+      return NextResponse.json(
+        { error: 'order_id is required' },
+        { status: 400 }
+      );
+    }
+
+    const history = await getPaymentStatusHistory(orderId);
+
+    return NextResponse.json({
+      success: true,
+      data: history
+    });
+
+  } catch (error: unknown) {
+    console.error('Getting payment status history failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to get payment status history',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'GET, OPTIONS');
+}
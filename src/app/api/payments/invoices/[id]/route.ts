@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getInvoice } from '@/lib/invoiceService';
+import { renderInvoiceHtml, renderInvoicePdf } from '@/lib/invoiceRenderer';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { corsPreflight, staffProtection, withApiProtection } from '@/lib/apiProtection';
+
+const protection = staffProtection('payments.invoices', 'read');
+
+// Get an invoice or credit note as JSON (default), printable HTML (?format=html) or PDF (?format=pdf)
+export const GET = withApiProtection(protection, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const { id } = await params;
+    const invoice = await getInvoice(id);
+
+    if (!invoice) {
+      return NextResponse.json(
+        { error: 'Invoice not found' },
+        { status: 404 }
+      );
+    }
+
+    const format = new URL(request.url).searchParams.get('format') || 'json';
+
+    if (format === 'html') {
+      return new NextResponse(await renderInvoiceHtml(invoice), {
+        headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      });
+    }
+
+    if (format === 'pdf') {
+      return new NextResponse(Buffer.from(await renderInvoicePdf(invoice)), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${invoice.number}.pdf"`,
+        },
+      });
+    }
+
+    if (format !== 'json') {
+      return NextResponse.json(
+        { error: 'format must be json, html or pdf' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: invoice
+    });
+
+  } catch (error: unknown) {
+    console.error('Getting invoice failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to get invoice',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'GET, OPTIONS');
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { listInvoices, syncPaymentInvoices } from '@/lib/invoiceService';
+import { getPayment } from '@/lib/paymentLedger';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { corsPreflight, staffProtection, withApiProtection } from '@/lib/apiProtection';
+
+// Request validation schema
+const IssueInvoiceSchema = z.object({
+  order_id: z.string().min(1, 'Order ID is required')
+});
+
+const readProtection = staffProtection('payments.invoices', 'read');
+const writeProtection = staffProtection('payments.invoices', 'write');
+
+// List the invoice and credit notes of an order
+export const GET = withApiProtection(readProtection, async (request: NextRequest) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const orderId = new URL(request.url).searchParams.get('order_id');
+    if (!orderId) {
+      return NextResponse.json(
+        { error: 'order_id is required' },
+        { status: 400 }
+      );
+    }
+
+    const invoices = await listInvoices(orderId);
+
+    return NextResponse.json({
+      success: true,
+      data: invoices
+    });
+
+  } catch (error: unknown) {
+    console.error('Listing invoices failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to list invoices',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Issue any tax documents a payment is missing, e.g. after its branch got a VAT number.
+// Invoices are normally issued automatically when the payment completes or is refunded.
+export const POST = withApiProtection(writeProtection, async (request: NextRequest) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body = await request.json();
+
+    const validationResult = IssueInvoiceSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const payment = await getPayment(validationResult.data.order_id);
+    if (!payment) {
+      return NextResponse.json(
+        { error: 'Payment not found' },
+        { status: 404 }
+      );
+    }
+
+    if (payment.status !== 'completed' && payment.status !== 'refunded') {
+      return NextResponse.json(
+        { error: `Cannot invoice a ${payment.status} payment` },
+        { status: 409 }
+      );
+    }
+
+    const result = await syncPaymentInvoices(payment);
+    if (result.error) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await listInvoices(payment.order_id)
+    });
+
+  } catch (error: unknown) {
+    console.error('Issuing invoice failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to issue invoice',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'GET, POST, OPTIONS');
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revokePaymentLink } from '@/lib/paymentLinks';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { staffProtection, withApiProtection } from '@/lib/apiProtection';
+
+const protection = staffProtection('payments.links', 'write');
+
+// Revoke a payment link
+export const DELETE = withApiProtection(protection, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const { id } = await params;
+    const link = await revokePaymentLink(id, user.uid);
+
+    if (!link) {
+      return NextResponse.json(
+        { error: 'Payment link not found' },
+        { status: 404 }
+      );
+    }
+
+    if (link.status === 'paid') {
+      return NextResponse.json(
+        { error: 'This payment link has already been paid' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: link
+    });
+
+  } catch (error: unknown) {
+    console.error('Revoking payment link failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to revoke payment link',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { doc, getDoc } from 'firebase/firestore';
+import { getServerDb } from '@/lib/firebaseServer';
+import { createPaymentLink, listPaymentLinks } from '@/lib/paymentLinks';
+import { PaymentSecurity } from '@/lib/security';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { corsPreflight, staffProtection, withApiProtection } from '@/lib/apiProtection';
+import { PaymentLinkCustomer } from '@/types/payment';
+
+// Request validation schema. For booking links the customer and branch come from the booking.
+const CreatePaymentLinkSchema = z.object({
+  booking_id: z.string().min(1).optional(),
+  amount: z.number().positive('Amount must be greater than 0'),
+  currency: z.string().length(3, 'Currency must be a 3-letter ISO code').transform(value => value.toUpperCase()),
+  description: z.string().min(1).max(200).optional(),
+  expires_in_hours: z.number().int().min(1).max(24 * 30).default(72),
+  customer: z.object({
+    name: z.string().optional(),
+    email: z.string().email().optional(),
+    phone: z.string().optional(),
+  }).optional(),
+}).refine(data => data.booking_id || data.description, {
+  message: 'A description is required for links that are not tied to a booking',
+  path: ['description'],
+});
+
+// Look up the booking's customer and branch
+async function getBookingDetails(bookingId: string) {
+  const db = await getServerDb();
+  const bookingDoc = await getDoc(doc(db, 'bookings', bookingId));
+  if (!bookingDoc.exists()) {
+    return null;
+  }
+
+  const booking = bookingDoc.data();
+  const customer: PaymentLinkCustomer = { name: booking.customerName || undefined };
+
+  if (booking.userId) {
+    const userDoc = await getDoc(doc(db, 'users', booking.userId));
+    if (userDoc.exists()) {
+      const user = userDoc.data();
+      customer.name = customer.name || user.name || user.displayName || undefined;
+      customer.email = user.email || undefined;
+      customer.phone = user.phone || user.phoneNumber || undefined;
+    }
+  }
+
+  return { customer, branch: booking.branch as string | undefined };
+}
+
+const readProtection = staffProtection('payments.links', 'read');
+const writeProtection = staffProtection('payments.links', 'write');
+
+// List the payment links of a booking
+export const GET = withApiProtection(readProtection, async (request: NextRequest) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const bookingId = new URL(request.url).searchParams.get('booking_id');
+    if (!bookingId) {
+      return NextResponse.json(
+        { error: 'booking_id is required' },
+        { status: 400 }
+      );
+    }
+
+    const links = await listPaymentLinks(bookingId);
+
+    return NextResponse.json({
+      success: true,
+      data: links
+    });
+
+  } catch (error: unknown) {
+    console.error('Listing payment links failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to list payment links',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Create a payment link for a booking or an ad-hoc amount
+export const POST = withApiProtection(writeProtection, async (request: NextRequest) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body = await request.json();
+
+    // Validate request body
+    const validationResult = CreatePaymentLinkSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const input = validationResult.data;
+
+    try {
+      PaymentSecurity.validateAmount(input.amount, input.currency);
+    } catch (validationError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: [validationError instanceof Error ? validationError.message : 'Invalid amount']
+        },
+        { status: 400 }
+      );
+    }
+
+    let customer = input.customer;
+    let branch: string | undefined;
+
+    if (input.booking_id) {
+      const booking = await getBookingDetails(input.booking_id);
+      if (!booking) {
+        return NextResponse.json(
+          { error: 'Booking not found' },
+          { status: 404 }
+        );
+      }
+      customer = { ...booking.customer, ...input.customer };
+      branch = booking.branch;
+    }
+
+    const { link, token } = await createPaymentLink({
+      booking_id: input.booking_id,
+      description: input.description || `Booking ${input.booking_id}`,
+      amount: input.amount,
+      currency: input.currency,
+      customer,
+      branch,
+      expires_in_hours: input.expires_in_hours,
+      created_by: user.uid,
+    });
+
+    const origin = process.env.NEXT_PUBLIC_APP_URL || new URL(request.url).origin;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...link,
+        url: `${origin}/pay/${token}`
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('Payment link creation failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to create payment link',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'GET, POST, OPTIONS');
+}
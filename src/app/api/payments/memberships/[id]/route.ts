@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { updateMembershipCancellation } from '@/lib/membershipService';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { corsPreflight, staffProtection, withApiProtection } from '@/lib/apiProtection';
+
+// Request validation schema
+const UpdateMembershipSchema = z.object({
+  action: z.enum(['cancel', 'cancel_at_period_end', 'resume'])
+});
+
+const protection = staffProtection('payments.memberships', 'write');
+
+// Cancel a membership straight away or at the end of the paid period, or resume one
+// that is set to cancel
+export const PATCH = withApiProtection(protection, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body = await request.json();
+
+    const validationResult = UpdateMembershipSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const membership = await updateMembershipCancellation(id, validationResult.data.action);
+
+    if (!membership) {
+      return NextResponse.json(
+        { error: 'Membership not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: membership
+    });
+
+  } catch (error: unknown) {
+    console.error('Updating membership failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update membership',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'PATCH, OPTIONS');
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { includedServicesSchema, updateMembershipPlan } from '@/lib/membershipService';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { corsPreflight, staffProtection, withApiProtection } from '@/lib/apiProtection';
+
+// Request validation schema. The tier and price cannot change once members are on the plan.
+const UpdateMembershipPlanSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  included_services: includedServicesSchema.optional(),
+  discount_percent: z.number().min(0).max(100).optional(),
+  active: z.boolean().optional()
+});
+
+const protection = staffProtection('payments.membership-plans', 'write');
+
+// Update a plan's benefits, or take it off sale
+export const PATCH = withApiProtection(protection, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body = await request.json();
+
+    const validationResult = UpdateMembershipPlanSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const plan = await updateMembershipPlan(id, validationResult.data);
+
+    if (!plan) {
+      return NextResponse.json(
+        { error: 'Membership plan not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: plan
+    });
+
+  } catch (error: unknown) {
+    console.error('Updating membership plan failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update membership plan',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'PATCH, OPTIONS');
+}
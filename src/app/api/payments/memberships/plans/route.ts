@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createMembershipPlan, includedServicesSchema, listMembershipPlans } from '@/lib/membershipService';
+import { PaymentSecurity } from '@/lib/security';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { corsPreflight, staffProtection, withApiProtection } from '@/lib/apiProtection';
+
+// Request validation schema
+const CreateMembershipPlanSchema = z.object({
+  name: z.string().min(1).max(100),
+  tier: z.enum(['silver', 'gold', 'platinum']),
+  monthly_price: z.number().positive('Monthly price must be greater than 0'),
+  currency: z.string().length(3, 'Currency must be a 3-letter ISO code').transform(value => value.toUpperCase()),
+  included_services: includedServicesSchema.default([]),
+  discount_percent: z.number().min(0).max(100).default(0)
+});
+
+const readProtection = staffProtection('payments.membership-plans', 'read');
+const writeProtection = staffProtection('payments.membership-plans', 'write');
+
+// List membership plans, including those no longer on sale
+export const GET = withApiProtection(readProtection, async (request: NextRequest) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const activeOnly = new URL(request.url).searchParams.get('active') === 'true';
+    const plans = await listMembershipPlans(activeOnly);
+
+    return NextResponse.json({
+      success: true,
+      data: plans
+    });
+
+  } catch (error: unknown) {
+    console.error('Listing membership plans failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to list membership plans',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Create a plan and its monthly Stripe price
+export const POST = withApiProtection(writeProtection, async (request: NextRequest) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body = await request.json();
+
+    // Validate request body
+    const validationResult = CreateMembershipPlanSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const input = validationResult.data;
+
+    try {
+      PaymentSecurity.validateAmount(input.monthly_price, input.currency);
+    } catch (validationError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: [validationError instanceof Error ? validationError.message : 'Invalid amount']
+        },
+        { status: 400 }
+      );
+    }
+
+    const plan = await createMembershipPlan({
+      ...input,
+      created_by: user.email || user.uid
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: plan
+    });
+
+  } catch (error: unknown) {
+    console.error('Creating membership plan failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to create membership plan',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'GET, POST, OPTIONS');
+}
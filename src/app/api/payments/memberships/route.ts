@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { listMemberships, startMembershipSignup } from '@/lib/membershipService';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { corsPreflight, staffProtection, withApiProtection } from '@/lib/apiProtection';
+
+// Request validation schema
+const MembershipSignupSchema = z.object({
+  customer_id: z.string().min(1),
+  plan_id: z.string().min(1)
+});
+
+const readProtection = staffProtection('payments.memberships', 'read');
+const writeProtection = staffProtection('payments.memberships', 'write');
+
+// List a customer's memberships
+export const GET = withApiProtection(readProtection, async (request: NextRequest) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const customerId = new URL(request.url).searchParams.get('customer_id');
+    if (!customerId) {
+      return NextResponse.json(
+        { error: 'customer_id is required' },
+        { status: 400 }
+      );
+    }
+
+    const memberships = await listMemberships(customerId);
+
+    return NextResponse.json({
+      success: true,
+      data: memberships
+    });
+
+  } catch (error: unknown) {
+    console.error('Listing memberships failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to list memberships',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Sign a customer up to a plan. Returns a Stripe Checkout link to send them; the membership
+// appears once they have entered their card.
+export const POST = withApiProtection(writeProtection, async (request: NextRequest) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body = await request.json();
+
+    // Validate request body
+    const validationResult = MembershipSignupSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const origin = process.env.NEXT_PUBLIC_APP_URL || new URL(request.url).origin;
+    const result = await startMembershipSignup(validationResult.data.customer_id, validationResult.data.plan_id, origin);
+
+    if (!result.checkout_url) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { checkout_url: result.checkout_url }
+    });
+
+  } catch (error: unknown) {
+    console.error('Membership signup failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to start membership signup',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'GET, POST, OPTIONS');
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProviderHealth } from '@/lib/providerHealth';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { corsPreflight, staffProtection, withApiProtection } from '@/lib/apiProtection';
+
+const protection = staffProtection('payments.providers', 'read');
+
+// Configuration, mode and connectivity of every payment provider.
+// Pass `?refresh=true` to probe again instead of using recent results.
+export const GET = withApiProtection(protection, async (request: NextRequest) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const providers = await getProviderHealth(searchParams.get('refresh') === 'true');
+
+    return NextResponse.json({
+      success: true,
+      data: providers
+    });
+
+  } catch (error: unknown) {
+    console.error('Provider health check failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to check payment providers',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'GET, OPTIONS');
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { listReconciliationReports, runReconciliation } from '@/lib/paymentReconciliation';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { corsPreflight, staffProtection, withApiProtection } from '@/lib/apiProtection';
+
+// Request validation schema
+const RunReconciliationSchema = z.object({
+  lookbackDays: z.number().int().min(1).max(90).optional()
+});
+
+const ReconciliationReportsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional()
+});
+
+const readProtection = staffProtection('payments.reconciliation', 'read');
+const writeProtection = staffProtection('payments.reconciliation', 'write');
+
+// List previous reconciliation reports, newest first
+export const GET = withApiProtection(readProtection, async (request: NextRequest) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    const validationResult = ReconciliationReportsQuerySchema.safeParse({
+      limit: searchParams.get('limit') || undefined
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const reports = await listReconciliationReports(validationResult.data.limit);
+
+    return NextResponse.json({
+      success: true,
+      data: reports
+    });
+
+  } catch (error: unknown) {
+    console.error('Listing reconciliation reports failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to list reconciliation reports',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Run a reconciliation on demand
+export const POST = withApiProtection(writeProtection, async (request: NextRequest) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    const validationResult = RunReconciliationSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const report = await runReconciliation({
+      lookbackDays: validationResult.data.lookbackDays,
+      trigger: 'manual',
+      triggeredBy: user.uid
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: report
+    });
+
+  } catch (error: unknown) {
+    console.error('Reconciliation failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to run reconciliation',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'GET, POST, OPTIONS');
+}
@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { runReconciliation } from '@/lib/paymentReconciliation';
+
+// Entry point for a scheduler (e.g. Vercel Cron or any external cron hitting this URL).
+// The caller must send `Authorization: Bearer <CRON_SECRET>`.
+const isAuthorizedScheduler = (request: NextRequest): boolean => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return false;
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(request.headers.get('authorization') || '');
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedScheduler(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const lookbackDays = parseInt(process.env.RECONCILIATION_LOOKBACK_DAYS || '', 10) || undefined;
+    const report = await runReconciliation({ lookbackDays, trigger: 'scheduled' });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: report.id,
+        checked: report.checked,
+        skipped: report.skipped,
+        discrepancies: report.discrepancies.length
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('Scheduled reconciliation failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to run reconciliation',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  importSettlementReport,
+  listSettlementImports,
+  MAX_SETTLEMENT_ROWS,
+  SETTLEMENT_PROVIDERS
+} from '@/lib/settlementImport';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { corsPreflight, staffProtection, withApiProtection } from '@/lib/apiProtection';
+import { SettlementProvider } from '@/types/payment';
+
+const settlementProviderSchema = z.enum(SETTLEMENT_PROVIDERS as [SettlementProvider, ...SettlementProvider[]]);
+
+// Request validation schema. Rows are the cells of the report's first sheet, header row first.
+const ImportSettlementSchema = z.object({
+  provider: settlementProviderSchema,
+  file_name: z.string().min(1).max(255),
+  rows: z.array(
+    z.array(z.union([z.string(), z.number(), z.boolean(), z.null()]))
+  ).min(2, 'The report has no settlement lines').max(MAX_SETTLEMENT_ROWS + 1, `Reports are limited to ${MAX_SETTLEMENT_ROWS} lines`)
+});
+
+const SettlementImportsQuerySchema = z.object({
+  provider: settlementProviderSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional()
+});
+
+const readProtection = staffProtection('payments.settlements', 'read');
+const writeProtection = staffProtection('payments.settlements', 'write');
+
+// List previous settlement imports, newest first
+export const GET = withApiProtection(readProtection, async (request: NextRequest) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    const validationResult = SettlementImportsQuerySchema.safeParse({
+      provider: searchParams.get('provider') || undefined,
+      limit: searchParams.get('limit') || undefined
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const imports = await listSettlementImports(validationResult.data.provider, validationResult.data.limit);
+
+    return NextResponse.json({
+      success: true,
+      data: imports
+    });
+
+  } catch (error: unknown) {
+    console.error('Listing settlement imports failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to list settlement imports',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Import a provider's settlement or payout report and match it against the ledger
+export const POST = withApiProtection(writeProtection, async (request: NextRequest) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body = await request.json();
+
+    // Validate request body
+    const validationResult = ImportSettlementSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await importSettlementReport({
+      ...validationResult.data,
+      imported_by: user.email || user.uid
+    });
+
+    if (!result.settlementImport) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.settlementImport
+    });
+
+  } catch (error: unknown) {
+    console.error('Settlement import failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to import settlement report',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'GET, POST, OPTIONS');
+}
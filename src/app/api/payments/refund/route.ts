@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { paymentService } from '@/lib/paymentservice';
+import { findPaymentByProviderId, getRefundableAmount, recordPayment, releaseRefund, reserveRefund } from '@/lib/paymentLedger';
+import { formatMoney, hasValidPrecision, subtractMoney } from '@/lib/money';
+import { PaymentSecurity } from '@/lib/security';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { getPaymentProvider, paymentProviderSchema } from '@/lib/paymentProviders';
+import { staffProtection, withApiProtection } from '@/lib/apiProtection';
+
+// Request validation schema. Without an amount the full remaining balance is refunded.
+const RefundPaymentSchema = z.object({
+  paymentId: z.string().min(1, 'Payment ID is required'),
+  provider: paymentProviderSchema,
+  amount: z.number().positive('Amount must be greater than 0').optional(),
+  reason: z.string().max(500).optional()
+});
+
+const protection = staffProtection('payments.refund', 'write');
+
+export const POST = withApiProtection(protection, async (request: NextRequest) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body = await request.json();
+
+    // Validate request body
+    const validationResult = RefundPaymentSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { paymentId, provider, amount, reason } = validationResult.data;
+
+    const payment = await findPaymentByProviderId(provider, paymentId);
+    if (!payment) {
+      return NextResponse.json(
+        { error: 'Payment not found' },
+        { status: 404 }
+      );
+    }
+
+    const refundable = getRefundableAmount(payment);
+    if (refundable <= 0) {
+      return NextResponse.json(
+        { error: 'This payment has no refundable balance' },
+        { status: 409 }
+      );
+    }
+
+    const refundAmount = amount ?? refundable;
+    if (!hasValidPrecision(refundAmount, payment.currency)) {
+      return NextResponse.json(
+        { error: `Amount has more decimal places than ${payment.currency} allows` },
+        { status: 400 }
+      );
+    }
+
+    if (refundAmount > refundable) {
+      return NextResponse.json(
+        { error: `Refund amount exceeds the remaining refundable balance of ${formatMoney({ amount: refundable, currency: payment.currency })}` },
+        { status: 400 }
+      );
+    }
+
+    if (!paymentService.isProviderEnabled(provider)) {
+      return NextResponse.json(
+        { error: `${provider} is not configured or enabled` },
+        { status: 503 }
+      );
+    }
+
+    // Hold the amount before asking the provider, so a second refund sent at the same
+    // time is checked against what is left after this one
+    const available = await reserveRefund(payment.order_id, refundAmount);
+    if (available === null) {
+      return NextResponse.json(
+        { error: 'The refundable balance has changed, possibly because of another refund. Refresh and try again.' },
+        { status: 409 }
+      );
+    }
+
+    const refund = { amount: refundAmount, currency: payment.currency };
+    let response: Record<string, unknown>;
+    try {
+      response = await paymentService.refundPayment(provider, paymentId, refund);
+    } catch (error) {
+      await releaseRefund(payment.order_id, refundAmount);
+      throw error;
+    }
+    const refundId = getPaymentProvider(provider)?.getRefundId?.(response);
+
+    const remaining = subtractMoney({ amount: available, currency: payment.currency }, refund).amount;
+
+    await recordPayment(payment.order_id, {
+      provider,
+      provider_payment_id: paymentId,
+      source: 'admin',
+      status: remaining === 0 ? 'refunded' : undefined,
+      settled_refund: refundAmount,
+      refund_id: refundId,
+      metadata: {
+        refunded_by: user.uid,
+        ...(refundId ? { refund_id: refundId } : {}),
+        ...(reason ? { refund_reason: reason } : {}),
+      },
+      event: 'admin.refund',
+    });
+
+    await PaymentSecurity.logSecurityEvent('payment_refunded', {
+      order_id: payment.order_id,
+      provider,
+      payment_id: paymentId,
+      refund_id: refundId,
+      amount: refundAmount,
+      currency: payment.currency,
+      reason,
+    }, 'medium', { actor: user.email || user.uid, ip: PaymentSecurity.getClientIp(request) });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        order_id: payment.order_id,
+        refund_id: refundId,
+        amount: refundAmount,
+        currency: payment.currency,
+        refundable_amount: remaining
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('Payment refund failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to refund payment',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
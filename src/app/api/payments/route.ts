@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { paymentService, UnifiedPaymentRequest } from '@/lib/paymentservice';
+import { getPayment, recordPayment } from '@/lib/paymentLedger';
+import { getPaymentProvider, paymentProviderSchema } from '@/lib/paymentProviders';
+import { ApiProtectionOptions, corsPreflight, withApiProtection } from '@/lib/apiProtection';
+import { authenticateRequest } from '@/lib/serverAuth';
+
+// Request validation schema, shared by all providers. Provider-specific
+// requirements are checked by paymentService.validatePaymentRequest.
+const CreatePaymentSchema = z.object({
+  provider: paymentProviderSchema,
+  amount: z.number().positive('Amount must be greater than 0'),
+  currency: z.string().length(3, 'Currency must be a 3-letter ISO code').transform(value => value.toUpperCase()),
+  order_id: z.string().min(1, 'Order ID is required'),
+  customer: z.object({
+    id: z.string().optional(),
+    email: z.string().email(),
+    phone: z.string(),
+    name: z.string().min(1),
+    first_name: z.string().optional(),
+    last_name: z.string().optional(),
+  }).optional(),
+  items: z.array(z.object({
+    name: z.string().min(1),
+    quantity: z.number().int().positive(),
+    unit_price: z.number().positive(),
+    category: z.string().optional(),
+    sku: z.string().optional(),
+    type: z.string().optional(),
+  })).optional(),
+  shipping_address: z.object({
+    first_name: z.string(),
+    last_name: z.string(),
+    line1: z.string(),
+    city: z.string(),
+    country_code: z.string().length(2),
+    phone_number: z.string(),
+  }).optional(),
+  // Only keys the providers read. Anything else is dropped, in particular the amounts
+  // captured and refunded that the ledger keeps in metadata.
+  metadata: z.object({
+    booking_id: z.string().optional(),
+    gift_card_code: z.string().optional(),
+    sandbox_scenario: z.string().optional(),
+  }).optional(),
+  branch: z.string().optional(),
+});
+
+// Per-IP and per-customer limits on creating payments
+const protection: ApiProtectionOptions = {
+  name: 'payments.create',
+  ip: { limit: 20, windowMs: 60 * 1000 },
+  customer: { limit: 5, windowMs: 60 * 1000 },
+};
+
+// Create a payment with any configured provider
+export const POST = withApiProtection(protection, async (request: NextRequest) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body = await request.json();
+
+    // Validate request body
+    const validationResult = CreatePaymentSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const paymentRequest: UnifiedPaymentRequest = validationResult.data;
+
+    // Customers can only pay for themselves; admins can take payments for any customer
+    const customerId = user.role === 'admin' ? paymentRequest.customer?.id : user.uid;
+    if (paymentRequest.customer) {
+      paymentRequest.customer.id = customerId;
+    }
+
+    const { valid, errors } = paymentService.validatePaymentRequest(paymentRequest);
+    if (!valid) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: errors
+        },
+        { status: 400 }
+      );
+    }
+
+    if (getPaymentProvider(paymentRequest.provider)?.staffOnly) {
+      return NextResponse.json(
+        { error: `${paymentRequest.provider} payments can only be taken by staff` },
+        { status: 403 }
+      );
+    }
+
+    if (!paymentService.isProviderEnabled(paymentRequest.provider)) {
+      return NextResponse.json(
+        { error: `${paymentRequest.provider} is not configured or enabled` },
+        { status: 503 }
+      );
+    }
+
+    // An order ID that is already in the ledger belongs to an earlier payment, possibly
+    // another customer's, so it is never reused
+    if (await getPayment(paymentRequest.order_id)) {
+      return NextResponse.json(
+        { error: 'A payment has already been created for this order' },
+        { status: 409 }
+      );
+    }
+
+    const payment = await paymentService.createPayment(paymentRequest);
+
+    // The provider payment already exists at this point, so a ledger failure is
+    // logged rather than returned; the first webhook will create the entry instead.
+    try {
+      await recordPayment(paymentRequest.order_id, {
+        provider: payment.provider,
+        provider_payment_id: payment.payment_id,
+        source: 'checkout',
+        status: payment.status,
+        amount: paymentRequest.amount,
+        currency: paymentRequest.currency,
+        customer_id: customerId,
+        branch: paymentRequest.branch,
+        metadata: paymentRequest.metadata,
+      });
+    } catch (error) {
+      console.error('Failed to record created payment in ledger:', error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: payment
+    });
+
+  } catch (error: unknown) {
+    console.error('Payment creation failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to create payment',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'POST, OPTIONS');
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sandboxService } from '@/lib/sandboxservice';
+import { receiveWebhookEvent } from '@/lib/webhookEventStore';
+import { dispatchWebhookEvent } from '@/lib/webhookHandlers';
+import { verifySandboxWebhook } from '@/lib/webhookSignatures/sandbox';
+import { PaymentSecurity } from '@/lib/security';
+import { SandboxWebhookEvent } from '@/types/payment';
+
+export async function POST(request: NextRequest) {
+  try {
+    // The sandbox is only available in development
+    if (!sandboxService.isConfigured()) {
+      return NextResponse.json(
+        { error: 'Sandbox provider is not configured' },
+        { status: 503 }
+      );
+    }
+
+    const body = await request.text();
+    const signature = request.headers.get('sandbox-signature');
+
+    if (!signature) {
+      await PaymentSecurity.logSecurityEvent('webhook_signature_invalid', {
+        provider: 'sandbox',
+        reason: 'Missing signature',
+      }, 'high', { ip: PaymentSecurity.getClientIp(request) });
+      return NextResponse.json(
+        { error: 'Missing sandbox signature' },
+        { status: 400 }
+      );
+    }
+
+    // Verify webhook signature
+    let event: SandboxWebhookEvent;
+    try {
+      event = verifySandboxWebhook<SandboxWebhookEvent>(body, signature);
+    } catch (error) {
+      console.error('Sandbox webhook signature verification failed:', error);
+      await PaymentSecurity.logSecurityEvent('webhook_signature_invalid', {
+        provider: 'sandbox',
+        reason: error instanceof Error ? error.message : 'Unknown error',
+      }, 'high', { ip: PaymentSecurity.getClientIp(request) });
+      return NextResponse.json(
+        { error: 'Invalid signature' },
+        { status: 400 }
+      );
+    }
+
+    // Store the event before processing so that retried deliveries are skipped
+    const { event: storedEvent, duplicate } = await receiveWebhookEvent({
+      provider: 'sandbox',
+      id: event.id,
+      event_type: event.type,
+      payment_id: event.data?.payment?.id || '',
+      payload: event as unknown as Record<string, unknown>,
+    });
+
+    if (duplicate) {
+      console.log(`Skipping duplicate sandbox webhook event ${storedEvent.id}`);
+      return NextResponse.json({ received: true, duplicate: true });
+    }
+
+    const result = await dispatchWebhookEvent(storedEvent);
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          error: 'Webhook processing failed',
+          message: result.error
+        },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ received: true });
+
+  } catch (error) {
+    console.error('Sandbox webhook processing failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Webhook processing failed',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
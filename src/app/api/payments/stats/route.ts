@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getPaymentStats } from '@/lib/paymentStats';
+import { paymentProviderSchema } from '@/lib/paymentProviders';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { corsPreflight, staffProtection, withApiProtection } from '@/lib/apiProtection';
+
+// Query validation schema; dates are ISO strings (YYYY-MM-DD or full timestamps)
+const PaymentStatsQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  branch: z.string().min(1).optional(),
+  provider: paymentProviderSchema.optional()
+});
+
+const protection = staffProtection('payments.stats', 'read');
+
+// Dashboard figures computed from the payments ledger
+export const GET = withApiProtection(protection, async (request: NextRequest) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    const validationResult = PaymentStatsQuerySchema.safeParse({
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+      branch: searchParams.get('branch') || undefined,
+      provider: searchParams.get('provider') || undefined
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const filter = validationResult.data;
+
+    // A bare end date includes the whole day
+    if (filter.to && searchParams.get('to')?.length === 10) {
+      filter.to.setUTCHours(23, 59, 59, 999);
+    }
+
+    const stats = await getPaymentStats(filter);
+
+    return NextResponse.json({
+      success: true,
+      data: stats
+    });
+
+  } catch (error: unknown) {
+    console.error('Computing payment stats failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to compute payment stats',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'GET, OPTIONS');
+}
@@ -1,18 +1,67 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { paymentService } from '@/lib/paymentService';
+import { paymentService } from '@/lib/paymentservice';
+import { findPaymentByProviderId, getRefundableAmount, isAwaitingCapture, recordPayment } from '@/lib/paymentLedger';
+import { isRegisteredPaymentProvider, paymentProviderSchema } from '@/lib/paymentProviders';
+import { ApiProtectionOptions, corsPreflight, withApiProtection } from '@/lib/apiProtection';
+import { AuthenticatedUser, authenticateRequest } from '@/lib/serverAuth';
 import { PaymentProvider } from '@/types/payment';
 
 // Request validation schema
 const PaymentStatusRequestSchema = z.object({
   paymentId: z.string().min(1, 'Payment ID is required'),
-  provider: z.enum(['stripe', 'tamara', 'tabby'] as const, {
-    errorMap: () => ({ message: 'Provider must be stripe, tamara, or tabby' })
-  })
+  provider: paymentProviderSchema
 });
 
-export async function POST(request: NextRequest) {
+// Combine the live provider status with the ledger entry, if we have one. A status the
+// ledger has not seen yet is recorded, subject to the allowed status transitions.
+// Customers only see their own payments; anyone else's look like they do not exist.
+async function getPaymentDetails(provider: PaymentProvider, paymentId: string, user: AuthenticatedUser) {
+  const payment = await findPaymentByProviderId(provider, paymentId);
+  if (user.role !== 'admin' && (!payment || payment.customer_id !== user.uid)) {
+    return null;
+  }
+
+  const status = await paymentService.getPaymentStatus(provider, paymentId);
+
+  if (payment && payment.status !== status) {
+    try {
+      await recordPayment(payment.order_id, {
+        provider,
+        provider_payment_id: paymentId,
+        source: 'poll',
+        status,
+        event: 'status.poll',
+      });
+    } catch (error) {
+      console.error('Failed to record polled payment status:', error);
+    }
+  }
+
+  return {
+    ...payment,
+    id: paymentId,
+    provider,
+    status,
+    refundable_amount: payment ? getRefundableAmount({ ...payment, status }) : 0,
+    awaiting_capture: payment ? isAwaitingCapture({ ...payment, status }) : false
+  };
+}
+
+// Checkout pages poll this route, so it allows more requests than the others
+const protection: ApiProtectionOptions = {
+  name: 'payments.status',
+  ip: { limit: 120, windowMs: 60 * 1000 },
+  customer: { limit: 120, windowMs: 60 * 1000 },
+};
+
+export const POST = withApiProtection(protection, async (request: NextRequest) => {
   try {
+    const { user, error, status } = await authenticateRequest(request);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
     const body = await request.json();
     
     // Validate request body
@@ -38,10 +87,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Get payment status
-    const paymentStatus = await paymentService.getPaymentStatus(
-      paymentId,
-      provider as PaymentProvider
-    );
+    const paymentStatus = await getPaymentDetails(provider as PaymentProvider, paymentId, user);
 
     if (!paymentStatus) {
       return NextResponse.json(
@@ -83,11 +129,16 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // GET method for retrieving payment status via query parameters
-export async function GET(request: NextRequest) {
+export const GET = withApiProtection(protection, async (request: NextRequest) => {
   try {
+    const { user, error, status } = await authenticateRequest(request);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
     const { searchParams } = new URL(request.url);
     const paymentId = searchParams.get('paymentId');
     const provider = searchParams.get('provider');
@@ -100,9 +151,9 @@ export async function GET(request: NextRequest) {
     }
 
     // Validate provider
-    if (!['stripe', 'tamara', 'tabby'].includes(provider)) {
+    if (!isRegisteredPaymentProvider(provider)) {
       return NextResponse.json(
-        { error: 'Invalid provider. Must be stripe, tamara, or tabby' },
+        { error: `Unknown payment provider: ${provider}` },
         { status: 400 }
       );
     }
@@ -116,10 +167,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Get payment status
-    const paymentStatus = await paymentService.getPaymentStatus(
-      paymentId,
-      provider as PaymentProvider
-    );
+    const paymentStatus = await getPaymentDetails(provider as PaymentProvider, paymentId, user);
 
     if (!paymentStatus) {
       return NextResponse.json(
@@ -144,16 +192,9 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // Handle OPTIONS request for CORS
-export async function OPTIONS() {
-  return new NextResponse(null, {
-    status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    },
-  });
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'GET, POST, OPTIONS');
 }
\ No newline at end of file
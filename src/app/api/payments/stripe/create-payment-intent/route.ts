@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { stripeService } from '@/lib/stripeService';
+import { stripeService } from '@/lib/stripeservice';
+import { hasValidPrecision } from '@/lib/money';
+import { ApiProtectionOptions, corsPreflight, withApiProtection } from '@/lib/apiProtection';
+import { authenticateRequest } from '@/lib/serverAuth';
 import { StripePaymentIntentRequest } from '@/types/payment';
 
 // Validation schema for Stripe payment intent request
@@ -10,15 +13,26 @@ const createPaymentIntentSchema = z.object({
   customer_email: z.string().email(),
   customer_name: z.string().optional(),
   metadata: z.record(z.string()).optional(),
-  automatic_payment_methods: z.object({
-    enabled: z.boolean(),
-  }).optional(),
+}).refine(data => hasValidPrecision(data.amount, data.currency), {
+  message: 'Amount has more decimal places than the currency allows',
+  path: ['amount'],
 });
 
-export async function POST(request: NextRequest) {
+// Shares its limits with POST /api/payments
+const protection: ApiProtectionOptions = {
+  name: 'payments.create',
+  ip: { limit: 20, windowMs: 60 * 1000 },
+};
+
+export const POST = withApiProtection(protection, async (request: NextRequest) => {
   try {
+    const { user, error, status } = await authenticateRequest(request);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
     // Check if Stripe is configured
-    if (!stripeService.isStripeConfigured()) {
+    if (!stripeService.isConfigured()) {
       return NextResponse.json(
         { error: 'Stripe is not configured' },
         { status: 503 }
@@ -41,19 +55,17 @@ export async function POST(request: NextRequest) {
 
     const data = validationResult.data;
 
-    // Create Stripe payment intent request
+    // Create Stripe payment intent request. The amount stays in major units;
+    // the Stripe service converts it to the currency's minor units.
     const stripeRequest: StripePaymentIntentRequest = {
-      amount: Math.round(data.amount * 100), // Convert to cents
-      currency: data.currency.toLowerCase(),
-      customer_email: data.customer_email,
-      customer_name: data.customer_name,
+      amount: data.amount,
+      currency: data.currency.toUpperCase(),
       metadata: {
         ...data.metadata,
+        customer_email: data.customer_email,
+        ...(data.customer_name ? { customer_name: data.customer_name } : {}),
         created_at: new Date().toISOString(),
       },
-      automatic_payment_methods: data.automatic_payment_methods || {
-        enabled: true,
-      },
     };
 
     // Create payment intent using Stripe service
@@ -63,9 +75,9 @@ export async function POST(request: NextRequest) {
       success: true,
       data: {
         client_secret: paymentIntent.client_secret,
-        payment_intent_id: paymentIntent.id,
-        amount: paymentIntent.amount,
-        currency: paymentIntent.currency,
+        payment_intent_id: paymentIntent.payment_intent_id,
+        amount: stripeRequest.amount,
+        currency: stripeRequest.currency,
         status: paymentIntent.status,
       },
     });
@@ -81,16 +93,9 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // Handle OPTIONS request for CORS
-export async function OPTIONS() {
-  return new NextResponse(null, {
-    status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    },
-  });
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'POST, OPTIONS');
 }
\ No newline at end of file
@@ -1,11 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { tabbyService } from '@/lib/tabbyService';
+import { tabbyService } from '@/lib/tabbyservice';
+import { hasValidPrecision, toDecimalString } from '@/lib/money';
+import { ApiProtectionOptions, corsPreflight, withApiProtection } from '@/lib/apiProtection';
+import { authenticateRequest } from '@/lib/serverAuth';
 import { TabbyPaymentRequest } from '@/types/payment';
 
+// Tabby amounts are decimal strings; their precision is checked against the currency below
+const decimalAmount = z.string().regex(/^\d+(\.\d+)?$/, 'Amount must be a decimal string');
+
 // Validation schema for Tabby payment request
 const createPaymentSchema = z.object({
-  amount: z.string().regex(/^\d+\.\d{2}$/), // Amount as string with 2 decimal places
+  amount: decimalAmount,
   currency: z.string().length(3),
   description: z.string().optional(),
   buyer: z.object({
@@ -20,17 +26,17 @@ const createPaymentSchema = z.object({
     zip: z.string().optional(),
   }).optional(),
   order: z.object({
-    tax_amount: z.string().regex(/^\d+\.\d{2}$/).optional(),
-    shipping_amount: z.string().regex(/^\d+\.\d{2}$/).optional(),
-    discount_amount: z.string().regex(/^\d+\.\d{2}$/).optional(),
+    tax_amount: decimalAmount.optional(),
+    shipping_amount: decimalAmount.optional(),
+    discount_amount: decimalAmount.optional(),
     updated_at: z.string().optional(),
     reference_id: z.string(),
     items: z.array(z.object({
       title: z.string(),
       description: z.string().optional(),
       quantity: z.number().positive(),
-      unit_price: z.string().regex(/^\d+\.\d{2}$/),
-      discount_amount: z.string().regex(/^\d+\.\d{2}$/).optional(),
+      unit_price: decimalAmount,
+      discount_amount: decimalAmount.optional(),
       reference_id: z.string(),
       image_url: z.string().url().optional(),
       product_url: z.string().url().optional(),
@@ -48,7 +54,7 @@ const createPaymentSchema = z.object({
   }).optional(),
   order_history: z.array(z.object({
     purchased_at: z.string(),
-    amount: z.string().regex(/^\d+\.\d{2}$/),
+    amount: decimalAmount,
     payment_method: z.enum(['card', 'cod', 'other']),
     status: z.enum(['new', 'processing', 'shipped', 'delivered', 'cancelled']),
   })).optional(),
@@ -57,12 +63,38 @@ const createPaymentSchema = z.object({
     customer: z.string().optional(),
   }).optional(),
   merchant_code: z.string().optional(),
+}).superRefine((data, ctx) => {
+  const amounts = [
+    { path: ['amount'], value: data.amount },
+    ...data.order.items.map((item, index) => ({ path: ['order', 'items', index, 'unit_price'], value: item.unit_price })),
+  ];
+
+  amounts.forEach(({ path, value }) => {
+    if (!hasValidPrecision(parseFloat(value), data.currency)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Amount has more decimal places than ${data.currency} allows`,
+        path,
+      });
+    }
+  });
 });
 
-export async function POST(request: NextRequest) {
+// Shares its limits with POST /api/payments
+const protection: ApiProtectionOptions = {
+  name: 'payments.create',
+  ip: { limit: 20, windowMs: 60 * 1000 },
+};
+
+export const POST = withApiProtection(protection, async (request: NextRequest) => {
   try {
+    const { user, error, status } = await authenticateRequest(request);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
     // Check if Tabby is configured
-    if (!tabbyService.isTabbyConfigured()) {
+    if (!tabbyService.isConfigured()) {
       return NextResponse.json(
         { error: 'Tabby is not configured' },
         { status: 503 }
@@ -87,13 +119,18 @@ export async function POST(request: NextRequest) {
 
     // Create Tabby payment request
     const tabbyRequest: TabbyPaymentRequest = {
-      amount: data.amount,
+      amount: toDecimalString({ amount: parseFloat(data.amount), currency: data.currency }),
       currency: data.currency,
       description: data.description,
       buyer: data.buyer,
       shipping_address: data.shipping_address,
       order: {
         ...data.order,
+        items: data.order.items.map(item => ({
+          ...item,
+          category: item.category || 'general',
+          unit_price: toDecimalString({ amount: parseFloat(item.unit_price), currency: data.currency }),
+        })),
         updated_at: data.order.updated_at || new Date().toISOString(),
       },
       buyer_history: data.buyer_history,
@@ -111,9 +148,8 @@ export async function POST(request: NextRequest) {
         payment_id: payment.payment.id,
         checkout_url: payment.configuration.available_products.installments[0]?.web_url,
         status: payment.payment.status,
-        amount: payment.payment.amount,
-        currency: payment.payment.currency,
-        created_at: payment.payment.created_at,
+        amount: tabbyRequest.amount,
+        currency: tabbyRequest.currency,
       },
     });
 
@@ -128,16 +164,9 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // Handle OPTIONS request for CORS
-export async function OPTIONS() {
-  return new NextResponse(null, {
-    status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    },
-  });
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'POST, OPTIONS');
 }
\ No newline at end of file
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { tamaraService } from '@/lib/tamaraService';
+import { tamaraService } from '@/lib/tamaraservice';
+import { hasValidPrecision } from '@/lib/money';
+import { ApiProtectionOptions, corsPreflight, withApiProtection } from '@/lib/apiProtection';
+import { authenticateRequest } from '@/lib/serverAuth';
 import { TamaraCheckoutRequest } from '@/types/payment';
 
 // Validation schema for Tamara checkout request
@@ -89,12 +92,38 @@ const createCheckoutSchema = z.object({
   }),
   platform: z.string().default('web'),
   is_mobile: z.boolean().default(false),
+}).superRefine((data, ctx) => {
+  const amounts = [
+    { path: ['total_amount'], money: data.total_amount },
+    ...data.items.map((item, index) => ({ path: ['items', index, 'unit_price'], money: item.unit_price })),
+  ];
+
+  amounts.forEach(({ path, money }) => {
+    if (!hasValidPrecision(money.amount, money.currency)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Amount has more decimal places than ${money.currency} allows`,
+        path,
+      });
+    }
+  });
 });
 
-export async function POST(request: NextRequest) {
+// Shares its limits with POST /api/payments
+const protection: ApiProtectionOptions = {
+  name: 'payments.create',
+  ip: { limit: 20, windowMs: 60 * 1000 },
+};
+
+export const POST = withApiProtection(protection, async (request: NextRequest) => {
   try {
+    const { user, error, status } = await authenticateRequest(request);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
     // Check if Tamara is configured
-    if (!tamaraService.isTamaraConfigured()) {
+    if (!tamaraService.isConfigured()) {
       return NextResponse.json(
         { error: 'Tamara is not configured' },
         { status: 503 }
@@ -162,16 +191,9 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // Handle OPTIONS request for CORS
-export async function OPTIONS() {
-  return new NextResponse(null, {
-    status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    },
-  });
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'POST, OPTIONS');
 }
\ No newline at end of file
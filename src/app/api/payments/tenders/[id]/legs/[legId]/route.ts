@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelTenderLeg } from '@/lib/splitTender';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { corsPreflight, staffProtection, withApiProtection } from '@/lib/apiProtection';
+
+const protection = staffProtection('payments.tenders', 'write');
+
+// Cancel a leg that has not been paid, giving its part of the balance back to the order
+export const DELETE = withApiProtection(protection, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; legId: string }> }
+) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const { id, legId } = await params;
+    const result = await cancelTenderLeg(id, legId, user.uid);
+
+    if (result.error) {
+      return NextResponse.json(
+        { error: result.error, data: result.order },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.order
+    });
+
+  } catch (error: unknown) {
+    console.error('Cancelling split payment leg failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to cancel payment',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'DELETE, OPTIONS');
+}
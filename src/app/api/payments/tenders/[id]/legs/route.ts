@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { paymentProviderSchema } from '@/lib/paymentProviders';
+import { addTenderLeg } from '@/lib/splitTender';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { corsPreflight, staffProtection, withApiProtection } from '@/lib/apiProtection';
+
+// Request validation schema
+const AddTenderLegSchema = z.object({
+  provider: paymentProviderSchema,
+  amount: z.number().positive('Amount must be greater than 0'),
+  items: z.array(z.object({
+    name: z.string().min(1),
+    quantity: z.number().int().positive(),
+    unit_price: z.number().positive(),
+    category: z.string().optional(),
+    sku: z.string().optional(),
+    type: z.string().optional(),
+  })).optional(),
+  metadata: z.record(z.union([z.string(), z.number(), z.boolean()])).optional(),
+});
+
+const protection = staffProtection('payments.tenders', 'write');
+
+// Pay part of the outstanding balance with one provider. Returns the provider payment,
+// with a checkout_url for providers the customer has to complete, and the updated order.
+export const POST = withApiProtection(protection, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body = await request.json();
+
+    // Validate request body
+    const validationResult = AddTenderLegSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const result = await addTenderLeg(id, validationResult.data);
+
+    if (!result.payment) {
+      return NextResponse.json(
+        { error: result.error, data: result.order },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        payment: result.payment,
+        order: result.order
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('Adding split payment leg failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to add payment',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'POST, OPTIONS');
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { refundTenderOrder } from '@/lib/splitTender';
+import { PaymentSecurity } from '@/lib/security';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { corsPreflight, staffProtection, withApiProtection } from '@/lib/apiProtection';
+
+// Request validation schema. Without an amount everything refundable is refunded.
+const RefundTenderOrderSchema = z.object({
+  amount: z.number().positive('Amount must be greater than 0').optional(),
+  reason: z.string().max(200).optional(),
+});
+
+const protection = staffProtection('payments.tenders.refund', 'write');
+
+// Refund a split payment, spread over its legs starting with the last one paid
+export const POST = withApiProtection(protection, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    // Validate request body
+    const validationResult = RefundTenderOrderSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const { amount, reason } = validationResult.data;
+    const result = await refundTenderOrder(id, user.uid, amount, reason);
+
+    // Partially failed refunds are logged too, with the legs that did go through
+    if (result.allocations.length > 0) {
+      await PaymentSecurity.logSecurityEvent('split_payment_refunded', {
+        tender_order_id: id,
+        allocations: result.allocations,
+        reason,
+        error: result.error || undefined,
+      }, 'medium', { actor: user.email || user.uid, ip: PaymentSecurity.getClientIp(request) });
+    }
+
+    if (result.error) {
+      return NextResponse.json(
+        {
+          error: result.error,
+          data: { order: result.order, allocations: result.allocations }
+        },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        order: result.order,
+        allocations: result.allocations
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('Split payment refund failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to refund split payment',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'POST, OPTIONS');
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTenderOrder } from '@/lib/splitTender';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { corsPreflight, staffProtection, withApiProtection } from '@/lib/apiProtection';
+
+const protection = staffProtection('payments.tenders', 'read');
+
+// Get a split payment with its legs and outstanding balance
+export const GET = withApiProtection(protection, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const { id } = await params;
+    const order = await getTenderOrder(id);
+
+    if (!order) {
+      return NextResponse.json(
+        { error: 'Split payment not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: order
+    });
+
+  } catch (error: unknown) {
+    console.error('Getting split payment failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to get split payment',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'GET, OPTIONS');
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createTenderOrder, listTenderOrders } from '@/lib/splitTender';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { corsPreflight, staffProtection, withApiProtection } from '@/lib/apiProtection';
+
+// Request validation schema. For booking orders the total, currency, customer and branch
+// default to the booking's.
+const CreateTenderOrderSchema = z.object({
+  booking_id: z.string().min(1).optional(),
+  total: z.number().positive('Total must be greater than 0').optional(),
+  currency: z.string().length(3, 'Currency must be a 3-letter ISO code').transform(value => value.toUpperCase()).optional(),
+  customer: z.object({
+    name: z.string().optional(),
+    email: z.string().email().optional(),
+    phone: z.string().optional(),
+  }).optional(),
+  customer_id: z.string().optional(),
+  branch: z.string().optional(),
+}).refine(data => data.booking_id || (data.total && data.currency), {
+  message: 'A total and currency are required for orders that are not tied to a booking',
+  path: ['total'],
+});
+
+const readProtection = staffProtection('payments.tenders', 'read');
+const writeProtection = staffProtection('payments.tenders', 'write');
+
+// List the split payments of a booking
+export const GET = withApiProtection(readProtection, async (request: NextRequest) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const bookingId = new URL(request.url).searchParams.get('booking_id');
+    if (!bookingId) {
+      return NextResponse.json(
+        { error: 'booking_id is required' },
+        { status: 400 }
+      );
+    }
+
+    const orders = await listTenderOrders(bookingId);
+
+    return NextResponse.json({
+      success: true,
+      data: orders
+    });
+
+  } catch (error: unknown) {
+    console.error('Listing split payments failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to list split payments',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Start an order that is paid with several tenders
+export const POST = withApiProtection(writeProtection, async (request: NextRequest) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body = await request.json();
+
+    // Validate request body
+    const validationResult = CreateTenderOrderSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await createTenderOrder({ ...validationResult.data, created_by: user.uid });
+
+    if (!result.order) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.order
+    });
+
+  } catch (error: unknown) {
+    console.error('Split payment creation failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to create split payment',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'GET, POST, OPTIONS');
+}
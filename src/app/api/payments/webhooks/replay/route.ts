@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { startWebhookEventReplay } from '@/lib/webhookEventStore';
+import { dispatchWebhookEvent } from '@/lib/webhookHandlers';
+import { paymentProviderSchema } from '@/lib/paymentProviders';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { staffProtection, withApiProtection } from '@/lib/apiProtection';
+
+// Request validation schema
+const ReplayWebhookEventSchema = z.object({
+  provider: paymentProviderSchema,
+  id: z.string().min(1, 'Event ID is required')
+});
+
+const protection = staffProtection('payments.webhooks', 'write');
+
+// Re-run a stored webhook event through its provider handler
+export const POST = withApiProtection(protection, async (request: NextRequest) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body = await request.json();
+
+    const validationResult = ReplayWebhookEventSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { provider, id } = validationResult.data;
+
+    const event = await startWebhookEventReplay(provider, id, user.email || user.uid);
+    if (!event) {
+      return NextResponse.json(
+        { error: 'Webhook event not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await dispatchWebhookEvent(event);
+
+    return NextResponse.json(
+      {
+        success: result.success,
+        data: {
+          provider,
+          id,
+          status: result.success ? 'processed' : 'failed',
+          error: result.error
+        }
+      },
+      { status: result.success ? 200 : 422 }
+    );
+
+  } catch (error: unknown) {
+    console.error('Webhook event replay failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to replay webhook event',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { listWebhookEvents } from '@/lib/webhookEventStore';
+import { paymentProviderSchema } from '@/lib/paymentProviders';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { staffProtection, withApiProtection } from '@/lib/apiProtection';
+
+// Query validation schema
+const WebhookEventsQuerySchema = z.object({
+  provider: paymentProviderSchema.optional(),
+  status: z.enum(['received', 'processed', 'failed']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional()
+});
+
+const protection = staffProtection('payments.webhooks', 'read');
+
+export const GET = withApiProtection(protection, async (request: NextRequest) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    const validationResult = WebhookEventsQuerySchema.safeParse({
+      provider: searchParams.get('provider') || undefined,
+      status: searchParams.get('status') || undefined,
+      limit: searchParams.get('limit') || undefined
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { provider, status: eventStatus, limit } = validationResult.data;
+    const events = await listWebhookEvents({ provider, status: eventStatus }, limit);
+
+    return NextResponse.json({
+      success: true,
+      data: events
+    });
+
+  } catch (error: unknown) {
+    console.error('Listing webhook events failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to list webhook events',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  formatSecurityEventsAsCsv,
+  formatSecurityEventsAsJsonLines,
+  listSecurityEvents
+} from '@/lib/securityEventStore';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { corsPreflight, staffProtection, withApiProtection } from '@/lib/apiProtection';
+
+// Query validation schema. Exports may include more events than the page shows.
+const SecurityEventsQuerySchema = z.object({
+  event: z.string().min(1).optional(),
+  severity: z.enum(['low', 'medium', 'high']).optional(),
+  actor: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(5000).optional(),
+  format: z.enum(['json', 'jsonl', 'csv']).default('json')
+});
+
+const protection = staffProtection('security-events', 'read');
+
+// List security events as JSON (default), or export them as JSON Lines (?format=jsonl)
+// or CSV (?format=csv)
+export const GET = withApiProtection(protection, async (request: NextRequest) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    const validationResult = SecurityEventsQuerySchema.safeParse({
+      event: searchParams.get('event') || undefined,
+      severity: searchParams.get('severity') || undefined,
+      actor: searchParams.get('actor') || undefined,
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+      limit: searchParams.get('limit') || undefined,
+      format: searchParams.get('format') || undefined
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { format, limit, ...filter } = validationResult.data;
+    const events = await listSecurityEvents(filter, limit ?? (format === 'json' ? 100 : 1000));
+    const filename = `security-events-${new Date().toISOString().slice(0, 10)}`;
+
+    if (format === 'jsonl') {
+      return new NextResponse(formatSecurityEventsAsJsonLines(events), {
+        headers: {
+          'Content-Type': 'application/x-ndjson; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}.jsonl"`,
+        },
+      });
+    }
+
+    if (format === 'csv') {
+      return new NextResponse(formatSecurityEventsAsCsv(events), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: events
+    });
+
+  } catch (error: unknown) {
+    console.error('Listing security events failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to list security events',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'GET, OPTIONS');
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { doc, getDoc, updateDoc } from 'firebase/firestore';
+import { getServerDb } from '@/lib/firebaseServer';
+import { PaymentSecurity } from '@/lib/security';
+import { authenticateRequest } from '@/lib/serverAuth';
+import { corsPreflight, staffProtection, withApiProtection } from '@/lib/apiProtection';
+
+// Request validation schema
+const UpdateRoleSchema = z.object({
+  role: z.enum(['admin', 'user'])
+});
+
+const protection = staffProtection('users.role', 'write');
+
+// Change a user's role. Every change is recorded in the security audit log.
+export const PATCH = withApiProtection(protection, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ uid: string }> }
+) => {
+  try {
+    const { user, error, status } = await authenticateRequest(request, ['admin']);
+    if (!user) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body = await request.json();
+
+    // Validate request body
+    const validationResult = UpdateRoleSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { uid } = await params;
+    const { role } = validationResult.data;
+    const userRef = doc(await getServerDb(), 'users', uid);
+    const userDoc = await getDoc(userRef);
+
+    if (!userDoc.exists()) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const previousRole = userDoc.data().role;
+    if (previousRole !== role) {
+      await updateDoc(userRef, {
+        role,
+        updatedAt: new Date()
+      });
+
+      await PaymentSecurity.logSecurityEvent('user_role_changed', {
+        user_id: uid,
+        user_email: userDoc.data().email,
+        previous_role: previousRole,
+        role,
+      }, 'high', { actor: user.email || user.uid, ip: PaymentSecurity.getClientIp(request) });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { uid, role }
+    });
+
+  } catch (error: unknown) {
+    console.error('Updating user role failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update user role',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, 'PATCH, OPTIONS');
+}
@@ -1,17 +1,24 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { 
   collection, 
   query, 
-  orderBy, 
-  onSnapshot, 
-  doc, 
-  updateDoc,
-  Timestamp,
   getDocs
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import {
+  cancelBooking,
+  previewBookingCancellation,
+  subscribeToBookings,
+  updateBookingStatus
+} from '@/lib/bookingService';
+import { authorizedFetch } from '@/lib/networkUtils';
+import { formatMoney } from '@/lib/money';
+import { PaymentLink, ProviderHealth } from '@/types/payment';
+import { Booking } from '@/types/booking';
+import { BookingDeposit, CancellationType, DepositQuote } from '@/types/deposit';
+import { TenderOrder, TenderRefundAllocation } from '@/types/tender';
 import { 
   Calendar, 
   Clock, 
@@ -22,37 +29,15 @@ import {
   Eye,
   CheckCircle,
   XCircle,
-  AlertCircle
+  AlertCircle,
+  Link2,
+  Copy,
+  Wallet,
+  UserX,
+  Split
 } from 'lucide-react';
 import { format } from 'date-fns';
 
-interface BookingService {
-  serviceId: string;
-  serviceName: string;
-  category: string;
-  duration: number;
-  price: number;
-  quantity: number;
-}
-
-interface Booking {
-  id: string;
-  userId: string;
-  customerName: string;
-  services: BookingService[];
-  bookingDate: Date;
-  bookingTime: string;
-  branch: string;
-  totalPrice: number;
-  totalDuration: number;
-  status: 'upcoming' | 'past' | 'cancelled';
-  paymentMethod: string;
-  emailConfirmation: boolean;
-  smsConfirmation: boolean;
-  createdAt: Date;
-  updatedAt: Date;
-}
-
 interface User {
   id: string;
   name: string;
@@ -68,42 +53,424 @@ export default function BookingsPage() {
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
   const [showDetails, setShowDetails] = useState(false);
+  const [paymentLinks, setPaymentLinks] = useState<PaymentLink[]>([]);
+  const [linkAmount, setLinkAmount] = useState('');
+  const [linkCurrency, setLinkCurrency] = useState('SAR');
+  const [linkExpiryHours, setLinkExpiryHours] = useState('72');
+  const [generatedLinkUrl, setGeneratedLinkUrl] = useState('');
+  const [creatingLink, setCreatingLink] = useState(false);
+  const [linkError, setLinkError] = useState('');
+  const [depositQuote, setDepositQuote] = useState<DepositQuote | null>(null);
+  const [depositUrl, setDepositUrl] = useState('');
+  const [depositError, setDepositError] = useState('');
+  const [requestingDeposit, setRequestingDeposit] = useState(false);
+  const [cancellingBookingId, setCancellingBookingId] = useState<string | null>(null);
+  const [tenderOrder, setTenderOrder] = useState<TenderOrder | null>(null);
+  const [tenderProviders, setTenderProviders] = useState<ProviderHealth[]>([]);
+  const [tenderProvider, setTenderProvider] = useState('cash');
+  const [tenderAmount, setTenderAmount] = useState('');
+  const [tenderGiftCardCode, setTenderGiftCardCode] = useState('');
+  const [tenderCheckoutUrl, setTenderCheckoutUrl] = useState('');
+  const [tenderError, setTenderError] = useState('');
+  const [tenderBusy, setTenderBusy] = useState(false);
 
   // Load bookings from Firebase
   useEffect(() => {
-    const bookingsQuery = query(
-      collection(db, 'bookings'),
-      orderBy('createdAt', 'desc')
+    const unsubscribe = subscribeToBookings(
+      (bookingsData) => {
+        setBookings(bookingsData);
+        setLoading(false);
+      },
+      () => setLoading(false)
     );
 
-    const unsubscribe = onSnapshot(bookingsQuery, (snapshot) => {
-      const bookingsData = snapshot.docs.map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          userId: data.userId || '',
-          customerName: data.customerName || '',
-          services: data.services || [],
-          bookingDate: data.bookingDate?.toDate() || new Date(),
-          bookingTime: data.bookingTime || '',
-          branch: data.branch || '',
-          totalPrice: data.totalPrice || 0,
-          totalDuration: data.totalDuration || 0,
-          status: data.status || 'upcoming',
-          paymentMethod: data.paymentMethod || 'cash',
-          emailConfirmation: data.emailConfirmation || false,
-          smsConfirmation: data.smsConfirmation || false,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          updatedAt: data.updatedAt?.toDate() || new Date(),
-        } as Booking;
-      });
-      setBookings(bookingsData);
-      setLoading(false);
-    });
-
     return () => unsubscribe();
   }, []);
 
+  // Load payment links for the booking shown in the details modal
+  const loadPaymentLinks = useCallback(async (bookingId: string) => {
+    try {
+      const response = await authorizedFetch(`/api/payments/links?booking_id=${encodeURIComponent(bookingId)}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load payment links');
+      }
+
+      setPaymentLinks(data.data);
+    } catch (error) {
+      setLinkError(error instanceof Error ? error.message : 'Failed to load payment links');
+    }
+  }, []);
+
+  // Load the latest split payment of the booking shown in the details modal
+  const loadTenderOrder = useCallback(async (bookingId: string) => {
+    setTenderOrder(null);
+    setTenderError('');
+    setTenderCheckoutUrl('');
+
+    try {
+      const response = await authorizedFetch(`/api/payments/tenders?booking_id=${encodeURIComponent(bookingId)}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load split payments');
+      }
+
+      const order: TenderOrder | undefined = data.data[0];
+      setTenderOrder(order || null);
+      setTenderAmount(order ? order.outstanding_amount.toString() : '');
+    } catch (error) {
+      setTenderError(error instanceof Error ? error.message : 'Failed to load split payments');
+    }
+  }, []);
+
+  // Providers staff can take a split payment leg with
+  const loadTenderProviders = useCallback(async () => {
+    try {
+      const response = await authorizedFetch('/api/payments/providers');
+      const data = await response.json();
+
+      if (response.ok) {
+        setTenderProviders((data.data as ProviderHealth[]).filter(provider => provider.configured));
+      }
+    } catch (error) {
+      console.error('Error loading payment providers:', error);
+    }
+  }, []);
+
+  // Load the deposit the booking shown in the details modal requires
+  const loadDepositQuote = useCallback(async (bookingId: string) => {
+    setDepositQuote(null);
+    setDepositError('');
+    setDepositUrl('');
+
+    try {
+      const response = await authorizedFetch(`/api/bookings/${bookingId}/deposit`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load deposit');
+      }
+
+      setDepositQuote(data.data);
+    } catch (error) {
+      setDepositError(error instanceof Error ? error.message : 'Failed to load deposit');
+    }
+  }, []);
+
+  useEffect(() => {
+    setPaymentLinks([]);
+    setGeneratedLinkUrl('');
+    setLinkError('');
+
+    if (showDetails && selectedBooking) {
+      setLinkAmount(selectedBooking.totalPrice.toString());
+      loadPaymentLinks(selectedBooking.id);
+      loadDepositQuote(selectedBooking.id);
+      loadTenderOrder(selectedBooking.id);
+    }
+  }, [showDetails, selectedBooking, loadPaymentLinks, loadDepositQuote, loadTenderOrder]);
+
+  useEffect(() => {
+    if (showDetails && tenderProviders.length === 0) {
+      loadTenderProviders();
+    }
+  }, [showDetails, tenderProviders.length, loadTenderProviders]);
+
+  const handleStartSplitPayment = async () => {
+    if (!selectedBooking) return;
+
+    setTenderBusy(true);
+    setTenderError('');
+
+    try {
+      const response = await authorizedFetch('/api/payments/tenders', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ booking_id: selectedBooking.id })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to start split payment');
+      }
+
+      setTenderOrder(data.data);
+      setTenderAmount(data.data.outstanding_amount.toString());
+    } catch (error) {
+      setTenderError(error instanceof Error ? error.message : 'Failed to start split payment');
+    } finally {
+      setTenderBusy(false);
+    }
+  };
+
+  const handleAddTenderLeg = async () => {
+    if (!tenderOrder) return;
+
+    setTenderBusy(true);
+    setTenderError('');
+    setTenderCheckoutUrl('');
+
+    try {
+      const response = await authorizedFetch(`/api/payments/tenders/${tenderOrder.id}/legs`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          provider: tenderProvider,
+          amount: parseFloat(tenderAmount),
+          ...(tenderProvider === 'gift_card' ? { metadata: { gift_card_code: tenderGiftCardCode } } : {})
+        })
+      });
+      const data = await response.json();
+
+      if (data.data?.order) {
+        setTenderOrder(data.data.order);
+        setTenderAmount(data.data.order.outstanding_amount.toString());
+      }
+
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to add payment');
+      }
+
+      setTenderGiftCardCode('');
+      if (data.data.payment.checkout_url) {
+        setTenderCheckoutUrl(data.data.payment.checkout_url);
+      }
+    } catch (error) {
+      setTenderError(error instanceof Error ? error.message : 'Failed to add payment');
+    } finally {
+      setTenderBusy(false);
+    }
+  };
+
+  const handleCancelTenderLeg = async (legId: string) => {
+    if (!tenderOrder) return;
+    if (!confirm('Cancel this payment? Its amount will be added back to the outstanding balance.')) return;
+
+    setTenderBusy(true);
+    setTenderError('');
+
+    try {
+      const response = await authorizedFetch(`/api/payments/tenders/${tenderOrder.id}/legs/${legId}`, {
+        method: 'DELETE'
+      });
+      const data = await response.json();
+
+      if (data.data) {
+        setTenderOrder(data.data);
+        setTenderAmount(data.data.outstanding_amount.toString());
+      }
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to cancel payment');
+      }
+    } catch (error) {
+      setTenderError(error instanceof Error ? error.message : 'Failed to cancel payment');
+    } finally {
+      setTenderBusy(false);
+    }
+  };
+
+  const handleRefundSplitPayment = async () => {
+    if (!tenderOrder) return;
+
+    const refundable = formatMoney({ amount: tenderOrder.paid_amount - tenderOrder.refunded_amount, currency: tenderOrder.currency });
+    if (!confirm(`Refund ${refundable} across the legs of this split payment?`)) return;
+
+    setTenderBusy(true);
+    setTenderError('');
+
+    try {
+      const response = await authorizedFetch(`/api/payments/tenders/${tenderOrder.id}/refund`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ reason: 'Refunded from bookings' })
+      });
+      const data = await response.json();
+
+      if (data.data?.order) {
+        setTenderOrder(data.data.order);
+      }
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to refund split payment');
+      }
+
+      alert((data.data.allocations as TenderRefundAllocation[])
+        .map(allocation => `${allocation.action === 'void' ? 'Voided' : 'Refunded'} ${formatMoney({ amount: allocation.amount, currency: tenderOrder.currency })} (${allocation.provider})`)
+        .join('\n'));
+    } catch (error) {
+      setTenderError(error instanceof Error ? error.message : 'Failed to refund split payment');
+    } finally {
+      setTenderBusy(false);
+    }
+  };
+
+  const handleRequestDeposit = async () => {
+    if (!selectedBooking) return;
+
+    setRequestingDeposit(true);
+    setDepositError('');
+    setDepositUrl('');
+
+    try {
+      const response = await authorizedFetch(`/api/bookings/${selectedBooking.id}/deposit`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({})
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to request deposit');
+      }
+
+      setDepositUrl(data.data.url);
+      await Promise.all([loadDepositQuote(selectedBooking.id), loadPaymentLinks(selectedBooking.id)]);
+    } catch (error) {
+      setDepositError(error instanceof Error ? error.message : 'Failed to request deposit');
+    } finally {
+      setRequestingDeposit(false);
+    }
+  };
+
+  // Cancel a booking or mark it as a no-show. The cancellation policy decides what
+  // happens to the deposit, so show the outcome and ask for confirmation first.
+  const handleCancelBooking = async (booking: Booking, type: CancellationType) => {
+    setCancellingBookingId(booking.id);
+
+    try {
+      const preview = await previewBookingCancellation(booking.id, type);
+      if (!preview.success || !preview.data) {
+        throw new Error(preview.error);
+      }
+
+      const outcome = preview.data;
+      const money = (amount: number) => formatMoney({ amount, currency: outcome.currency });
+      const summary = [
+        type === 'no_show' ? `Mark ${booking.customerName} as a no-show?` : `Cancel ${booking.customerName}'s booking?`,
+        '',
+        outcome.reason,
+        outcome.refund_amount > 0 ? `Deposit refunded: ${money(outcome.refund_amount)}` : '',
+        outcome.retained_amount > 0 ? `Deposit kept: ${money(outcome.retained_amount)}` : '',
+        outcome.fee_amount > 0 ? `Fee to collect: ${money(outcome.fee_amount)}` : '',
+      ].filter((line, index) => line || index === 1).join('\n');
+
+      if (!confirm(summary)) return;
+
+      const result = await cancelBooking(booking.id, type);
+      if (!result.success || !result.data) {
+        throw new Error(result.error);
+      }
+
+      if (result.data.refund_error) {
+        alert(`The booking was cancelled but the deposit could not be refunded: ${result.data.refund_error}`);
+      }
+      if (result.data.retain_error) {
+        alert(`The booking was cancelled but the deposit could not be captured: ${result.data.retain_error}`);
+      }
+      if (result.data.fee_payment_url) {
+        prompt('Send the customer this link to pay the fee. It cannot be shown again.', result.data.fee_payment_url);
+      }
+      if (selectedBooking?.id === booking.id) {
+        setShowDetails(false);
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to cancel booking');
+    } finally {
+      setCancellingBookingId(null);
+    }
+  };
+
+  const getDepositBadge = (status: BookingDeposit['status']) => {
+    switch (status) {
+      case 'paid':
+        return 'bg-green-100 text-green-800';
+      case 'pending':
+        return 'bg-blue-100 text-blue-800';
+      case 'forfeited':
+        return 'bg-orange-100 text-orange-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const handleCreatePaymentLink = async () => {
+    if (!selectedBooking) return;
+
+    setCreatingLink(true);
+    setLinkError('');
+    setGeneratedLinkUrl('');
+
+    try {
+      const response = await authorizedFetch('/api/payments/links', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          booking_id: selectedBooking.id,
+          amount: parseFloat(linkAmount),
+          currency: linkCurrency,
+          description: `${selectedBooking.services.map(service => service.serviceName).join(', ')} on ${format(selectedBooking.bookingDate, 'MMM dd, yyyy')} ${selectedBooking.bookingTime}`.slice(0, 200),
+          expires_in_hours: parseInt(linkExpiryHours, 10)
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.details?.[0] || data.error || 'Failed to create payment link');
+      }
+
+      setGeneratedLinkUrl(data.data.url);
+      await loadPaymentLinks(selectedBooking.id);
+    } catch (error) {
+      setLinkError(error instanceof Error ? error.message : 'Failed to create payment link');
+    } finally {
+      setCreatingLink(false);
+    }
+  };
+
+  const handleRevokePaymentLink = async (linkId: string) => {
+    if (!selectedBooking) return;
+
+    setLinkError('');
+
+    try {
+      const response = await authorizedFetch(`/api/payments/links/${linkId}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to revoke payment link');
+      }
+
+      await loadPaymentLinks(selectedBooking.id);
+    } catch (error) {
+      setLinkError(error instanceof Error ? error.message : 'Failed to revoke payment link');
+    }
+  };
+
+  const getPaymentLinkBadge = (status: PaymentLink['status']) => {
+    switch (status) {
+      case 'paid':
+        return 'bg-green-100 text-green-800';
+      case 'active':
+      case 'processing':
+        return 'bg-blue-100 text-blue-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
   // Load user details
   useEffect(() => {
     const loadUsers = async () => {
@@ -141,16 +508,11 @@ export default function BookingsPage() {
     return matchesSearch && matchesStatus;
   });
 
-  // Update booking status
-  const updateBookingStatus = async (bookingId: string, newStatus: string) => {
-    try {
-      const bookingRef = doc(db, 'bookings', bookingId);
-      await updateDoc(bookingRef, {
-        status: newStatus,
-        updatedAt: Timestamp.fromDate(new Date())
-      });
-    } catch (error) {
-      console.error('Error updating booking status:', error);
+  // Mark a booking as completed
+  const handleCompleteBooking = async (bookingId: string) => {
+    const result = await updateBookingStatus(bookingId, 'past');
+    if (!result.success) {
+      alert(result.error || 'Failed to update booking status');
     }
   };
 
@@ -163,6 +525,8 @@ export default function BookingsPage() {
         return 'bg-green-100 text-green-800';
       case 'cancelled':
         return 'bg-red-100 text-red-800';
+      case 'no_show':
+        return 'bg-orange-100 text-orange-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -230,6 +594,7 @@ export default function BookingsPage() {
                 <option value="upcoming">Upcoming</option>
                 <option value="past">Past</option>
                 <option value="cancelled">Cancelled</option>
+                <option value="no_show">No-show</option>
               </select>
             </div>
           </div>
@@ -390,7 +755,7 @@ export default function BookingsPage() {
                         <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${
                           getStatusBadge(booking.status)
                         }`}>
-                          {booking.status}
+                          {booking.status.replace('_', '-')}
                         </span>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
@@ -407,15 +772,16 @@ export default function BookingsPage() {
                           {booking.status === 'upcoming' && (
                             <>
                               <button
-                                onClick={() => updateBookingStatus(booking.id, 'past')}
+                                onClick={() => handleCompleteBooking(booking.id)}
                                 className="text-green-600 hover:text-green-900"
                                 title="Mark as completed"
                               >
                                 <CheckCircle className="w-4 h-4" />
                               </button>
                               <button
-                                onClick={() => updateBookingStatus(booking.id, 'cancelled')}
-                                className="text-red-600 hover:text-red-900"
+                                onClick={() => handleCancelBooking(booking, 'cancelled')}
+                                disabled={cancellingBookingId === booking.id}
+                                className="text-red-600 hover:text-red-900 disabled:opacity-50"
                                 title="Cancel booking"
                               >
                                 <XCircle className="w-4 h-4" />
@@ -470,7 +836,7 @@ export default function BookingsPage() {
                       <span className={`mt-1 inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${
                         getStatusBadge(selectedBooking.status)
                       }`}>
-                        {selectedBooking.status}
+                        {selectedBooking.status.replace('_', '-')}
                       </span>
                     </div>
                   </div>
@@ -560,7 +926,381 @@ export default function BookingsPage() {
                   </div>
                 </div>
                 
+                <div className="mt-6 border-t pt-4">
+                  <h4 className="flex items-center text-sm font-medium text-gray-900">
+                    <Wallet className="w-4 h-4 mr-2" />
+                    Deposit
+                  </h4>
+
+                  {depositQuote && (
+                    <div className="mt-2 flex items-center justify-between p-2 bg-gray-50 rounded">
+                      <div>
+                        <p className="text-sm text-gray-900">
+                          {depositQuote.required.amount > 0
+                            ? <>Required: <span className="font-medium">{formatMoney(depositQuote.required)}</span></>
+                            : 'No deposit rule applies to this booking'}
+                        </p>
+                        {depositQuote.deposit && (
+                          <p className="text-xs text-gray-500">
+                            {formatMoney({ amount: depositQuote.deposit.amount, currency: depositQuote.deposit.currency })} requested {format(new Date(depositQuote.deposit.requested_at), 'MMM dd, HH:mm')}
+                            {depositQuote.deposit.paid_at && <>{' • '}paid {format(new Date(depositQuote.deposit.paid_at), 'MMM dd, HH:mm')}</>}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        {depositQuote.deposit && (
+                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${getDepositBadge(depositQuote.deposit.status)}`}>
+                            {depositQuote.deposit.status}
+                          </span>
+                        )}
+                        {selectedBooking.status === 'upcoming' &&
+                          depositQuote.required.amount > 0 &&
+                          (!depositQuote.deposit || depositQuote.deposit.status === 'cancelled') && (
+                          <button
+                            onClick={handleRequestDeposit}
+                            disabled={requestingDeposit}
+                            className="px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                          >
+                            {requestingDeposit ? 'Requesting...' : 'Request Deposit'}
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
+                  {depositUrl && (
+                    <div className="mt-3 p-3 bg-green-50 border border-green-200 rounded-md">
+                      <p className="text-xs text-green-800">
+                        Copy this link now; it cannot be shown again.
+                      </p>
+                      <div className="mt-2 flex items-center space-x-2">
+                        <input
+                          readOnly
+                          value={depositUrl}
+                          className="flex-1 px-2 py-1 border border-gray-300 rounded text-xs font-mono bg-white"
+                        />
+                        <button
+                          onClick={() => navigator.clipboard.writeText(depositUrl)}
+                          className="p-1 text-gray-600 hover:text-gray-900"
+                          title="Copy link"
+                        >
+                          <Copy className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  {depositError && (
+                    <p className="mt-3 text-sm text-red-600">{depositError}</p>
+                  )}
+                </div>
+
+                <div className="mt-6 border-t pt-4">
+                  <h4 className="flex items-center text-sm font-medium text-gray-900">
+                    <Split className="w-4 h-4 mr-2" />
+                    Split Payment
+                  </h4>
+                  <p className="mt-1 text-xs text-gray-500">
+                    Take the booking total in parts, e.g. a gift card and cash, with the rest by card or Tabby.
+                  </p>
+
+                  {!tenderOrder && selectedBooking.status !== 'cancelled' && selectedBooking.status !== 'no_show' && (
+                    <div className="mt-3 flex justify-end">
+                      <button
+                        onClick={handleStartSplitPayment}
+                        disabled={tenderBusy}
+                        className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        {tenderBusy ? 'Starting...' : 'Start Split Payment'}
+                      </button>
+                    </div>
+                  )}
+
+                  {tenderOrder && (
+                    <>
+                      <div className="mt-3 grid grid-cols-3 gap-3 text-center">
+                        <div className="p-2 bg-gray-50 rounded">
+                          <p className="text-xs text-gray-500">Total</p>
+                          <p className="text-sm font-medium text-gray-900">{formatMoney({ amount: tenderOrder.total, currency: tenderOrder.currency })}</p>
+                        </div>
+                        <div className="p-2 bg-gray-50 rounded">
+                          <p className="text-xs text-gray-500">Paid</p>
+                          <p className="text-sm font-medium text-green-700">{formatMoney({ amount: tenderOrder.paid_amount, currency: tenderOrder.currency })}</p>
+                        </div>
+                        <div className="p-2 bg-gray-50 rounded">
+                          <p className="text-xs text-gray-500">Outstanding</p>
+                          <p className="text-sm font-medium text-gray-900">{formatMoney({ amount: tenderOrder.outstanding_amount, currency: tenderOrder.currency })}</p>
+                        </div>
+                      </div>
+
+                      {tenderOrder.legs.length > 0 && (
+                        <div className="mt-3 space-y-2">
+                          {tenderOrder.legs.map(leg => (
+                            <div key={leg.order_id} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+                              <div>
+                                <p className="text-sm font-medium text-gray-900">
+                                  {formatMoney({ amount: leg.amount, currency: tenderOrder.currency })}
+                                  <span className="ml-2 text-xs font-normal text-gray-500 capitalize">{leg.provider.replace('_', ' ')}</span>
+                                </p>
+                                {leg.refunded_amount > 0 && (
+                                  <p className="text-xs text-gray-500">
+                                    {leg.voided_at ? 'Voided' : `Refunded ${formatMoney({ amount: leg.refunded_amount, currency: tenderOrder.currency })}`}
+                                  </p>
+                                )}
+                              </div>
+                              <div className="flex items-center gap-2">
+                                {(leg.status === 'pending' || leg.status === 'processing') && (
+                                  <button
+                                    onClick={() => handleCancelTenderLeg(leg.order_id)}
+                                    disabled={tenderBusy}
+                                    className="text-xs text-red-600 hover:text-red-800 disabled:opacity-50"
+                                  >
+                                    Cancel
+                                  </button>
+                                )}
+                                <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${
+                                  leg.status === 'completed' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                                }`}>
+                                  {leg.status}
+                                </span>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
+                      {tenderOrder.status === 'open' && tenderOrder.outstanding_amount > 0 && (
+                        <div className="mt-3 grid grid-cols-3 gap-3">
+                          <div>
+                            <label htmlFor="tenderProvider" className="block text-xs font-medium text-gray-700">Pay with</label>
+                            <select
+                              id="tenderProvider"
+                              value={tenderProvider}
+                              onChange={(e) => setTenderProvider(e.target.value)}
+                              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                              {tenderProviders.map(provider => (
+                                <option key={provider.provider} value={provider.provider}>{provider.name}</option>
+                              ))}
+                            </select>
+                          </div>
+                          <div>
+                            <label htmlFor="tenderAmount" className="block text-xs font-medium text-gray-700">Amount</label>
+                            <input
+                              id="tenderAmount"
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={tenderAmount}
+                              onChange={(e) => setTenderAmount(e.target.value)}
+                              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                          </div>
+                          {tenderProvider === 'gift_card' && (
+                            <div>
+                              <label htmlFor="tenderGiftCardCode" className="block text-xs font-medium text-gray-700">Gift card code</label>
+                              <input
+                                id="tenderGiftCardCode"
+                                type="text"
+                                value={tenderGiftCardCode}
+                                onChange={(e) => setTenderGiftCardCode(e.target.value)}
+                                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              />
+                            </div>
+                          )}
+                        </div>
+                      )}
+
+                      <div className="mt-3 flex justify-end space-x-3">
+                        {tenderOrder.paid_amount > tenderOrder.refunded_amount && (
+                          <button
+                            onClick={handleRefundSplitPayment}
+                            disabled={tenderBusy}
+                            className="px-4 py-2 text-sm font-medium text-red-700 bg-red-50 rounded-md hover:bg-red-100 disabled:opacity-50"
+                          >
+                            Refund
+                          </button>
+                        )}
+                        {tenderOrder.status === 'open' && tenderOrder.outstanding_amount > 0 && (
+                          <button
+                            onClick={handleAddTenderLeg}
+                            disabled={tenderBusy || !(parseFloat(tenderAmount) > 0) || (tenderProvider === 'gift_card' && !tenderGiftCardCode.trim())}
+                            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                          >
+                            {tenderBusy ? 'Processing...' : 'Add Payment'}
+                          </button>
+                        )}
+                      </div>
+                    </>
+                  )}
+
+                  {tenderCheckoutUrl && (
+                    <div className="mt-3 p-3 bg-green-50 border border-green-200 rounded-md">
+                      <p className="text-xs text-green-800">
+                        The customer completes this part of the payment at the provider&apos;s checkout.
+                      </p>
+                      <div className="mt-2 flex items-center space-x-2">
+                        <input
+                          readOnly
+                          value={tenderCheckoutUrl}
+                          className="flex-1 px-2 py-1 border border-gray-300 rounded text-xs font-mono bg-white"
+                        />
+                        <button
+                          onClick={() => navigator.clipboard.writeText(tenderCheckoutUrl)}
+                          className="p-1 text-gray-600 hover:text-gray-900"
+                          title="Copy link"
+                        >
+                          <Copy className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  {tenderError && (
+                    <p className="mt-3 text-sm text-red-600">{tenderError}</p>
+                  )}
+                </div>
+
+                <div className="mt-6 border-t pt-4">
+                  <h4 className="flex items-center text-sm font-medium text-gray-900">
+                    <Link2 className="w-4 h-4 mr-2" />
+                    Payment Links
+                  </h4>
+                  <p className="mt-1 text-xs text-gray-500">
+                    Send the customer a link to pay a deposit or the full amount. Each link can be paid once.
+                  </p>
+
+                  <div className="mt-3 grid grid-cols-3 gap-3">
+                    <div>
+                      <label htmlFor="linkAmount" className="block text-xs font-medium text-gray-700">Amount</label>
+                      <input
+                        id="linkAmount"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={linkAmount}
+                        onChange={(e) => setLinkAmount(e.target.value)}
+                        className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="linkCurrency" className="block text-xs font-medium text-gray-700">Currency</label>
+                      <select
+                        id="linkCurrency"
+                        value={linkCurrency}
+                        onChange={(e) => setLinkCurrency(e.target.value)}
+                        className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="SAR">SAR</option>
+                        <option value="AED">AED</option>
+                        <option value="KWD">KWD</option>
+                        <option value="USD">USD</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor="linkExpiry" className="block text-xs font-medium text-gray-700">Expires after</label>
+                      <select
+                        id="linkExpiry"
+                        value={linkExpiryHours}
+                        onChange={(e) => setLinkExpiryHours(e.target.value)}
+                        className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="24">1 day</option>
+                        <option value="72">3 days</option>
+                        <option value="168">7 days</option>
+                      </select>
+                    </div>
+                  </div>
+
+                  <div className="mt-3 flex justify-end">
+                    <button
+                      onClick={handleCreatePaymentLink}
+                      disabled={creatingLink || !(parseFloat(linkAmount) > 0)}
+                      className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      {creatingLink ? 'Generating...' : 'Generate Link'}
+                    </button>
+                  </div>
+
+                  {generatedLinkUrl && (
+                    <div className="mt-3 p-3 bg-green-50 border border-green-200 rounded-md">
+                      <p className="text-xs text-green-800">
+                        Copy this link now; it cannot be shown again.
+                      </p>
+                      <div className="mt-2 flex items-center space-x-2">
+                        <input
+                          readOnly
+                          value={generatedLinkUrl}
+                          className="flex-1 px-2 py-1 border border-gray-300 rounded text-xs font-mono bg-white"
+                        />
+                        <button
+                          onClick={() => navigator.clipboard.writeText(generatedLinkUrl)}
+                          className="p-1 text-gray-600 hover:text-gray-900"
+                          title="Copy link"
+                        >
+                          <Copy className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  {linkError && (
+                    <p className="mt-3 text-sm text-red-600">{linkError}</p>
+                  )}
+
+                  {paymentLinks.length > 0 && (
+                    <div className="mt-3 space-y-2">
+                      {paymentLinks.map(link => (
+                        <div key={link.id} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+                          <div>
+                            <p className="text-sm font-medium text-gray-900">
+                              {formatMoney({ amount: link.amount, currency: link.currency })}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              Created {format(new Date(link.created_at), 'MMM dd, HH:mm')}
+                              {' • '}expires {format(new Date(link.expires_at), 'MMM dd, HH:mm')}
+                            </p>
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${getPaymentLinkBadge(link.status)}`}>
+                              {link.status}
+                            </span>
+                            {(link.status === 'active' || link.status === 'processing') && (
+                              <button
+                                onClick={() => handleRevokePaymentLink(link.id)}
+                                className="text-xs text-red-600 hover:text-red-800"
+                              >
+                                Revoke
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
                 <div className="mt-6 flex justify-end space-x-3">
+                  {selectedBooking.status === 'upcoming' && (
+                    <>
+                      <button
+                        onClick={() => handleCancelBooking(selectedBooking, 'no_show')}
+                        disabled={cancellingBookingId === selectedBooking.id}
+                        className="flex items-center px-4 py-2 text-sm font-medium text-orange-700 bg-orange-50 rounded-md hover:bg-orange-100 disabled:opacity-50"
+                      >
+                        <UserX className="w-4 h-4 mr-2" />
+                        Mark No-show
+                      </button>
+                      <button
+                        onClick={() => handleCancelBooking(selectedBooking, 'cancelled')}
+                        disabled={cancellingBookingId === selectedBooking.id}
+                        className="flex items-center px-4 py-2 text-sm font-medium text-red-700 bg-red-50 rounded-md hover:bg-red-100 disabled:opacity-50"
+                      >
+                        <XCircle className="w-4 h-4 mr-2" />
+                        Cancel Booking
+                      </button>
+                    </>
+                  )}
                   <button
                     onClick={() => setShowDetails(false)}
                     className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
@@ -11,6 +11,8 @@ import {
     convertFileToBase64,
     compressImage
 } from '@/lib/firebaseServicesNoStorage';
+import { DEFAULT_AVAILABILITY_SETTINGS, DEFAULT_CANCELLATION_POLICY } from '@/lib/bookingPolicy';
+import { DepositRule } from '@/types/deposit';
 
 export default function BranchesPage() {
     const [branches, setBranches] = useState<Branch[]>([]);
@@ -27,7 +29,17 @@ export default function BranchesPage() {
         isActive: true,
         image: '',
         city: '',
-        country: 'UAE'
+        country: 'UAE',
+        legalName: '',
+        vatNumber: '',
+        depositType: '' as '' | DepositRule['type'],
+        depositValue: 0,
+        freeCancellationHours: DEFAULT_CANCELLATION_POLICY.free_cancellation_hours,
+        lateCancellationFeePercent: DEFAULT_CANCELLATION_POLICY.late_cancellation_fee_percent,
+        noShowFeePercent: DEFAULT_CANCELLATION_POLICY.no_show_fee_percent,
+        staffCount: DEFAULT_AVAILABILITY_SETTINGS.staff_count,
+        bufferMinutes: DEFAULT_AVAILABILITY_SETTINGS.buffer_minutes,
+        slotIntervalMinutes: DEFAULT_AVAILABILITY_SETTINGS.slot_interval_minutes
     });
     const [imageFile, setImageFile] = useState<File | null>(null);
     const [uploading, setUploading] = useState(false);
@@ -80,6 +92,20 @@ export default function BranchesPage() {
                 }
             }
 
+            const deposit: DepositRule | null = formData.depositType && formData.depositValue > 0
+                ? { type: formData.depositType, value: formData.depositValue }
+                : null;
+            const cancellationPolicy = {
+                free_cancellation_hours: formData.freeCancellationHours,
+                late_cancellation_fee_percent: formData.lateCancellationFeePercent,
+                no_show_fee_percent: formData.noShowFeePercent
+            };
+            const availability = {
+                staff_count: formData.staffCount,
+                buffer_minutes: formData.bufferMinutes,
+                slot_interval_minutes: formData.slotIntervalMinutes
+            };
+
             if (editingBranch) {
                 // Update existing branch
                 await updateBranch(editingBranch.id!, {
@@ -92,6 +118,11 @@ export default function BranchesPage() {
                     isActive: formData.isActive,
                     city: formData.city,
                     country: formData.country,
+                    legalName: formData.legalName.trim(),
+                    vatNumber: formData.vatNumber.trim(),
+                    deposit,
+                    cancellationPolicy,
+                    availability,
                     imageBase64: imageBase64
                 });
             } else {
@@ -106,6 +137,11 @@ export default function BranchesPage() {
                     isActive: formData.isActive,
                     city: formData.city,
                     country: formData.country,
+                    legalName: formData.legalName.trim(),
+                    vatNumber: formData.vatNumber.trim(),
+                    deposit,
+                    cancellationPolicy,
+                    availability,
                     imageBase64: imageBase64
                 });
             }
@@ -130,7 +166,17 @@ export default function BranchesPage() {
             isActive: true,
             image: '',
             city: '',
-            country: 'UAE'
+            country: 'UAE',
+            legalName: '',
+            vatNumber: '',
+            depositType: '',
+            depositValue: 0,
+            freeCancellationHours: DEFAULT_CANCELLATION_POLICY.free_cancellation_hours,
+            lateCancellationFeePercent: DEFAULT_CANCELLATION_POLICY.late_cancellation_fee_percent,
+            noShowFeePercent: DEFAULT_CANCELLATION_POLICY.no_show_fee_percent,
+            staffCount: DEFAULT_AVAILABILITY_SETTINGS.staff_count,
+            bufferMinutes: DEFAULT_AVAILABILITY_SETTINGS.buffer_minutes,
+            slotIntervalMinutes: DEFAULT_AVAILABILITY_SETTINGS.slot_interval_minutes
         });
         setImageFile(null);
         setShowModal(false);
@@ -149,7 +195,17 @@ export default function BranchesPage() {
             isActive: branch.isActive,
             image: branch.imageBase64 || '',
             city: branch.city,
-            country: branch.country
+            country: branch.country,
+            legalName: branch.legalName || '',
+            vatNumber: branch.vatNumber || '',
+            depositType: branch.deposit?.type || '',
+            depositValue: branch.deposit?.value || 0,
+            freeCancellationHours: branch.cancellationPolicy?.free_cancellation_hours ?? DEFAULT_CANCELLATION_POLICY.free_cancellation_hours,
+            lateCancellationFeePercent: branch.cancellationPolicy?.late_cancellation_fee_percent ?? DEFAULT_CANCELLATION_POLICY.late_cancellation_fee_percent,
+            noShowFeePercent: branch.cancellationPolicy?.no_show_fee_percent ?? DEFAULT_CANCELLATION_POLICY.no_show_fee_percent,
+            staffCount: branch.availability?.staff_count ?? DEFAULT_AVAILABILITY_SETTINGS.staff_count,
+            bufferMinutes: branch.availability?.buffer_minutes ?? DEFAULT_AVAILABILITY_SETTINGS.buffer_minutes,
+            slotIntervalMinutes: branch.availability?.slot_interval_minutes ?? DEFAULT_AVAILABILITY_SETTINGS.slot_interval_minutes
         });
         setImageFile(null);
         setShowModal(true);
@@ -339,6 +395,145 @@ export default function BranchesPage() {
                                         </div>
                                     </div>
 
+                                    {/* Tax Registration */}
+                                    <div className="grid grid-cols-2 gap-4">
+                                        <div>
+                                            <label className="block text-sm font-medium text-pink-600 mb-2">Legal Name</label>
+                                            <input
+                                                type="text"
+                                                value={formData.legalName}
+                                                onChange={(e) => setFormData({ ...formData, legalName: e.target.value })}
+                                                className="w-full px-4 py-3 border border-pink-200/50 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-400 focus:border-pink-400 transition-all text-sm"
+                                                placeholder="Mirror Beauty Lounge LLC"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm font-medium text-pink-600 mb-2">VAT Number</label>
+                                            <input
+                                                type="text"
+                                                value={formData.vatNumber}
+                                                onChange={(e) => setFormData({ ...formData, vatNumber: e.target.value })}
+                                                className="w-full px-4 py-3 border border-pink-200/50 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-400 focus:border-pink-400 transition-all text-sm"
+                                                placeholder="300000000000003"
+                                                pattern="\d{15}"
+                                                title="15-digit VAT registration number"
+                                            />
+                                        </div>
+                                    </div>
+
+                                    {/* Deposits & Cancellations */}
+                                    <div className="grid grid-cols-2 gap-4">
+                                        <div>
+                                            <label className="block text-sm font-medium text-pink-600 mb-2">Deposit</label>
+                                            <select
+                                                value={formData.depositType}
+                                                onChange={(e) => setFormData({ ...formData, depositType: e.target.value as '' | DepositRule['type'] })}
+                                                className="w-full px-4 py-3 border border-pink-200/50 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-400 focus:border-pink-400 transition-all text-sm"
+                                            >
+                                                <option value="">No deposit</option>
+                                                <option value="percentage">Percentage of price</option>
+                                                <option value="fixed">Fixed amount per service</option>
+                                            </select>
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm font-medium text-pink-600 mb-2">
+                                                {formData.depositType === 'fixed' ? 'Deposit Amount' : 'Deposit (%)'}
+                                            </label>
+                                            <input
+                                                type="number"
+                                                value={formData.depositValue || ''}
+                                                onChange={(e) => setFormData({ ...formData, depositValue: e.target.value === '' ? 0 : parseFloat(e.target.value) })}
+                                                disabled={!formData.depositType}
+                                                className="w-full px-4 py-3 border border-pink-200/50 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-400 focus:border-pink-400 transition-all text-sm disabled:bg-gray-50"
+                                                min="0"
+                                                max={formData.depositType === 'percentage' ? 100 : undefined}
+                                                step="0.01"
+                                                placeholder="0"
+                                            />
+                                        </div>
+                                    </div>
+
+                                    <div className="grid grid-cols-3 gap-4">
+                                        <div>
+                                            <label className="block text-sm font-medium text-pink-600 mb-2">Free Cancellation (hours)</label>
+                                            <input
+                                                type="number"
+                                                value={formData.freeCancellationHours}
+                                                onChange={(e) => setFormData({ ...formData, freeCancellationHours: e.target.value === '' ? 0 : parseFloat(e.target.value) })}
+                                                className="w-full px-4 py-3 border border-pink-200/50 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-400 focus:border-pink-400 transition-all text-sm"
+                                                min="0"
+                                                step="1"
+                                                placeholder="24"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm font-medium text-pink-600 mb-2">Late Cancellation Fee (%)</label>
+                                            <input
+                                                type="number"
+                                                value={formData.lateCancellationFeePercent}
+                                                onChange={(e) => setFormData({ ...formData, lateCancellationFeePercent: e.target.value === '' ? 0 : parseFloat(e.target.value) })}
+                                                className="w-full px-4 py-3 border border-pink-200/50 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-400 focus:border-pink-400 transition-all text-sm"
+                                                min="0"
+                                                max="100"
+                                                placeholder="0"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm font-medium text-pink-600 mb-2">No-show Fee (%)</label>
+                                            <input
+                                                type="number"
+                                                value={formData.noShowFeePercent}
+                                                onChange={(e) => setFormData({ ...formData, noShowFeePercent: e.target.value === '' ? 0 : parseFloat(e.target.value) })}
+                                                className="w-full px-4 py-3 border border-pink-200/50 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-400 focus:border-pink-400 transition-all text-sm"
+                                                min="0"
+                                                max="100"
+                                                placeholder="0"
+                                            />
+                                        </div>
+                                    </div>
+
+                                    {/* Online Booking */}
+                                    <div className="grid grid-cols-3 gap-4">
+                                        <div>
+                                            <label className="block text-sm font-medium text-pink-600 mb-2">Staff Available</label>
+                                            <input
+                                                type="number"
+                                                value={formData.staffCount}
+                                                onChange={(e) => setFormData({ ...formData, staffCount: e.target.value === '' ? 1 : parseInt(e.target.value, 10) })}
+                                                className="w-full px-4 py-3 border border-pink-200/50 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-400 focus:border-pink-400 transition-all text-sm"
+                                                min="1"
+                                                step="1"
+                                                placeholder="1"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm font-medium text-pink-600 mb-2">Buffer (minutes)</label>
+                                            <input
+                                                type="number"
+                                                value={formData.bufferMinutes}
+                                                onChange={(e) => setFormData({ ...formData, bufferMinutes: e.target.value === '' ? 0 : parseInt(e.target.value, 10) })}
+                                                className="w-full px-4 py-3 border border-pink-200/50 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-400 focus:border-pink-400 transition-all text-sm"
+                                                min="0"
+                                                max="120"
+                                                step="5"
+                                                placeholder="10"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm font-medium text-pink-600 mb-2">Slot Interval (minutes)</label>
+                                            <input
+                                                type="number"
+                                                value={formData.slotIntervalMinutes}
+                                                onChange={(e) => setFormData({ ...formData, slotIntervalMinutes: e.target.value === '' ? DEFAULT_AVAILABILITY_SETTINGS.slot_interval_minutes : parseInt(e.target.value, 10) })}
+                                                className="w-full px-4 py-3 border border-pink-200/50 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-400 focus:border-pink-400 transition-all text-sm"
+                                                min="5"
+                                                max="120"
+                                                step="5"
+                                                placeholder="15"
+                                            />
+                                        </div>
+                                    </div>
+
                                     {/* Contact Information */}
                                     <div className="grid grid-cols-2 gap-4">
                                         <div>
@@ -1,13 +1,25 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { Search, Upload, Trash2, Eye } from 'lucide-react';
+import { Search, Upload, Trash2, Eye, Gift, Crown, Copy, X } from 'lucide-react';
 import { Customer, CustomerFilter, CustomerStats } from '../../types/customer';
 import { getCustomers, searchCustomers, deleteCustomer, getCustomerStats } from '../../lib/customerService';
 import { useAuth } from '../../contexts/AuthContext';
 import DataImport from '../../components/DataImport';
+import { authorizedFetch } from '../../lib/networkUtils';
+import { formatMoney } from '../../lib/money';
+import { GiftCard } from '../../types/giftCard';
+import { Membership, MembershipPlan, MembershipStatus } from '../../types/membership';
 // Removed unused import
 
+const MEMBERSHIP_STATUS_COLORS: Record<MembershipStatus, string> = {
+  incomplete: 'bg-yellow-100 text-yellow-800',
+  active: 'bg-green-100 text-green-800',
+  past_due: 'bg-orange-100 text-orange-800',
+  suspended: 'bg-red-100 text-red-800',
+  canceled: 'bg-gray-100 text-gray-800',
+};
+
 export default function CustomersPage() {
   const { user } = useAuth();
   const [customers, setCustomers] = useState<Customer[]>([]);
@@ -16,6 +28,16 @@ export default function CustomersPage() {
   const [searchTerm, setSearchTerm] = useState('');
   const [filter] = useState<CustomerFilter>({ status: 'all' });
   const [showImport, setShowImport] = useState(false);
+  const [giftCardCustomer, setGiftCardCustomer] = useState<Customer | null>(null);
+  const [customerGiftCards, setCustomerGiftCards] = useState<GiftCard[]>([]);
+  const [giftCardsError, setGiftCardsError] = useState('');
+  const [membershipCustomer, setMembershipCustomer] = useState<Customer | null>(null);
+  const [customerMemberships, setCustomerMemberships] = useState<Membership[]>([]);
+  const [membershipPlans, setMembershipPlans] = useState<MembershipPlan[]>([]);
+  const [membershipsError, setMembershipsError] = useState('');
+  const [signupPlanId, setSignupPlanId] = useState('');
+  const [signupUrl, setSignupUrl] = useState('');
+  const [membershipBusy, setMembershipBusy] = useState(false);
   // Removed unused state variables
   const [stats, setStats] = useState<CustomerStats>({
     totalCustomers: 0,
@@ -63,6 +85,118 @@ export default function CustomersPage() {
     }
   }, []);
 
+  // Show the gift cards a customer holds and their balances
+  const openGiftCards = async (customer: Customer) => {
+    setGiftCardCustomer(customer);
+    setCustomerGiftCards([]);
+    setGiftCardsError('');
+
+    try {
+      const response = await authorizedFetch(`/api/payments/gift-cards?customer_id=${encodeURIComponent(customer.id || '')}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load gift cards');
+      }
+
+      setCustomerGiftCards(data.data);
+    } catch (error) {
+      setGiftCardsError(error instanceof Error ? error.message : 'Failed to load gift cards');
+    }
+  };
+
+  const loadMemberships = async (customerId: string) => {
+    const response = await authorizedFetch(`/api/payments/memberships?customer_id=${encodeURIComponent(customerId)}`);
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load memberships');
+    }
+
+    setCustomerMemberships(data.data);
+  };
+
+  // Show a customer's memberships and the plans they can be signed up to
+  const openMemberships = async (customer: Customer) => {
+    setMembershipCustomer(customer);
+    setCustomerMemberships([]);
+    setMembershipsError('');
+    setSignupPlanId('');
+    setSignupUrl('');
+
+    try {
+      const response = await authorizedFetch('/api/payments/memberships/plans?active=true');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load membership plans');
+      }
+
+      setMembershipPlans(data.data);
+      await loadMemberships(customer.id || '');
+    } catch (error) {
+      setMembershipsError(error instanceof Error ? error.message : 'Failed to load memberships');
+    }
+  };
+
+  // Create a Stripe Checkout link for the customer to start the membership with their card
+  const handleMembershipSignup = async () => {
+    if (!membershipCustomer?.id || !signupPlanId) return;
+
+    setMembershipBusy(true);
+    setMembershipsError('');
+
+    try {
+      const response = await authorizedFetch('/api/payments/memberships', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ customer_id: membershipCustomer.id, plan_id: signupPlanId })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to start membership signup');
+      }
+
+      setSignupUrl(data.data.checkout_url);
+    } catch (error) {
+      setMembershipsError(error instanceof Error ? error.message : 'Failed to start membership signup');
+    } finally {
+      setMembershipBusy(false);
+    }
+  };
+
+  const handleMembershipAction = async (membership: Membership, action: 'cancel' | 'cancel_at_period_end' | 'resume') => {
+    if (action === 'cancel' && !confirm('Cancel this membership now? The customer loses their benefits straight away.')) return;
+
+    setMembershipBusy(true);
+    setMembershipsError('');
+
+    try {
+      const response = await authorizedFetch(`/api/payments/memberships/${membership.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to update membership');
+      }
+
+      await loadMemberships(membership.customer_id);
+      fetchCustomers();
+    } catch (error) {
+      setMembershipsError(error instanceof Error ? error.message : 'Failed to update membership');
+    } finally {
+      setMembershipBusy(false);
+    }
+  };
+
   // Search customers
   const handleSearch = async (term: string) => {
     setSearchTerm(term);
@@ -261,6 +395,20 @@ export default function CustomersPage() {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                         <div className="flex gap-2">
+                          <button
+                            onClick={() => openGiftCards(customer)}
+                            className="text-pink-600 hover:text-pink-900"
+                            title="Gift cards"
+                          >
+                            <Gift className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => openMemberships(customer)}
+                            className="text-purple-600 hover:text-purple-900"
+                            title="Membership"
+                          >
+                            <Crown className="h-4 w-4" />
+                          </button>
                           <button
                             onClick={() => customer.id && handleDeleteCustomer(customer.id)}
                             className="text-red-600 hover:text-red-900"
@@ -278,6 +426,164 @@ export default function CustomersPage() {
         </div>
       </div>
 
+      {/* Gift Cards Modal */}
+      {giftCardCustomer && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-lg">
+            <div className="flex items-center justify-between p-6 border-b">
+              <h2 className="text-lg font-semibold text-gray-900">Gift Cards &middot; {giftCardCustomer.name}</h2>
+              <button onClick={() => setGiftCardCustomer(null)} className="text-gray-400 hover:text-gray-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="p-6 space-y-3">
+              {giftCardsError && (
+                <p className="text-sm text-red-600">{giftCardsError}</p>
+              )}
+              {!giftCardsError && customerGiftCards.length === 0 && (
+                <p className="text-sm text-gray-500">This customer has no gift cards.</p>
+              )}
+              {customerGiftCards.map(card => (
+                <div key={card.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div>
+                    <p className="font-mono text-sm">{card.code}</p>
+                    <p className="text-xs text-gray-500 capitalize">
+                      {card.status} &middot; expires {new Date(card.expires_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <p className="text-sm font-semibold text-gray-900">
+                    {formatMoney({ amount: card.balance, currency: card.currency })}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Membership Modal */}
+      {membershipCustomer && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-lg">
+            <div className="flex items-center justify-between p-6 border-b">
+              <h2 className="text-lg font-semibold text-gray-900">
+                Membership &middot; {membershipCustomer.name}
+                <span className="ml-2 text-sm font-normal text-gray-500 capitalize">
+                  ({membershipCustomer.membershipTier || 'bronze'})
+                </span>
+              </h2>
+              <button onClick={() => setMembershipCustomer(null)} className="text-gray-400 hover:text-gray-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="p-6 space-y-3">
+              {membershipsError && (
+                <p className="text-sm text-red-600">{membershipsError}</p>
+              )}
+              {!membershipsError && customerMemberships.length === 0 && (
+                <p className="text-sm text-gray-500">This customer has no membership.</p>
+              )}
+              {customerMemberships.map(membership => (
+                <div key={membership.id} className="p-3 border rounded-lg space-y-2">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-semibold text-gray-900">{membership.plan_name}</p>
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${MEMBERSHIP_STATUS_COLORS[membership.status]}`}>
+                      {membership.status.replace('_', ' ')}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Since {new Date(membership.started_at).toLocaleDateString()} &middot;{' '}
+                    {membership.status === 'canceled'
+                      ? `ended ${new Date(membership.canceled_at || membership.updated_at).toLocaleDateString()}`
+                      : membership.cancel_at_period_end
+                        ? `ends ${new Date(membership.current_period_end).toLocaleDateString()}`
+                        : `renews ${new Date(membership.current_period_end).toLocaleDateString()}`}
+                  </p>
+                  {membership.failed_payment_attempts > 0 && (
+                    <p className="text-xs text-orange-700">
+                      {membership.failed_payment_attempts} failed payment attempt{membership.failed_payment_attempts === 1 ? '' : 's'}
+                      {membership.last_payment_error ? `: ${membership.last_payment_error}` : ''}
+                      {membership.next_payment_attempt
+                        ? ` · next retry ${new Date(membership.next_payment_attempt).toLocaleDateString()}`
+                        : ''}
+                    </p>
+                  )}
+                  {membership.status !== 'canceled' && (
+                    <div className="flex gap-2">
+                      {membership.cancel_at_period_end ? (
+                        <button
+                          onClick={() => handleMembershipAction(membership, 'resume')}
+                          disabled={membershipBusy}
+                          className="px-3 py-1 text-xs border rounded-md hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          Keep membership
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => handleMembershipAction(membership, 'cancel_at_period_end')}
+                          disabled={membershipBusy}
+                          className="px-3 py-1 text-xs border rounded-md hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          Cancel at period end
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleMembershipAction(membership, 'cancel')}
+                        disabled={membershipBusy}
+                        className="px-3 py-1 text-xs border border-red-200 text-red-600 rounded-md hover:bg-red-50 disabled:opacity-50"
+                      >
+                        Cancel now
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+
+              {!customerMemberships.some(membership => membership.status !== 'canceled' && membership.status !== 'incomplete') && (
+                <div className="pt-3 border-t space-y-2">
+                  <div className="flex gap-2">
+                    <select
+                      value={signupPlanId}
+                      onChange={(e) => setSignupPlanId(e.target.value)}
+                      className="flex-1 p-2 border rounded-md text-sm"
+                    >
+                      <option value="">Choose a plan...</option>
+                      {membershipPlans.map(plan => (
+                        <option key={plan.id} value={plan.id}>
+                          {plan.name} ({formatMoney({ amount: plan.monthly_price, currency: plan.currency })}/month)
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={handleMembershipSignup}
+                      disabled={membershipBusy || !signupPlanId}
+                      className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      Get signup link
+                    </button>
+                  </div>
+                  {signupUrl && (
+                    <div className="flex items-center space-x-2">
+                      <input
+                        readOnly
+                        value={signupUrl}
+                        className="flex-1 p-2 border rounded-md text-xs font-mono bg-white"
+                      />
+                      <button
+                        onClick={() => navigator.clipboard.writeText(signupUrl)}
+                        className="p-2 border rounded-md hover:bg-gray-50"
+                      >
+                        <Copy className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Import Modal */}
       {showImport && (
         <DataImport
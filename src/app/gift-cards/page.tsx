@@ -0,0 +1,474 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { AlertCircle, Copy, Gift, RefreshCw, Search } from 'lucide-react';
+import { authorizedFetch } from '@/lib/networkUtils';
+import { formatMoney, getCurrencyExponent } from '@/lib/money';
+import { GiftCard, GiftCardStatus, GiftCardTransaction } from '@/types/giftCard';
+
+interface GiftCardDetails extends GiftCard {
+  transactions: GiftCardTransaction[];
+}
+
+const STATUS_COLORS: Record<GiftCardStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  active: 'bg-green-100 text-green-800',
+  depleted: 'bg-gray-100 text-gray-800',
+  expired: 'bg-gray-100 text-gray-800',
+  disabled: 'bg-red-100 text-red-800',
+};
+
+const TRANSACTION_LABELS: Record<GiftCardTransaction['type'], string> = {
+  issue: 'Issued',
+  redemption: 'Redeemed',
+  refund: 'Refunded to card',
+};
+
+const EMPTY_FORM = {
+  amount: '',
+  currency: 'SAR',
+  expiresInMonths: '12',
+  customerEmail: '',
+  recipientName: '',
+  message: '',
+  sell: true,
+};
+
+export default function GiftCardsPage() {
+  const [cards, setCards] = useState<GiftCard[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [issuing, setIssuing] = useState(false);
+  const [issueError, setIssueError] = useState('');
+  const [issuedCard, setIssuedCard] = useState<(GiftCard & { payment_url?: string }) | null>(null);
+  const [lookupCode, setLookupCode] = useState('');
+  const [selectedCard, setSelectedCard] = useState<GiftCardDetails | null>(null);
+  const [lookupError, setLookupError] = useState('');
+  const [updating, setUpdating] = useState(false);
+
+  const loadCards = useCallback(async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await authorizedFetch('/api/payments/gift-cards');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load gift cards');
+      }
+
+      setCards(data.data);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load gift cards');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCards();
+  }, [loadCards]);
+
+  const openCard = async (code: string) => {
+    setLookupError('');
+
+    try {
+      const response = await authorizedFetch(`/api/payments/gift-cards/${encodeURIComponent(code)}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load gift card');
+      }
+
+      setSelectedCard(data.data);
+    } catch (error) {
+      setSelectedCard(null);
+      setLookupError(error instanceof Error ? error.message : 'Failed to load gift card');
+    }
+  };
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (lookupCode.trim()) {
+      await openCard(lookupCode.trim());
+    }
+  };
+
+  const handleIssue = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIssuing(true);
+    setIssueError('');
+    setIssuedCard(null);
+
+    try {
+      const response = await authorizedFetch('/api/payments/gift-cards', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          amount: parseFloat(form.amount),
+          currency: form.currency,
+          expires_in_months: parseInt(form.expiresInMonths, 10),
+          sell: form.sell,
+          ...(form.customerEmail ? { customer_email: form.customerEmail } : {}),
+          ...(form.recipientName ? { recipient_name: form.recipientName } : {}),
+          ...(form.message ? { message: form.message } : {})
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to issue gift card');
+      }
+
+      setIssuedCard(data.data);
+      setForm(EMPTY_FORM);
+      await loadCards();
+    } catch (error) {
+      setIssueError(error instanceof Error ? error.message : 'Failed to issue gift card');
+    } finally {
+      setIssuing(false);
+    }
+  };
+
+  const handleToggleDisabled = async (card: GiftCard) => {
+    setUpdating(true);
+    setLookupError('');
+
+    try {
+      const response = await authorizedFetch(`/api/payments/gift-cards/${card.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ disabled: card.status !== 'disabled' })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update gift card');
+      }
+
+      await Promise.all([openCard(card.id), loadCards()]);
+    } catch (error) {
+      setLookupError(error instanceof Error ? error.message : 'Failed to update gift card');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const getStatusBadge = (status: GiftCardStatus) => (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_COLORS[status]}`}>
+      {status}
+    </span>
+  );
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold tracking-tight">Gift Cards</h1>
+        <button
+          onClick={loadCards}
+          disabled={loading}
+          className="p-2 border rounded-md hover:bg-gray-50 disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Issue */}
+        <div className="bg-white rounded-lg border shadow-sm p-6 space-y-4">
+          <div>
+            <h3 className="text-lg font-semibold">Issue a Gift Card</h3>
+            <p className="text-sm text-gray-600">
+              Sold cards get a payment link and become usable once it is paid.
+            </p>
+          </div>
+
+          <form onSubmit={handleIssue} className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2">
+                <label htmlFor="giftAmount" className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
+                <input
+                  id="giftAmount"
+                  type="number"
+                  min="0"
+                  step={Math.pow(10, -getCurrencyExponent(form.currency))}
+                  required
+                  value={form.amount}
+                  onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                  className="w-full p-2 border rounded-md"
+                />
+              </div>
+              <div>
+                <label htmlFor="giftCurrency" className="block text-sm font-medium text-gray-700 mb-1">Currency</label>
+                <select
+                  id="giftCurrency"
+                  value={form.currency}
+                  onChange={(e) => setForm({ ...form, currency: e.target.value })}
+                  className="w-full p-2 border rounded-md"
+                >
+                  <option value="SAR">SAR</option>
+                  <option value="AED">AED</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="giftExpiry" className="block text-sm font-medium text-gray-700 mb-1">Valid for (months)</label>
+                <input
+                  id="giftExpiry"
+                  type="number"
+                  min="1"
+                  max="60"
+                  required
+                  value={form.expiresInMonths}
+                  onChange={(e) => setForm({ ...form, expiresInMonths: e.target.value })}
+                  className="w-full p-2 border rounded-md"
+                />
+              </div>
+              <div>
+                <label htmlFor="giftCustomer" className="block text-sm font-medium text-gray-700 mb-1">Customer email</label>
+                <input
+                  id="giftCustomer"
+                  type="email"
+                  value={form.customerEmail}
+                  onChange={(e) => setForm({ ...form, customerEmail: e.target.value })}
+                  className="w-full p-2 border rounded-md"
+                  placeholder="Optional"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="giftRecipient" className="block text-sm font-medium text-gray-700 mb-1">Recipient name</label>
+              <input
+                id="giftRecipient"
+                type="text"
+                value={form.recipientName}
+                onChange={(e) => setForm({ ...form, recipientName: e.target.value })}
+                className="w-full p-2 border rounded-md"
+                placeholder="Optional"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="giftMessage" className="block text-sm font-medium text-gray-700 mb-1">Message</label>
+              <textarea
+                id="giftMessage"
+                rows={2}
+                value={form.message}
+                onChange={(e) => setForm({ ...form, message: e.target.value })}
+                className="w-full p-2 border rounded-md"
+                placeholder="Optional"
+              />
+            </div>
+
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.sell}
+                onChange={(e) => setForm({ ...form, sell: e.target.checked })}
+              />
+              <span>Sell (customer pays through a payment link)</span>
+            </label>
+
+            <button
+              type="submit"
+              disabled={issuing}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Gift className="w-4 h-4 mr-2" />
+              {issuing ? 'Issuing...' : form.sell ? 'Create & get payment link' : 'Issue gift card'}
+            </button>
+          </form>
+
+          {issueError && (
+            <p className="text-sm text-red-600">{issueError}</p>
+          )}
+
+          {issuedCard && (
+            <div className="bg-green-50 border border-green-200 rounded-md p-4 space-y-2">
+              <p className="text-sm text-green-800">
+                Gift card <span className="font-mono font-semibold">{issuedCard.code}</span> for{' '}
+                {formatMoney({ amount: issuedCard.initial_amount, currency: issuedCard.currency })}
+                {issuedCard.status === 'pending' ? ' will be active once paid.' : ' is active.'}
+              </p>
+              {issuedCard.payment_url && (
+                <div className="flex items-center space-x-2">
+                  <input
+                    readOnly
+                    value={issuedCard.payment_url}
+                    className="flex-1 p-2 border rounded-md text-xs font-mono bg-white"
+                  />
+                  <button
+                    onClick={() => navigator.clipboard.writeText(issuedCard.payment_url || '')}
+                    className="p-2 border rounded-md hover:bg-white"
+                  >
+                    <Copy className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Balance lookup */}
+        <div className="bg-white rounded-lg border shadow-sm p-6 space-y-4">
+          <div>
+            <h3 className="text-lg font-semibold">Check Balance</h3>
+            <p className="text-sm text-gray-600">Look up a card by its code to see its balance and history.</p>
+          </div>
+
+          <form onSubmit={handleLookup} className="flex space-x-2">
+            <input
+              type="text"
+              value={lookupCode}
+              onChange={(e) => setLookupCode(e.target.value)}
+              className="flex-1 p-2 border rounded-md font-mono uppercase"
+              placeholder="XXXX-XXXX-XXXX-XXXX"
+            />
+            <button
+              type="submit"
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              <Search className="w-4 h-4 mr-2" />
+              Look up
+            </button>
+          </form>
+
+          {lookupError && (
+            <p className="text-sm text-red-600">{lookupError}</p>
+          )}
+
+          {selectedCard && (
+            <div className="space-y-4">
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="font-mono font-semibold">{selectedCard.code}</p>
+                  <p className="text-2xl font-bold">
+                    {formatMoney({ amount: selectedCard.balance, currency: selectedCard.currency })}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    of {formatMoney({ amount: selectedCard.initial_amount, currency: selectedCard.currency })} &middot;
+                    {' '}expires {new Date(selectedCard.expires_at).toLocaleDateString()}
+                  </p>
+                  {selectedCard.recipient_name && (
+                    <p className="text-xs text-gray-500">For {selectedCard.recipient_name}</p>
+                  )}
+                </div>
+                <div className="flex flex-col items-end space-y-2">
+                  {getStatusBadge(selectedCard.status)}
+                  <button
+                    onClick={() => handleToggleDisabled(selectedCard)}
+                    disabled={updating}
+                    className="px-3 py-1 text-xs border rounded-md hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {selectedCard.status === 'disabled' ? 'Enable' : 'Disable'}
+                  </button>
+                </div>
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 border-b">
+                    <th className="py-2">Date</th>
+                    <th className="py-2">Type</th>
+                    <th className="py-2">Order</th>
+                    <th className="py-2 text-right">Amount</th>
+                    <th className="py-2 text-right">Balance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {selectedCard.transactions.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="py-4 text-center text-gray-500">No transactions yet</td>
+                    </tr>
+                  ) : (
+                    selectedCard.transactions.map(transaction => (
+                      <tr key={transaction.id} className="border-b last:border-0">
+                        <td className="py-2">{new Date(transaction.created_at).toLocaleString()}</td>
+                        <td className="py-2">{TRANSACTION_LABELS[transaction.type]}</td>
+                        <td className="py-2 font-mono text-xs">{transaction.order_id || '-'}</td>
+                        <td className={`py-2 text-right ${transaction.type === 'redemption' ? 'text-red-600' : 'text-green-600'}`}>
+                          {transaction.type === 'redemption' ? '-' : '+'}
+                          {formatMoney({ amount: transaction.amount, currency: transaction.currency })}
+                        </td>
+                        <td className="py-2 text-right">
+                          {formatMoney({ amount: transaction.balance_after, currency: transaction.currency })}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* All cards */}
+      <div className="bg-white rounded-lg border shadow-sm">
+        <div className="p-6 pb-2">
+          <h3 className="text-lg font-semibold">All Gift Cards</h3>
+        </div>
+        <div className="p-6 pt-0">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-4">
+              <div className="flex">
+                <AlertCircle className="h-5 w-5 text-red-400" />
+                <div className="ml-3">
+                  <p className="text-sm text-red-800">{error}</p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b">
+                  <th className="py-2">Code</th>
+                  <th className="py-2">Status</th>
+                  <th className="py-2">Recipient</th>
+                  <th className="py-2 text-right">Balance</th>
+                  <th className="py-2">Expires</th>
+                  <th className="py-2">Issued</th>
+                </tr>
+              </thead>
+              <tbody>
+                {!loading && cards.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="py-4 text-center text-gray-500">No gift cards issued yet</td>
+                  </tr>
+                ) : (
+                  cards.map(card => (
+                    <tr
+                      key={card.id}
+                      onClick={() => openCard(card.id)}
+                      className="border-b last:border-0 hover:bg-gray-50 cursor-pointer"
+                    >
+                      <td className="py-2 font-mono">{card.code}</td>
+                      <td className="py-2">{getStatusBadge(card.status)}</td>
+                      <td className="py-2">{card.recipient_name || '-'}</td>
+                      <td className="py-2 text-right">
+                        {formatMoney({ amount: card.balance, currency: card.currency })}
+                      </td>
+                      <td className="py-2">{new Date(card.expires_at).toLocaleDateString()}</td>
+                      <td className="py-2">{new Date(card.created_at).toLocaleDateString()}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
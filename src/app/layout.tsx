@@ -2,11 +2,13 @@
 
 import './globals.css';
 import { ReactNode, useEffect, useState } from 'react';
+import { usePathname } from 'next/navigation';
 import SidebarWrapper from '@/components/SidebarWrapper';
 // import Header from '@/components/Header';
 import Header from '../components/Navbar';
 
 export default function RootLayout({ children }: { children: ReactNode }) {
+  const pathname = usePathname();
   const [collapsed, setCollapsed] = useState(false);
 
   // Load sidebar state from localStorage on first mount
@@ -31,6 +33,15 @@ export default function RootLayout({ children }: { children: ReactNode }) {
     window.dispatchEvent(new Event('toggle-sidebar'));
   };
 
+  // Customer-facing payment pages are shown without the admin sidebar and header
+  if (pathname?.startsWith('/pay/')) {
+    return (
+      <html lang="en">
+        <body suppressHydrationWarning={true}>{children}</body>
+      </html>
+    );
+  }
+
   return (
     <html lang="en">
       <body className="min-h-screen bg-gradient-to-br from-green-50/50 via-white to-emerald-50/50 dark:from-gray-900 dark:via-black dark:to-gray-900"
@@ -0,0 +1,382 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { AlertCircle, Crown, RefreshCw } from 'lucide-react';
+import { authorizedFetch } from '@/lib/networkUtils';
+import { formatMoney, getCurrencyExponent } from '@/lib/money';
+import { subscribeToServicesChanges, type Service } from '@/lib/firebaseServicesNoStorage';
+import { MembershipIncludedService, MembershipPlan } from '@/types/membership';
+
+const TIER_COLORS: Record<MembershipPlan['tier'], string> = {
+  silver: 'bg-gray-100 text-gray-800',
+  gold: 'bg-yellow-100 text-yellow-800',
+  platinum: 'bg-purple-100 text-purple-800',
+};
+
+const EMPTY_FORM = {
+  name: '',
+  tier: 'silver' as MembershipPlan['tier'],
+  monthlyPrice: '',
+  currency: 'SAR',
+  discountPercent: '0',
+  includedServices: [] as MembershipIncludedService[],
+};
+
+export default function MembershipsPage() {
+  const [plans, setPlans] = useState<MembershipPlan[]>([]);
+  const [services, setServices] = useState<Service[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [creating, setCreating] = useState(false);
+  const [createError, setCreateError] = useState('');
+  const [updatingPlanId, setUpdatingPlanId] = useState<string | null>(null);
+
+  const loadPlans = useCallback(async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await authorizedFetch('/api/payments/memberships/plans');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load membership plans');
+      }
+
+      setPlans(data.data);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load membership plans');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPlans();
+  }, [loadPlans]);
+
+  useEffect(() => {
+    const unsubscribeServices = subscribeToServicesChanges(
+      (servicesData) => {
+        setServices(servicesData.filter(service => service.isActive));
+      },
+      (error) => {
+        console.error('Error fetching services:', error);
+      }
+    );
+
+    return () => unsubscribeServices();
+  }, []);
+
+  const addIncludedService = (serviceId: string) => {
+    const service = services.find(s => s.id === serviceId);
+    if (!service || form.includedServices.some(included => included.service_id === serviceId)) {
+      return;
+    }
+
+    setForm({
+      ...form,
+      includedServices: [...form.includedServices, { service_id: serviceId, service_name: service.name, quantity: 1 }],
+    });
+  };
+
+  const updateIncludedQuantity = (serviceId: string, quantity: number) => {
+    setForm({
+      ...form,
+      includedServices: form.includedServices.map(included =>
+        included.service_id === serviceId ? { ...included, quantity } : included
+      ),
+    });
+  };
+
+  const removeIncludedService = (serviceId: string) => {
+    setForm({
+      ...form,
+      includedServices: form.includedServices.filter(included => included.service_id !== serviceId),
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    setCreateError('');
+
+    try {
+      const response = await authorizedFetch('/api/payments/memberships/plans', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: form.name,
+          tier: form.tier,
+          monthly_price: parseFloat(form.monthlyPrice),
+          currency: form.currency,
+          discount_percent: parseFloat(form.discountPercent) || 0,
+          included_services: form.includedServices
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to create membership plan');
+      }
+
+      setForm(EMPTY_FORM);
+      await loadPlans();
+    } catch (error) {
+      setCreateError(error instanceof Error ? error.message : 'Failed to create membership plan');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleToggleActive = async (plan: MembershipPlan) => {
+    setUpdatingPlanId(plan.id);
+    setError('');
+
+    try {
+      const response = await authorizedFetch(`/api/payments/memberships/plans/${plan.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ active: !plan.active })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update membership plan');
+      }
+
+      await loadPlans();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update membership plan');
+    } finally {
+      setUpdatingPlanId(null);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold tracking-tight">Memberships</h1>
+        <button
+          onClick={loadPlans}
+          disabled={loading}
+          className="p-2 border rounded-md hover:bg-gray-50 disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {/* New plan */}
+      <div className="bg-white rounded-lg border shadow-sm p-6 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold">New Plan</h3>
+          <p className="text-sm text-gray-600">
+            Plans are billed monthly through Stripe. The price and tier cannot be changed later;
+            create a new plan and take the old one off sale instead.
+          </p>
+        </div>
+
+        <form onSubmit={handleCreate} className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-5">
+            <div className="md:col-span-2">
+              <label htmlFor="planName" className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                id="planName"
+                type="text"
+                required
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="w-full p-2 border rounded-md"
+              />
+            </div>
+            <div>
+              <label htmlFor="planTier" className="block text-sm font-medium text-gray-700 mb-1">Tier</label>
+              <select
+                id="planTier"
+                value={form.tier}
+                onChange={(e) => setForm({ ...form, tier: e.target.value as MembershipPlan['tier'] })}
+                className="w-full p-2 border rounded-md"
+              >
+                <option value="silver">Silver</option>
+                <option value="gold">Gold</option>
+                <option value="platinum">Platinum</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="planPrice" className="block text-sm font-medium text-gray-700 mb-1">Monthly price</label>
+              <div className="flex space-x-2">
+                <input
+                  id="planPrice"
+                  type="number"
+                  min="0"
+                  step={Math.pow(10, -getCurrencyExponent(form.currency))}
+                  required
+                  value={form.monthlyPrice}
+                  onChange={(e) => setForm({ ...form, monthlyPrice: e.target.value })}
+                  className="w-full p-2 border rounded-md"
+                />
+                <select
+                  value={form.currency}
+                  onChange={(e) => setForm({ ...form, currency: e.target.value })}
+                  className="p-2 border rounded-md"
+                >
+                  <option value="SAR">SAR</option>
+                  <option value="AED">AED</option>
+                </select>
+              </div>
+            </div>
+            <div>
+              <label htmlFor="planDiscount" className="block text-sm font-medium text-gray-700 mb-1">Discount (%)</label>
+              <input
+                id="planDiscount"
+                type="number"
+                min="0"
+                max="100"
+                value={form.discountPercent}
+                onChange={(e) => setForm({ ...form, discountPercent: e.target.value })}
+                className="w-full p-2 border rounded-md"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="planServices" className="block text-sm font-medium text-gray-700 mb-1">
+              Included services (per month)
+            </label>
+            <select
+              id="planServices"
+              value=""
+              onChange={(e) => addIncludedService(e.target.value)}
+              className="w-full md:w-1/2 p-2 border rounded-md"
+            >
+              <option value="">Add a service...</option>
+              {services
+                .filter(service => !form.includedServices.some(included => included.service_id === service.id))
+                .map(service => (
+                  <option key={service.id} value={service.id}>{service.name}</option>
+                ))}
+            </select>
+
+            {form.includedServices.length > 0 && (
+              <div className="mt-2 space-y-2">
+                {form.includedServices.map(included => (
+                  <div key={included.service_id} className="flex items-center space-x-2 text-sm">
+                    <input
+                      type="number"
+                      min="1"
+                      max="100"
+                      value={included.quantity}
+                      onChange={(e) => updateIncludedQuantity(included.service_id, parseInt(e.target.value, 10) || 1)}
+                      className="w-20 p-1 border rounded-md"
+                    />
+                    <span className="flex-1">&times; {included.service_name}</span>
+                    <button
+                      type="button"
+                      onClick={() => removeIncludedService(included.service_id)}
+                      className="text-xs text-red-600 hover:underline"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <button
+            type="submit"
+            disabled={creating}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Crown className="w-4 h-4 mr-2" />
+            {creating ? 'Creating...' : 'Create plan'}
+          </button>
+        </form>
+
+        {createError && (
+          <p className="text-sm text-red-600">{createError}</p>
+        )}
+      </div>
+
+      {/* Plans */}
+      <div className="bg-white rounded-lg border shadow-sm">
+        <div className="p-6 pb-2">
+          <h3 className="text-lg font-semibold">Plans</h3>
+          <p className="text-sm text-gray-600">
+            Plans taken off sale keep their members. Customers are signed up from their record on the Customers page.
+          </p>
+        </div>
+        <div className="p-6 pt-0">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-4">
+              <div className="flex">
+                <AlertCircle className="h-5 w-5 text-red-400" />
+                <div className="ml-3">
+                  <p className="text-sm text-red-800">{error}</p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b">
+                  <th className="py-2">Plan</th>
+                  <th className="py-2">Tier</th>
+                  <th className="py-2 text-right">Monthly</th>
+                  <th className="py-2">Included</th>
+                  <th className="py-2 text-right">Discount</th>
+                  <th className="py-2">Status</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {!loading && plans.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="py-4 text-center text-gray-500">No membership plans yet</td>
+                  </tr>
+                ) : (
+                  plans.map(plan => (
+                    <tr key={plan.id} className="border-b last:border-0">
+                      <td className="py-2 font-medium">{plan.name}</td>
+                      <td className="py-2">
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${TIER_COLORS[plan.tier]}`}>
+                          {plan.tier}
+                        </span>
+                      </td>
+                      <td className="py-2 text-right">
+                        {formatMoney({ amount: plan.monthly_price, currency: plan.currency })}
+                      </td>
+                      <td className="py-2">
+                        {plan.included_services.length === 0
+                          ? '-'
+                          : plan.included_services.map(included => `${included.quantity} × ${included.service_name}`).join(', ')}
+                      </td>
+                      <td className="py-2 text-right">{plan.discount_percent}%</td>
+                      <td className="py-2">{plan.active ? 'On sale' : 'Off sale'}</td>
+                      <td className="py-2 text-right">
+                        <button
+                          onClick={() => handleToggleActive(plan)}
+                          disabled={updatingPlanId === plan.id}
+                          className="px-3 py-1 text-xs border rounded-md hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          {plan.active ? 'Take off sale' : 'Put on sale'}
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
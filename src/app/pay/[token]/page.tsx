@@ -0,0 +1,272 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import { AlertCircle, CheckCircle, CreditCard, RefreshCw, XCircle } from 'lucide-react';
+import { formatMoney } from '@/lib/money';
+import {
+  BnplEligibility,
+  BnplInstalmentPlan,
+  PaymentLinkCustomer,
+  PaymentLinkStatus,
+  PublicPaymentLink
+} from '@/types/payment';
+
+const CLOSED_MESSAGES: Partial<Record<PaymentLinkStatus, string>> = {
+  paid: 'This payment has already been completed. Thank you!',
+  revoked: 'This payment link is no longer valid. Please contact us for a new one.',
+  expired: 'This payment link has expired. Please contact us for a new one.',
+};
+
+// Why an instalment provider is not offered for this amount
+const describeIneligibility = (eligibility: BnplEligibility): string => {
+  if (eligibility.reason === 'below_min_limit' && eligibility.min_limit) {
+    return `Available for payments from ${formatMoney(eligibility.min_limit)}`;
+  }
+  if (eligibility.reason === 'above_max_limit' && eligibility.max_limit) {
+    return `Available for payments up to ${formatMoney(eligibility.max_limit)}`;
+  }
+  return 'Not available for this payment';
+};
+
+const describePlan = (plan: BnplInstalmentPlan, currency: string): string =>
+  `${plan.instalments > 1 ? `Pay in ${plan.instalments}` : 'Pay later'}: ` +
+  plan.amounts.map(amount => formatMoney({ amount, currency })).join(', ');
+
+export default function PayPage() {
+  const { token } = useParams<{ token: string }>();
+  const [link, setLink] = useState<PublicPaymentLink | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [selectedProvider, setSelectedProvider] = useState('');
+  const [customer, setCustomer] = useState<PaymentLinkCustomer>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [eligibility, setEligibility] = useState<Record<string, BnplEligibility>>({});
+
+  useEffect(() => {
+    const loadLink = async () => {
+      try {
+        const response = await fetch(`/api/pay/${token}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load payment link');
+        }
+
+        setLink(data.data);
+        setSelectedProvider(data.data.providers[0]?.id || '');
+      } catch (error) {
+        setError(error instanceof Error ? error.message : 'Failed to load payment link');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadLink();
+  }, [token]);
+
+  // Instalment providers are checked up front so the customer only picks ones that will
+  // accept the amount. If the check fails every provider stays selectable.
+  useEffect(() => {
+    if (!link || CLOSED_MESSAGES[link.status] || link.providers.length === 0) return;
+
+    const checkEligibility = async () => {
+      try {
+        const response = await fetch('/api/payments/bnpl/eligibility', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            amount: link.amount,
+            currency: link.currency,
+            providers: link.providers.map(provider => provider.id)
+          })
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to check eligibility');
+        }
+
+        const results = Object.fromEntries((data.data as BnplEligibility[]).map(result => [result.provider, result]));
+        setEligibility(results);
+        setSelectedProvider(current => results[current]?.available === false
+          ? link.providers.find(provider => results[provider.id]?.available !== false)?.id || ''
+          : current);
+      } catch (error) {
+        console.error('Eligibility check failed:', error);
+      }
+    };
+
+    checkEligibility();
+  }, [link]);
+
+  const handlePay = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/pay/${token}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          provider: selectedProvider,
+          customer: Object.fromEntries(Object.entries(customer).filter(([, value]) => value))
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start payment');
+      }
+
+      window.location.href = data.data.checkout_url;
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to start payment');
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <RefreshCw className="w-8 h-8 animate-spin" />
+      </div>
+    );
+  }
+
+  const closedMessage = link && CLOSED_MESSAGES[link.status];
+  // Details already on the link are used as-is; only ask for what is missing
+  const missingFields = (['name', 'email', 'phone'] as const).filter(field => !link?.customer?.[field]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-6">
+      <div className="w-full max-w-md bg-white rounded-lg border shadow-sm">
+        <div className="p-6 border-b">
+          <div className="flex items-center space-x-2 text-gray-500 text-sm">
+            <CreditCard className="w-4 h-4" />
+            <span>Secure payment</span>
+          </div>
+          {link && (
+            <>
+              <h1 className="mt-2 text-lg font-semibold text-gray-900">{link.description}</h1>
+              <p className="mt-1 text-3xl font-bold text-gray-900">
+                {formatMoney({ amount: link.amount, currency: link.currency })}
+              </p>
+              {!closedMessage && (
+                <p className="mt-1 text-xs text-gray-500">
+                  Valid until {new Date(link.expires_at).toLocaleString()}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4">
+              <div className="flex">
+                <AlertCircle className="h-5 w-5 text-red-400" />
+                <div className="ml-3">
+                  <p className="text-sm text-red-800">{error}</p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {closedMessage && (
+            <div className="flex items-start space-x-3">
+              {link?.status === 'paid' ? (
+                <CheckCircle className="h-5 w-5 text-green-500 flex-shrink-0" />
+              ) : (
+                <XCircle className="h-5 w-5 text-gray-400 flex-shrink-0" />
+              )}
+              <p className="text-sm text-gray-700">{closedMessage}</p>
+            </div>
+          )}
+
+          {link && !closedMessage && link.providers.length === 0 && (
+            <p className="text-sm text-gray-700">
+              Online payment is not available right now. Please contact us to complete your payment.
+            </p>
+          )}
+
+          {link && !closedMessage && link.providers.length > 0 && (
+            <form onSubmit={handlePay} className="space-y-4">
+              {missingFields.map(field => (
+                <div key={field}>
+                  <label htmlFor={field} className="block text-sm font-medium text-gray-700 mb-1 capitalize">
+                    {field}
+                  </label>
+                  <input
+                    id={field}
+                    type={field === 'email' ? 'email' : field === 'phone' ? 'tel' : 'text'}
+                    required
+                    value={customer[field] || ''}
+                    onChange={(e) => setCustomer(prev => ({ ...prev, [field]: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              ))}
+
+              <div>
+                <span className="block text-sm font-medium text-gray-700 mb-2">Pay with</span>
+                <div className="space-y-2">
+                  {link.providers.map(provider => {
+                    const providerEligibility = eligibility[provider.id];
+                    const unavailable = providerEligibility?.available === false;
+
+                    return (
+                      <label
+                        key={provider.id}
+                        className={`flex items-start p-3 border rounded-md ${
+                          unavailable ? 'opacity-60 cursor-not-allowed' : 'cursor-pointer'
+                        } ${
+                          selectedProvider === provider.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name="provider"
+                          value={provider.id}
+                          checked={selectedProvider === provider.id}
+                          disabled={unavailable}
+                          onChange={() => setSelectedProvider(provider.id)}
+                          className="mr-3 mt-0.5"
+                        />
+                        <span>
+                          <span className="block text-sm font-medium text-gray-900">{provider.name}</span>
+                          {unavailable && (
+                            <span className="block text-xs text-gray-500">{describeIneligibility(providerEligibility)}</span>
+                          )}
+                          {!unavailable && providerEligibility?.plans.map(plan => (
+                            <span key={`${plan.payment_type}_${plan.instalments}`} className="block text-xs text-gray-500">
+                              {describePlan(plan, link.currency)}
+                            </span>
+                          ))}
+                        </span>
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <button
+                type="submit"
+                disabled={submitting || !selectedProvider}
+                className="w-full inline-flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {submitting && <RefreshCw className="w-4 h-4 mr-2 animate-spin" />}
+                {submitting ? 'Redirecting...' : 'Continue to payment'}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -9,15 +9,33 @@ import {
   CheckCircle, 
   XCircle,
   Search,
-  RefreshCw
+  RefreshCw,
+  RotateCcw,
+  FileText,
+  Download,
+  Upload
 } from 'lucide-react';
-import { PaymentProvider, PaymentStatus, DashboardStats } from '@/types/payment';
+import { authorizedFetch } from '@/lib/networkUtils';
+import { formatMoney, getCurrencyExponent } from '@/lib/money';
+import { getBranches, Branch } from '@/lib/firebaseServicesNoStorage';
+import { readSpreadsheetRows, validateFileFormat } from '@/lib/importUtils';
+import {
+  PaymentProvider,
+  PaymentStatus,
+  PaymentStatusTransition,
+  DashboardStats,
+  PaymentStatsFilter,
+  ProviderHealth,
+  ReconciliationIssue,
+  ReconciliationReport,
+  SettlementImport,
+  SettlementIssue,
+  SettlementProvider,
+  WebhookEvent
+} from '@/types/payment';
+import { Invoice } from '@/types/invoice';
 
-interface ProviderStatus {
-  name: string;
-  provider: PaymentProvider;
-  enabled: boolean;
-  configured: boolean;
+interface ProviderStatus extends ProviderHealth {
   status: 'active' | 'inactive' | 'error';
 }
 
@@ -28,15 +46,33 @@ interface PaymentSearchResult {
   currency: string;
   status: PaymentStatus;
   createdAt: string;
+  updatedAt?: string;
   customerEmail?: string;
+  orderId?: string;
+  refundableAmount: number;
+  awaitingCapture: boolean;
 }
 
+type PaymentAction = 'refund' | 'capture' | 'cancel';
+
+const RECONCILIATION_ISSUE_LABELS: Record<ReconciliationIssue, string> = {
+  captured_remotely: 'Captured at provider, pending locally',
+  refunded_remotely: 'Refunded at provider, not locally',
+  status_mismatch: 'Status mismatch',
+  missing_locally: 'Missing from ledger',
+  lookup_failed: 'Provider lookup failed'
+};
+
+const SETTLEMENT_ISSUE_LABELS: Record<SettlementIssue, string> = {
+  unmatched: 'No matching payment',
+  no_reference: 'No payment reference',
+  amount_mismatch: 'Amount differs from ledger'
+};
+
 export default function PaymentsDashboard() {
-  const [providers, setProviders] = useState<ProviderStatus[]>([
-    { name: 'Stripe', provider: 'stripe', enabled: false, configured: false, status: 'inactive' },
-    { name: 'Tamara', provider: 'tamara', enabled: false, configured: false, status: 'inactive' },
-    { name: 'Tabby', provider: 'tabby', enabled: false, configured: false, status: 'inactive' }
-  ]);
+  const [providers, setProviders] = useState<ProviderStatus[]>([]);
+  const [providersError, setProvidersError] = useState('');
+  const [refreshingProviders, setRefreshingProviders] = useState(false);
   
   const [stats, setStats] = useState<DashboardStats>({
     totalPayments: 0,
@@ -46,93 +82,112 @@ export default function PaymentsDashboard() {
     currency: 'SAR',
     averageOrderValue: 0,
     conversionRate: 0,
-    topPaymentMethod: 'stripe'
+    topPaymentMethod: '',
+    byCurrency: []
+  });
+  const [statsFilter, setStatsFilter] = useState<Record<keyof PaymentStatsFilter, string>>({
+    from: '',
+    to: '',
+    branch: '',
+    provider: ''
   });
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [statsError, setStatsError] = useState('');
   
   const [searchPaymentId, setSearchPaymentId] = useState('');
   const [searchProvider, setSearchProvider] = useState<PaymentProvider>('stripe');
   const [searchResult, setSearchResult] = useState<PaymentSearchResult | null>(null);
   const [isSearching, setIsSearching] = useState(false);
   const [searchError, setSearchError] = useState('');
-  const [activeTab, setActiveTab] = useState<'providers' | 'search'>('providers');
+  const [actionAmount, setActionAmount] = useState('');
+  const [actionInProgress, setActionInProgress] = useState<PaymentAction | null>(null);
+  const [actionError, setActionError] = useState('');
+  const [actionMessage, setActionMessage] = useState('');
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [invoiceError, setInvoiceError] = useState('');
+  const [issuingInvoice, setIssuingInvoice] = useState(false);
+  const [statusHistory, setStatusHistory] = useState<PaymentStatusTransition[]>([]);
+  const [activeTab, setActiveTab] = useState<'providers' | 'search' | 'webhooks' | 'reconciliation' | 'settlements'>('providers');
   const [loading, setLoading] = useState(true);
+  const [webhookEvents, setWebhookEvents] = useState<WebhookEvent[]>([]);
+  const [webhookStatusFilter, setWebhookStatusFilter] = useState<WebhookEvent['status'] | ''>('');
+  const [loadingWebhooks, setLoadingWebhooks] = useState(false);
+  const [replayingEventId, setReplayingEventId] = useState<string | null>(null);
+  const [webhookError, setWebhookError] = useState('');
+  const [reconciliationReports, setReconciliationReports] = useState<ReconciliationReport[]>([]);
+  const [selectedReportId, setSelectedReportId] = useState<string | null>(null);
+  const [loadingReconciliation, setLoadingReconciliation] = useState(false);
+  const [runningReconciliation, setRunningReconciliation] = useState(false);
+  const [reconciliationError, setReconciliationError] = useState('');
+  const [settlementImports, setSettlementImports] = useState<SettlementImport[]>([]);
+  const [selectedSettlementId, setSelectedSettlementId] = useState<string | null>(null);
+  const [settlementProvider, setSettlementProvider] = useState<SettlementProvider>('stripe');
+  const [settlementFile, setSettlementFile] = useState<File | null>(null);
+  const [showAllSettlementLines, setShowAllSettlementLines] = useState(false);
+  const [loadingSettlements, setLoadingSettlements] = useState(false);
+  const [importingSettlement, setImportingSettlement] = useState(false);
+  const [settlementError, setSettlementError] = useState('');
 
-  useEffect(() => {
-    checkProviderStatus();
-    loadDashboardStats();
-  }, [checkProviderStatus]);
+  const checkProviderStatus = useCallback(async (refresh = false) => {
+    setRefreshingProviders(true);
+    setProvidersError('');
 
-  const checkProviderStatus = useCallback(async () => {
     try {
-      // Check each provider's configuration status
-      const updatedProviders = await Promise.all(
-        providers.map(async (provider) => {
-          try {
-            // This would typically call an API endpoint to check provider status
-            // For now, we'll simulate the check based on environment variables
-            const configured = await checkProviderConfiguration(provider.provider);
-            return {
-              ...provider,
-              configured,
-              enabled: configured,
-              status: configured ? 'active' as const : 'inactive' as const
-            };
-          } catch {
-            return {
-              ...provider,
-              configured: false,
-              enabled: false,
-              status: 'error' as const
-            };
-          }
-        })
-      );
-      
-      setProviders(updatedProviders);
-    } catch {
-      console.error('Failed to check provider status');
+      const response = await authorizedFetch(`/api/payments/providers${refresh ? '?refresh=true' : ''}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to check provider status');
+      }
+
+      setProviders((data.data as ProviderHealth[]).map(provider => ({
+        ...provider,
+        status: !provider.configured ? 'inactive' : provider.reachable === false ? 'error' : 'active'
+      })));
+    } catch (error) {
+      console.error('Failed to check provider status:', error);
+      setProvidersError(error instanceof Error ? error.message : 'Failed to check provider status');
     } finally {
+      setRefreshingProviders(false);
       setLoading(false);
     }
-  }, [providers]);
-
-  const checkProviderConfiguration = async (provider: PaymentProvider): Promise<boolean> => {
-    // This would typically make an API call to check if the provider is configured
-    // For demonstration, we'll return true if certain conditions are met
-    switch (provider) {
-      case 'stripe':
-        return typeof window !== 'undefined' && !!process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY;
-      case 'tamara':
-        return typeof window !== 'undefined' && !!process.env.NEXT_PUBLIC_TAMARA_API_URL;
-      case 'tabby':
-        return typeof window !== 'undefined' && !!process.env.NEXT_PUBLIC_TABBY_API_URL;
-      default:
-        return false;
-    }
-  };
+  }, []);
+
+  useEffect(() => {
+    checkProviderStatus();
+  }, [checkProviderStatus]);
+
+  useEffect(() => {
+    getBranches().then(setBranches);
+  }, []);
 
-  const loadDashboardStats = async () => {
+  const loadDashboardStats = useCallback(async () => {
+    setStatsError('');
     try {
-      // This would typically fetch real statistics from your database
-      // For demonstration, we'll use mock data
-      const mockStats: DashboardStats = {
-        totalPayments: 1247,
-        successfulPayments: 1156,
-        failedPayments: 91,
-        totalRevenue: 45678.50,
-        currency: 'SAR',
-        averageOrderValue: 367.25,
-        conversionRate: 92.7,
-        topPaymentMethod: 'stripe'
-      };
-      
-      setStats(mockStats);
+      const params = new URLSearchParams();
+      Object.entries(statsFilter).forEach(([key, value]) => {
+        if (value) params.set(key, value);
+      });
+
+      const response = await authorizedFetch(`/api/payments/stats?${params.toString()}`);
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load dashboard stats');
+      }
+
+      setStats(data.data);
     } catch (error) {
       console.error('Failed to load dashboard stats:', error);
+      setStatsError(error instanceof Error ? error.message : 'Failed to load dashboard stats');
     }
-  };
+  }, [statsFilter]);
+
+  useEffect(() => {
+    loadDashboardStats();
+  }, [loadDashboardStats]);
 
-  const handlePaymentSearch = async () => {
+  const handlePaymentSearch = async (keepActionMessage = false) => {
     if (!searchPaymentId.trim()) {
       setSearchError('Please enter a payment ID');
       return;
@@ -141,9 +196,13 @@ export default function PaymentsDashboard() {
     setIsSearching(true);
     setSearchError('');
     setSearchResult(null);
+    setActionError('');
+    if (!keepActionMessage) {
+      setActionMessage('');
+    }
 
     try {
-      const response = await fetch('/api/payments/status', {
+      const response = await authorizedFetch('/api/payments/status', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -165,12 +224,15 @@ export default function PaymentsDashboard() {
         setSearchResult({
           id: data.data.id,
           provider: searchProvider,
-          amount: data.data.amount,
-          currency: data.data.currency,
+          amount: data.data.amount ?? 0,
+          currency: data.data.currency || '',
           status: data.data.status,
           createdAt: data.data.created_at || new Date().toISOString(),
           customerEmail: data.data.customer_email,
-          updatedAt: data.data.updated_at
+          updatedAt: data.data.updated_at,
+          orderId: data.data.order_id,
+          refundableAmount: data.data.refundable_amount ?? 0,
+          awaitingCapture: !!data.data.awaiting_capture
         });
       } else {
         throw new Error('Payment not found');
@@ -182,6 +244,349 @@ export default function PaymentsDashboard() {
     }
   };
 
+  const handlePaymentAction = async (action: PaymentAction) => {
+    if (!searchResult) return;
+
+    const amount = actionAmount.trim() ? parseFloat(actionAmount) : undefined;
+    if (amount !== undefined && (isNaN(amount) || amount <= 0)) {
+      setActionError('Please enter a valid amount');
+      return;
+    }
+
+    setActionInProgress(action);
+    setActionError('');
+    setActionMessage('');
+
+    try {
+      const response = await authorizedFetch(`/api/payments/${action}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          paymentId: searchResult.id,
+          provider: searchResult.provider,
+          ...(action !== 'cancel' && amount !== undefined ? { amount } : {})
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || `Failed to ${action} payment`);
+      }
+
+      const messages: Record<PaymentAction, string> = {
+        refund: `Refunded ${formatMoney({ amount: data.data.amount, currency: searchResult.currency })}`,
+        capture: `Captured ${formatMoney({ amount: data.data.amount, currency: searchResult.currency })}`,
+        cancel: 'Payment voided'
+      };
+      setActionMessage(messages[action]);
+      setActionAmount('');
+      await handlePaymentSearch(true);
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : `Failed to ${action} payment`);
+    } finally {
+      setActionInProgress(null);
+    }
+  };
+
+  const loadInvoices = useCallback(async (orderId: string) => {
+    setInvoiceError('');
+
+    try {
+      const response = await authorizedFetch(`/api/payments/invoices?order_id=${encodeURIComponent(orderId)}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load invoices');
+      }
+
+      setInvoices(data.data);
+    } catch (error) {
+      setInvoiceError(error instanceof Error ? error.message : 'Failed to load invoices');
+    }
+  }, []);
+
+  const loadStatusHistory = useCallback(async (orderId: string) => {
+    try {
+      const response = await authorizedFetch(`/api/payments/history?order_id=${encodeURIComponent(orderId)}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load status history');
+      }
+
+      setStatusHistory(data.data);
+    } catch (error) {
+      console.error('Error loading payment status history:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    setStatusHistory([]);
+    if (searchResult?.orderId) {
+      loadStatusHistory(searchResult.orderId);
+    }
+  }, [searchResult, loadStatusHistory]);
+
+  useEffect(() => {
+    setInvoices([]);
+    if (searchResult?.orderId && ['completed', 'refunded'].includes(searchResult.status)) {
+      loadInvoices(searchResult.orderId);
+    }
+  }, [searchResult, loadInvoices]);
+
+  const handleIssueInvoice = async () => {
+    if (!searchResult?.orderId) return;
+
+    setIssuingInvoice(true);
+    setInvoiceError('');
+
+    try {
+      const response = await authorizedFetch('/api/payments/invoices', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ order_id: searchResult.orderId })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to issue invoice');
+      }
+
+      setInvoices(data.data);
+    } catch (error) {
+      setInvoiceError(error instanceof Error ? error.message : 'Failed to issue invoice');
+    } finally {
+      setIssuingInvoice(false);
+    }
+  };
+
+  // Invoice documents need the admin's token, so they are fetched here rather than linked to
+  const handleOpenInvoice = async (invoice: Invoice, format: 'html' | 'pdf') => {
+    setInvoiceError('');
+
+    try {
+      const response = await authorizedFetch(`/api/payments/invoices/${invoice.id}?format=${format}`);
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to load invoice');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      if (format === 'html') {
+        window.open(url, '_blank');
+      } else {
+        const anchor = document.createElement('a');
+        anchor.href = url;
+        anchor.download = `${invoice.number}.pdf`;
+        anchor.click();
+      }
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (error) {
+      setInvoiceError(error instanceof Error ? error.message : 'Failed to load invoice');
+    }
+  };
+
+  const loadWebhookEvents = useCallback(async () => {
+    setLoadingWebhooks(true);
+    setWebhookError('');
+
+    try {
+      const params = new URLSearchParams();
+      if (webhookStatusFilter) {
+        params.set('status', webhookStatusFilter);
+      }
+
+      const response = await authorizedFetch(`/api/payments/webhooks?${params.toString()}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load webhook events');
+      }
+
+      setWebhookEvents(data.data);
+    } catch (error) {
+      setWebhookError(error instanceof Error ? error.message : 'Failed to load webhook events');
+    } finally {
+      setLoadingWebhooks(false);
+    }
+  }, [webhookStatusFilter]);
+
+  useEffect(() => {
+    if (activeTab === 'webhooks') {
+      loadWebhookEvents();
+    }
+  }, [activeTab, loadWebhookEvents]);
+
+  const handleReplayWebhook = async (event: WebhookEvent) => {
+    setReplayingEventId(event.id);
+    setWebhookError('');
+
+    try {
+      const response = await authorizedFetch('/api/payments/webhooks/replay', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          provider: event.provider,
+          id: event.id
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.data?.error || data.error || 'Failed to replay webhook event');
+      }
+    } catch (error) {
+      setWebhookError(error instanceof Error ? error.message : 'Failed to replay webhook event');
+    } finally {
+      setReplayingEventId(null);
+      loadWebhookEvents();
+    }
+  };
+
+  const loadReconciliationReports = useCallback(async () => {
+    setLoadingReconciliation(true);
+    setReconciliationError('');
+
+    try {
+      const response = await authorizedFetch('/api/payments/reconciliation');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load reconciliation reports');
+      }
+
+      setReconciliationReports(data.data);
+    } catch (error) {
+      setReconciliationError(error instanceof Error ? error.message : 'Failed to load reconciliation reports');
+    } finally {
+      setLoadingReconciliation(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (activeTab === 'reconciliation') {
+      loadReconciliationReports();
+    }
+  }, [activeTab, loadReconciliationReports]);
+
+  const handleRunReconciliation = async () => {
+    setRunningReconciliation(true);
+    setReconciliationError('');
+
+    try {
+      const response = await authorizedFetch('/api/payments/reconciliation', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({})
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to run reconciliation');
+      }
+
+      setSelectedReportId(data.data.id);
+      await loadReconciliationReports();
+    } catch (error) {
+      setReconciliationError(error instanceof Error ? error.message : 'Failed to run reconciliation');
+    } finally {
+      setRunningReconciliation(false);
+    }
+  };
+
+  const selectedReport = reconciliationReports.find(report => report.id === selectedReportId) || reconciliationReports[0];
+
+  const loadSettlementImports = useCallback(async () => {
+    setLoadingSettlements(true);
+    setSettlementError('');
+
+    try {
+      const response = await authorizedFetch('/api/payments/reconciliation/settlements');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load settlement imports');
+      }
+
+      setSettlementImports(data.data);
+    } catch (error) {
+      setSettlementError(error instanceof Error ? error.message : 'Failed to load settlement imports');
+    } finally {
+      setLoadingSettlements(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (activeTab === 'settlements') {
+      loadSettlementImports();
+    }
+  }, [activeTab, loadSettlementImports]);
+
+  const handleSettlementFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] || null;
+    setSettlementError('');
+
+    if (file) {
+      const validation = validateFileFormat(file);
+      if (!validation.valid) {
+        setSettlementError(validation.error || 'Invalid file');
+        setSettlementFile(null);
+        return;
+      }
+    }
+
+    setSettlementFile(file);
+  };
+
+  // The file is read in the browser and only its rows are sent
+  const handleImportSettlement = async () => {
+    if (!settlementFile) return;
+
+    setImportingSettlement(true);
+    setSettlementError('');
+
+    try {
+      const rows = await readSpreadsheetRows(settlementFile);
+      const response = await authorizedFetch('/api/payments/reconciliation/settlements', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          provider: settlementProvider,
+          file_name: settlementFile.name,
+          rows
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to import settlement report');
+      }
+
+      setSelectedSettlementId(data.data.id);
+      setSettlementFile(null);
+      await loadSettlementImports();
+    } catch (error) {
+      setSettlementError(error instanceof Error ? error.message : 'Failed to import settlement report');
+    } finally {
+      setImportingSettlement(false);
+    }
+  };
+
+  const selectedSettlement = settlementImports.find(settlement => settlement.id === selectedSettlementId) || settlementImports[0];
+  const visibleSettlementLines = selectedSettlement
+    ? selectedSettlement.lines.filter(line => showAllSettlementLines || line.issue)
+    : [];
+
   const getStatusBadge = (status: PaymentStatus) => {
     const statusConfig = {
       pending: { color: 'bg-yellow-100 text-yellow-800', icon: AlertCircle },
@@ -228,38 +633,107 @@ export default function PaymentsDashboard() {
       </div>
 
       {/* Provider Status Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         {providers.map((provider) => (
-          <div key={provider.name} className="bg-white rounded-lg border shadow-sm">
+          <div key={provider.provider} className="bg-white rounded-lg border shadow-sm">
             <div className="flex flex-row items-center justify-between space-y-0 p-6 pb-2">
               <h3 className="text-sm font-medium capitalize">
                 {provider.name}
               </h3>
-              {getProviderIcon(provider.name)}
+              <CreditCard className="h-4 w-4 text-gray-500" />
             </div>
             <div className="p-6 pt-0">
               <div className="flex items-center space-x-2">
-                <span 
-                  className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                    provider.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
-                  }`}
-                >
-                  {provider.enabled ? 'Enabled' : 'Disabled'}
-                </span>
-                {provider.configured ? (
+                {getProviderStatusBadge(provider)}
+                {provider.configured && (
+                  <span
+                    className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                      provider.mode === 'live' ? 'bg-blue-100 text-blue-800' : 'bg-yellow-100 text-yellow-800'
+                    }`}
+                  >
+                    {provider.mode === 'live' ? 'Live' : 'Test'}
+                  </span>
+                )}
+                {provider.status === 'active' ? (
                   <CheckCircle className="h-4 w-4 text-green-500" />
                 ) : (
                   <XCircle className="h-4 w-4 text-red-500" />
                 )}
               </div>
               <p className="text-xs text-gray-500 mt-2">
-                {provider.configured ? 'Configured' : 'Not configured'}
+                {!provider.configured
+                  ? 'Not configured'
+                  : provider.latency_ms !== null
+                    ? `${provider.reachable ? 'Reachable' : 'Unreachable'} (${provider.latency_ms} ms)`
+                    : 'Configured'}
               </p>
+              {provider.last_error && (
+                <p className="text-xs text-red-600 mt-1" title={provider.last_error}>
+                  Last error{provider.last_error_at ? ` ${new Date(provider.last_error_at).toLocaleString()}` : ''}: {provider.last_error}
+                </p>
+              )}
             </div>
           </div>
         ))}
       </div>
 
+      {/* Statistics Filters */}
+      <div className="bg-white rounded-lg border shadow-sm p-4">
+        <div className="grid gap-4 md:grid-cols-4">
+          <div>
+            <label htmlFor="statsFrom" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+            <input
+              id="statsFrom"
+              type="date"
+              value={statsFilter.from}
+              onChange={(e) => setStatsFilter(prev => ({ ...prev, from: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="statsTo" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+            <input
+              id="statsTo"
+              type="date"
+              value={statsFilter.to}
+              onChange={(e) => setStatsFilter(prev => ({ ...prev, to: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="statsBranch" className="block text-sm font-medium text-gray-700 mb-1">Branch</label>
+            <select
+              id="statsBranch"
+              value={statsFilter.branch}
+              onChange={(e) => setStatsFilter(prev => ({ ...prev, branch: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All branches</option>
+              {branches.map(branch => (
+                <option key={branch.id} value={branch.name}>{branch.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="statsProvider" className="block text-sm font-medium text-gray-700 mb-1">Provider</label>
+            <select
+              id="statsProvider"
+              value={statsFilter.provider}
+              onChange={(e) => setStatsFilter(prev => ({ ...prev, provider: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All providers</option>
+              {providers.map(provider => (
+                <option key={provider.provider} value={provider.provider}>{provider.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        {statsError && (
+          <p className="text-sm text-red-600 mt-3">{statsError}</p>
+        )}
+      </div>
+
       {/* Statistics Cards */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <div className="bg-white rounded-lg border shadow-sm">
@@ -269,10 +743,10 @@ export default function PaymentsDashboard() {
           </div>
           <div className="p-6 pt-0">
             <div className="text-2xl font-bold">
-              {stats.currency} {stats.totalRevenue.toLocaleString()}
+              {formatMoney({ amount: stats.totalRevenue, currency: stats.currency })}
             </div>
             <p className="text-xs text-gray-500">
-              Average: {stats.currency} {stats.averageOrderValue.toFixed(2)}
+              Average: {formatMoney({ amount: stats.averageOrderValue, currency: stats.currency })}
             </p>
           </div>
         </div>
@@ -298,7 +772,7 @@ export default function PaymentsDashboard() {
           <div className="p-6 pt-0">
             <div className="text-2xl font-bold">{stats.conversionRate}%</div>
             <p className="text-xs text-gray-500">
-              Top method: {stats.topPaymentMethod}
+              Top method: {stats.topPaymentMethod || '-'}
             </p>
           </div>
         </div>
@@ -319,6 +793,39 @@ export default function PaymentsDashboard() {
         </div>
       </div>
 
+      {/* Revenue by Currency */}
+      {stats.byCurrency.length > 1 && (
+        <div className="bg-white rounded-lg border shadow-sm">
+          <div className="p-6 pb-2">
+            <h3 className="text-sm font-medium">Revenue by Currency</h3>
+          </div>
+          <div className="p-6 pt-0 overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-2 pr-4 font-medium">Currency</th>
+                  <th className="py-2 pr-4 font-medium">Net Revenue</th>
+                  <th className="py-2 pr-4 font-medium">Refunded</th>
+                  <th className="py-2 pr-4 font-medium">Payments</th>
+                  <th className="py-2 font-medium">Average</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.byCurrency.map(row => (
+                  <tr key={row.currency} className="border-t">
+                    <td className="py-2 pr-4">{row.currency}</td>
+                    <td className="py-2 pr-4">{formatMoney({ amount: row.totalRevenue, currency: row.currency })}</td>
+                    <td className="py-2 pr-4">{formatMoney({ amount: row.refundedAmount, currency: row.currency })}</td>
+                    <td className="py-2 pr-4">{row.successfulPayments}</td>
+                    <td className="py-2">{formatMoney({ amount: row.averageOrderValue, currency: row.currency })}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       <div className="space-y-4">
         <div className="border-b border-gray-200">
           <nav className="-mb-px flex space-x-8">
@@ -342,18 +849,67 @@ export default function PaymentsDashboard() {
             >
               Payment Search
             </button>
+            <button
+              onClick={() => setActiveTab('webhooks')}
+              className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'webhooks'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              Webhooks
+            </button>
+            <button
+              onClick={() => setActiveTab('reconciliation')}
+              className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'reconciliation'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              Reconciliation
+            </button>
+            <button
+              onClick={() => setActiveTab('settlements')}
+              className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'settlements'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              Settlements
+            </button>
           </nav>
         </div>
         
         {activeTab === 'providers' && (
           <div className="bg-white rounded-lg border shadow-sm">
-            <div className="p-6 pb-2">
-              <h3 className="text-lg font-semibold">Payment Provider Status</h3>
-              <p className="text-sm text-gray-600">
-                Monitor the status and configuration of your payment providers
-              </p>
+            <div className="flex items-center justify-between p-6 pb-2">
+              <div>
+                <h3 className="text-lg font-semibold">Payment Provider Status</h3>
+                <p className="text-sm text-gray-600">
+                  Monitor the status and configuration of your payment providers
+                </p>
+              </div>
+              <button
+                onClick={() => checkProviderStatus(true)}
+                disabled={refreshingProviders}
+                className="p-2 border rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                <RefreshCw className={`w-4 h-4 ${refreshingProviders ? 'animate-spin' : ''}`} />
+              </button>
             </div>
             <div className="p-6 pt-0">
+              {providersError && (
+                <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-4">
+                  <div className="flex">
+                    <AlertCircle className="h-5 w-5 text-red-400" />
+                    <div className="ml-3">
+                      <p className="text-sm text-red-800">{providersError}</p>
+                    </div>
+                  </div>
+                </div>
+              )}
               <div className="space-y-4">
                 {providers.map((provider) => (
                   <div key={provider.provider} className="flex items-center justify-between p-4 border rounded-lg">
@@ -364,8 +920,15 @@ export default function PaymentsDashboard() {
                       <div>
                         <h3 className="font-medium">{provider.name}</h3>
                         <p className="text-sm text-gray-600">
-                          {provider.configured ? 'Configured' : 'Not configured'}
+                          {provider.configured
+                            ? `Configured, ${provider.mode} mode`
+                            : 'Not configured'}
+                          {provider.checked_at && ` · checked ${new Date(provider.checked_at).toLocaleTimeString()}`}
+                          {provider.latency_ms !== null && ` · ${provider.latency_ms} ms`}
                         </p>
+                        {provider.last_error && (
+                          <p className="text-xs text-red-600">{provider.last_error}</p>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-center space-x-2">
@@ -410,11 +973,12 @@ export default function PaymentsDashboard() {
                     <option value="stripe">Stripe</option>
                     <option value="tamara">Tamara</option>
                     <option value="tabby">Tabby</option>
+                    <option value="sandbox">Sandbox</option>
                   </select>
                 </div>
                 <div className="flex items-end">
                   <button
-                    onClick={handlePaymentSearch}
+                    onClick={() => handlePaymentSearch()}
                     disabled={isSearching}
                     className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
                   >
@@ -457,7 +1021,7 @@ export default function PaymentsDashboard() {
                       <div>
                         <label className="text-sm font-medium text-gray-700">Amount</label>
                         <p className="text-sm text-gray-600">
-                          {searchResult.currency} {searchResult.amount.toLocaleString()}
+                          {formatMoney({ amount: searchResult.amount, currency: searchResult.currency })}
                         </p>
                       </div>
                       <div>
@@ -478,14 +1042,535 @@ export default function PaymentsDashboard() {
                           <p className="text-sm text-gray-600">{searchResult.customerEmail}</p>
                         </div>
                       )}
+                      {searchResult.orderId && (
+                        <div>
+                          <label className="text-sm font-medium text-gray-700">Order ID</label>
+                          <p className="text-sm text-gray-600">{searchResult.orderId}</p>
+                        </div>
+                      )}
+                      <div>
+                        <label className="text-sm font-medium text-gray-700">Remaining Refundable</label>
+                        <p className="text-sm text-gray-600">
+                          {formatMoney({ amount: searchResult.refundableAmount, currency: searchResult.currency })}
+                        </p>
+                      </div>
+                    </div>
+
+                    {searchResult.orderId && (
+                      <div className="mt-6 border-t pt-4 space-y-4">
+                        <h4 className="text-sm font-medium text-gray-700">Actions</h4>
+                        <div className="flex flex-wrap items-end gap-2">
+                          <div className="space-y-1">
+                            <label htmlFor="actionAmount" className="block text-xs text-gray-500">
+                              Amount (leave empty for the full balance)
+                            </label>
+                            <input
+                              id="actionAmount"
+                              type="number"
+                              min="0"
+                              step={Math.pow(10, -getCurrencyExponent(searchResult.currency || 'SAR'))}
+                              placeholder={searchResult.awaitingCapture
+                                ? searchResult.amount.toString()
+                                : searchResult.refundableAmount.toString()}
+                              value={actionAmount}
+                              onChange={(e) => setActionAmount(e.target.value)}
+                              className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                          </div>
+                          <button
+                            onClick={() => handlePaymentAction('refund')}
+                            disabled={actionInProgress !== null || searchResult.refundableAmount <= 0}
+                            className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {actionInProgress === 'refund' ? 'Refunding...' : 'Refund'}
+                          </button>
+                          <button
+                            onClick={() => handlePaymentAction('capture')}
+                            disabled={actionInProgress !== null || !searchResult.awaitingCapture}
+                            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {actionInProgress === 'capture' ? 'Capturing...' : 'Capture'}
+                          </button>
+                          <button
+                            onClick={() => handlePaymentAction('cancel')}
+                            disabled={
+                              actionInProgress !== null ||
+                              searchResult.refundableAmount > 0 ||
+                              ['cancelled', 'failed', 'refunded'].includes(searchResult.status)
+                            }
+                            className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {actionInProgress === 'cancel' ? 'Voiding...' : 'Void'}
+                          </button>
+                        </div>
+
+                        {actionError && (
+                          <p className="text-sm text-red-600">{actionError}</p>
+                        )}
+                        {actionMessage && (
+                          <p className="text-sm text-green-600">{actionMessage}</p>
+                        )}
+                      </div>
+                    )}
+
+                    {statusHistory.length > 0 && (
+                      <div className="mt-6 border-t pt-4 space-y-2">
+                        <h4 className="text-sm font-medium text-gray-700">Status History</h4>
+                        {statusHistory.map(transition => (
+                          <div key={transition.id} className={`flex items-center justify-between text-sm ${transition.accepted ? '' : 'text-gray-400'}`}>
+                            <div className="flex items-center space-x-2">
+                              <span className="capitalize">{transition.from || 'created'}</span>
+                              <span>&rarr;</span>
+                              <span className={`capitalize ${transition.accepted ? '' : 'line-through'}`}>{transition.to}</span>
+                              {!transition.accepted && (
+                                <span className="text-xs text-red-500">ignored</span>
+                              )}
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              <span className="capitalize">{transition.source}</span>
+                              {transition.event && <> &middot; {transition.event}</>}
+                              {' '}&middot; {new Date(transition.created_at).toLocaleString()}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {searchResult.orderId && ['completed', 'refunded'].includes(searchResult.status) && (
+                      <div className="mt-6 border-t pt-4 space-y-3">
+                        <div className="flex items-center justify-between">
+                          <h4 className="text-sm font-medium text-gray-700">Tax Invoices</h4>
+                          <button
+                            onClick={handleIssueInvoice}
+                            disabled={issuingInvoice}
+                            className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                          >
+                            {issuingInvoice ? 'Issuing...' : 'Issue missing documents'}
+                          </button>
+                        </div>
+
+                        {invoices.length === 0 && !invoiceError && (
+                          <p className="text-sm text-gray-500">No invoice has been issued for this payment.</p>
+                        )}
+
+                        {invoices.map(invoice => (
+                          <div key={invoice.id} className="flex items-center justify-between p-3 border rounded-md">
+                            <div>
+                              <p className="text-sm font-medium">
+                                {invoice.number}
+                                <span className="ml-2 text-xs text-gray-500">
+                                  {invoice.type === 'credit_note' ? 'Credit note' : 'Invoice'}
+                                </span>
+                              </p>
+                              <p className="text-xs text-gray-500">
+                                {formatMoney({ amount: invoice.total, currency: invoice.currency })} incl.
+                                {' '}{formatMoney({ amount: invoice.vat_amount, currency: invoice.currency })} VAT
+                                {' '}&middot; {new Date(invoice.issued_at).toLocaleString()}
+                              </p>
+                            </div>
+                            <div className="flex items-center space-x-2">
+                              <button
+                                onClick={() => handleOpenInvoice(invoice, 'html')}
+                                className="inline-flex items-center px-2 py-1 text-xs border rounded-md hover:bg-gray-50"
+                              >
+                                <FileText className="w-3 h-3 mr-1" />
+                                View
+                              </button>
+                              <button
+                                onClick={() => handleOpenInvoice(invoice, 'pdf')}
+                                className="inline-flex items-center px-2 py-1 text-xs border rounded-md hover:bg-gray-50"
+                              >
+                                <Download className="w-3 h-3 mr-1" />
+                                PDF
+                              </button>
+                            </div>
+                          </div>
+                        ))}
+
+                        {invoiceError && (
+                          <p className="text-sm text-red-600">{invoiceError}</p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'webhooks' && (
+          <div className="bg-white rounded-lg border shadow-sm">
+            <div className="flex items-center justify-between p-6 pb-2">
+              <div>
+                <h3 className="text-lg font-semibold">Webhook Events</h3>
+                <p className="text-sm text-gray-600">
+                  Recent provider deliveries. Failed events can be replayed once the cause is fixed.
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <select
+                  className="p-2 border rounded-md text-sm"
+                  value={webhookStatusFilter}
+                  onChange={(e) => setWebhookStatusFilter(e.target.value as WebhookEvent['status'] | '')}
+                >
+                  <option value="">All statuses</option>
+                  <option value="received">Received</option>
+                  <option value="processed">Processed</option>
+                  <option value="failed">Failed</option>
+                </select>
+                <button
+                  onClick={loadWebhookEvents}
+                  disabled={loadingWebhooks}
+                  className="p-2 border rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <RefreshCw className={`w-4 h-4 ${loadingWebhooks ? 'animate-spin' : ''}`} />
+                </button>
+              </div>
+            </div>
+            <div className="p-6 pt-0 space-y-4">
+              {webhookError && (
+                <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                  <div className="flex">
+                    <AlertCircle className="h-5 w-5 text-red-400" />
+                    <div className="ml-3">
+                      <p className="text-sm text-red-800">{webhookError}</p>
                     </div>
                   </div>
                 </div>
               )}
+
+              {webhookEvents.length === 0 && !loadingWebhooks ? (
+                <p className="text-sm text-gray-500">No webhook events found.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500">
+                        <th className="py-2 pr-4 font-medium">Provider</th>
+                        <th className="py-2 pr-4 font-medium">Event</th>
+                        <th className="py-2 pr-4 font-medium">Payment ID</th>
+                        <th className="py-2 pr-4 font-medium">Status</th>
+                        <th className="py-2 pr-4 font-medium">Attempts</th>
+                        <th className="py-2 pr-4 font-medium">Received</th>
+                        <th className="py-2" />
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {webhookEvents.map((event) => (
+                        <tr key={`${event.provider}_${event.id}`}>
+                          <td className="py-2 pr-4 capitalize">{event.provider}</td>
+                          <td className="py-2 pr-4">{event.event_type}</td>
+                          <td className="py-2 pr-4 font-mono text-xs">{event.payment_id}</td>
+                          <td className="py-2 pr-4">
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                              event.status === 'processed'
+                                ? 'bg-green-100 text-green-800'
+                                : event.status === 'failed'
+                                  ? 'bg-red-100 text-red-800'
+                                  : 'bg-yellow-100 text-yellow-800'
+                            }`}>
+                              {event.status}
+                            </span>
+                            {event.error && (
+                              <p className="mt-1 text-xs text-red-600">{event.error}</p>
+                            )}
+                          </td>
+                          <td className="py-2 pr-4">{event.attempts || 1}</td>
+                          <td className="py-2 pr-4">{new Date(event.received_at).toLocaleString()}</td>
+                          <td className="py-2 text-right">
+                            <button
+                              onClick={() => handleReplayWebhook(event)}
+                              disabled={replayingEventId === event.id}
+                              className="inline-flex items-center px-3 py-1 border rounded-md hover:bg-gray-50 disabled:opacity-50"
+                            >
+                              <RotateCcw className={`w-3 h-3 mr-1 ${replayingEventId === event.id ? 'animate-spin' : ''}`} />
+                              Replay
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'reconciliation' && (
+          <div className="bg-white rounded-lg border shadow-sm">
+            <div className="flex items-center justify-between p-6 pb-2">
+              <div>
+                <h3 className="text-lg font-semibold">Reconciliation</h3>
+                <p className="text-sm text-gray-600">
+                  Recent ledger entries compared with each provider. Discrepancies are flagged, not corrected.
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <select
+                  className="p-2 border rounded-md text-sm"
+                  value={selectedReport?.id || ''}
+                  onChange={(e) => setSelectedReportId(e.target.value)}
+                  disabled={reconciliationReports.length === 0}
+                >
+                  {reconciliationReports.length === 0 && <option value="">No reports yet</option>}
+                  {reconciliationReports.map(report => (
+                    <option key={report.id} value={report.id}>
+                      {new Date(report.started_at).toLocaleString()} ({report.trigger})
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleRunReconciliation}
+                  disabled={runningReconciliation}
+                  className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm"
+                >
+                  <RefreshCw className={`w-4 h-4 mr-2 ${runningReconciliation ? 'animate-spin' : ''}`} />
+                  {runningReconciliation ? 'Running...' : 'Run Now'}
+                </button>
+              </div>
+            </div>
+            <div className="p-6 pt-0 space-y-4">
+              {reconciliationError && (
+                <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                  <div className="flex">
+                    <AlertCircle className="h-5 w-5 text-red-400" />
+                    <div className="ml-3">
+                      <p className="text-sm text-red-800">{reconciliationError}</p>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {!selectedReport ? (
+                <p className="text-sm text-gray-500">
+                  {loadingReconciliation ? 'Loading reports...' : 'No reconciliation has been run yet.'}
+                </p>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-600">
+                    Checked {selectedReport.checked} payments since {new Date(selectedReport.since).toLocaleDateString()}
+                    {selectedReport.skipped > 0 && `, skipped ${selectedReport.skipped} from unconfigured providers`}.
+                    {' '}{selectedReport.discrepancies.length} discrepancies found.
+                  </p>
+
+                  {selectedReport.discrepancies.length > 0 && (
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-500">
+                            <th className="py-2 pr-4 font-medium">Issue</th>
+                            <th className="py-2 pr-4 font-medium">Provider</th>
+                            <th className="py-2 pr-4 font-medium">Payment ID</th>
+                            <th className="py-2 pr-4 font-medium">Order ID</th>
+                            <th className="py-2 pr-4 font-medium">Local</th>
+                            <th className="py-2 pr-4 font-medium">Provider Status</th>
+                            <th className="py-2 font-medium">Amount</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {selectedReport.discrepancies.map((discrepancy) => (
+                            <tr key={`${discrepancy.provider}_${discrepancy.provider_payment_id}`}>
+                              <td className="py-2 pr-4">
+                                {RECONCILIATION_ISSUE_LABELS[discrepancy.issue]}
+                                {discrepancy.error && (
+                                  <p className="mt-1 text-xs text-red-600">{discrepancy.error}</p>
+                                )}
+                              </td>
+                              <td className="py-2 pr-4 capitalize">{discrepancy.provider}</td>
+                              <td className="py-2 pr-4 font-mono text-xs">{discrepancy.provider_payment_id}</td>
+                              <td className="py-2 pr-4">{discrepancy.order_id || '-'}</td>
+                              <td className="py-2 pr-4">{discrepancy.local_status || '-'}</td>
+                              <td className="py-2 pr-4">{discrepancy.remote_status || '-'}</td>
+                              <td className="py-2">
+                                {discrepancy.amount !== undefined && discrepancy.currency
+                                  ? formatMoney({ amount: discrepancy.amount, currency: discrepancy.currency })
+                                  : '-'}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'settlements' && (
+          <div className="bg-white rounded-lg border shadow-sm">
+            <div className="flex items-center justify-between p-6 pb-2">
+              <div>
+                <h3 className="text-lg font-semibold">Settlements</h3>
+                <p className="text-sm text-gray-600">
+                  Import a provider&apos;s settlement or payout report (CSV or Excel) to match it against the ledger.
+                </p>
+              </div>
+              <select
+                className="p-2 border rounded-md text-sm"
+                value={selectedSettlement?.id || ''}
+                onChange={(e) => setSelectedSettlementId(e.target.value)}
+                disabled={settlementImports.length === 0}
+              >
+                {settlementImports.length === 0 && <option value="">No imports yet</option>}
+                {settlementImports.map(settlement => (
+                  <option key={settlement.id} value={settlement.id}>
+                    {new Date(settlement.imported_at).toLocaleString()} ({settlement.provider}, {settlement.file_name})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="p-6 pt-0 space-y-4">
+              <div className="flex flex-wrap items-end gap-4">
+                <div>
+                  <label htmlFor="settlementProvider" className="block text-sm font-medium text-gray-700 mb-1">Provider</label>
+                  <select
+                    id="settlementProvider"
+                    value={settlementProvider}
+                    onChange={(e) => setSettlementProvider(e.target.value as SettlementProvider)}
+                    className="p-2 border rounded-md text-sm"
+                  >
+                    <option value="stripe">Stripe</option>
+                    <option value="tamara">Tamara</option>
+                    <option value="tabby">Tabby</option>
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="settlementFile" className="block text-sm font-medium text-gray-700 mb-1">Report</label>
+                  <input
+                    key={settlementFile ? 'selected' : 'empty'}
+                    id="settlementFile"
+                    type="file"
+                    accept=".csv,.xlsx,.xls"
+                    onChange={handleSettlementFileChange}
+                    className="text-sm"
+                  />
+                </div>
+                <button
+                  onClick={handleImportSettlement}
+                  disabled={!settlementFile || importingSettlement}
+                  className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm"
+                >
+                  <Upload className="w-4 h-4 mr-2" />
+                  {importingSettlement ? 'Importing...' : 'Import'}
+                </button>
+              </div>
+
+              {settlementError && (
+                <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                  <div className="flex">
+                    <AlertCircle className="h-5 w-5 text-red-400" />
+                    <div className="ml-3">
+                      <p className="text-sm text-red-800">{settlementError}</p>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {!selectedSettlement ? (
+                <p className="text-sm text-gray-500">
+                  {loadingSettlements ? 'Loading imports...' : 'No settlement report has been imported yet.'}
+                </p>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-600">
+                    <span className="capitalize">{selectedSettlement.provider}</span> report {selectedSettlement.file_name}
+                    {selectedSettlement.period_start && selectedSettlement.period_end && (
+                      <>
+                        {' '}covering {new Date(selectedSettlement.period_start).toLocaleDateString()} to{' '}
+                        {new Date(selectedSettlement.period_end).toLocaleDateString()}
+                      </>
+                    )}
+                    , imported by {selectedSettlement.imported_by}.
+                    {' '}Matched {selectedSettlement.matched} of {selectedSettlement.lines.length} lines,
+                    {' '}{selectedSettlement.flagged} flagged
+                    {selectedSettlement.skipped > 0 && `, ${selectedSettlement.skipped} payout or blank rows skipped`}.
+                  </p>
+
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="py-2 pr-4 font-medium">Currency</th>
+                          <th className="py-2 pr-4 font-medium">Lines</th>
+                          <th className="py-2 pr-4 font-medium">Gross</th>
+                          <th className="py-2 pr-4 font-medium">Fees</th>
+                          <th className="py-2 font-medium">Net</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {selectedSettlement.totals.map(total => (
+                          <tr key={total.currency}>
+                            <td className="py-2 pr-4">{total.currency}</td>
+                            <td className="py-2 pr-4">{total.lines}</td>
+                            <td className="py-2 pr-4">{formatMoney({ amount: total.gross, currency: total.currency })}</td>
+                            <td className="py-2 pr-4">{formatMoney({ amount: total.fees, currency: total.currency })}</td>
+                            <td className="py-2 font-medium">{formatMoney({ amount: total.net, currency: total.currency })}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <label className="inline-flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={showAllSettlementLines}
+                      onChange={(e) => setShowAllSettlementLines(e.target.checked)}
+                      className="mr-2"
+                    />
+                    Show matched lines
+                  </label>
+
+                  {visibleSettlementLines.length === 0 ? (
+                    <p className="text-sm text-gray-500">Every line matched a payment in the ledger.</p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-500">
+                            <th className="py-2 pr-4 font-medium">Row</th>
+                            <th className="py-2 pr-4 font-medium">Issue</th>
+                            <th className="py-2 pr-4 font-medium">Type</th>
+                            <th className="py-2 pr-4 font-medium">Payment ID</th>
+                            <th className="py-2 pr-4 font-medium">Order ID</th>
+                            <th className="py-2 pr-4 font-medium">Gross</th>
+                            <th className="py-2 pr-4 font-medium">Fee</th>
+                            <th className="py-2 font-medium">Net</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {visibleSettlementLines.map(line => (
+                            <tr key={line.row}>
+                              <td className="py-2 pr-4">{line.row}</td>
+                              <td className="py-2 pr-4">
+                                {line.issue ? (
+                                  <span className="text-red-700">{SETTLEMENT_ISSUE_LABELS[line.issue]}</span>
+                                ) : (
+                                  <span className="text-green-700">Matched</span>
+                                )}
+                              </td>
+                              <td className="py-2 pr-4 capitalize">{line.type}</td>
+                              <td className="py-2 pr-4 font-mono text-xs">{line.provider_payment_id || '-'}</td>
+                              <td className="py-2 pr-4">{line.matched_order_id || line.order_id || '-'}</td>
+                              <td className="py-2 pr-4">{formatMoney({ amount: line.gross, currency: line.currency })}</td>
+                              <td className="py-2 pr-4">{formatMoney({ amount: line.fee, currency: line.currency })}</td>
+                              <td className="py-2">{formatMoney({ amount: line.net, currency: line.currency })}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </>
+              )}
             </div>
           </div>
         )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,286 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { AlertCircle, Download, RefreshCw, Search } from 'lucide-react';
+import { authorizedFetch } from '@/lib/networkUtils';
+import { SecurityEvent, SecurityEventSeverity } from '@/types/security';
+
+const SEVERITY_COLORS: Record<SecurityEventSeverity, string> = {
+  low: 'bg-gray-100 text-gray-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-red-100 text-red-800',
+};
+
+// Events recorded by the API routes, for the event filter
+const EVENT_TYPES = [
+  'access_denied',
+  'auth_token_rejected',
+  'cors_origin_rejected',
+  'payment_refunded',
+  'rate_limit_exceeded',
+  'split_payment_refunded',
+  'user_role_changed',
+  'webhook_signature_invalid',
+];
+
+const EMPTY_FILTERS = {
+  event: '',
+  severity: '',
+  actor: '',
+  from: '',
+  to: '',
+};
+
+// Dates are picked in local time; the range covers the whole of the last day
+const buildQuery = (filters: typeof EMPTY_FILTERS) => {
+  const params = new URLSearchParams();
+  if (filters.event) params.set('event', filters.event);
+  if (filters.severity) params.set('severity', filters.severity);
+  if (filters.actor) params.set('actor', filters.actor.trim());
+  if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  return params;
+};
+
+export default function SecurityLogPage() {
+  const [events, setEvents] = useState<SecurityEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState(EMPTY_FILTERS);
+  const [expandedEventId, setExpandedEventId] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const loadEvents = useCallback(async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await authorizedFetch(`/api/security-events?${buildQuery(appliedFilters).toString()}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load security events');
+      }
+
+      setEvents(data.data);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load security events');
+    } finally {
+      setLoading(false);
+    }
+  }, [appliedFilters]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setAppliedFilters(filters);
+  };
+
+  // Exports need the admin's token, so they are fetched here rather than linked to
+  const handleExport = async (format: 'jsonl' | 'csv') => {
+    setExporting(true);
+    setError('');
+
+    try {
+      const params = buildQuery(appliedFilters);
+      params.set('format', format);
+
+      const response = await authorizedFetch(`/api/security-events?${params.toString()}`);
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to export security events');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const anchor = document.createElement('a');
+      anchor.href = url;
+      anchor.download = `security-events-${new Date().toISOString().slice(0, 10)}.${format}`;
+      anchor.click();
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to export security events');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold tracking-tight">Security Log</h1>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => handleExport('jsonl')}
+            disabled={exporting}
+            className="inline-flex items-center px-3 py-2 text-sm border rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            JSON Lines
+          </button>
+          <button
+            onClick={() => handleExport('csv')}
+            disabled={exporting}
+            className="inline-flex items-center px-3 py-2 text-sm border rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            CSV
+          </button>
+          <button
+            onClick={loadEvents}
+            disabled={loading}
+            className="p-2 border rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <form onSubmit={handleSearch} className="bg-white rounded-lg border shadow-sm p-6">
+        <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-6 items-end">
+          <div>
+            <label htmlFor="securityEvent" className="block text-sm font-medium text-gray-700 mb-1">Event</label>
+            <select
+              id="securityEvent"
+              value={filters.event}
+              onChange={(e) => setFilters({ ...filters, event: e.target.value })}
+              className="w-full p-2 border rounded-md"
+            >
+              <option value="">All events</option>
+              {EVENT_TYPES.map(type => (
+                <option key={type} value={type}>{type.replace(/_/g, ' ')}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="securitySeverity" className="block text-sm font-medium text-gray-700 mb-1">Severity</label>
+            <select
+              id="securitySeverity"
+              value={filters.severity}
+              onChange={(e) => setFilters({ ...filters, severity: e.target.value })}
+              className="w-full p-2 border rounded-md"
+            >
+              <option value="">All</option>
+              <option value="low">Low</option>
+              <option value="medium">Medium</option>
+              <option value="high">High</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="securityActor" className="block text-sm font-medium text-gray-700 mb-1">Actor</label>
+            <input
+              id="securityActor"
+              type="text"
+              value={filters.actor}
+              onChange={(e) => setFilters({ ...filters, actor: e.target.value })}
+              className="w-full p-2 border rounded-md"
+              placeholder="Email or user ID"
+            />
+          </div>
+          <div>
+            <label htmlFor="securityFrom" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+            <input
+              id="securityFrom"
+              type="date"
+              value={filters.from}
+              onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+              className="w-full p-2 border rounded-md"
+            />
+          </div>
+          <div>
+            <label htmlFor="securityTo" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+            <input
+              id="securityTo"
+              type="date"
+              value={filters.to}
+              onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+              className="w-full p-2 border rounded-md"
+            />
+          </div>
+          <button
+            type="submit"
+            className="inline-flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            <Search className="w-4 h-4 mr-2" />
+            Filter
+          </button>
+        </div>
+      </form>
+
+      {/* Events */}
+      <div className="bg-white rounded-lg border shadow-sm">
+        <div className="p-6 pb-2">
+          <h3 className="text-lg font-semibold">Events</h3>
+          <p className="text-sm text-gray-600">
+            The most recent events first. Exports include up to 1,000 events matching the filters.
+          </p>
+        </div>
+        <div className="p-6 pt-0">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-4">
+              <div className="flex">
+                <AlertCircle className="h-5 w-5 text-red-400" />
+                <div className="ml-3">
+                  <p className="text-sm text-red-800">{error}</p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b">
+                  <th className="py-2">Time</th>
+                  <th className="py-2">Event</th>
+                  <th className="py-2">Severity</th>
+                  <th className="py-2">Actor</th>
+                  <th className="py-2">IP</th>
+                </tr>
+              </thead>
+              <tbody>
+                {!loading && events.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="py-4 text-center text-gray-500">No security events found</td>
+                  </tr>
+                ) : (
+                  events.map(event => (
+                    <React.Fragment key={event.id}>
+                      <tr
+                        onClick={() => setExpandedEventId(expandedEventId === event.id ? null : event.id)}
+                        className="border-b last:border-0 hover:bg-gray-50 cursor-pointer"
+                      >
+                        <td className="py-2 whitespace-nowrap">{new Date(event.created_at).toLocaleString()}</td>
+                        <td className="py-2">{event.event.replace(/_/g, ' ')}</td>
+                        <td className="py-2">
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${SEVERITY_COLORS[event.severity]}`}>
+                            {event.severity}
+                          </span>
+                        </td>
+                        <td className="py-2">{event.actor || '-'}</td>
+                        <td className="py-2 font-mono text-xs">{event.ip || '-'}</td>
+                      </tr>
+                      {expandedEventId === event.id && (
+                        <tr className="border-b bg-gray-50">
+                          <td colSpan={5} className="p-3">
+                            <pre className="text-xs whitespace-pre-wrap break-all">
+                              {JSON.stringify(event.details, null, 2)}
+                            </pre>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
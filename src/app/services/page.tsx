@@ -13,6 +13,7 @@ import {
   Category,
   subscribeToCategoriesChanges
 } from '@/lib/firebaseServicesNoStorage';
+import { DepositRule } from '@/types/deposit';
 
 export default function ServicesPage() {
   const [services, setServices] = useState<Service[]>([]);
@@ -27,7 +28,9 @@ export default function ServicesPage() {
     price: 0,
     description: '',
     isActive: true,
-    image: ''
+    image: '',
+    depositType: '' as '' | DepositRule['type'],
+    depositValue: 0
   });
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [uploading, setUploading] = useState(false);
@@ -115,6 +118,10 @@ export default function ServicesPage() {
         }
       }
 
+      const deposit: DepositRule | null = formData.depositType && formData.depositValue > 0
+        ? { type: formData.depositType, value: formData.depositValue }
+        : null;
+
       if (editingService) {
         // Update existing service
         await updateService(editingService.id!, {
@@ -124,7 +131,8 @@ export default function ServicesPage() {
           price: formData.price,
           description: formData.description,
           isActive: formData.isActive,
-          imageBase64: imageBase64
+          imageBase64: imageBase64,
+          deposit
         });
       } else {
         // Add new service
@@ -135,7 +143,8 @@ export default function ServicesPage() {
           price: formData.price,
           description: formData.description,
           isActive: formData.isActive,
-          imageBase64: imageBase64
+          imageBase64: imageBase64,
+          deposit
         });
       }
 
@@ -156,7 +165,9 @@ export default function ServicesPage() {
       price: 0,
       description: '',
       isActive: true,
-      image: ''
+      image: '',
+      depositType: '',
+      depositValue: 0
     });
     setImageFile(null);
     setShowModal(false);
@@ -172,7 +183,9 @@ export default function ServicesPage() {
       price: service.price,
       description: service.description,
       isActive: service.isActive,
-      image: service.imageBase64 || ''
+      image: service.imageBase64 || '',
+      depositType: service.deposit?.type || '',
+      depositValue: service.deposit?.value || 0
     });
     setImageFile(null);
     setShowModal(true);
@@ -445,6 +458,42 @@ export default function ServicesPage() {
                     </div>
                   </div>
 
+                  <div className="grid grid-cols-2 gap-2 sm:gap-3">
+                    <div>
+                      <label className="block text-xs font-medium text-pink-600 mb-1">Deposit</label>
+                      <select
+                        value={formData.depositType}
+                        onChange={(e) => setFormData({ ...formData, depositType: e.target.value as '' | DepositRule['type'] })}
+                        className="w-full px-2 sm:px-3 py-2 border border-pink-200/50 rounded-lg focus:outline-none focus:ring-1 focus:ring-pink-400 focus:border-pink-400 transition-all text-xs"
+                      >
+                        <option value="">Branch default</option>
+                        <option value="percentage">Percentage</option>
+                        <option value="fixed">Fixed amount</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-pink-600 mb-1">
+                        {formData.depositType === 'fixed' ? 'Deposit amount' : 'Deposit (%)'}
+                      </label>
+                      <input
+                        type="number"
+                        value={formData.depositValue || ''}
+                        onChange={(e) => {
+                          const value = e.target.value;
+                          if (value === '' || parseFloat(value) >= 0) {
+                            setFormData({ ...formData, depositValue: value === '' ? 0 : parseFloat(value) });
+                          }
+                        }}
+                        disabled={!formData.depositType}
+                        className="w-full px-2 sm:px-3 py-2 border border-pink-200/50 rounded-lg focus:outline-none focus:ring-1 focus:ring-pink-400 focus:border-pink-400 transition-all text-xs disabled:bg-gray-50 [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                        min="0"
+                        max={formData.depositType === 'percentage' ? 100 : undefined}
+                        step="0.01"
+                        placeholder="0"
+                      />
+                    </div>
+                  </div>
+
                   <div>
                     <label className="block text-xs font-medium text-pink-600 mb-1">Description</label>
                     <textarea
@@ -10,6 +10,9 @@ import {
   User,
   Building2,
   MessageCircle,
+  Gift,
+  Crown,
+  ShieldAlert,
   ChevronDown,
   ChevronRight,
 } from 'lucide-react';
@@ -44,9 +47,12 @@ const navItems: {
   { icon: Scissors, label: "Services", href: "/services", roles: ["admin", "user"], subItems: [] },
   { icon: Tag, label: "Offers", href: "/offers", roles: ["admin", "user"], subItems: [] },
   { icon: Calendar, label: "Bookings", href: "/bookings", roles: ["admin"], subItems: [] },
+  { icon: Gift, label: "Gift Cards", href: "/gift-cards", roles: ["admin"], subItems: [] },
+  { icon: Crown, label: "Memberships", href: "/memberships", roles: ["admin"], subItems: [] },
   { icon: MessageCircle, label: "Chat", href: "/chat", roles: ["admin"], subItems: [] },
   { icon: Building2, label: "Branches", href: "/branches", roles: ["admin", "user"], subItems: [] },
   { icon: Users, label: "Users", href: "/users", roles: ["admin"], subItems: [] },
+  { icon: ShieldAlert, label: "Security Log", href: "/security", roles: ["admin"], subItems: [] },
   { icon: User, label: "Profile", href: "/profile", roles: ["admin", "user"], subItems: [] },
 ];
 
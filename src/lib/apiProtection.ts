@@ -0,0 +1,221 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PaymentSecurity } from './security';
+import { getRateLimitStore } from './rateLimitStore';
+import { verifyIdToken } from './serverAuth';
+
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+export interface ApiProtectionOptions {
+  // Bucket the limits are counted in. Routes that share a name share their counts.
+  name: string;
+  ip?: RateLimitRule | false;
+  customer?: RateLimitRule | false;
+  // Identifies the customer on requests without a signed-in user, e.g. from the body.
+  // The request passed in is a clone, so reading its body is safe.
+  getCustomerId?: (request: NextRequest) => Promise<string | null | undefined>;
+}
+
+type RouteHandler<C> = (request: NextRequest, context: C) => Promise<Response>;
+
+export const DEFAULT_IP_LIMIT: RateLimitRule = { limit: 100, windowMs: 60 * 1000 };
+export const DEFAULT_CUSTOMER_LIMIT: RateLimitRule = { limit: 30, windowMs: 60 * 1000 };
+
+// Staff routes count each signed-in user. The per-IP limit is looser than on public routes
+// because a branch's staff share one address; changes are limited more tightly than reads.
+export const STAFF_IP_LIMIT: RateLimitRule = { limit: 300, windowMs: 60 * 1000 };
+export const STAFF_READ_LIMIT: RateLimitRule = { limit: 120, windowMs: 60 * 1000 };
+export const STAFF_WRITE_LIMIT: RateLimitRule = { limit: 30, windowMs: 60 * 1000 };
+
+// Limits for an admin-only route. Reads and changes are counted in separate buckets.
+export const staffProtection = (name: string, access: 'read' | 'write'): ApiProtectionOptions => ({
+  name: access === 'write' ? `${name}.write` : name,
+  ip: STAFF_IP_LIMIT,
+  customer: access === 'write' ? STAFF_WRITE_LIMIT : STAFF_READ_LIMIT,
+});
+
+const DEFAULT_ALLOWED_HEADERS = 'Content-Type, Authorization';
+
+// Origins allowed to call the API from a browser: the app itself plus the
+// comma-separated CORS_ALLOWED_ORIGINS
+const getAllowedOrigins = (): string[] =>
+  [process.env.NEXT_PUBLIC_APP_URL, ...(process.env.CORS_ALLOWED_ORIGINS || '').split(',')]
+    .map(origin => origin?.trim())
+    .filter((origin): origin is string => !!origin)
+    .map(origin => {
+      try {
+        return new URL(origin).origin;
+      } catch {
+        return origin;
+      }
+    });
+
+// Requests without an Origin header (server-to-server, webhooks) and same-origin
+// requests are always allowed
+export function isOriginAllowed(request: NextRequest): boolean {
+  const origin = request.headers.get('origin');
+  if (!origin || origin === request.nextUrl.origin) {
+    return true;
+  }
+  return getAllowedOrigins().includes(origin);
+}
+
+// CORS headers for a response, only sent back to allowed origins
+export function getCorsHeaders(request: NextRequest): Record<string, string> {
+  const origin = request.headers.get('origin');
+  if (!origin || !isOriginAllowed(request)) {
+    return {};
+  }
+
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Vary': 'Origin',
+  };
+}
+
+const logRejectedOrigin = (request: NextRequest): Promise<void> =>
+  PaymentSecurity.logSecurityEvent('cors_origin_rejected', {
+    origin: request.headers.get('origin'),
+    path: request.nextUrl.pathname,
+  }, 'low', { ip: PaymentSecurity.getClientIp(request) });
+
+// Response for a CORS preflight (OPTIONS) request
+export async function corsPreflight(
+  request: NextRequest,
+  methods: string,
+  allowedHeaders: string = DEFAULT_ALLOWED_HEADERS
+): Promise<NextResponse> {
+  if (!isOriginAllowed(request)) {
+    await logRejectedOrigin(request);
+    return new NextResponse(null, { status: 403 });
+  }
+
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      ...getCorsHeaders(request),
+      'Access-Control-Allow-Methods': methods,
+      'Access-Control-Allow-Headers': allowedHeaders,
+    },
+  });
+}
+
+// The signed-in user if the request carries a valid ID token, otherwise whatever the
+// route uses to identify customers
+const getCustomerKey = async (request: NextRequest, options: ApiProtectionOptions): Promise<string | null> => {
+  const [scheme, idToken] = (request.headers.get('authorization') || '').split(' ');
+  if (scheme === 'Bearer' && idToken) {
+    try {
+      const payload = await verifyIdToken(idToken);
+      return `uid:${payload.sub}`;
+    } catch {
+      // The route itself rejects invalid tokens
+    }
+  }
+
+  if (options.getCustomerId) {
+    try {
+      const customerId = await options.getCustomerId(request.clone() as NextRequest);
+      if (customerId) {
+        return `customer:${customerId.toLowerCase()}`;
+      }
+    } catch {
+      // Malformed bodies are rejected by the route's validation
+    }
+  }
+
+  return null;
+};
+
+// Count the request against each limit and return a 429 response for the first one
+// it exceeds. The rate limit store failing lets the request through.
+const checkRateLimits = async (request: NextRequest, options: ApiProtectionOptions): Promise<NextResponse | null> => {
+  const checks: { scope: 'ip' | 'customer'; identity: string; rule: RateLimitRule }[] = [];
+
+  const ipRule = options.ip === undefined ? DEFAULT_IP_LIMIT : options.ip;
+  if (ipRule) {
+    checks.push({ scope: 'ip', identity: PaymentSecurity.getClientIp(request), rule: ipRule });
+  }
+
+  const customerRule = options.customer === undefined ? DEFAULT_CUSTOMER_LIMIT : options.customer;
+  if (customerRule) {
+    const customerKey = await getCustomerKey(request, options);
+    if (customerKey) {
+      checks.push({ scope: 'customer', identity: customerKey, rule: customerRule });
+    }
+  }
+
+  for (const { scope, identity, rule } of checks) {
+    let hit;
+    try {
+      hit = await getRateLimitStore().hit(`${options.name}:${scope}:${identity}`, rule.windowMs);
+    } catch (error) {
+      console.error('Rate limit store failed:', error);
+      return null;
+    }
+
+    if (hit.count <= rule.limit) {
+      continue;
+    }
+
+    const retryAfter = Math.max(1, Math.ceil((hit.resetAt - Date.now()) / 1000));
+
+    // Log once per window rather than for every rejected request
+    if (hit.count === rule.limit + 1) {
+      await PaymentSecurity.logSecurityEvent('rate_limit_exceeded', {
+        route: options.name,
+        path: request.nextUrl.pathname,
+        scope,
+        customer_key: scope === 'customer' ? identity : undefined,
+        limit: rule.limit,
+        window_ms: rule.windowMs,
+      }, 'medium', {
+        actor: identity.startsWith('uid:') ? identity.slice('uid:'.length) : null,
+        ip: PaymentSecurity.getClientIp(request),
+      });
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Too many requests',
+        message: `Rate limit exceeded. Try again in ${retryAfter} seconds.`
+      },
+      {
+        status: 429,
+        headers: {
+          'Retry-After': String(retryAfter),
+          'X-RateLimit-Limit': String(rule.limit),
+          'X-RateLimit-Reset': String(Math.ceil(hit.resetAt / 1000)),
+        },
+      }
+    );
+  }
+
+  return null;
+};
+
+// Wrap a route handler with the CORS allowlist and per-IP and per-customer rate limits
+export function withApiProtection<C>(options: ApiProtectionOptions, handler: RouteHandler<C>): RouteHandler<C> {
+  return async (request: NextRequest, context: C) => {
+    if (!isOriginAllowed(request)) {
+      await logRejectedOrigin(request);
+      return NextResponse.json(
+        { error: 'Origin not allowed' },
+        { status: 403 }
+      );
+    }
+
+    let response: Response | null = await checkRateLimits(request, options);
+    if (!response) {
+      response = await handler(request, context);
+    }
+
+    for (const [name, value] of Object.entries(getCorsHeaders(request))) {
+      response.headers.set(name, value);
+    }
+
+    return response;
+  };
+}
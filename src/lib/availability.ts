@@ -0,0 +1,235 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  Timestamp,
+  DocumentData
+} from 'firebase/firestore';
+import { getServerDb } from './firebaseServer';
+import {
+  DEFAULT_AVAILABILITY_SETTINGS,
+  getAppointmentStart,
+  getBranchTimeZone,
+  getDateInTimeZone,
+  getZonedTime
+} from './bookingPolicy';
+import { Availability, AvailabilitySettings, AvailabilitySlot } from '@/types/booking';
+
+const BOOKINGS_COLLECTION = 'bookings';
+
+// How far ahead slots can be looked up
+export const MAX_DAYS_AHEAD = 90;
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = MINUTES_PER_DAY * MINUTE_MS;
+
+// Bookings that no longer take up staff
+const RELEASED_STATUSES = ['cancelled', 'no_show'];
+
+// Opening and closing time in minutes after midnight
+export interface OpeningHours {
+  open: number;
+  close: number;
+}
+
+// An existing appointment at the branch
+export interface BookedAppointment {
+  start: Date;
+  durationMinutes: number;
+}
+
+export interface AvailabilityInput {
+  branch_id: string;
+  // A service booked twice is listed twice
+  service_ids: string[];
+  // YYYY-MM-DD, a calendar day at the branch
+  date: string;
+}
+
+export interface AvailabilityResult {
+  availability: Availability | null;
+  error: string | null;
+  status: number;
+}
+
+// "09:05" from minutes after midnight
+const formatTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+// Read the free-text opening hours entered on a branch, e.g. "9:00 AM - 10:00 PM", "9am-10pm"
+// or "09:00 - 22:00". Only the first range is used. A closing time at or before the opening
+// time means the branch is open until midnight. Returns null if no times can be found, e.g. "Closed".
+export const parseOpeningHours = (text?: string): OpeningHours | null => {
+  const times = Array.from((text || '').matchAll(/(\d{1,2})(?::(\d{2}))?\s*(AM|PM)?/gi))
+    .map(([, hourText, minuteText, meridiem]) => {
+      let hours = parseInt(hourText, 10);
+      const minutes = minuteText ? parseInt(minuteText, 10) : 0;
+      if (meridiem?.toUpperCase() === 'PM' && hours < 12) {
+        hours += 12;
+      } else if (meridiem?.toUpperCase() === 'AM' && hours === 12) {
+        hours = 0;
+      }
+      return hours <= 24 && minutes < 60 ? hours * 60 + minutes : null;
+    });
+
+  const [open, close] = times;
+  if (times.length < 2 || open === null || close === null) {
+    return null;
+  }
+
+  return { open, close: close > open ? Math.min(close, MINUTES_PER_DAY) : MINUTES_PER_DAY };
+};
+
+// Most intervals active at the same moment between from and to. An interval ending exactly
+// when another starts does not overlap it.
+const maxOverlap = (intervals: [number, number][], from: number, to: number): number => {
+  const changes = intervals
+    .filter(([start, end]) => start < to && from < end)
+    .flatMap(([start, end]): [number, number][] => [[Math.max(start, from), 1], [end, -1]])
+    .sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+  let current = 0;
+  let highest = 0;
+  for (const [, change] of changes) {
+    current += change;
+    highest = Math.max(highest, current);
+  }
+  return highest;
+};
+
+// Start times on a day where an appointment of the given length fits within opening hours
+// and a member of staff is free for all of it. Every appointment, existing or new, keeps
+// the buffer free after it; the buffer may run past closing time. Opening hours are wall
+// clock times in the branch's time zone.
+export const computeAvailableSlots = (input: {
+  date: string;
+  timeZone: string;
+  openingHours: OpeningHours;
+  durationMinutes: number;
+  settings: AvailabilitySettings;
+  appointments: BookedAppointment[];
+  now: Date;
+}): AvailabilitySlot[] => {
+  const { date, timeZone, openingHours, durationMinutes, settings } = input;
+  const bufferMs = settings.buffer_minutes * MINUTE_MS;
+  // A zero interval would never move on to the next start time
+  const interval = settings.slot_interval_minutes > 0 ? settings.slot_interval_minutes : DEFAULT_AVAILABILITY_SETTINGS.slot_interval_minutes;
+  const busy = input.appointments.map(({ start, durationMinutes: minutes }): [number, number] =>
+    [start.getTime(), start.getTime() + minutes * MINUTE_MS + bufferMs]
+  );
+
+  const slots: AvailabilitySlot[] = [];
+  for (let minutes = openingHours.open; minutes + durationMinutes <= openingHours.close; minutes += interval) {
+    const startsAt = getZonedTime(date, minutes, timeZone);
+    if (startsAt < input.now) {
+      continue;
+    }
+
+    const endsAt = new Date(startsAt.getTime() + durationMinutes * MINUTE_MS);
+    const availableStaff = settings.staff_count - maxOverlap(busy, startsAt.getTime(), endsAt.getTime() + bufferMs);
+    if (availableStaff > 0) {
+      slots.push({ time: formatTime(minutes), starts_at: startsAt, ends_at: endsAt, available_staff: availableStaff });
+    }
+  }
+
+  return slots;
+};
+
+// Bookings store the length of all their services; older ones may only have the services
+const getBookedDuration = (booking: DocumentData): number =>
+  booking.totalDuration ||
+  (booking.services || []).reduce(
+    (total: number, service: DocumentData) => total + (service.duration || 0) * (service.quantity || 1),
+    0
+  );
+
+// Free slots at a branch on a day for a set of services
+export const getAvailability = async (input: AvailabilityInput): Promise<AvailabilityResult> => {
+  try {
+    const db = await getServerDb();
+
+    const branchSnapshot = await getDoc(doc(db, 'branches', input.branch_id));
+    const branch = branchSnapshot.data();
+    if (!branch || branch.isActive === false) {
+      return { availability: null, error: 'Branch not found', status: 404 };
+    }
+
+    // Days, opening hours and booking times are all the branch's local time
+    const timeZone = getBranchTimeZone(branch.country);
+    const day = new Date(`${input.date}T00:00:00Z`);
+    const today = new Date(`${getDateInTimeZone(new Date(), timeZone)}T00:00:00Z`);
+    if (isNaN(day.getTime()) || day.getTime() - today.getTime() > MAX_DAYS_AHEAD * DAY_MS) {
+      return { availability: null, error: `Slots can be looked up up to ${MAX_DAYS_AHEAD} days ahead`, status: 422 };
+    }
+
+    const serviceIds = Array.from(new Set(input.service_ids));
+    const serviceSnapshots = await Promise.all(serviceIds.map(id => getDoc(doc(db, 'services', id))));
+    const durations: Record<string, number> = {};
+    for (const snapshot of serviceSnapshots) {
+      const service = snapshot.data();
+      if (!service || service.isActive === false) {
+        return { availability: null, error: `Service ${snapshot.id} is not available`, status: 422 };
+      }
+      if (!(service.duration > 0)) {
+        return { availability: null, error: `${service.name || 'The service'} has no duration set`, status: 422 };
+      }
+      durations[snapshot.id] = service.duration;
+    }
+    const durationMinutes = input.service_ids.reduce((total, id) => total + durations[id], 0);
+
+    const settings: AvailabilitySettings = { ...DEFAULT_AVAILABILITY_SETTINGS, ...branch.availability };
+    const openingHours = parseOpeningHours(branch.openingHours);
+    const availability: Availability = {
+      branch_id: branchSnapshot.id,
+      branch: branch.name,
+      date: input.date,
+      time_zone: timeZone,
+      duration_minutes: durationMinutes,
+      opening_hours: openingHours
+        ? { open: formatTime(openingHours.open), close: formatTime(openingHours.close) }
+        : null,
+      settings,
+      slots: [],
+    };
+
+    if (!openingHours) {
+      return { availability, error: null, status: 200 };
+    }
+
+    // Bookings store the branch name and the day of the appointment. Needs the composite
+    // index on branch and bookingDate in firestore.indexes.json.
+    const bookingsSnapshot = await getDocs(query(
+      collection(db, BOOKINGS_COLLECTION),
+      where('branch', '==', branch.name),
+      where('bookingDate', '>=', Timestamp.fromDate(getZonedTime(input.date, 0, timeZone))),
+      where('bookingDate', '<', Timestamp.fromDate(getZonedTime(input.date, MINUTES_PER_DAY, timeZone)))
+    ));
+
+    const appointments = bookingsSnapshot.docs
+      .map(bookingDoc => bookingDoc.data())
+      .filter(booking => !RELEASED_STATUSES.includes(booking.status))
+      .map(booking => ({
+        start: getAppointmentStart(booking.bookingDate.toDate(), booking.bookingTime || '', timeZone),
+        durationMinutes: getBookedDuration(booking),
+      }));
+
+    availability.slots = computeAvailableSlots({
+      date: input.date,
+      timeZone,
+      openingHours,
+      durationMinutes,
+      settings,
+      appointments,
+      now: new Date(),
+    });
+
+    return { availability, error: null, status: 200 };
+  } catch (error) {
+    console.error('Error getting availability:', error);
+    throw error;
+  }
+};
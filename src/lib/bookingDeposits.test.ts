@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { settleDeposit } from './bookingDeposits';
+import { CancellationOutcome } from '@/types/deposit';
+
+const outcome = (refund: number, retained: number): CancellationOutcome => ({
+  type: 'cancelled',
+  action: refund > 0 ? 'refund' : 'forfeit',
+  reason: '',
+  currency: 'SAR',
+  hours_before: 2,
+  deposit_paid: 50,
+  refund_amount: refund,
+  retained_amount: retained,
+  fee_amount: 0,
+});
+
+const succeed = async () => {};
+const fail = (message: string) => async () => {
+  throw new Error(message);
+};
+
+describe('settleDeposit', () => {
+  it('refunds the deposit', async () => {
+    const refunded: number[] = [];
+    const settlement = await settleDeposit(outcome(50, 0), {
+      refund: async amount => {
+        refunded.push(amount);
+      },
+      retain: fail('not expected'),
+    });
+
+    assert.deepEqual(settlement, { status: 'refunded' });
+    assert.deepEqual(refunded, [50]);
+  });
+
+  it('keeps the deposit', async () => {
+    assert.deepEqual(await settleDeposit(outcome(0, 50), { refund: fail('not expected'), retain: succeed }), { status: 'forfeited' });
+  });
+
+  it('returns a failed refund instead of throwing', async () => {
+    const settlement = await settleDeposit(outcome(50, 0), { refund: fail('Provider unavailable'), retain: succeed });
+    assert.deepEqual(settlement, { refund_error: 'Provider unavailable' });
+  });
+
+  it('returns a failed capture instead of throwing', async () => {
+    const settlement = await settleDeposit(outcome(0, 50), { refund: succeed, retain: fail('Authorization expired') });
+    assert.deepEqual(settlement, { retain_error: 'Authorization expired' });
+  });
+
+  it('does nothing when the policy neither refunds nor keeps the deposit', async () => {
+    assert.deepEqual(await settleDeposit(outcome(0, 0), { refund: fail('not expected'), retain: fail('not expected') }), {});
+  });
+});
@@ -0,0 +1,483 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  limit,
+  runTransaction,
+  updateDoc,
+  Timestamp,
+  DocumentData
+} from 'firebase/firestore';
+import { getServerDb } from './firebaseServer';
+import { subtractMoney } from './money';
+import {
+  calculateDeposit,
+  DEFAULT_CANCELLATION_POLICY,
+  evaluateCancellation,
+  getAppointmentStart,
+  getBranchCurrency,
+  getBranchTimeZone
+} from './bookingPolicy';
+import {
+  getPayment,
+  getRefundableAmount,
+  isAwaitingCapture,
+  recordPayment,
+  releaseRefund,
+  reserveRefund
+} from './paymentLedger';
+import { createPaymentLink, getPaymentLink, revokePaymentLink } from './paymentLinks';
+import { getPaymentProvider } from './paymentProviders';
+import { paymentService } from './paymentservice';
+import { Money, PaymentLinkCustomer } from '@/types/payment';
+import {
+  BookingCancellation,
+  BookingDeposit,
+  CancellationOutcome,
+  CancellationPolicy,
+  CancellationType,
+  DepositQuote,
+  DepositRule
+} from '@/types/deposit';
+
+const BOOKINGS_COLLECTION = 'bookings';
+
+export interface DepositRequestResult {
+  deposit: BookingDeposit | null;
+  token: string | null;
+  error: string | null;
+  status: number;
+}
+
+export interface CancellationResult {
+  cancellation: BookingCancellation | null;
+  // Token of the payment link for the fee, if one is owed
+  fee_token: string | null;
+  error: string | null;
+  status: number;
+}
+
+interface BookingContext {
+  id: string;
+  data: DocumentData;
+  branch: DocumentData | null;
+  currency: string;
+  deposit: BookingDeposit | null;
+}
+
+// Convert the deposit stored on a booking document
+const toBookingDeposit = (data?: DocumentData): BookingDeposit | null => data ? ({
+  ...data,
+  requested_at: data.requested_at?.toDate() || new Date(),
+  paid_at: data.paid_at?.toDate(),
+  settled_at: data.settled_at?.toDate(),
+} as BookingDeposit) : null;
+
+// Bookings store the branch name
+const findBranch = async (name?: string): Promise<DocumentData | null> => {
+  if (!name) {
+    return null;
+  }
+  const q = query(collection(await getServerDb(), 'branches'), where('name', '==', name), limit(1));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs[0]?.data() || null;
+};
+
+// Bring a pending deposit up to date with its payment link
+const resolveDeposit = async (bookingId: string, deposit: BookingDeposit | null): Promise<BookingDeposit | null> => {
+  if (deposit?.status !== 'pending') {
+    return deposit;
+  }
+
+  const link = await getPaymentLink(deposit.payment_link_id);
+  const bookingRef = doc(await getServerDb(), BOOKINGS_COLLECTION, bookingId);
+
+  if (link?.status === 'paid') {
+    const paidAt = link.paid_at || new Date();
+    await updateDoc(bookingRef, {
+      'deposit.status': 'paid',
+      'deposit.order_id': link.order_id,
+      'deposit.paid_at': Timestamp.fromDate(paidAt),
+    });
+    return { ...deposit, status: 'paid', order_id: link.order_id, paid_at: paidAt };
+  }
+
+  if (!link || link.status === 'revoked' || link.status === 'expired') {
+    await updateDoc(bookingRef, { 'deposit.status': 'cancelled' });
+    return { ...deposit, status: 'cancelled' };
+  }
+
+  return deposit;
+};
+
+// Customer details for payments, from a booking document and the customer's account
+export const getBookingCustomer = async (booking: DocumentData): Promise<PaymentLinkCustomer> => {
+  const customer: PaymentLinkCustomer = { name: booking.customerName || undefined };
+
+  if (booking.userId) {
+    const userDoc = await getDoc(doc(await getServerDb(), 'users', booking.userId));
+    if (userDoc.exists()) {
+      const user = userDoc.data();
+      customer.name = customer.name || user.name || user.displayName || undefined;
+      customer.email = user.email || undefined;
+      customer.phone = user.phone || user.phoneNumber || undefined;
+    }
+  }
+
+  return customer;
+};
+
+// Bookings are paid in the currency of their branch's country
+export const getBookingCurrency = async (booking: DocumentData): Promise<string> =>
+  getBranchCurrency((await findBranch(booking.branch))?.country);
+
+const loadBooking = async (bookingId: string): Promise<BookingContext | null> => {
+  const snapshot = await getDoc(doc(await getServerDb(), BOOKINGS_COLLECTION, bookingId));
+  if (!snapshot.exists()) {
+    return null;
+  }
+
+  const data = snapshot.data();
+  const branch = await findBranch(data.branch);
+  return {
+    id: snapshot.id,
+    data,
+    branch,
+    currency: getBranchCurrency(branch?.country),
+    deposit: await resolveDeposit(snapshot.id, toBookingDeposit(data.deposit)),
+  };
+};
+
+// Work out the deposit the booking's services and branch call for
+const getRequiredDeposit = async (booking: BookingContext): Promise<Money> => {
+  const services: DocumentData[] = booking.data.services || [];
+  const serviceRules: Record<string, DepositRule | undefined> = {};
+
+  await Promise.all(services.map(async service => {
+    if (service.serviceId && !(service.serviceId in serviceRules)) {
+      const serviceDoc = await getDoc(doc(await getServerDb(), 'services', service.serviceId));
+      serviceRules[service.serviceId] = serviceDoc.exists() ? serviceDoc.data().deposit : undefined;
+    }
+  }));
+
+  return calculateDeposit(
+    services.map(service => ({
+      serviceId: service.serviceId,
+      price: Number(service.price) || 0,
+      quantity: Number(service.quantity) || 1,
+    })),
+    booking.currency,
+    serviceRules,
+    booking.branch?.deposit
+  );
+};
+
+// Get the deposit a booking requires and the one requested so far, or null if the booking does not exist
+export const getDepositQuote = async (bookingId: string): Promise<DepositQuote | null> => {
+  try {
+    const booking = await loadBooking(bookingId);
+    if (!booking) {
+      return null;
+    }
+    return { required: await getRequiredDeposit(booking), deposit: booking.deposit };
+  } catch (error) {
+    console.error('Error getting booking deposit:', error);
+    throw error;
+  }
+};
+
+// Ask for the booking's deposit through a payment link. Called when the booking is made;
+// the customer can pay with any provider offered on payment links.
+export const requestDeposit = async (
+  bookingId: string,
+  requestedBy: string,
+  expiresInHours: number
+): Promise<DepositRequestResult> => {
+  try {
+    const booking = await loadBooking(bookingId);
+    if (!booking) {
+      return { deposit: null, token: null, error: 'Booking not found', status: 404 };
+    }
+
+    if (booking.data.status === 'cancelled' || booking.data.status === 'no_show') {
+      return { deposit: null, token: null, error: 'The booking has been cancelled', status: 409 };
+    }
+
+    if (booking.deposit?.status === 'pending' || booking.deposit?.status === 'paid') {
+      return { deposit: null, token: null, error: `A deposit has already been ${booking.deposit.status === 'paid' ? 'paid' : 'requested'}`, status: 409 };
+    }
+
+    const required = await getRequiredDeposit(booking);
+    if (required.amount <= 0) {
+      return { deposit: null, token: null, error: 'No deposit rule applies to this booking', status: 422 };
+    }
+
+    const { link, token } = await createPaymentLink({
+      booking_id: bookingId,
+      description: `Deposit for your appointment on ${booking.data.bookingDate?.toDate().toDateString()} ${booking.data.bookingTime || ''}`.trim(),
+      amount: required.amount,
+      currency: required.currency,
+      customer: await getBookingCustomer(booking.data),
+      branch: booking.data.branch,
+      metadata: { booking_deposit: true },
+      expires_in_hours: expiresInHours,
+      created_by: requestedBy,
+    });
+
+    const requestedAt = Timestamp.now();
+    const deposit = {
+      amount: required.amount,
+      currency: required.currency,
+      status: 'pending',
+      payment_link_id: link.id,
+      requested_at: requestedAt,
+      requested_by: requestedBy,
+    };
+
+    await updateDoc(doc(await getServerDb(), BOOKINGS_COLLECTION, bookingId), { deposit, updatedAt: requestedAt });
+    return { deposit: toBookingDeposit(deposit), token, error: null, status: 200 };
+  } catch (error) {
+    console.error('Error requesting booking deposit:', error);
+    throw error;
+  }
+};
+
+// Apply the cancellation policy without changing anything
+const evaluateBooking = (booking: BookingContext, type: CancellationType, cancelledAt: Date): CancellationOutcome => {
+  const policy: CancellationPolicy = { ...DEFAULT_CANCELLATION_POLICY, ...booking.branch?.cancellationPolicy };
+  const deposit = booking.deposit;
+
+  return evaluateCancellation({
+    type,
+    policy,
+    appointmentStart: getAppointmentStart(
+      booking.data.bookingDate?.toDate() || new Date(),
+      booking.data.bookingTime || '',
+      getBranchTimeZone(booking.branch?.country)
+    ),
+    cancelledAt,
+    totalPrice: Number(booking.data.totalPrice) || 0,
+    depositPaid: deposit?.status === 'paid'
+      ? { amount: deposit.amount, currency: deposit.currency }
+      : { amount: 0, currency: deposit?.currency || booking.currency },
+  });
+};
+
+// Preview what cancelling the booking, or marking it as a no-show, would do
+export const previewCancellation = async (bookingId: string, type: CancellationType): Promise<CancellationOutcome | null> => {
+  try {
+    const booking = await loadBooking(bookingId);
+    return booking ? evaluateBooking(booking, type, new Date()) : null;
+  } catch (error) {
+    console.error('Error previewing booking cancellation:', error);
+    throw error;
+  }
+};
+
+// Give the deposit back. BNPL deposits that were never captured are voided instead.
+const refundDeposit = async (orderId: string, amount: number, by: string): Promise<void> => {
+  const payment = await getPayment(orderId);
+  if (!payment) {
+    throw new Error(`Deposit payment ${orderId} not found`);
+  }
+
+  if (isAwaitingCapture(payment)) {
+    await paymentService.cancelPayment(payment.provider, payment.provider_payment_id, { amount: payment.amount, currency: payment.currency });
+    await recordPayment(orderId, {
+      provider: payment.provider,
+      provider_payment_id: payment.provider_payment_id,
+      source: 'admin',
+      status: 'cancelled',
+      metadata: { cancelled_by: by },
+      event: 'booking.cancelled',
+    });
+    return;
+  }
+
+  const refund: Money = { amount: Math.min(amount, getRefundableAmount(payment)), currency: payment.currency };
+  if (refund.amount <= 0) {
+    throw new Error('The deposit payment has no refundable balance');
+  }
+
+  // Held the same way as a refund from the payments page, so the two cannot overlap
+  const available = await reserveRefund(orderId, refund.amount);
+  if (available === null) {
+    throw new Error('The refundable balance of the deposit payment has changed, possibly because of another refund');
+  }
+
+  let response: Record<string, unknown>;
+  try {
+    response = await paymentService.refundPayment(payment.provider, payment.provider_payment_id, refund);
+  } catch (error) {
+    await releaseRefund(orderId, refund.amount);
+    throw error;
+  }
+  const refundId = getPaymentProvider(payment.provider)?.getRefundId?.(response);
+  const remaining = subtractMoney({ amount: available, currency: payment.currency }, refund);
+
+  await recordPayment(orderId, {
+    provider: payment.provider,
+    provider_payment_id: payment.provider_payment_id,
+    source: 'admin',
+    status: remaining.amount === 0 ? 'refunded' : undefined,
+    settled_refund: refund.amount,
+    refund_id: refundId,
+    metadata: {
+      refunded_by: by,
+      refund_reason: 'Booking cancelled',
+      ...(refundId ? { refund_id: refundId } : {}),
+    },
+    event: 'booking.cancelled',
+  });
+};
+
+// Keep the deposit. BNPL deposits are only authorized at checkout, so they are captured now.
+const retainDeposit = async (orderId: string, by: string): Promise<void> => {
+  const payment = await getPayment(orderId);
+  if (!payment || !isAwaitingCapture(payment)) {
+    return;
+  }
+
+  await paymentService.capturePayment(payment.provider, payment.provider_payment_id, { amount: payment.amount, currency: payment.currency });
+  await recordPayment(orderId, {
+    provider: payment.provider,
+    provider_payment_id: payment.provider_payment_id,
+    source: 'admin',
+    status: 'completed',
+    metadata: {
+      amount_captured: payment.amount,
+      captured_by: by,
+    },
+    event: 'booking.deposit_retained',
+  });
+};
+
+export interface DepositSettlement {
+  // The deposit's new status; unset if nothing was done or settling it failed
+  status?: 'refunded' | 'forfeited';
+  refund_error?: string;
+  retain_error?: string;
+}
+
+// Refund or keep a paid deposit as the cancellation outcome says. Runs after the booking has
+// been cancelled, so a failure is returned to be kept on the cancellation for an admin
+// rather than thrown.
+export const settleDeposit = async (
+  outcome: CancellationOutcome,
+  actions: { refund: (amount: number) => Promise<void>; retain: () => Promise<void> }
+): Promise<DepositSettlement> => {
+  if (outcome.refund_amount > 0) {
+    try {
+      await actions.refund(outcome.refund_amount);
+      return { status: 'refunded' };
+    } catch (error) {
+      return { refund_error: error instanceof Error ? error.message : 'Refund failed' };
+    }
+  }
+
+  if (outcome.retained_amount > 0) {
+    try {
+      await actions.retain();
+      return { status: 'forfeited' };
+    } catch (error) {
+      return { retain_error: error instanceof Error ? error.message : 'Capture failed' };
+    }
+  }
+
+  return {};
+};
+
+// Cancel a booking or mark it as a no-show and settle its deposit according to the
+// branch's cancellation policy. A fee above the deposit is requested through a payment link.
+export const cancelBooking = async (bookingId: string, type: CancellationType, cancelledBy: string): Promise<CancellationResult> => {
+  try {
+    const booking = await loadBooking(bookingId);
+    if (!booking) {
+      return { cancellation: null, fee_token: null, error: 'Booking not found', status: 404 };
+    }
+
+    const cancelledAt = new Date();
+    const outcome = evaluateBooking(booking, type, cancelledAt);
+    const cancellation: BookingCancellation = { ...outcome, cancelled_at: cancelledAt, cancelled_by: cancelledBy };
+    const deposit = booking.deposit;
+    const update: DocumentData = {};
+    let feeToken: string | null = null;
+
+    // Firestore rejects undefined fields
+    const toStoredCancellation = () => ({
+      ...JSON.parse(JSON.stringify(cancellation)),
+      cancelled_at: Timestamp.fromDate(cancelledAt),
+    });
+
+    // Mark the booking as cancelled before the deposit is touched, so that a second
+    // cancellation sent at the same time finds it cancelled rather than refunding again
+    const db = await getServerDb();
+    const bookingRef = doc(db, BOOKINGS_COLLECTION, bookingId);
+    const claimed = await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(bookingRef);
+      const status = snapshot.data()?.status;
+      if (status === 'cancelled' || status === 'no_show') {
+        return false;
+      }
+
+      transaction.update(bookingRef, {
+        status: type,
+        cancellation: toStoredCancellation(),
+        updatedAt: Timestamp.fromDate(cancelledAt),
+      });
+      return true;
+    });
+
+    if (!claimed) {
+      return { cancellation: null, fee_token: null, error: 'The booking has already been cancelled', status: 409 };
+    }
+
+    // An unpaid deposit link must not be paid after the booking is gone
+    if (deposit?.status === 'pending') {
+      await revokePaymentLink(deposit.payment_link_id, cancelledBy);
+      update['deposit.status'] = 'cancelled';
+    }
+
+    if (deposit?.status === 'paid' && deposit.order_id) {
+      const orderId = deposit.order_id;
+      const { status, ...errors } = await settleDeposit(outcome, {
+        refund: amount => refundDeposit(orderId, amount, cancelledBy),
+        retain: () => retainDeposit(orderId, cancelledBy),
+      });
+      if (status) {
+        update['deposit.status'] = status;
+        update['deposit.settled_at'] = Timestamp.fromDate(cancelledAt);
+      }
+      Object.assign(cancellation, errors);
+    }
+
+    if (outcome.fee_amount > 0) {
+      const { link, token } = await createPaymentLink({
+        booking_id: bookingId,
+        description: type === 'no_show' ? 'Missed appointment fee' : 'Late cancellation fee',
+        amount: outcome.fee_amount,
+        currency: outcome.currency,
+        customer: await getBookingCustomer(booking.data),
+        branch: booking.data.branch,
+        metadata: { cancellation_fee: true },
+        expires_in_hours: 24 * 7,
+        created_by: cancelledBy,
+      });
+      cancellation.fee_payment_link_id = link.id;
+      feeToken = token;
+    }
+
+    await updateDoc(bookingRef, {
+      ...update,
+      cancellation: toStoredCancellation(),
+    });
+
+    return { cancellation, fee_token: feeToken, error: null, status: 200 };
+  } catch (error) {
+    console.error('Error cancelling booking:', error);
+    throw error;
+  }
+};
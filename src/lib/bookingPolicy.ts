@@ -0,0 +1,173 @@
+import { addMoney, roundAmount, subtractMoney } from './money';
+import { Money } from '@/types/payment';
+import { AvailabilitySettings } from '@/types/booking';
+import {
+  CancellationOutcome,
+  CancellationPolicy,
+  CancellationType,
+  DepositRule
+} from '@/types/deposit';
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  free_cancellation_hours: 24,
+  late_cancellation_fee_percent: 0,
+  no_show_fee_percent: 0,
+};
+
+export const DEFAULT_AVAILABILITY_SETTINGS: AvailabilitySettings = {
+  slot_interval_minutes: 15,
+  buffer_minutes: 10,
+  staff_count: 1,
+};
+
+// Currencies of the countries we have branches in, as entered on branches
+const BRANCH_CURRENCIES: Record<string, string> = {
+  'UAE': 'AED',
+  'Saudi Arabia': 'SAR',
+  'Qatar': 'QAR',
+  'Kuwait': 'KWD',
+  'Bahrain': 'BHD',
+  'Oman': 'OMR',
+};
+
+export const getBranchCurrency = (country?: string): string => BRANCH_CURRENCIES[country || ''] || 'AED';
+
+// Time zones of the same countries. Booking dates and times are local to the branch.
+const BRANCH_TIME_ZONES: Record<string, string> = {
+  'UAE': 'Asia/Dubai',
+  'Saudi Arabia': 'Asia/Riyadh',
+  'Qatar': 'Asia/Qatar',
+  'Kuwait': 'Asia/Kuwait',
+  'Bahrain': 'Asia/Bahrain',
+  'Oman': 'Asia/Muscat',
+};
+
+export const getBranchTimeZone = (country?: string): string => BRANCH_TIME_ZONES[country || ''] || 'Asia/Dubai';
+
+// Minutes the time zone is ahead of UTC at the given moment
+const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    }).formatToParts(date).map(part => [part.type, part.value])
+  );
+  const wallClock = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute);
+  return Math.round((wallClock - date.getTime()) / 60000);
+};
+
+// Calendar day of a moment in a time zone, as YYYY-MM-DD
+export const getDateInTimeZone = (date: Date, timeZone: string): string =>
+  new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+
+// The moment a time of day on a YYYY-MM-DD calendar day happens in a time zone.
+// Minutes past the end of the day roll over into the next one.
+export const getZonedTime = (date: string, minutes: number, timeZone: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  const offset = getTimeZoneOffset(new Date(wallClock), timeZone);
+  // Check the offset again at the result in case a DST change falls in between
+  return new Date(wallClock - getTimeZoneOffset(new Date(wallClock - offset * 60000), timeZone) * 60000);
+};
+
+export interface DepositLine {
+  serviceId: string;
+  price: number;
+  quantity: number;
+}
+
+// Deposit for a booking: each service uses its own rule, or the branch rule if it has none.
+// Fixed deposits are capped at the price of the service.
+export const calculateDeposit = (
+  lines: DepositLine[],
+  currency: string,
+  serviceRules: Record<string, DepositRule | undefined>,
+  branchRule?: DepositRule
+): Money => lines.reduce((total, line) => {
+  const rule = serviceRules[line.serviceId] || branchRule;
+  if (!rule || rule.value <= 0) {
+    return total;
+  }
+
+  const lineTotal = line.price * line.quantity;
+  const deposit = rule.type === 'percentage'
+    ? lineTotal * Math.min(rule.value, 100) / 100
+    : Math.min(rule.value * line.quantity, lineTotal);
+
+  return addMoney(total, { amount: roundAmount(deposit, currency), currency });
+}, { amount: 0, currency } as Money);
+
+// Appointment start from the booking date and its "10:30 AM" / "14:30" time slot, both
+// local to the branch. The booking date is stored as a moment on the appointment day
+// (usually local midnight), so its calendar day is taken in the branch's time zone, which
+// defaults to that of a branch with no country set.
+export const getAppointmentStart = (bookingDate: Date, bookingTime: string, timeZone = getBranchTimeZone()): Date => {
+  const match = bookingTime.match(/(\d{1,2}):(\d{2})\s*(AM|PM)?/i);
+  if (!match) {
+    return new Date(bookingDate);
+  }
+
+  let hours = parseInt(match[1], 10);
+  const meridiem = match[3]?.toUpperCase();
+  if (meridiem === 'PM' && hours < 12) {
+    hours += 12;
+  } else if (meridiem === 'AM' && hours === 12) {
+    hours = 0;
+  }
+  return getZonedTime(getDateInTimeZone(bookingDate, timeZone), hours * 60 + parseInt(match[2], 10), timeZone);
+};
+
+// Decide what happens to the deposit when a booking is cancelled or the customer does not
+// show up. Within the free cancellation window the deposit is refunded. Otherwise it is kept,
+// and if the policy's fee is higher than the deposit the difference is charged as well.
+export const evaluateCancellation = (input: {
+  type: CancellationType;
+  policy: CancellationPolicy;
+  appointmentStart: Date;
+  cancelledAt: Date;
+  totalPrice: number;
+  depositPaid: Money;
+}): CancellationOutcome => {
+  const { type, policy, depositPaid } = input;
+  const currency = depositPaid.currency;
+  const zero: Money = { amount: 0, currency };
+  const hoursBefore = (input.appointmentStart.getTime() - input.cancelledAt.getTime()) / (60 * 60 * 1000);
+  const base = {
+    type,
+    currency,
+    hours_before: Math.round(hoursBefore * 10) / 10,
+    deposit_paid: depositPaid.amount,
+  };
+
+  if (type === 'cancelled' && hoursBefore >= policy.free_cancellation_hours) {
+    return {
+      ...base,
+      action: depositPaid.amount > 0 ? 'refund' : 'none',
+      reason: `Cancelled at least ${policy.free_cancellation_hours} hours before the appointment`,
+      refund_amount: depositPaid.amount,
+      retained_amount: 0,
+      fee_amount: 0,
+    };
+  }
+
+  const feePercent = type === 'no_show' ? policy.no_show_fee_percent : policy.late_cancellation_fee_percent;
+  const fee: Money = { amount: roundAmount(input.totalPrice * feePercent / 100, currency), currency };
+  const extraFee = fee.amount > depositPaid.amount ? subtractMoney(fee, depositPaid) : zero;
+  const reason = type === 'no_show'
+    ? 'The customer did not show up'
+    : `Cancelled less than ${policy.free_cancellation_hours} hours before the appointment`;
+
+  return {
+    ...base,
+    action: extraFee.amount > 0 ? 'charge_fee' : depositPaid.amount > 0 ? 'forfeit' : 'none',
+    reason,
+    refund_amount: 0,
+    retained_amount: depositPaid.amount,
+    fee_amount: extraFee.amount,
+  };
+};
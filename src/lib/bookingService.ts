@@ -0,0 +1,333 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  addDoc,
+  updateDoc,
+  onSnapshot,
+  query,
+  orderBy,
+  where,
+  limit,
+  startAfter,
+  Query,
+  QueryDocumentSnapshot,
+  DocumentData,
+  Timestamp
+} from 'firebase/firestore';
+import { db, isFirebaseConfigured } from './firebase';
+import { authorizedFetch } from './networkUtils';
+import { Booking, BookingCancellationResult, BookingFilter, BookingFormData, BookingStatus } from '../types/booking';
+import { CancellationOutcome, CancellationType } from '../types/deposit';
+import { ServiceResponse, ValidationError } from '../types/api';
+
+const BOOKINGS_COLLECTION = 'bookings';
+
+const NOT_CONFIGURED_ERROR = 'Firebase is not configured. Please set up your Firebase environment variables.';
+
+// "2:30 PM", "02:30pm" or "14:30"
+const BOOKING_TIME_PATTERN = /^(\d{1,2}):(\d{2})\s*(AM|PM)?$/i;
+
+// Convert a Firestore document into a Booking. Older documents are missing some fields.
+export const toBooking = (id: string, data: DocumentData): Booking => ({
+  ...data,
+  id,
+  userId: data.userId || '',
+  customerName: data.customerName || '',
+  services: data.services || [],
+  bookingDate: data.bookingDate?.toDate() || new Date(),
+  bookingTime: data.bookingTime || '',
+  branch: data.branch || '',
+  totalPrice: data.totalPrice || 0,
+  totalDuration: data.totalDuration || 0,
+  status: data.status || 'upcoming',
+  paymentMethod: data.paymentMethod || 'cash',
+  emailConfirmation: data.emailConfirmation || false,
+  smsConfirmation: data.smsConfirmation || false,
+  deposit: data.deposit ? {
+    ...data.deposit,
+    requested_at: data.deposit.requested_at?.toDate() || new Date(),
+    paid_at: data.deposit.paid_at?.toDate(),
+    settled_at: data.deposit.settled_at?.toDate(),
+  } : undefined,
+  cancellation: data.cancellation ? {
+    ...data.cancellation,
+    cancelled_at: data.cancellation.cancelled_at?.toDate() || new Date(),
+  } : undefined,
+  createdAt: data.createdAt?.toDate() || new Date(),
+  updatedAt: data.updatedAt?.toDate() || new Date(),
+} as Booking);
+
+// Check a new booking before it is saved
+export const validateBooking = (booking: BookingFormData): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  if (!booking.userId?.trim()) {
+    errors.push({ field: 'userId', message: 'Customer is required' });
+  }
+  if (!booking.customerName?.trim()) {
+    errors.push({ field: 'customerName', message: 'Customer name is required' });
+  }
+  if (!booking.branch?.trim()) {
+    errors.push({ field: 'branch', message: 'Branch is required' });
+  }
+  if (!booking.paymentMethod?.trim()) {
+    errors.push({ field: 'paymentMethod', message: 'Payment method is required' });
+  }
+
+  if (!(booking.bookingDate instanceof Date) || isNaN(booking.bookingDate.getTime())) {
+    errors.push({ field: 'bookingDate', message: 'Booking date is invalid', value: booking.bookingDate });
+  }
+
+  const time = booking.bookingTime?.trim().match(BOOKING_TIME_PATTERN);
+  const hours = time ? parseInt(time[1], 10) : -1;
+  const validHours = time?.[3] ? hours >= 1 && hours <= 12 : hours >= 0 && hours <= 23;
+  if (!time || !validHours || parseInt(time[2], 10) > 59) {
+    errors.push({ field: 'bookingTime', message: 'Booking time must look like 2:30 PM or 14:30', value: booking.bookingTime });
+  }
+
+  if (!booking.services?.length) {
+    errors.push({ field: 'services', message: 'At least one service is required' });
+  }
+  booking.services?.forEach((service, index) => {
+    if (!service.serviceId || !service.serviceName) {
+      errors.push({ field: `services.${index}`, message: 'Service is missing its ID or name' });
+    }
+    if (!(service.price >= 0) || !(service.duration > 0)) {
+      errors.push({ field: `services.${index}`, message: `${service.serviceName || 'Service'} needs a price and a duration` });
+    }
+    if (!Number.isInteger(service.quantity) || service.quantity < 1) {
+      errors.push({ field: `services.${index}.quantity`, message: 'Quantity must be a whole number of at least 1', value: service.quantity });
+    }
+  });
+
+  return errors;
+};
+
+// Filters are applied in the query. Date ranges order by appointment date, since Firestore
+// only allows range filters on the first ordered field.
+const buildBookingsQuery = (filter?: BookingFilter): Query<DocumentData> => {
+  let q = filter?.dateRange
+    ? query(
+        collection(db!, BOOKINGS_COLLECTION),
+        where('bookingDate', '>=', Timestamp.fromDate(filter.dateRange.start)),
+        where('bookingDate', '<=', Timestamp.fromDate(filter.dateRange.end)),
+        orderBy('bookingDate', 'desc')
+      )
+    : query(collection(db!, BOOKINGS_COLLECTION), orderBy('createdAt', 'desc'));
+
+  if (filter?.status && filter.status !== 'all') {
+    q = query(q, where('status', '==', filter.status));
+  }
+
+  if (filter?.branch) {
+    q = query(q, where('branch', '==', filter.branch));
+  }
+
+  if (filter?.userId) {
+    q = query(q, where('userId', '==', filter.userId));
+  }
+
+  return q;
+};
+
+// Create a booking. Totals are worked out from the services.
+export const createBooking = async (bookingData: BookingFormData): Promise<ServiceResponse<string>> => {
+  try {
+    if (!isFirebaseConfigured() || !db) {
+      return { success: false, error: NOT_CONFIGURED_ERROR };
+    }
+
+    const errors = validateBooking(bookingData);
+    if (errors.length > 0) {
+      return { success: false, error: 'Validation failed', errors };
+    }
+
+    const now = Timestamp.now();
+    const booking = {
+      ...bookingData,
+      bookingDate: Timestamp.fromDate(bookingData.bookingDate),
+      bookingTime: bookingData.bookingTime.trim(),
+      totalPrice: bookingData.services.reduce((sum, service) => sum + service.price * service.quantity, 0),
+      totalDuration: bookingData.services.reduce((sum, service) => sum + service.duration * service.quantity, 0),
+      status: 'upcoming' as const,
+      emailConfirmation: bookingData.emailConfirmation || false,
+      smsConfirmation: bookingData.smsConfirmation || false,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const docRef = await addDoc(collection(db, BOOKINGS_COLLECTION), booking);
+    return {
+      success: true,
+      data: docRef.id
+    };
+  } catch (error) {
+    console.error('Error creating booking:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create booking'
+    };
+  }
+};
+
+// Get a single booking
+export const getBooking = async (bookingId: string): Promise<ServiceResponse<Booking>> => {
+  try {
+    if (!isFirebaseConfigured() || !db) {
+      return { success: false, error: NOT_CONFIGURED_ERROR };
+    }
+
+    const snapshot = await getDoc(doc(db, BOOKINGS_COLLECTION, bookingId));
+    if (!snapshot.exists()) {
+      return { success: false, error: 'Booking not found' };
+    }
+
+    return {
+      success: true,
+      data: toBooking(snapshot.id, snapshot.data())
+    };
+  } catch (error) {
+    console.error('Error getting booking:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get booking'
+    };
+  }
+};
+
+// Get bookings with optional filtering and pagination, newest first
+export const getBookings = async (filter?: BookingFilter, limitCount = 50, lastDoc?: QueryDocumentSnapshot<DocumentData>): Promise<ServiceResponse<{bookings: Booking[], lastDoc?: QueryDocumentSnapshot<DocumentData>, hasMore: boolean}>> => {
+  try {
+    if (!isFirebaseConfigured() || !db) {
+      return { success: false, error: NOT_CONFIGURED_ERROR };
+    }
+
+    let q = query(buildBookingsQuery(filter), limit(limitCount));
+    if (lastDoc) {
+      q = query(q, startAfter(lastDoc));
+    }
+
+    const querySnapshot = await getDocs(q);
+
+    return {
+      success: true,
+      data: {
+        bookings: querySnapshot.docs.map(bookingDoc => toBooking(bookingDoc.id, bookingDoc.data())),
+        lastDoc: querySnapshot.docs[querySnapshot.docs.length - 1],
+        hasMore: querySnapshot.docs.length === limitCount
+      }
+    };
+  } catch (error) {
+    console.error('Error getting bookings:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get bookings'
+    };
+  }
+};
+
+// Subscribe to real-time booking updates
+export const subscribeToBookings = (
+  callback: (bookings: Booking[]) => void,
+  onError?: (error: Error) => void,
+  filter?: BookingFilter
+): (() => void) => {
+  if (!isFirebaseConfigured() || !db) {
+    console.warn('Firebase is not configured, skipping real-time subscription');
+    return () => {};
+  }
+
+  return onSnapshot(
+    buildBookingsQuery(filter),
+    (snapshot) => {
+      callback(snapshot.docs.map(bookingDoc => toBooking(bookingDoc.id, bookingDoc.data())));
+    },
+    (error) => {
+      console.error('Error in booking subscription:', error);
+      onError?.(error);
+    }
+  );
+};
+
+// Mark a booking as completed, or back to upcoming. Cancellations and no-shows go through
+// cancelBooking so the cancellation policy is applied to the deposit.
+export const updateBookingStatus = async (bookingId: string, status: Extract<BookingStatus, 'upcoming' | 'past'>): Promise<ServiceResponse<void>> => {
+  try {
+    if (!isFirebaseConfigured() || !db) {
+      return { success: false, error: NOT_CONFIGURED_ERROR };
+    }
+
+    const bookingRef = doc(db, BOOKINGS_COLLECTION, bookingId);
+    const snapshot = await getDoc(bookingRef);
+    if (!snapshot.exists()) {
+      return { success: false, error: 'Booking not found' };
+    }
+
+    const current = snapshot.data().status;
+    if (current === 'cancelled' || current === 'no_show') {
+      return { success: false, error: 'The booking has been cancelled' };
+    }
+
+    await updateDoc(bookingRef, {
+      status,
+      updatedAt: Timestamp.now()
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating booking status:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update booking status'
+    };
+  }
+};
+
+// What the branch's cancellation policy would do with the deposit, without changing anything
+export const previewBookingCancellation = async (bookingId: string, type: CancellationType): Promise<ServiceResponse<CancellationOutcome>> => {
+  try {
+    const response = await authorizedFetch(`/api/bookings/${encodeURIComponent(bookingId)}/cancel?type=${type}`);
+    const data = await response.json();
+
+    if (!response.ok) {
+      return { success: false, error: data.error || 'Failed to check the cancellation policy' };
+    }
+
+    return { success: true, data: data.data };
+  } catch (error) {
+    console.error('Error previewing booking cancellation:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to check the cancellation policy'
+    };
+  }
+};
+
+// Cancel a booking or mark it as a no-show. The server refunds or keeps the deposit and
+// requests any fee, so this goes through the API rather than writing the status directly.
+export const cancelBooking = async (bookingId: string, type: CancellationType): Promise<ServiceResponse<BookingCancellationResult>> => {
+  try {
+    const response = await authorizedFetch(`/api/bookings/${encodeURIComponent(bookingId)}/cancel`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ type })
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      return { success: false, error: data.error || 'Failed to cancel booking' };
+    }
+
+    return { success: true, data: data.data };
+  } catch (error) {
+    console.error('Error cancelling booking:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to cancel booking'
+    };
+  }
+};
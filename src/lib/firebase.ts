@@ -3,7 +3,7 @@ import { initializeApp, FirebaseApp } from "firebase/app";
 import { getAnalytics, Analytics } from "firebase/analytics";
 import { getFirestore, Firestore } from "firebase/firestore";
 import { getStorage, FirebaseStorage } from "firebase/storage";
-import { getAuth, Auth } from "firebase/auth";
+import { getAuth, connectAuthEmulator, Auth } from "firebase/auth";
 // TODO: Add SDKs for Firebase products that you want to use
 // https://firebase.google.com/docs/web/setup#available-libraries
 
@@ -56,6 +56,12 @@ function initializeFirebase() {
       db = getFirestore(app);
       storage = getStorage(app);
       auth = getAuth(app);
+
+      // Sign in against the local Auth emulator when configured
+      const authEmulatorHost = process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST;
+      if (authEmulatorHost) {
+        connectAuthEmulator(auth, `http://${authEmulatorHost}`, { disableWarnings: true });
+      }
       
 
       
@@ -86,7 +92,7 @@ if (typeof window !== 'undefined') {
 }
 
 // Export Firebase services (may be null if not configured)
-export { db, storage, auth, analytics, initializeFirebase };
+export { db, storage, auth, analytics, initializeFirebase, firebaseConfig };
 export default app;
 
 // Helper function to check if Firebase is configured
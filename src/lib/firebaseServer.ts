@@ -0,0 +1,70 @@
+import { initializeApp, getApps, FirebaseApp } from 'firebase/app';
+import { connectAuthEmulator, getAuth, signInWithEmailAndPassword } from 'firebase/auth';
+import { connectFirestoreEmulator, getFirestore, Firestore } from 'firebase/firestore';
+import { firebaseConfig } from './firebase';
+
+// The browser app in ./firebase is only initialized on the client, so API routes
+// get their own named app instance with the same project configuration.
+const SERVER_APP_NAME = 'server';
+
+let serverApp: FirebaseApp | null = null;
+let serverDb: Firestore | null = null;
+let serverSignIn: Promise<void> | null = null;
+
+export function getServerApp(): FirebaseApp {
+  if (!serverApp) {
+    serverApp = getApps().find(app => app.name === SERVER_APP_NAME) || initializeApp(firebaseConfig, SERVER_APP_NAME);
+  }
+  return serverApp;
+}
+
+// Sign the server app in as its own account. The Firestore rules only let an account whose
+// `users` document has the role `server` read and write payment data, so balances and
+// payments cannot be changed from a browser. Without credentials the server stays signed
+// out, which only works with the development rules and is refused in production.
+async function signInServer(): Promise<void> {
+  const email = process.env.FIREBASE_SERVER_EMAIL;
+  const password = process.env.FIREBASE_SERVER_PASSWORD;
+
+  if (!email || !password) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('FIREBASE_SERVER_EMAIL and FIREBASE_SERVER_PASSWORD must be set');
+    }
+    console.warn('FIREBASE_SERVER_EMAIL is not set; server-side Firestore access is unauthenticated');
+    return;
+  }
+
+  const auth = getAuth(getServerApp());
+
+  const authEmulatorHost = process.env.FIREBASE_AUTH_EMULATOR_HOST;
+  if (authEmulatorHost && process.env.NODE_ENV !== 'production') {
+    connectAuthEmulator(auth, `http://${authEmulatorHost}`, { disableWarnings: true });
+  }
+
+  await signInWithEmailAndPassword(auth, email, password);
+}
+
+// Firestore instance for use in API routes and other server-side code, signed in as the
+// server account. The SDK refreshes the account's ID token as it expires.
+export async function getServerDb(): Promise<Firestore> {
+  if (!serverSignIn) {
+    serverSignIn = signInServer().catch(error => {
+      // Try again on the next call rather than failing every request from now on
+      serverSignIn = null;
+      throw error;
+    });
+  }
+  await serverSignIn;
+
+  if (!serverDb) {
+    serverDb = getFirestore(getServerApp());
+
+    // Point at the Firestore emulator, e.g. when testing against the Auth emulator
+    const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+    if (emulatorHost && process.env.NODE_ENV !== 'production') {
+      const [host, port] = emulatorHost.split(':');
+      connectFirestoreEmulator(serverDb, host, parseInt(port || '8080', 10));
+    }
+  }
+  return serverDb;
+}
@@ -11,6 +11,8 @@ import {
   Timestamp 
 } from 'firebase/firestore';
 import { db, isFirebaseConfigured } from './firebase';
+import { CancellationPolicy, DepositRule } from '@/types/deposit';
+import { AvailabilitySettings } from '@/types/booking';
 
 // Category interface - using base64 images instead of Storage URLs
 export interface Category {
@@ -190,6 +192,8 @@ export interface Service {
   description: string;
   isActive: boolean;
   imageBase64?: string;
+  // Deposit taken when this service is booked; overrides the branch rule. Null once removed.
+  deposit?: DepositRule | null;
   createdAt?: Timestamp;
   updatedAt?: Timestamp;
 }
@@ -322,6 +326,14 @@ export interface Branch {
   imageBase64?: string;
   city: string;
   country: string;
+  // Registered seller details printed on VAT invoices for this branch
+  legalName?: string;
+  vatNumber?: string;
+  // Deposit for services without their own rule, and the refund and fee terms for cancellations
+  deposit?: DepositRule | null;
+  cancellationPolicy?: CancellationPolicy;
+  // Slot length, buffer and staff capacity for online booking
+  availability?: AvailabilitySettings;
   createdAt?: Timestamp;
   updatedAt?: Timestamp;
 }
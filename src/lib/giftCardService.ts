@@ -0,0 +1,405 @@
+import crypto from 'crypto';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  runTransaction,
+  updateDoc,
+  Timestamp,
+  DocumentData,
+  Firestore,
+  Transaction
+} from 'firebase/firestore';
+import { getServerDb } from './firebaseServer';
+import { addMoney, formatMoney, subtractMoney } from './money';
+import { getPaymentLink } from './paymentLinks';
+import { GiftCard, GiftCardTransaction, GiftCardTransactionType } from '@/types/giftCard';
+import { Money } from '@/types/payment';
+
+const GIFT_CARDS_COLLECTION = 'giftCards';
+const GIFT_CARD_TRANSACTIONS_COLLECTION = 'giftCardTransactions';
+
+// Without 0/O and 1/I, which are easily confused when read out at the counter
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 16;
+
+export interface IssueGiftCardInput {
+  amount: number;
+  currency: string;
+  expires_at: Date;
+  customer_id?: string;
+  recipient_name?: string;
+  message?: string;
+  sale_link_id?: string;
+  issued_by: string;
+}
+
+export interface GiftCardRedemptionResult {
+  transaction: GiftCardTransaction | null;
+  error: string | null;
+}
+
+// Codes are entered with or without dashes and in any case
+export const normalizeGiftCardCode = (code: string): string => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Format a code for display, e.g. ABCD-EFGH-JKLM-NPQR
+const formatCode = (id: string): string => id.match(/.{1,4}/g)?.join('-') || id;
+
+const generateCode = (): string => {
+  const bytes = crypto.randomBytes(CODE_LENGTH);
+  return Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+};
+
+// Convert a Firestore document into a GiftCard
+const toGiftCard = (id: string, data: DocumentData): GiftCard => ({
+  ...data,
+  id,
+  code: formatCode(id),
+  expires_at: data.expires_at?.toDate() || new Date(),
+  activated_at: data.activated_at?.toDate(),
+  created_at: data.created_at?.toDate() || new Date(),
+  updated_at: data.updated_at?.toDate() || new Date(),
+} as GiftCard);
+
+// Convert a Firestore document into a GiftCardTransaction
+const toGiftCardTransaction = (id: string, data: DocumentData): GiftCardTransaction => ({
+  ...data,
+  id,
+  created_at: data.created_at?.toDate() || new Date(),
+} as GiftCardTransaction);
+
+// Add a transaction to the card's history as part of a Firestore transaction
+const writeTransaction = (
+  db: Firestore,
+  transaction: Transaction,
+  type: GiftCardTransactionType,
+  fields: Omit<GiftCardTransaction, 'id' | 'type' | 'created_at'>
+): GiftCardTransaction => {
+  const ref = doc(collection(db, GIFT_CARD_TRANSACTIONS_COLLECTION));
+  // Firestore rejects undefined fields
+  const data: DocumentData = { ...JSON.parse(JSON.stringify(fields)), type, created_at: Timestamp.now() };
+  transaction.set(ref, data);
+  return toGiftCardTransaction(ref.id, data);
+};
+
+// Why a card cannot be redeemed right now, or null if it can
+const getUnusableReason = (data: DocumentData, now: Timestamp): string | null => {
+  if (data.status === 'pending') {
+    return 'This gift card has not been paid for yet';
+  }
+  if (data.status === 'disabled') {
+    return 'This gift card has been disabled';
+  }
+  if (data.status === 'expired' || data.expires_at.toMillis() < now.toMillis()) {
+    return 'This gift card has expired';
+  }
+  return null;
+};
+
+// Bring a stored card up to date: sold cards become active once their payment link is paid,
+// and cards expire. Both are persisted so the history shows when they happened.
+const resolveGiftCard = async (card: GiftCard): Promise<GiftCard> => {
+  const cardRef = doc(await getServerDb(), GIFT_CARDS_COLLECTION, card.id);
+
+  if (card.status === 'pending' && card.sale_link_id) {
+    const link = await getPaymentLink(card.sale_link_id);
+
+    if (link?.status === 'paid') {
+      return await activateSoldGiftCard(card.id);
+    }
+
+    if (!link || link.status === 'revoked' || link.status === 'expired') {
+      await updateDoc(cardRef, { status: 'disabled', updated_at: Timestamp.now() });
+      return { ...card, status: 'disabled' };
+    }
+  }
+
+  if ((card.status === 'active' || card.status === 'depleted') && card.expires_at < new Date()) {
+    await updateDoc(cardRef, { status: 'expired', updated_at: Timestamp.now() });
+    return { ...card, status: 'expired' };
+  }
+
+  return card;
+};
+
+// Activate a sold card and record the balance it was issued with
+const activateSoldGiftCard = async (cardId: string): Promise<GiftCard> => {
+  const db = await getServerDb();
+  const cardRef = doc(db, GIFT_CARDS_COLLECTION, cardId);
+
+  return await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(cardRef);
+    const data = snapshot.data() as DocumentData;
+    if (data.status !== 'pending') {
+      return toGiftCard(cardId, data);
+    }
+
+    const now = Timestamp.now();
+    const update = { status: 'active', activated_at: now, updated_at: now };
+    transaction.update(cardRef, update);
+    writeTransaction(db, transaction, 'issue', {
+      gift_card_id: cardId,
+      amount: data.initial_amount,
+      currency: data.currency,
+      balance_after: data.balance,
+      created_by: data.issued_by,
+    });
+    return toGiftCard(cardId, { ...data, ...update });
+  });
+};
+
+// Issue a card. Cards sold through a payment link start out pending and only get
+// their issue transaction once the link is paid.
+export const issueGiftCard = async (input: IssueGiftCardInput): Promise<GiftCard> => {
+  try {
+    const db = await getServerDb();
+    const id = generateCode();
+    const cardRef = doc(db, GIFT_CARDS_COLLECTION, id);
+    const now = Timestamp.now();
+    const currency = input.currency.toUpperCase();
+
+    const data: DocumentData = JSON.parse(JSON.stringify({
+      status: input.sale_link_id ? 'pending' : 'active',
+      currency,
+      initial_amount: input.amount,
+      balance: input.amount,
+      customer_id: input.customer_id,
+      recipient_name: input.recipient_name,
+      message: input.message,
+      sale_link_id: input.sale_link_id,
+      issued_by: input.issued_by,
+    }));
+    Object.assign(data, {
+      expires_at: Timestamp.fromDate(input.expires_at),
+      ...(input.sale_link_id ? {} : { activated_at: now }),
+      created_at: now,
+      updated_at: now,
+    });
+
+    await runTransaction(db, async (transaction) => {
+      const existing = await transaction.get(cardRef);
+      if (existing.exists()) {
+        throw new Error('Gift card code collision, please try again');
+      }
+
+      transaction.set(cardRef, data);
+      if (!input.sale_link_id) {
+        writeTransaction(db, transaction, 'issue', {
+          gift_card_id: id,
+          amount: input.amount,
+          currency,
+          balance_after: input.amount,
+          created_by: input.issued_by,
+        });
+      }
+    });
+
+    return toGiftCard(id, data);
+  } catch (error) {
+    console.error('Error issuing gift card:', error);
+    throw error;
+  }
+};
+
+// Look up a card by its code
+export const getGiftCard = async (code: string): Promise<GiftCard | null> => {
+  try {
+    const id = normalizeGiftCardCode(code);
+    if (!id) {
+      return null;
+    }
+
+    const snapshot = await getDoc(doc(await getServerDb(), GIFT_CARDS_COLLECTION, id));
+    return snapshot.exists() ? await resolveGiftCard(toGiftCard(snapshot.id, snapshot.data())) : null;
+  } catch (error) {
+    console.error('Error getting gift card:', error);
+    throw error;
+  }
+};
+
+// List cards, optionally only those belonging to a customer, newest first
+export const listGiftCards = async (customerId?: string): Promise<GiftCard[]> => {
+  try {
+    const cardsRef = collection(await getServerDb(), GIFT_CARDS_COLLECTION);
+    const q = customerId ? query(cardsRef, where('customer_id', '==', customerId)) : cardsRef;
+    const querySnapshot = await getDocs(q);
+    const cards = await Promise.all(
+      querySnapshot.docs.map(cardDoc => resolveGiftCard(toGiftCard(cardDoc.id, cardDoc.data())))
+    );
+    return cards.sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+  } catch (error) {
+    console.error('Error listing gift cards:', error);
+    throw error;
+  }
+};
+
+// Get a card's transaction history, oldest first
+export const listGiftCardTransactions = async (code: string): Promise<GiftCardTransaction[]> => {
+  try {
+    const q = query(
+      collection(await getServerDb(), GIFT_CARD_TRANSACTIONS_COLLECTION),
+      where('gift_card_id', '==', normalizeGiftCardCode(code))
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(transactionDoc => toGiftCardTransaction(transactionDoc.id, transactionDoc.data()))
+      .sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+  } catch (error) {
+    console.error('Error listing gift card transactions:', error);
+    throw error;
+  }
+};
+
+// Get a single transaction, e.g. the redemption behind a gift card payment
+export const getGiftCardTransaction = async (transactionId: string): Promise<GiftCardTransaction | null> => {
+  try {
+    const snapshot = await getDoc(doc(await getServerDb(), GIFT_CARD_TRANSACTIONS_COLLECTION, transactionId));
+    return snapshot.exists() ? toGiftCardTransaction(snapshot.id, snapshot.data()) : null;
+  } catch (error) {
+    console.error('Error getting gift card transaction:', error);
+    throw error;
+  }
+};
+
+// Take an amount off a card's balance for an order. The rest of the balance stays on
+// the card for later visits.
+export const redeemGiftCard = async (code: string, amount: Money, orderId: string): Promise<GiftCardRedemptionResult> => {
+  try {
+    // Brings sold and expired cards up to date first
+    const card = await getGiftCard(code);
+    if (!card) {
+      return { transaction: null, error: 'Gift card not found' };
+    }
+
+    const db = await getServerDb();
+    const cardRef = doc(db, GIFT_CARDS_COLLECTION, card.id);
+
+    return await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(cardRef);
+      const data = snapshot.data() as DocumentData;
+      const now = Timestamp.now();
+
+      const unusable = getUnusableReason(data, now);
+      if (unusable) {
+        return { transaction: null, error: unusable };
+      }
+
+      if (data.currency !== amount.currency.toUpperCase()) {
+        return { transaction: null, error: `This gift card can only be used for ${data.currency} payments` };
+      }
+
+      const balance = subtractMoney({ amount: data.balance, currency: data.currency }, amount);
+      if (balance.amount < 0) {
+        return {
+          transaction: null,
+          error: `Insufficient gift card balance (${formatMoney({ amount: data.balance, currency: data.currency })})`,
+        };
+      }
+
+      transaction.update(cardRef, {
+        balance: balance.amount,
+        status: balance.amount === 0 ? 'depleted' : 'active',
+        updated_at: now,
+      });
+
+      const redemption = writeTransaction(db, transaction, 'redemption', {
+        gift_card_id: card.id,
+        amount: amount.amount,
+        currency: data.currency,
+        balance_after: balance.amount,
+        order_id: orderId,
+        refunded_amount: 0,
+      });
+
+      return { transaction: redemption, error: null };
+    });
+  } catch (error) {
+    console.error('Error redeeming gift card:', error);
+    throw error;
+  }
+};
+
+// Put (part of) a redemption back on the card. Refunds always go back to the card,
+// even if it has expired or been disabled since; an admin can re-enable it.
+export const refundGiftCardRedemption = async (redemptionId: string, amount?: Money): Promise<GiftCardTransaction> => {
+  try {
+    const db = await getServerDb();
+    const redemptionRef = doc(db, GIFT_CARD_TRANSACTIONS_COLLECTION, redemptionId);
+
+    return await runTransaction(db, async (transaction) => {
+      const redemptionSnapshot = await transaction.get(redemptionRef);
+      if (!redemptionSnapshot.exists() || redemptionSnapshot.data().type !== 'redemption') {
+        throw new Error(`Gift card redemption ${redemptionId} not found`);
+      }
+
+      const redemption = toGiftCardTransaction(redemptionSnapshot.id, redemptionSnapshot.data());
+      const cardRef = doc(db, GIFT_CARDS_COLLECTION, redemption.gift_card_id);
+      const cardSnapshot = await transaction.get(cardRef);
+      const card = cardSnapshot.data() as DocumentData;
+
+      const currency = redemption.currency;
+      const refundable = subtractMoney(
+        { amount: redemption.amount, currency },
+        { amount: redemption.refunded_amount || 0, currency }
+      );
+      const refund = amount || refundable;
+      if (refund.amount <= 0 || refund.amount > refundable.amount) {
+        throw new Error(`Refund amount must be between 0 and ${formatMoney(refundable)}`);
+      }
+
+      const balance = addMoney({ amount: card.balance, currency }, refund);
+      const now = Timestamp.now();
+
+      transaction.update(redemptionRef, {
+        refunded_amount: addMoney({ amount: redemption.refunded_amount || 0, currency }, refund).amount,
+      });
+      transaction.update(cardRef, {
+        balance: balance.amount,
+        ...(card.status === 'depleted' ? { status: 'active' } : {}),
+        updated_at: now,
+      });
+
+      return writeTransaction(db, transaction, 'refund', {
+        gift_card_id: redemption.gift_card_id,
+        amount: refund.amount,
+        currency,
+        balance_after: balance.amount,
+        order_id: redemption.order_id,
+        redemption_id: redemption.id,
+      });
+    });
+  } catch (error) {
+    console.error('Error refunding gift card redemption:', error);
+    throw error;
+  }
+};
+
+// Disable or re-enable a card, e.g. when it is reported lost. Returns null if it does not exist.
+export const setGiftCardDisabled = async (code: string, disabled: boolean, by: string): Promise<GiftCard | null> => {
+  try {
+    const card = await getGiftCard(code);
+    if (!card) {
+      return null;
+    }
+
+    if (!disabled && card.status !== 'disabled') {
+      return card;
+    }
+
+    // Sold cards that were never paid for go back to waiting for their payment
+    const enabledStatus = !card.activated_at ? 'pending' : card.balance > 0 ? 'active' : 'depleted';
+    const update: DocumentData = disabled
+      ? { status: 'disabled', disabled_by: by, updated_at: Timestamp.now() }
+      : { status: enabledStatus, updated_at: Timestamp.now() };
+
+    await updateDoc(doc(await getServerDb(), GIFT_CARDS_COLLECTION, card.id), update);
+    // Re-enabled cards may have been paid for or expired in the meantime
+    return await resolveGiftCard({ ...card, status: update.status, updated_at: new Date() });
+  } catch (error) {
+    console.error('Error updating gift card:', error);
+    throw error;
+  }
+};
@@ -14,8 +14,8 @@ export interface ImportResult {
   }>;
 }
 
-// Parse Excel/CSV file and extract customer data
-export const parseCustomerFile = async (file: File): Promise<CustomerFormData[]> => {
+// Read the first sheet of an Excel/CSV file as rows of cell values, header row first
+export const readSpreadsheetRows = async (file: File): Promise<unknown[][]> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     
@@ -34,10 +34,7 @@ export const parseCustomerFile = async (file: File): Promise<CustomerFormData[]>
         
         const sheetName = workbook.SheetNames[0];
         const worksheet = workbook.Sheets[sheetName];
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-        
-        const customers = parseCustomerData(jsonData as unknown[][]);
-        resolve(customers);
+        resolve(XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as unknown[][]);
       } catch {
         reject(new Error('Failed to parse file'));
       }
@@ -53,6 +50,12 @@ export const parseCustomerFile = async (file: File): Promise<CustomerFormData[]>
   });
 };
 
+// Parse Excel/CSV file and extract customer data
+export const parseCustomerFile = async (file: File): Promise<CustomerFormData[]> => {
+  const rows = await readSpreadsheetRows(file);
+  return parseCustomerData(rows);
+};
+
 // Parse raw data into CustomerFormData format
 const parseCustomerData = (data: unknown[][]): CustomerFormData[] => {
   if (data.length === 0) return [];
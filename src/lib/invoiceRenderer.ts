@@ -0,0 +1,219 @@
+import QRCode from 'qrcode';
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import { toDecimalString } from './money';
+import { Invoice } from '@/types/invoice';
+
+// Document titles in English and Arabic. Saudi invoices to consumers are simplified tax invoices.
+const getTitles = (invoice: Invoice): { en: string; ar: string } => {
+  if (invoice.type === 'credit_note') {
+    return { en: 'Credit Note', ar: 'إشعار دائن' };
+  }
+  return invoice.country === 'SA'
+    ? { en: 'Simplified Tax Invoice', ar: 'فاتورة ضريبية مبسطة' }
+    : { en: 'Tax Invoice', ar: 'فاتورة ضريبية' };
+};
+
+const formatAmount = (invoice: Invoice, amount: number): string =>
+  `${toDecimalString({ amount, currency: invoice.currency })} ${invoice.currency}`;
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Render as a printable, bilingual HTML page
+export const renderInvoiceHtml = async (invoice: Invoice): Promise<string> => {
+  const titles = getTitles(invoice);
+  const qrSvg = invoice.zatca_qr
+    ? await QRCode.toString(invoice.zatca_qr, { type: 'svg', errorCorrectionLevel: 'M', margin: 0 })
+    : '';
+
+  const rows = invoice.lines.map(line => `
+        <tr>
+          <td>${escapeHtml(line.description)}</td>
+          <td class="num">${line.quantity}</td>
+          <td class="num">${formatAmount(invoice, line.unit_price)}</td>
+          <td class="num">${formatAmount(invoice, line.net_amount)}</td>
+          <td class="num">${formatAmount(invoice, line.vat_amount)}</td>
+          <td class="num">${formatAmount(invoice, line.total)}</td>
+        </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(`${titles.en} ${invoice.number}`)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; color: #111827; margin: 40px; font-size: 13px; }
+    h1 { font-size: 22px; margin: 0; }
+    .ar { direction: rtl; font-size: 18px; color: #4b5563; }
+    .header { display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 24px; }
+    .meta td { padding: 2px 12px 2px 0; }
+    table.lines { width: 100%; border-collapse: collapse; margin-top: 24px; }
+    table.lines th, table.lines td { border-bottom: 1px solid #e5e7eb; padding: 8px 4px; text-align: left; }
+    table.lines .num { text-align: right; white-space: nowrap; }
+    .totals { margin-left: auto; margin-top: 16px; }
+    .totals td { padding: 4px 0 4px 24px; text-align: right; }
+    .totals tr:last-child td { font-weight: bold; border-top: 1px solid #111827; }
+    .qr svg { width: 140px; height: 140px; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>${titles.en}</h1>
+      <div class="ar">${titles.ar}</div>
+    </div>
+    ${qrSvg ? `<div class="qr">${qrSvg}</div>` : ''}
+  </div>
+
+  <table class="meta">
+    <tr><td>Number / الرقم</td><td>${escapeHtml(invoice.number)}</td></tr>
+    <tr><td>Date / التاريخ</td><td>${invoice.issued_at.toISOString().replace('T', ' ').slice(0, 19)} UTC</td></tr>
+    ${invoice.original_invoice_number ? `<tr><td>Original invoice / الفاتورة الأصلية</td><td>${escapeHtml(invoice.original_invoice_number)}</td></tr>` : ''}
+    ${invoice.reason ? `<tr><td>Reason / السبب</td><td>${escapeHtml(invoice.reason)}</td></tr>` : ''}
+    <tr><td>Seller / البائع</td><td>${escapeHtml(invoice.seller.name)}</td></tr>
+    <tr><td>Address / العنوان</td><td>${escapeHtml(invoice.seller.address)}</td></tr>
+    <tr><td>VAT number / الرقم الضريبي</td><td>${escapeHtml(invoice.seller.vat_number)}</td></tr>
+    ${invoice.buyer?.name ? `<tr><td>Customer / العميل</td><td>${escapeHtml(invoice.buyer.name)}</td></tr>` : ''}
+    <tr><td>Order / الطلب</td><td>${escapeHtml(invoice.order_id)}</td></tr>
+  </table>
+
+  <table class="lines">
+    <thead>
+      <tr>
+        <th>Description / الوصف</th>
+        <th class="num">Qty / الكمية</th>
+        <th class="num">Unit price / سعر الوحدة</th>
+        <th class="num">Net / الصافي</th>
+        <th class="num">VAT ${invoice.vat_rate}% / الضريبة</th>
+        <th class="num">Total / الإجمالي</th>
+      </tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+
+  <table class="totals">
+    <tr><td>Total excluding VAT / الإجمالي غير شامل الضريبة</td><td>${formatAmount(invoice, invoice.subtotal)}</td></tr>
+    <tr><td>VAT ${invoice.vat_rate}% / ضريبة القيمة المضافة</td><td>${formatAmount(invoice, invoice.vat_amount)}</td></tr>
+    <tr><td>Total including VAT / الإجمالي شامل الضريبة</td><td>${formatAmount(invoice, invoice.total)}</td></tr>
+  </table>
+</body>
+</html>`;
+};
+
+// The standard PDF fonts only cover Latin text, so the PDF is English only and other
+// characters (e.g. Arabic seller names) are replaced. The HTML version is bilingual.
+const toWinAnsi = (value: string): string => value.replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+
+const drawQrCode = (page: PDFPage, text: string, x: number, y: number, size: number) => {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  const cell = size / modules.size;
+
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (modules.get(row, col)) {
+        page.drawRectangle({
+          x: x + col * cell,
+          y: y + size - (row + 1) * cell,
+          width: cell,
+          height: cell,
+          color: rgb(0, 0, 0),
+        });
+      }
+    }
+  }
+};
+
+// Render as an A4 PDF
+export const renderInvoicePdf = async (invoice: Invoice): Promise<Uint8Array> => {
+  const pdf = await PDFDocument.create();
+  const page = pdf.addPage([595.28, 841.89]);
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const titles = getTitles(invoice);
+  const margin = 50;
+  let y = 790;
+
+  pdf.setTitle(`${titles.en} ${invoice.number}`);
+
+  const text = (value: string, x: number, options: { size?: number; font?: PDFFont; alignRight?: boolean } = {}) => {
+    const size = options.size || 10;
+    const textFont = options.font || font;
+    const safe = toWinAnsi(value);
+    const width = options.alignRight ? textFont.widthOfTextAtSize(safe, size) : 0;
+    page.drawText(safe, { x: x - width, y, size, font: textFont });
+  };
+
+  text(titles.en, margin, { size: 20, font: bold });
+  if (invoice.zatca_qr) {
+    drawQrCode(page, invoice.zatca_qr, 595.28 - margin - 110, y - 90, 110);
+  }
+  y -= 36;
+
+  const meta: Array<[string, string | undefined]> = [
+    ['Number', invoice.number],
+    ['Date', `${invoice.issued_at.toISOString().replace('T', ' ').slice(0, 19)} UTC`],
+    ['Original invoice', invoice.original_invoice_number],
+    ['Reason', invoice.reason],
+    ['Seller', invoice.seller.name],
+    ['Address', invoice.seller.address],
+    ['VAT number', invoice.seller.vat_number],
+    ['Customer', invoice.buyer?.name],
+    ['Order', invoice.order_id],
+  ];
+
+  for (const [label, value] of meta) {
+    if (!value) {
+      continue;
+    }
+    text(label, margin, { font: bold });
+    text(value, margin + 100);
+    y -= 16;
+  }
+
+  y -= 24;
+  const columns = [
+    { label: 'Description', x: margin },
+    { label: 'Qty', x: 290, alignRight: true },
+    { label: 'Unit price', x: 365, alignRight: true },
+    { label: 'Net', x: 430, alignRight: true },
+    { label: `VAT ${invoice.vat_rate}%`, x: 490, alignRight: true },
+    { label: 'Total', x: 545, alignRight: true },
+  ];
+
+  columns.forEach(column => text(column.label, column.x, { font: bold, alignRight: column.alignRight }));
+  y -= 6;
+  page.drawLine({ start: { x: margin, y }, end: { x: 545, y }, thickness: 0.5, color: rgb(0.6, 0.6, 0.6) });
+  y -= 14;
+
+  for (const line of invoice.lines) {
+    const amounts = [line.unit_price, line.net_amount, line.vat_amount, line.total]
+      .map(amount => toDecimalString({ amount, currency: invoice.currency }));
+    text(line.description.slice(0, 40), margin);
+    text(String(line.quantity), columns[1].x, { alignRight: true });
+    amounts.forEach((amount, index) => text(amount, columns[index + 2].x, { alignRight: true }));
+    y -= 16;
+  }
+
+  y -= 16;
+  const totals: Array<[string, number]> = [
+    ['Total excluding VAT', invoice.subtotal],
+    [`VAT ${invoice.vat_rate}%`, invoice.vat_amount],
+    ['Total including VAT', invoice.total],
+  ];
+
+  totals.forEach(([label, amount], index) => {
+    const isLast = index === totals.length - 1;
+    text(label, 400, { font: isLast ? bold : font, alignRight: true });
+    text(formatAmount(invoice, amount), 545, { font: isLast ? bold : font, alignRight: true });
+    y -= 16;
+  });
+
+  return await pdf.save();
+};
@@ -0,0 +1,365 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  limit,
+  runTransaction,
+  Timestamp,
+  DocumentData,
+  DocumentReference,
+  Transaction
+} from 'firebase/firestore';
+import { getServerDb } from './firebaseServer';
+import { addMoney, createMoney, roundAmount, subtractMoney, toDecimalString } from './money';
+import { getPaymentProvider } from './paymentProviders';
+import { getTaxCountry, splitVatInclusive, VAT_RATES } from './tax';
+import { encodeZatcaQr } from './zatcaQr';
+import { Money, PaymentRecord } from '@/types/payment';
+import {
+  Invoice,
+  InvoiceBuyer,
+  InvoiceLine,
+  InvoiceSeller,
+  InvoiceType,
+  TaxCountry
+} from '@/types/invoice';
+
+const INVOICES_COLLECTION = 'invoices';
+const INVOICE_COUNTERS_COLLECTION = 'invoiceCounters';
+
+const NUMBER_PREFIXES: Record<InvoiceType, string> = {
+  invoice: 'INV',
+  credit_note: 'CN',
+};
+
+export interface InvoiceSyncResult {
+  issued: Invoice[];
+  // Why no invoice could be issued, e.g. the branch has no VAT number
+  error: string | null;
+}
+
+interface LineItem {
+  description: string;
+  quantity: number;
+  unit_price: number;
+}
+
+// Convert a Firestore document into an Invoice
+const toInvoice = (id: string, data: DocumentData): Invoice => ({
+  ...data,
+  id,
+  issued_at: data.issued_at?.toDate() || new Date(),
+} as Invoice);
+
+// The tax invoice of a payment is keyed by its order ID, so it is only ever issued once
+const getInvoiceId = (orderId: string): string => `inv_${orderId}`;
+
+// Look up the seller details of the branch the payment was taken at. Payments store the
+// branch name, but an ID is accepted too.
+const getSeller = async (branch?: string): Promise<{ seller: InvoiceSeller | null; country: TaxCountry | null; error: string | null }> => {
+  if (!branch) {
+    return { seller: null, country: null, error: 'The payment has no branch to invoice from' };
+  }
+
+  const db = await getServerDb();
+  const byName = await getDocs(query(collection(db, 'branches'), where('name', '==', branch), limit(1)));
+  const branchDoc = byName.docs[0] || await getDoc(doc(db, 'branches', branch));
+  if (!branchDoc.exists()) {
+    return { seller: null, country: null, error: `Branch ${branch} was not found` };
+  }
+
+  const data = branchDoc.data();
+  const country = getTaxCountry(data.country);
+  if (!country) {
+    return { seller: null, country: null, error: `Tax invoices are not issued for branches in ${data.country || 'an unknown country'}` };
+  }
+
+  if (!data.vatNumber) {
+    return { seller: null, country: null, error: `Branch ${data.name} has no VAT number` };
+  }
+
+  return {
+    seller: {
+      name: data.legalName || data.name,
+      vat_number: data.vatNumber,
+      address: [data.address, data.city].filter(Boolean).join(', '),
+      branch: data.name,
+    },
+    country,
+    error: null,
+  };
+};
+
+// Itemize the invoice from the booking's services when they add up to what was paid;
+// otherwise (deposits, partial captures, links without a booking) use a single line
+const getLineItems = async (payment: PaymentRecord, total: Money): Promise<{ items: LineItem[]; buyer?: InvoiceBuyer }> => {
+  const bookingId = payment.metadata?.booking_id ? String(payment.metadata.booking_id) : undefined;
+  const fallback: LineItem[] = [{
+    description: bookingId ? `Salon services, booking ${bookingId}` : 'Salon services',
+    quantity: 1,
+    unit_price: total.amount,
+  }];
+
+  if (!bookingId) {
+    return { items: fallback };
+  }
+
+  const bookingDoc = await getDoc(doc(await getServerDb(), 'bookings', bookingId));
+  if (!bookingDoc.exists()) {
+    return { items: fallback };
+  }
+
+  const booking = bookingDoc.data();
+  const buyer: InvoiceBuyer | undefined = booking.customerName ? { name: booking.customerName } : undefined;
+  const services: LineItem[] = (booking.services || []).map((service: DocumentData) => ({
+    description: service.serviceName,
+    quantity: Number(service.quantity) || 1,
+    unit_price: Number(service.price) || 0,
+  }));
+
+  const servicesTotal = services.reduce(
+    (sum, item) => addMoney(sum, { amount: item.unit_price * item.quantity, currency: total.currency }),
+    { amount: 0, currency: total.currency }
+  );
+
+  return {
+    items: services.length > 0 && servicesTotal.amount === total.amount ? services : fallback,
+    buyer,
+  };
+};
+
+// Split VAT-inclusive line items into net and VAT amounts, and total them up
+const buildLines = (items: LineItem[], currency: string, vatRate: number) => {
+  const zero: Money = { amount: 0, currency };
+  let subtotal = zero;
+  let vatAmount = zero;
+
+  const lines: InvoiceLine[] = items.map(item => {
+    const gross: Money = { amount: roundAmount(item.unit_price * item.quantity, currency), currency };
+    const { net, vat } = splitVatInclusive(gross, vatRate);
+    subtotal = addMoney(subtotal, net);
+    vatAmount = addMoney(vatAmount, vat);
+    return {
+      description: item.description,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      net_amount: net.amount,
+      vat_amount: vat.amount,
+      total: gross.amount,
+    };
+  });
+
+  return { lines, subtotal: subtotal.amount, vat_amount: vatAmount.amount, total: addMoney(subtotal, vatAmount).amount };
+};
+
+// Take the next number of a document series. Numbers are sequential without gaps per
+// country and document type, which assumes one VAT registration per country.
+const takeNextNumber = async (transaction: Transaction, country: TaxCountry, type: InvoiceType) => {
+  const counterRef = doc(await getServerDb(), INVOICE_COUNTERS_COLLECTION, `${country}_${type}`);
+  const counter = await transaction.get(counterRef);
+  const next = (counter.exists() ? counter.data().last : 0) + 1;
+  return {
+    number: `${NUMBER_PREFIXES[type]}-${country}-${String(next).padStart(6, '0')}`,
+    commit: () => transaction.set(counterRef, { last: next, updated_at: Timestamp.now() }),
+  };
+};
+
+// Store a document, with the ZATCA QR payload for Saudi invoices
+const writeInvoice = (transaction: Transaction, invoiceRef: DocumentReference, invoice: Omit<Invoice, 'id' | 'issued_at' | 'zatca_qr'>): Invoice => {
+  const issuedAt = Timestamp.now();
+  // Firestore rejects undefined fields
+  const data: DocumentData = { ...JSON.parse(JSON.stringify(invoice)), issued_at: issuedAt };
+
+  if (invoice.country === 'SA') {
+    data.zatca_qr = encodeZatcaQr({
+      sellerName: invoice.seller.name,
+      vatNumber: invoice.seller.vat_number,
+      timestamp: issuedAt.toDate(),
+      total: toDecimalString({ amount: invoice.total, currency: invoice.currency }),
+      vatTotal: toDecimalString({ amount: invoice.vat_amount, currency: invoice.currency }),
+    });
+  }
+
+  transaction.set(invoiceRef, data);
+  return toInvoice(invoiceRef.id, data);
+};
+
+// Amount the customer was actually charged. BNPL orders are only invoiced once captured.
+const getInvoiceableAmount = (payment: PaymentRecord): number => {
+  if (payment.metadata?.amount_captured !== undefined) {
+    return Number(payment.metadata.amount_captured);
+  }
+  return getPaymentProvider(payment.provider)?.requiresCapture ? 0 : payment.amount;
+};
+
+// Issue the tax invoice of a completed payment, if it has none yet
+const issueInvoice = async (payment: PaymentRecord): Promise<{ invoice: Invoice | null; issued: boolean; error: string | null }> => {
+  const db = await getServerDb();
+  const invoiceRef = doc(db, INVOICES_COLLECTION, getInvoiceId(payment.order_id));
+  const existing = await getDoc(invoiceRef);
+  if (existing.exists()) {
+    return { invoice: toInvoice(existing.id, existing.data()), issued: false, error: null };
+  }
+
+  const amount = getInvoiceableAmount(payment);
+  if (amount <= 0) {
+    return { invoice: null, issued: false, error: null };
+  }
+
+  const { seller, country, error } = await getSeller(payment.branch);
+  if (!seller || !country) {
+    return { invoice: null, issued: false, error };
+  }
+
+  const total = createMoney(amount, payment.currency);
+  const { items, buyer } = await getLineItems(payment, total);
+  const vatRate = VAT_RATES[country];
+
+  return await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(invoiceRef);
+    if (snapshot.exists()) {
+      return { invoice: toInvoice(snapshot.id, snapshot.data()), issued: false, error: null };
+    }
+
+    const { number, commit } = await takeNextNumber(transaction, country, 'invoice');
+    commit();
+
+    const invoice = writeInvoice(transaction, invoiceRef, {
+      number,
+      type: 'invoice',
+      country,
+      currency: total.currency,
+      order_id: payment.order_id,
+      provider: payment.provider,
+      provider_payment_id: payment.provider_payment_id,
+      booking_id: payment.metadata?.booking_id ? String(payment.metadata.booking_id) : undefined,
+      seller,
+      buyer,
+      vat_rate: vatRate,
+      ...buildLines(items, total.currency, vatRate),
+      credited_amount: 0,
+    });
+
+    return { invoice, issued: true, error: null };
+  });
+};
+
+// Issue a credit note for whatever has been refunded since the last one
+const issueCreditNote = async (payment: PaymentRecord, invoiceId: string): Promise<Invoice | null> => {
+  const db = await getServerDb();
+  const invoiceRef = doc(db, INVOICES_COLLECTION, invoiceId);
+  const captured = getInvoiceableAmount(payment);
+  const refunded = payment.metadata?.amount_refunded !== undefined
+    ? Number(payment.metadata.amount_refunded)
+    : payment.status === 'refunded' ? captured : 0;
+
+  return await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(invoiceRef);
+    if (!snapshot.exists()) {
+      return null;
+    }
+
+    const invoice = toInvoice(snapshot.id, snapshot.data());
+    const credit = subtractMoney(
+      { amount: Math.min(refunded, invoice.total), currency: invoice.currency },
+      { amount: invoice.credited_amount || 0, currency: invoice.currency }
+    );
+    if (credit.amount <= 0) {
+      return null;
+    }
+
+    const { number, commit } = await takeNextNumber(transaction, invoice.country, 'credit_note');
+    commit();
+
+    transaction.update(invoiceRef, {
+      credited_amount: addMoney({ amount: invoice.credited_amount || 0, currency: invoice.currency }, credit).amount,
+    });
+
+    return writeInvoice(transaction, doc(collection(db, INVOICES_COLLECTION)), {
+      number,
+      type: 'credit_note',
+      country: invoice.country,
+      currency: invoice.currency,
+      order_id: invoice.order_id,
+      provider: invoice.provider,
+      provider_payment_id: invoice.provider_payment_id,
+      booking_id: invoice.booking_id,
+      seller: invoice.seller,
+      buyer: invoice.buyer,
+      vat_rate: invoice.vat_rate,
+      ...buildLines([{
+        description: `Refund against invoice ${invoice.number}`,
+        quantity: 1,
+        unit_price: credit.amount,
+      }], invoice.currency, invoice.vat_rate),
+      original_invoice_id: invoice.id,
+      original_invoice_number: invoice.number,
+      reason: 'Refund',
+    });
+  });
+};
+
+// Bring a payment's tax documents up to date with the ledger: a tax invoice once it is
+// paid, and a credit note for each refund. Safe to call repeatedly.
+export const syncPaymentInvoices = async (payment: PaymentRecord): Promise<InvoiceSyncResult> => {
+  try {
+    if (payment.status !== 'completed' && payment.status !== 'refunded') {
+      return { issued: [], error: null };
+    }
+
+    // Gift cards are multi-purpose vouchers: what they will be spent on, and so the VAT due,
+    // is not known when they are sold. Saudi and UAE VAT is charged when a card is redeemed,
+    // so the sale gets no tax invoice and each redemption payment is invoiced instead.
+    if (payment.metadata?.gift_card_sale) {
+      return { issued: [], error: 'Gift card sales are not invoiced; VAT is invoiced when the card is redeemed' };
+    }
+
+    const issued: Invoice[] = [];
+    const result = await issueInvoice(payment);
+    if (!result.invoice) {
+      return { issued, error: result.error };
+    }
+
+    if (result.issued) {
+      issued.push(result.invoice);
+    }
+
+    const creditNote = await issueCreditNote(payment, result.invoice.id);
+    if (creditNote) {
+      issued.push(creditNote);
+    }
+
+    return { issued, error: null };
+  } catch (error) {
+    console.error('Error syncing payment invoices:', error);
+    throw error;
+  }
+};
+
+// Get an invoice or credit note by ID
+export const getInvoice = async (invoiceId: string): Promise<Invoice | null> => {
+  try {
+    const snapshot = await getDoc(doc(await getServerDb(), INVOICES_COLLECTION, invoiceId));
+    return snapshot.exists() ? toInvoice(snapshot.id, snapshot.data()) : null;
+  } catch (error) {
+    console.error('Error getting invoice:', error);
+    throw error;
+  }
+};
+
+// List the invoice and credit notes of an order, oldest first
+export const listInvoices = async (orderId: string): Promise<Invoice[]> => {
+  try {
+    const q = query(collection(await getServerDb(), INVOICES_COLLECTION), where('order_id', '==', orderId));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(invoiceDoc => toInvoice(invoiceDoc.id, invoiceDoc.data()))
+      .sort((a, b) => a.issued_at.getTime() - b.issued_at.getTime());
+  } catch (error) {
+    console.error('Error listing invoices:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,403 @@
+import Stripe from 'stripe';
+import { z } from 'zod';
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  updateDoc,
+  where,
+  Timestamp,
+  DocumentData
+} from 'firebase/firestore';
+import { getServerDb } from './firebaseServer';
+import { stripeService } from './stripeservice';
+import { MembershipTier } from '@/types/customer';
+import { Membership, MembershipIncludedService, MembershipPlan, MembershipStatus } from '@/types/membership';
+
+const MEMBERSHIP_PLANS_COLLECTION = 'membershipPlans';
+const MEMBERSHIPS_COLLECTION = 'memberships';
+const CUSTOMERS_COLLECTION = 'customers';
+
+// Lowest to highest
+const TIER_RANKS: MembershipTier[] = ['bronze', 'silver', 'gold', 'platinum'];
+
+// Trials count as active; unpaid and paused subscriptions keep their record but lose the benefits
+const SUBSCRIPTION_STATUSES: Record<Stripe.Subscription.Status, MembershipStatus> = {
+  incomplete: 'incomplete',
+  incomplete_expired: 'canceled',
+  trialing: 'active',
+  active: 'active',
+  past_due: 'past_due',
+  unpaid: 'suspended',
+  paused: 'suspended',
+  canceled: 'canceled',
+};
+
+// Memberships whose tier the customer holds
+const BENEFIT_STATUSES: MembershipStatus[] = ['active', 'past_due'];
+
+// Validates the services a plan includes in API requests
+export const includedServicesSchema = z.array(z.object({
+  service_id: z.string().min(1),
+  service_name: z.string().min(1).max(100),
+  quantity: z.number().int().min(1).max(100),
+})).max(20);
+
+export interface CreateMembershipPlanInput {
+  name: string;
+  tier: MembershipPlan['tier'];
+  monthly_price: number;
+  currency: string;
+  included_services: MembershipIncludedService[];
+  discount_percent: number;
+  created_by: string;
+}
+
+export type MembershipPlanUpdate = Partial<Pick<MembershipPlan, 'name' | 'included_services' | 'discount_percent' | 'active'>>;
+
+export interface MembershipSignupResult {
+  checkout_url: string | null;
+  error: string | null;
+  status: number;
+}
+
+// Convert a Firestore document into a MembershipPlan
+const toMembershipPlan = (id: string, data: DocumentData): MembershipPlan => ({
+  ...data,
+  id,
+  created_at: data.created_at?.toDate() || new Date(),
+  updated_at: data.updated_at?.toDate() || new Date(),
+} as MembershipPlan);
+
+// Convert a Firestore document into a Membership
+const toMembership = (id: string, data: DocumentData): Membership => ({
+  ...data,
+  id,
+  current_period_end: data.current_period_end?.toDate() || new Date(),
+  next_payment_attempt: data.next_payment_attempt?.toDate(),
+  started_at: data.started_at?.toDate() || new Date(),
+  canceled_at: data.canceled_at?.toDate(),
+  last_event_at: data.last_event_at?.toDate(),
+  updated_at: data.updated_at?.toDate() || new Date(),
+} as Membership);
+
+// Stripe timestamps are in seconds
+const fromUnixTime = (seconds: number): Timestamp => Timestamp.fromMillis(seconds * 1000);
+
+const getStripeId = (value: string | { id: string } | null): string | null =>
+  typeof value === 'string' ? value : value?.id || null;
+
+// List plans, cheapest first
+export const listMembershipPlans = async (activeOnly = false): Promise<MembershipPlan[]> => {
+  try {
+    const plansRef = collection(await getServerDb(), MEMBERSHIP_PLANS_COLLECTION);
+    const q = activeOnly ? query(plansRef, where('active', '==', true)) : plansRef;
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(planDoc => toMembershipPlan(planDoc.id, planDoc.data()))
+      .sort((a, b) => a.monthly_price - b.monthly_price);
+  } catch (error) {
+    console.error('Error listing membership plans:', error);
+    throw error;
+  }
+};
+
+export const getMembershipPlan = async (planId: string): Promise<MembershipPlan | null> => {
+  try {
+    const snapshot = await getDoc(doc(await getServerDb(), MEMBERSHIP_PLANS_COLLECTION, planId));
+    return snapshot.exists() ? toMembershipPlan(snapshot.id, snapshot.data()) : null;
+  } catch (error) {
+    console.error('Error getting membership plan:', error);
+    throw error;
+  }
+};
+
+// Create a plan together with the Stripe product and monthly price it is billed with
+export const createMembershipPlan = async (input: CreateMembershipPlanInput): Promise<MembershipPlan> => {
+  try {
+    const currency = input.currency.toUpperCase();
+    const { productId, priceId } = await stripeService.createMonthlyPrice(
+      `${input.name} membership`,
+      { amount: input.monthly_price, currency }
+    );
+
+    const now = Timestamp.now();
+    const data: DocumentData = {
+      ...JSON.parse(JSON.stringify(input)),
+      currency,
+      stripe_product_id: productId,
+      stripe_price_id: priceId,
+      active: true,
+      created_at: now,
+      updated_at: now,
+    };
+
+    const planRef = await addDoc(collection(await getServerDb(), MEMBERSHIP_PLANS_COLLECTION), data);
+    return toMembershipPlan(planRef.id, data);
+  } catch (error) {
+    console.error('Error creating membership plan:', error);
+    throw error;
+  }
+};
+
+// Update a plan's benefits or take it off sale. The price is fixed once created;
+// a new price means a new plan. Returns null if the plan does not exist.
+export const updateMembershipPlan = async (planId: string, updates: MembershipPlanUpdate): Promise<MembershipPlan | null> => {
+  try {
+    const planRef = doc(await getServerDb(), MEMBERSHIP_PLANS_COLLECTION, planId);
+    const snapshot = await getDoc(planRef);
+    if (!snapshot.exists()) {
+      return null;
+    }
+
+    const update: DocumentData = { ...JSON.parse(JSON.stringify(updates)), updated_at: Timestamp.now() };
+    await updateDoc(planRef, update);
+    return toMembershipPlan(planId, { ...snapshot.data(), ...update });
+  } catch (error) {
+    console.error('Error updating membership plan:', error);
+    throw error;
+  }
+};
+
+// List a customer's memberships, newest first
+export const listMemberships = async (customerId: string): Promise<Membership[]> => {
+  try {
+    const q = query(collection(await getServerDb(), MEMBERSHIPS_COLLECTION), where('customer_id', '==', customerId));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(membershipDoc => toMembership(membershipDoc.id, membershipDoc.data()))
+      .sort((a, b) => b.started_at.getTime() - a.started_at.getTime());
+  } catch (error) {
+    console.error('Error listing memberships:', error);
+    throw error;
+  }
+};
+
+export const getMembership = async (membershipId: string): Promise<Membership | null> => {
+  try {
+    const snapshot = await getDoc(doc(await getServerDb(), MEMBERSHIPS_COLLECTION, membershipId));
+    return snapshot.exists() ? toMembership(snapshot.id, snapshot.data()) : null;
+  } catch (error) {
+    console.error('Error getting membership:', error);
+    throw error;
+  }
+};
+
+// Start signing a customer up to a plan. Returns the Stripe Checkout page where they enter
+// their card; the membership itself is created by the subscription webhooks once they do.
+export const startMembershipSignup = async (customerId: string, planId: string, origin: string): Promise<MembershipSignupResult> => {
+  try {
+    const db = await getServerDb();
+    const customerRef = doc(db, CUSTOMERS_COLLECTION, customerId);
+    const customerSnapshot = await getDoc(customerRef);
+    if (!customerSnapshot.exists()) {
+      return { checkout_url: null, error: 'Customer not found', status: 404 };
+    }
+
+    const plan = await getMembershipPlan(planId);
+    if (!plan || !plan.active) {
+      return { checkout_url: null, error: 'Membership plan not found', status: 404 };
+    }
+
+    const memberships = await listMemberships(customerId);
+    if (memberships.some(membership => membership.status !== 'canceled' && membership.status !== 'incomplete')) {
+      return { checkout_url: null, error: 'Customer already has a membership; cancel it first', status: 409 };
+    }
+
+    const customer = customerSnapshot.data();
+    let stripeCustomerId: string | undefined = customer.stripeCustomerId;
+    if (!stripeCustomerId) {
+      stripeCustomerId = await stripeService.createCustomer(
+        { name: customer.name, email: customer.email, phone: customer.phone || undefined },
+        { customer_id: customerId }
+      );
+      await updateDoc(customerRef, { stripeCustomerId, updatedAt: Timestamp.now() });
+    }
+
+    const checkoutUrl = await stripeService.createSubscriptionCheckout(
+      stripeCustomerId,
+      plan.stripe_price_id,
+      { customer_id: customerId, plan_id: plan.id },
+      origin
+    );
+
+    return { checkout_url: checkoutUrl, error: null, status: 200 };
+  } catch (error) {
+    console.error('Error starting membership signup:', error);
+    throw error;
+  }
+};
+
+// Set the customer's tier to the highest one among their memberships in good standing
+const refreshCustomerTier = async (customerId: string): Promise<MembershipTier> => {
+  const memberships = await listMemberships(customerId);
+  const tier = memberships
+    .filter(membership => BENEFIT_STATUSES.includes(membership.status))
+    .reduce<MembershipTier>(
+      (highest, membership) => TIER_RANKS.indexOf(membership.tier) > TIER_RANKS.indexOf(highest) ? membership.tier : highest,
+      'bronze'
+    );
+
+  const customerRef = doc(await getServerDb(), CUSTOMERS_COLLECTION, customerId);
+  const customerSnapshot = await getDoc(customerRef);
+  if (customerSnapshot.exists() && customerSnapshot.data().membershipTier !== tier) {
+    await updateDoc(customerRef, { membershipTier: tier, updatedAt: Timestamp.now() });
+  }
+  return tier;
+};
+
+// Mirror a Stripe subscription into its membership and update the customer's tier.
+// Called for every subscription webhook, so it must be safe to repeat. Stripe does not
+// deliver events in order, so the event's `created` time (in seconds) is stored and older
+// events are ignored; without one the subscription is taken to be current, as when it was
+// just read from the API. A canceled membership stays canceled whatever arrives later.
+export const syncMembershipFromSubscription = async (
+  subscription: Stripe.Subscription,
+  eventCreated: number = Math.floor(Date.now() / 1000)
+): Promise<Membership | null> => {
+  try {
+    const db = await getServerDb();
+    const membershipRef = doc(db, MEMBERSHIPS_COLLECTION, subscription.id);
+    const existing = await getDoc(membershipRef);
+
+    const customerId = subscription.metadata?.customer_id || existing.data()?.customer_id;
+    const planId = subscription.metadata?.plan_id || existing.data()?.plan_id;
+    if (!customerId || !planId) {
+      // Not started through a membership signup
+      console.warn(`Stripe subscription ${subscription.id} is not linked to a membership`);
+      return null;
+    }
+
+    const plan = await getMembershipPlan(planId);
+    if (!plan) {
+      throw new Error(`Membership plan ${planId} not found for subscription ${subscription.id}`);
+    }
+
+    const status = SUBSCRIPTION_STATUSES[subscription.status];
+    const { membership, applied } = await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(membershipRef);
+      const stored = snapshot.data();
+
+      const lastEventAt = stored?.last_event_at?.toMillis() ?? 0;
+      if (stored && (lastEventAt > eventCreated * 1000 || (stored.status === 'canceled' && status !== 'canceled'))) {
+        console.warn(`Ignoring out-of-date ${subscription.status} update for membership ${subscription.id}`);
+        return { membership: toMembership(subscription.id, stored), applied: false };
+      }
+
+      const data: DocumentData = {
+        customer_id: customerId,
+        plan_id: plan.id,
+        plan_name: plan.name,
+        tier: plan.tier,
+        status,
+        stripe_customer_id: getStripeId(subscription.customer),
+        current_period_end: fromUnixTime(subscription.current_period_end),
+        cancel_at_period_end: subscription.cancel_at_period_end,
+        started_at: fromUnixTime(subscription.start_date),
+        last_event_at: fromUnixTime(eventCreated),
+        updated_at: Timestamp.now(),
+      };
+      if (subscription.ended_at) {
+        data.canceled_at = fromUnixTime(subscription.ended_at);
+      }
+      if (!stored) {
+        data.failed_payment_attempts = 0;
+      }
+
+      transaction.set(membershipRef, data, { merge: true });
+      return { membership: toMembership(subscription.id, { ...stored, ...data }), applied: true };
+    });
+
+    if (applied) {
+      await refreshCustomerTier(customerId);
+    }
+
+    return membership;
+  } catch (error) {
+    console.error('Error syncing membership:', error);
+    throw error;
+  }
+};
+
+// Record a failed renewal payment. Stripe retries it on its own schedule; the subscription
+// webhooks move the membership to past due and eventually suspended.
+export const recordMembershipPaymentFailed = async (invoice: Stripe.Invoice): Promise<void> => {
+  try {
+    const subscriptionId = getStripeId(invoice.subscription);
+    if (!subscriptionId) {
+      return;
+    }
+
+    const membershipRef = doc(await getServerDb(), MEMBERSHIPS_COLLECTION, subscriptionId);
+    const snapshot = await getDoc(membershipRef);
+    if (!snapshot.exists()) {
+      return;
+    }
+
+    const paymentIntent = typeof invoice.payment_intent === 'object' ? invoice.payment_intent : null;
+
+    await updateDoc(membershipRef, {
+      failed_payment_attempts: invoice.attempt_count,
+      next_payment_attempt: invoice.next_payment_attempt ? fromUnixTime(invoice.next_payment_attempt) : null,
+      last_payment_error: paymentIntent?.last_payment_error?.message || `Payment of invoice ${invoice.number || invoice.id} failed`,
+      updated_at: Timestamp.now(),
+    });
+  } catch (error) {
+    console.error('Error recording membership payment failure:', error);
+    throw error;
+  }
+};
+
+// Clear the dunning state once an invoice is paid
+export const recordMembershipPaymentSucceeded = async (invoice: Stripe.Invoice): Promise<void> => {
+  try {
+    const subscriptionId = getStripeId(invoice.subscription);
+    if (!subscriptionId) {
+      return;
+    }
+
+    const membershipRef = doc(await getServerDb(), MEMBERSHIPS_COLLECTION, subscriptionId);
+    const snapshot = await getDoc(membershipRef);
+    if (!snapshot.exists()) {
+      return;
+    }
+
+    await updateDoc(membershipRef, {
+      failed_payment_attempts: 0,
+      next_payment_attempt: null,
+      last_payment_error: null,
+      updated_at: Timestamp.now(),
+    });
+  } catch (error) {
+    console.error('Error recording membership payment:', error);
+    throw error;
+  }
+};
+
+// Cancel a membership now or at the end of the paid period, or undo a scheduled cancellation.
+// Returns null if the membership does not exist.
+export const updateMembershipCancellation = async (
+  membershipId: string,
+  action: 'cancel' | 'cancel_at_period_end' | 'resume'
+): Promise<Membership | null> => {
+  try {
+    const membership = await getMembership(membershipId);
+    if (!membership) {
+      return null;
+    }
+
+    const subscription = action === 'resume'
+      ? await stripeService.resumeSubscription(membershipId)
+      : await stripeService.cancelSubscription(membershipId, action === 'cancel_at_period_end');
+
+    // Don't wait for the webhook so the panel shows the change straight away
+    return await syncMembershipFromSubscription(subscription);
+  } catch (error) {
+    console.error('Error updating membership:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,107 @@
+import { Money } from '@/types/payment';
+
+// Number of digits after the decimal point for each ISO 4217 currency we may see.
+// Currencies that are not listed use 2.
+const CURRENCY_EXPONENTS: Record<string, number> = {
+  SAR: 2,
+  AED: 2,
+  QAR: 2,
+  EGP: 2,
+  USD: 2,
+  EUR: 2,
+  GBP: 2,
+  KWD: 3,
+  BHD: 3,
+  OMR: 3,
+  JOD: 3,
+  JPY: 0,
+  KRW: 0,
+};
+
+const DEFAULT_EXPONENT = 2;
+
+// Get the number of minor-unit digits for a currency (e.g. 2 for SAR, 3 for KWD)
+export const getCurrencyExponent = (currency: string): number =>
+  CURRENCY_EXPONENTS[currency.toUpperCase()] ?? DEFAULT_EXPONENT;
+
+// Shift the decimal point through the string representation so that
+// values like 1.005 are not mis-rounded by binary floating point
+const shiftDecimal = (value: number, places: number): number => {
+  const [mantissa, exponent] = String(value).split('e');
+  return Number(`${mantissa}e${Number(exponent || 0) + places}`);
+};
+
+// Create a Money value, rejecting amounts with more precision than the currency allows
+export const createMoney = (amount: number, currency: string): Money => {
+  if (!Number.isFinite(amount)) {
+    throw new Error('Amount must be a finite number');
+  }
+
+  if (!hasValidPrecision(amount, currency)) {
+    throw new Error(`${currency.toUpperCase()} amounts cannot have more than ${getCurrencyExponent(currency)} decimal places`);
+  }
+
+  return { amount, currency: currency.toUpperCase() };
+};
+
+// Whether the amount fits in the currency's minor units
+export const hasValidPrecision = (amount: number, currency: string): boolean =>
+  Number.isInteger(shiftDecimal(amount, getCurrencyExponent(currency)));
+
+// Round an amount to the currency's minor units
+export const roundAmount = (amount: number, currency: string): number => {
+  const exponent = getCurrencyExponent(currency);
+  return shiftDecimal(Math.round(shiftDecimal(amount, exponent)), -exponent);
+};
+
+// Convert to an integer amount in minor units (e.g. 10.5 SAR -> 1050, 1.25 KWD -> 1250)
+export const toMinorUnits = (money: Money): number =>
+  Math.round(shiftDecimal(money.amount, getCurrencyExponent(money.currency)));
+
+// Convert an integer amount in minor units back to Money
+export const fromMinorUnits = (minorUnits: number, currency: string): Money => ({
+  amount: shiftDecimal(minorUnits, -getCurrencyExponent(currency)),
+  currency: currency.toUpperCase(),
+});
+
+// Format as a decimal string with exactly the currency's precision, as expected by Tabby
+export const toDecimalString = (money: Money): string =>
+  roundAmount(money.amount, money.currency).toFixed(getCurrencyExponent(money.currency));
+
+// Add two amounts of the same currency without floating point drift
+export const addMoney = (a: Money, b: Money): Money => {
+  assertSameCurrency(a, b);
+  return fromMinorUnits(toMinorUnits(a) + toMinorUnits(b), a.currency);
+};
+
+// Subtract b from a, both in the same currency
+export const subtractMoney = (a: Money, b: Money): Money => {
+  assertSameCurrency(a, b);
+  return fromMinorUnits(toMinorUnits(a) - toMinorUnits(b), a.currency);
+};
+
+// Split an amount into equal parts in minor units; any remainder goes on the first part,
+// e.g. SAR 100.00 in 3 -> 33.34, 33.33, 33.33
+export const splitMoney = (money: Money, parts: number): Money[] => {
+  const total = toMinorUnits(money);
+  const share = Math.floor(total / parts);
+  return Array.from({ length: parts }, (_, index) =>
+    fromMinorUnits(index === 0 ? total - share * (parts - 1) : share, money.currency)
+  );
+};
+
+// Format for display, e.g. "SAR 1,250.50" or "KWD 12.500"
+export const formatMoney = (money: Money, locale = 'en-US'): string => {
+  const exponent = getCurrencyExponent(money.currency);
+  const formatted = money.amount.toLocaleString(locale, {
+    minimumFractionDigits: exponent,
+    maximumFractionDigits: exponent,
+  });
+  return `${money.currency.toUpperCase()} ${formatted}`;
+};
+
+const assertSameCurrency = (a: Money, b: Money): void => {
+  if (a.currency.toUpperCase() !== b.currency.toUpperCase()) {
+    throw new Error(`Cannot combine ${a.currency} and ${b.currency} amounts`);
+  }
+};
@@ -1,5 +1,7 @@
 // Network utility functions for handling connection issues
 
+import { auth } from './firebase';
+
 // Check if the browser is online
 export const isOnline = (): boolean => {
   if (typeof window === 'undefined') return true;
@@ -77,4 +79,16 @@ export const setFirestoreConnectionStatus = (status: boolean) => {
 
 export const getFirestoreConnectionStatus = (): boolean => {
   return firestoreConnectionStatus && isOnline();
-};
\ No newline at end of file
+};
+
+// Fetch an API route with the signed-in user's Firebase ID token as a bearer token
+export const authorizedFetch = async (input: string, init: RequestInit = {}): Promise<Response> => {
+  const headers = new Headers(init.headers);
+  const idToken = await auth?.currentUser?.getIdToken();
+
+  if (idToken) {
+    headers.set('Authorization', `Bearer ${idToken}`);
+  }
+
+  return fetch(input, { ...init, headers });
+};
@@ -0,0 +1,329 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  runTransaction,
+  Timestamp,
+  DocumentData
+} from 'firebase/firestore';
+import { getServerDb } from './firebaseServer';
+import { syncPaymentInvoices } from './invoiceService';
+import { addMoney, subtractMoney } from './money';
+import { getPaymentProvider } from './paymentProviders';
+import { settleRefund } from './refundSettlement';
+import { canTransitionPaymentStatus } from './paymentStatus';
+import {
+  PaymentRecord,
+  PaymentRecordUpdate,
+  PaymentStatsFilter,
+  PaymentStatus,
+  PaymentStatusTransition
+} from '@/types/payment';
+
+const PAYMENTS_COLLECTION = 'payments';
+const STATUS_HISTORY_COLLECTION = 'statusHistory';
+
+// Metadata amounts that only ever grow; an out-of-order event with an older total must not lower them
+const CUMULATIVE_AMOUNT_KEYS = ['amount_captured', 'amount_refunded'];
+
+// Convert a Firestore document into a PaymentRecord
+const toPaymentRecord = (id: string, data: DocumentData): PaymentRecord => ({
+  ...data,
+  id,
+  order_id: data.order_id || id,
+  created_at: data.created_at?.toDate() || new Date(),
+  updated_at: data.updated_at?.toDate() || new Date(),
+} as PaymentRecord);
+
+// Create or update the ledger entry for an order. Fields that are not provided
+// keep their stored values, so webhooks can send partial information. The provider,
+// provider payment ID, amount and currency are fixed once stored; an update for a
+// different provider payment is rejected. Status changes not allowed by
+// PAYMENT_STATUS_TRANSITIONS are rejected: the entry keeps its status, other fields
+// are still updated, and the attempt is kept in the status history.
+export const recordPayment = async (orderId: string, update: PaymentRecordUpdate): Promise<PaymentRecord> => {
+  try {
+    if (!orderId) {
+      throw new Error('Order ID is required to record a payment');
+    }
+
+    const db = await getServerDb();
+    const paymentRef = doc(db, PAYMENTS_COLLECTION, orderId);
+
+    const record = await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(paymentRef);
+      const existing = snapshot.exists() ? snapshot.data() : null;
+      if (
+        existing?.provider_payment_id &&
+        (existing.provider !== update.provider || existing.provider_payment_id !== update.provider_payment_id)
+      ) {
+        throw new Error(`Order ${orderId} is already recorded for ${existing.provider} payment ${existing.provider_payment_id}`);
+      }
+
+      const now = Timestamp.now();
+      const current: PaymentStatus | null = existing?.status || null;
+      const requested: PaymentStatus = update.status || current || 'pending';
+      const accepted = !current || canTransitionPaymentStatus(current, requested);
+
+      const metadata = {
+        ...(existing?.metadata || {}),
+        ...(update.metadata || {}),
+      };
+      CUMULATIVE_AMOUNT_KEYS.forEach(key => {
+        if (existing?.metadata?.[key] !== undefined && update.metadata?.[key] !== undefined) {
+          metadata[key] = Math.max(Number(existing.metadata[key]), Number(update.metadata[key]));
+        }
+      });
+
+      let refunds: Record<string, number> | undefined = existing?.refunds;
+      const refundAmount = update.settled_refund || update.reported_refund;
+      if (refundAmount) {
+        const totals = settleRefund(
+          {
+            amount_refunded: Number(existing?.metadata?.amount_refunded ?? 0),
+            refund_pending: Number(existing?.metadata?.refund_pending ?? 0),
+            refunds: refunds || {},
+          },
+          existing?.currency || update.currency || '',
+          { amount: refundAmount, id: update.refund_id, reserved: !!update.settled_refund }
+        );
+        metadata.amount_refunded = totals.amount_refunded;
+        metadata.refund_pending = totals.refund_pending;
+        refunds = totals.refunds;
+      }
+
+      const data: DocumentData = {
+        order_id: orderId,
+        provider: existing?.provider || update.provider,
+        provider_payment_id: existing?.provider_payment_id || update.provider_payment_id,
+        status: accepted ? requested : current,
+        amount: existing?.amount || update.amount || 0,
+        currency: (existing?.currency || update.currency || '').toUpperCase(),
+        metadata,
+        updated_at: now,
+        created_at: existing?.created_at || now,
+      };
+
+      if (requested !== current) {
+        const transition: DocumentData = {
+          from: current,
+          to: requested,
+          source: update.source,
+          accepted,
+          created_at: now,
+        };
+        if (update.event) {
+          transition.event = update.event;
+        }
+        transaction.set(doc(collection(paymentRef, STATUS_HISTORY_COLLECTION)), transition);
+
+        if (!accepted) {
+          console.warn(`Ignoring ${current} -> ${requested} for order ${orderId} from ${update.source}${update.event ? ` (${update.event})` : ''}`);
+        }
+      }
+
+      if (update.customer_id || existing?.customer_id) {
+        data.customer_id = update.customer_id || existing?.customer_id;
+      }
+
+      if (update.branch || existing?.branch) {
+        data.branch = update.branch || existing?.branch;
+      }
+
+      if (update.event || existing?.last_event) {
+        data.last_event = update.event || existing?.last_event;
+      }
+
+      if (refunds && Object.keys(refunds).length > 0) {
+        data.refunds = refunds;
+      }
+
+      transaction.set(paymentRef, data);
+      return toPaymentRecord(orderId, data);
+    });
+
+    // Tax documents follow the ledger. The payment itself is recorded either way; missing
+    // invoices can be issued later from the payments page.
+    try {
+      const { error } = await syncPaymentInvoices(record);
+      if (error) {
+        console.warn(`No tax invoice issued for order ${orderId}: ${error}`);
+      }
+    } catch (error) {
+      console.error('Failed to issue tax documents for payment:', error);
+    }
+
+    return record;
+  } catch (error) {
+    console.error('Error recording payment:', error);
+    throw error;
+  }
+};
+
+// Status changes of a ledger entry, oldest first, including rejected ones
+export const getPaymentStatusHistory = async (orderId: string): Promise<PaymentStatusTransition[]> => {
+  try {
+    const q = query(
+      collection(await getServerDb(), PAYMENTS_COLLECTION, orderId, STATUS_HISTORY_COLLECTION),
+      orderBy('created_at', 'asc')
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(historyDoc => {
+      const data = historyDoc.data();
+      return {
+        ...data,
+        id: historyDoc.id,
+        created_at: data.created_at?.toDate() || new Date(),
+      } as PaymentStatusTransition;
+    });
+  } catch (error) {
+    console.error('Error getting payment status history:', error);
+    throw error;
+  }
+};
+
+// Get a ledger entry by our order ID
+export const getPayment = async (orderId: string): Promise<PaymentRecord | null> => {
+  try {
+    const snapshot = await getDoc(doc(await getServerDb(), PAYMENTS_COLLECTION, orderId));
+    return snapshot.exists() ? toPaymentRecord(snapshot.id, snapshot.data()) : null;
+  } catch (error) {
+    console.error('Error getting payment:', error);
+    throw error;
+  }
+};
+
+// Find a ledger entry by the provider's own payment ID
+export const findPaymentByProviderId = async (provider: string, providerPaymentId: string): Promise<PaymentRecord | null> => {
+  try {
+    const q = query(
+      collection(await getServerDb(), PAYMENTS_COLLECTION),
+      where('provider', '==', provider),
+      where('provider_payment_id', '==', providerPaymentId),
+      limit(1)
+    );
+    const querySnapshot = await getDocs(q);
+    const match = querySnapshot.docs[0];
+    return match ? toPaymentRecord(match.id, match.data()) : null;
+  } catch (error) {
+    console.error('Error finding payment by provider ID:', error);
+    throw error;
+  }
+};
+
+// List ledger entries created in a date range. Provider and branch are filtered in memory
+// so that no composite index is needed for every filter combination.
+export const listPayments = async (filter: PaymentStatsFilter = {}): Promise<PaymentRecord[]> => {
+  try {
+    let q = query(collection(await getServerDb(), PAYMENTS_COLLECTION), orderBy('created_at', 'desc'));
+
+    if (filter.from) {
+      q = query(q, where('created_at', '>=', Timestamp.fromDate(filter.from)));
+    }
+
+    if (filter.to) {
+      q = query(q, where('created_at', '<=', Timestamp.fromDate(filter.to)));
+    }
+
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(paymentDoc => toPaymentRecord(paymentDoc.id, paymentDoc.data()))
+      .filter(payment => !filter.provider || payment.provider === filter.provider)
+      .filter(payment => !filter.branch || payment.branch === filter.branch);
+  } catch (error) {
+    console.error('Error listing payments:', error);
+    throw error;
+  }
+};
+
+// BNPL orders are only authorized at checkout and must be captured before they can be refunded
+const requiresCapture = (provider: string): boolean => getPaymentProvider(provider)?.requiresCapture || false;
+
+// Amount that can still be refunded: what was captured minus what has already been refunded
+// or is reserved for a refund in progress. Payments that were never captured have nothing
+// to refund and must be cancelled instead.
+export const getRefundableAmount = (payment: PaymentRecord): number => {
+  if (payment.status !== 'completed' && payment.status !== 'refunded') {
+    return 0;
+  }
+
+  const captured = Number(
+    payment.metadata?.amount_captured ?? (requiresCapture(payment.provider) ? 0 : payment.amount)
+  );
+  const refunded = addMoney(
+    { amount: Number(payment.metadata?.amount_refunded ?? 0), currency: payment.currency },
+    { amount: Number(payment.metadata?.refund_pending ?? 0), currency: payment.currency }
+  );
+  const remaining = subtractMoney({ amount: captured, currency: payment.currency }, refunded);
+  return Math.max(0, remaining.amount);
+};
+
+// Whether the payment is an authorized BNPL order still waiting to be captured
+export const isAwaitingCapture = (payment: PaymentRecord): boolean =>
+  requiresCapture(payment.provider) &&
+  payment.metadata?.amount_captured === undefined &&
+  (payment.status === 'pending' || payment.status === 'processing' || payment.status === 'completed');
+
+// Set aside part of a payment's refundable balance while the refund is with the provider, so
+// that two refunds sent at the same time cannot both pass the balance check. Returns the
+// balance that was refundable before the reservation, or null if the amount no longer fits.
+// The reservation is settled by recordPayment's settled_refund, or given back with releaseRefund.
+export const reserveRefund = async (orderId: string, amount: number): Promise<number | null> => {
+  try {
+    const db = await getServerDb();
+    const paymentRef = doc(db, PAYMENTS_COLLECTION, orderId);
+
+    return await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(paymentRef);
+      if (!snapshot.exists()) {
+        throw new Error(`No ledger entry for order ${orderId}`);
+      }
+
+      const payment = toPaymentRecord(orderId, snapshot.data());
+      const refundable = getRefundableAmount(payment);
+      if (amount > refundable) {
+        return null;
+      }
+
+      const pending = { amount: Number(payment.metadata?.refund_pending ?? 0), currency: payment.currency };
+      transaction.update(paymentRef, {
+        'metadata.refund_pending': addMoney(pending, { amount, currency: payment.currency }).amount,
+        updated_at: Timestamp.now(),
+      });
+      return refundable;
+    });
+  } catch (error) {
+    console.error('Error reserving refund:', error);
+    throw error;
+  }
+};
+
+// Give back a reservation after the provider did not make the refund
+export const releaseRefund = async (orderId: string, amount: number): Promise<void> => {
+  try {
+    const db = await getServerDb();
+    const paymentRef = doc(db, PAYMENTS_COLLECTION, orderId);
+
+    await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(paymentRef);
+      const data = snapshot.data();
+      if (!data) {
+        return;
+      }
+
+      const pending = { amount: Number(data.metadata?.refund_pending ?? 0), currency: data.currency };
+      transaction.update(paymentRef, {
+        'metadata.refund_pending': Math.max(0, subtractMoney(pending, { amount, currency: data.currency }).amount),
+        updated_at: Timestamp.now(),
+      });
+    });
+  } catch (error) {
+    console.error('Error releasing refund reservation:', error);
+    throw error;
+  }
+};
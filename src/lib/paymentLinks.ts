@@ -0,0 +1,459 @@
+import crypto from 'crypto';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  runTransaction,
+  setDoc,
+  updateDoc,
+  Timestamp,
+  DocumentData
+} from 'firebase/firestore';
+import { getServerDb } from './firebaseServer';
+import { getPayment, recordPayment } from './paymentLedger';
+import { getPaymentProvider } from './paymentProviders';
+import { paymentService } from './paymentservice';
+import {
+  PaymentLink,
+  PaymentLinkCustomer,
+  PaymentMethod,
+  PaymentProvider,
+  PaymentStatus,
+  PaymentStatusSource,
+  PublicPaymentLink,
+  UnifiedPaymentRequest
+} from '@/types/payment';
+
+const PAYMENT_LINKS_COLLECTION = 'paymentLinks';
+
+// A started checkout blocks new ones for this long, so the same link cannot be paid
+// twice at once. Afterwards the earlier checkout is checked with the provider and voided
+// before a new one is started; until that succeeds it keeps holding the link.
+const CHECKOUT_HOLD_MS = 30 * 60 * 1000;
+
+export interface CreatePaymentLinkInput {
+  booking_id?: string;
+  description: string;
+  amount: number;
+  currency: string;
+  customer?: PaymentLinkCustomer;
+  branch?: string;
+  // Passed on to the ledger entry of the payment
+  metadata?: Record<string, string | number | boolean>;
+  expires_in_hours: number;
+  created_by: string;
+}
+
+export interface PaymentLinkCheckoutResult {
+  checkout_url: string | null;
+  error: string | null;
+  status: number;
+}
+
+// Links are looked up by a hash of their token, so a leaked database export cannot be used to pay
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+// Convert a Firestore document into a PaymentLink
+const toPaymentLink = (id: string, data: DocumentData): PaymentLink => ({
+  ...data,
+  id,
+  expires_at: data.expires_at?.toDate() || new Date(),
+  created_at: data.created_at?.toDate() || new Date(),
+  checkout_started_at: data.checkout_started_at?.toDate(),
+  paid_at: data.paid_at?.toDate(),
+  revoked_at: data.revoked_at?.toDate(),
+} as PaymentLink);
+
+const isPaidStatus = (status?: string): boolean => status === 'completed' || status === 'refunded';
+
+// Bring a stored link up to date: a started checkout may have been paid since, and
+// open links expire. Paid links are persisted so they stay paid after the ledger changes.
+const resolvePaymentLink = async (link: PaymentLink): Promise<PaymentLink> => {
+  if (link.status === 'processing' && link.order_id) {
+    const payment = await getPayment(link.order_id);
+    if (isPaidStatus(payment?.status)) {
+      const paidAt = payment?.updated_at || new Date();
+      await updateDoc(doc(await getServerDb(), PAYMENT_LINKS_COLLECTION, link.id), {
+        status: 'paid',
+        paid_at: Timestamp.fromDate(paidAt),
+      });
+      return { ...link, status: 'paid', paid_at: paidAt };
+    }
+  }
+
+  if ((link.status === 'active' || link.status === 'processing') && link.expires_at < new Date()) {
+    return { ...link, status: 'expired' };
+  }
+
+  return link;
+};
+
+// Build the payment request for a checkout started from a link
+const buildPaymentRequest = (
+  link: PaymentLink,
+  provider: PaymentProvider,
+  orderId: string,
+  customer: PaymentLinkCustomer
+): UnifiedPaymentRequest => ({
+  provider,
+  amount: link.amount,
+  currency: link.currency,
+  order_id: orderId,
+  customer: {
+    email: customer.email || '',
+    phone: customer.phone || '',
+    name: customer.name || '',
+  },
+  items: [{
+    name: link.description,
+    quantity: 1,
+    unit_price: link.amount,
+    category: 'Services',
+  }],
+  branch: link.branch,
+  metadata: {
+    ...link.metadata,
+    payment_link_id: link.id,
+    ...(link.booking_id ? { booking_id: link.booking_id } : {}),
+  },
+});
+
+// Providers the customer can choose from: configured, with a hosted checkout page,
+// and able to take this kind of payment (e.g. Tamara needs a shipping address)
+const getLinkProviders = (link: PaymentLink): PaymentMethod[] =>
+  paymentService.getAvailableProviders().filter(method => {
+    const adapter = getPaymentProvider(method.id);
+    if (!adapter?.hostedCheckout) {
+      return false;
+    }
+    const request = buildPaymentRequest(link, method.id, 'preview', {
+      name: 'Customer',
+      email: 'customer@example.com',
+      phone: '0500000000',
+    });
+    return (adapter.validateRequest?.(request) || []).length === 0;
+  });
+
+// Create a link and return it with its token. The token is only available here;
+// the admin has to copy the URL when the link is generated.
+export const createPaymentLink = async (input: CreatePaymentLinkInput): Promise<{ link: PaymentLink; token: string }> => {
+  try {
+    const token = crypto.randomBytes(24).toString('base64url');
+    const id = hashToken(token);
+    const now = Timestamp.now();
+
+    const data: DocumentData = {
+      description: input.description,
+      amount: input.amount,
+      currency: input.currency.toUpperCase(),
+      status: 'active',
+      expires_at: Timestamp.fromMillis(now.toMillis() + input.expires_in_hours * 60 * 60 * 1000),
+      created_at: now,
+      created_by: input.created_by,
+      attempts: 0,
+    };
+
+    if (input.booking_id) {
+      data.booking_id = input.booking_id;
+    }
+
+    if (input.customer) {
+      data.customer = JSON.parse(JSON.stringify(input.customer));
+    }
+
+    if (input.branch) {
+      data.branch = input.branch;
+    }
+
+    if (input.metadata) {
+      data.metadata = input.metadata;
+    }
+
+    await setDoc(doc(await getServerDb(), PAYMENT_LINKS_COLLECTION, id), data);
+    return { link: toPaymentLink(id, data), token };
+  } catch (error) {
+    console.error('Error creating payment link:', error);
+    throw error;
+  }
+};
+
+// Get a link by ID, brought up to date with its payment
+export const getPaymentLink = async (linkId: string): Promise<PaymentLink | null> => {
+  try {
+    const snapshot = await getDoc(doc(await getServerDb(), PAYMENT_LINKS_COLLECTION, linkId));
+    return snapshot.exists() ? await resolvePaymentLink(toPaymentLink(snapshot.id, snapshot.data())) : null;
+  } catch (error) {
+    console.error('Error getting payment link:', error);
+    throw error;
+  }
+};
+
+// List the links created for a booking, newest first
+export const listPaymentLinks = async (bookingId: string): Promise<PaymentLink[]> => {
+  try {
+    const q = query(collection(await getServerDb(), PAYMENT_LINKS_COLLECTION), where('booking_id', '==', bookingId));
+    const querySnapshot = await getDocs(q);
+    const links = await Promise.all(
+      querySnapshot.docs.map(linkDoc => resolvePaymentLink(toPaymentLink(linkDoc.id, linkDoc.data())))
+    );
+    return links.sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+  } catch (error) {
+    console.error('Error listing payment links:', error);
+    throw error;
+  }
+};
+
+// Revoke a link so it can no longer be used. Returns null if the link does not exist.
+// Links that were already paid are returned unchanged.
+export const revokePaymentLink = async (linkId: string, revokedBy: string): Promise<PaymentLink | null> => {
+  try {
+    const linkRef = doc(await getServerDb(), PAYMENT_LINKS_COLLECTION, linkId);
+    const snapshot = await getDoc(linkRef);
+    if (!snapshot.exists()) {
+      return null;
+    }
+
+    const link = await resolvePaymentLink(toPaymentLink(snapshot.id, snapshot.data()));
+    if (link.status === 'paid' || link.status === 'revoked') {
+      return link;
+    }
+
+    const revokedAt = Timestamp.now();
+    await updateDoc(linkRef, {
+      status: 'revoked',
+      revoked_at: revokedAt,
+      revoked_by: revokedBy,
+    });
+
+    return { ...link, status: 'revoked', revoked_at: revokedAt.toDate(), revoked_by: revokedBy };
+  } catch (error) {
+    console.error('Error revoking payment link:', error);
+    throw error;
+  }
+};
+
+// Get what the customer needs to see on the pay page
+export const getPublicPaymentLink = async (token: string): Promise<PublicPaymentLink | null> => {
+  try {
+    const snapshot = await getDoc(doc(await getServerDb(), PAYMENT_LINKS_COLLECTION, hashToken(token)));
+    if (!snapshot.exists()) {
+      return null;
+    }
+
+    const link = await resolvePaymentLink(toPaymentLink(snapshot.id, snapshot.data()));
+    const payable = link.status === 'active' || link.status === 'processing';
+
+    return {
+      description: link.description,
+      amount: link.amount,
+      currency: link.currency,
+      status: link.status,
+      expires_at: link.expires_at,
+      customer: link.customer,
+      providers: payable ? getLinkProviders(link) : [],
+    };
+  } catch (error) {
+    console.error('Error getting payment link:', error);
+    throw error;
+  }
+};
+
+// Settle a link's earlier checkout with the provider once its hold has passed or it has
+// failed: record it if it was paid, and otherwise void it so that it cannot be paid
+// alongside a new one (a declined card can be retried on the same checkout). Returns an
+// error if the link was paid or an open checkout could not be voided.
+const closeEarlierCheckout = async (token: string): Promise<{ error: string | null; status: number }> => {
+  const snapshot = await getDoc(doc(await getServerDb(), PAYMENT_LINKS_COLLECTION, hashToken(token)));
+  const data = snapshot.data();
+  if (!data || data.status !== 'processing' || !data.order_id || !data.provider_payment_id) {
+    return { error: null, status: 200 };
+  }
+
+  const payment = await getPayment(data.order_id);
+  const heldUntil = (data.checkout_started_at?.toMillis() || 0) + CHECKOUT_HOLD_MS;
+  if (payment?.status === 'cancelled' || (payment?.status !== 'failed' && heldUntil > Date.now())) {
+    return { error: null, status: 200 };
+  }
+
+  const record = (status: PaymentStatus, source: PaymentStatusSource, event: string) =>
+    recordPayment(data.order_id, {
+      provider: data.provider,
+      provider_payment_id: data.provider_payment_id,
+      source,
+      status,
+      amount: data.amount,
+      currency: data.currency,
+      event,
+    });
+
+  let status: PaymentStatus;
+  try {
+    status = await paymentService.getPaymentStatus(data.provider, data.provider_payment_id);
+  } catch (error) {
+    console.error(`Could not check the earlier checkout of payment link ${snapshot.id}:`, error);
+    return { error: 'A payment for this link is already in progress', status: 409 };
+  }
+
+  if (isPaidStatus(status)) {
+    await record(status, 'poll', 'status.poll');
+    return { error: 'This payment link has already been used', status: 409 };
+  }
+
+  if (status === 'cancelled') {
+    await record(status, 'poll', 'status.poll');
+    return { error: null, status: 200 };
+  }
+
+  try {
+    await paymentService.cancelPayment(data.provider, data.provider_payment_id, { amount: data.amount, currency: data.currency });
+    await record('cancelled', 'checkout', 'payment_link.checkout_voided');
+    return { error: null, status: 200 };
+  } catch (error) {
+    // Some providers cannot void a declined checkout, which cannot be paid any more either
+    if (status === 'failed') {
+      await record(status, 'poll', 'status.poll');
+      return { error: null, status: 200 };
+    }
+    console.error(`Could not void the earlier checkout of payment link ${snapshot.id}:`, error);
+    return { error: 'A payment for this link is already in progress', status: 409 };
+  }
+};
+
+// Claim the link for a new checkout. Only one checkout can hold a link at a time, and a
+// link whose earlier checkout was paid is closed for good.
+const claimPaymentLink = async (
+  token: string,
+  provider: PaymentProvider
+): Promise<{ link: PaymentLink | null; error: string | null; status: number }> => {
+  const db = await getServerDb();
+  const linkRef = doc(db, PAYMENT_LINKS_COLLECTION, hashToken(token));
+
+  return await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(linkRef);
+    if (!snapshot.exists()) {
+      return { link: null, error: 'Payment link not found', status: 404 };
+    }
+
+    const data = snapshot.data();
+    const now = Timestamp.now();
+
+    if (data.status === 'processing' && data.order_id) {
+      const payment = await transaction.get(doc(db, 'payments', data.order_id));
+      const paymentStatus = payment.exists() ? payment.data().status : undefined;
+
+      if (isPaidStatus(paymentStatus)) {
+        transaction.update(linkRef, { status: 'paid', paid_at: now });
+        return { link: null, error: 'This payment link has already been used', status: 409 };
+      }
+
+      // A checkout that reached the provider can still be paid, however old, until it has
+      // failed or been voided by closeEarlierCheckout
+      const heldUntil = (data.checkout_started_at?.toMillis() || 0) + CHECKOUT_HOLD_MS;
+      const checkoutOpen = paymentStatus !== 'failed' && paymentStatus !== 'cancelled';
+      if (checkoutOpen && (heldUntil > now.toMillis() || data.provider_payment_id)) {
+        return { link: null, error: 'A payment for this link is already in progress', status: 409 };
+      }
+    }
+
+    if (data.status === 'paid') {
+      return { link: null, error: 'This payment link has already been used', status: 409 };
+    }
+
+    if (data.status === 'revoked') {
+      return { link: null, error: 'This payment link has been revoked', status: 410 };
+    }
+
+    if (data.expires_at.toMillis() < now.toMillis()) {
+      return { link: null, error: 'This payment link has expired', status: 410 };
+    }
+
+    const attempts = (data.attempts || 0) + 1;
+    const update: DocumentData = {
+      status: 'processing',
+      attempts,
+      order_id: `plink_${snapshot.id.slice(0, 16)}_${attempts}`,
+      provider,
+      checkout_started_at: now,
+    };
+
+    transaction.update(linkRef, update);
+    return { link: toPaymentLink(snapshot.id, { ...data, ...update }), error: null, status: 200 };
+  });
+};
+
+// Start a checkout for a link with the provider the customer picked. Customer details
+// stored on the link take precedence over what was entered on the pay page.
+export const startPaymentLinkCheckout = async (
+  token: string,
+  provider: PaymentProvider,
+  customer: PaymentLinkCustomer
+): Promise<PaymentLinkCheckoutResult> => {
+  try {
+    const earlier = await closeEarlierCheckout(token);
+    if (earlier.error) {
+      return { checkout_url: null, error: earlier.error, status: earlier.status };
+    }
+
+    const claim = await claimPaymentLink(token, provider);
+    if (!claim.link) {
+      return { checkout_url: null, error: claim.error, status: claim.status };
+    }
+
+    const link = claim.link;
+    const linkRef = doc(await getServerDb(), PAYMENT_LINKS_COLLECTION, link.id);
+    const orderId = link.order_id as string;
+
+    // Hand the link back if the checkout never reached the provider
+    const release = async (error: string, status: number): Promise<PaymentLinkCheckoutResult> => {
+      await updateDoc(linkRef, { status: 'active' });
+      return { checkout_url: null, error, status };
+    };
+
+    if (!getLinkProviders(link).some(method => method.id === provider)) {
+      return await release(`${provider} cannot be used for this payment link`, 400);
+    }
+
+    const request = buildPaymentRequest(link, provider, orderId, { ...customer, ...link.customer });
+    const { valid, errors } = paymentService.validatePaymentRequest(request);
+    if (!valid) {
+      return await release(errors.join(', '), 400);
+    }
+
+    let payment;
+    try {
+      payment = await paymentService.createPayment(request);
+    } catch (error) {
+      return await release(error instanceof Error ? error.message : 'Failed to start the payment', 502);
+    }
+
+    if (!payment.checkout_url) {
+      return await release(`${provider} did not return a checkout page`, 502);
+    }
+
+    await updateDoc(linkRef, { provider_payment_id: payment.payment_id });
+
+    // As with POST /api/payments, the first webhook creates the entry if this fails
+    try {
+      await recordPayment(orderId, {
+        provider: payment.provider,
+        provider_payment_id: payment.payment_id,
+        source: 'checkout',
+        status: payment.status,
+        amount: link.amount,
+        currency: link.currency,
+        branch: link.branch,
+        metadata: request.metadata,
+      });
+    } catch (error) {
+      console.error('Failed to record payment link checkout in ledger:', error);
+    }
+
+    return { checkout_url: payment.checkout_url, error: null, status: 200 };
+  } catch (error) {
+    console.error('Error starting payment link checkout:', error);
+    throw error;
+  }
+};
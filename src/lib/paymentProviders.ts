@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { stripeAdapter } from './providers/stripeAdapter';
+import { tamaraAdapter } from './providers/tamaraAdapter';
+import { tabbyAdapter } from './providers/tabbyAdapter';
+import { sandboxAdapter } from './providers/sandboxAdapter';
+import { giftCardAdapter } from './providers/giftCardAdapter';
+import { cashAdapter } from './providers/cashAdapter';
+import { PaymentProviderAdapter } from '@/types/payment';
+
+// Registry of payment provider adapters. New tender types (cash at the counter,
+// bank transfer, wallets, ...) only need an adapter registered here.
+const adapters = new Map<string, PaymentProviderAdapter>();
+
+export const registerPaymentProvider = (adapter: PaymentProviderAdapter): void => {
+  if (adapters.has(adapter.id)) {
+    throw new Error(`Payment provider ${adapter.id} is already registered`);
+  }
+  adapters.set(adapter.id, adapter);
+};
+
+export const getPaymentProvider = (id: string): PaymentProviderAdapter | undefined => adapters.get(id);
+
+export const listPaymentProviders = (): PaymentProviderAdapter[] => Array.from(adapters.values());
+
+export const isRegisteredPaymentProvider = (id: string): boolean => adapters.has(id);
+
+// Zod schema for a provider ID in request bodies and query strings
+export const paymentProviderSchema = z.string().refine(isRegisteredPaymentProvider, (id) => ({
+  message: `Unknown payment provider: ${id}`,
+}));
+
+[stripeAdapter, tamaraAdapter, tabbyAdapter, sandboxAdapter, giftCardAdapter, cashAdapter].forEach(registerPaymentProvider);
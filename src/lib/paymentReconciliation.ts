@@ -0,0 +1,200 @@
+import {
+  collection,
+  addDoc,
+  getDocs,
+  query,
+  orderBy,
+  limit,
+  Timestamp,
+  DocumentData
+} from 'firebase/firestore';
+import { getServerDb } from './firebaseServer';
+import { paymentService } from './paymentservice';
+import { findPaymentByProviderId, listPayments } from './paymentLedger';
+import { listWebhookEvents } from './webhookEventStore';
+import {
+  PaymentRecord,
+  PaymentStatus,
+  ReconciliationDiscrepancy,
+  ReconciliationReport
+} from '@/types/payment';
+
+const RECONCILIATION_REPORTS_COLLECTION = 'reconciliationReports';
+
+const DEFAULT_LOOKBACK_DAYS = 7;
+
+// Upper bound on stored webhook events scanned for payments that never reached the ledger
+const WEBHOOK_EVENT_SCAN_LIMIT = 500;
+
+export interface ReconciliationOptions {
+  lookbackDays?: number;
+  trigger: ReconciliationReport['trigger'];
+  triggeredBy?: string;
+}
+
+// Statuses of a payment that has not reached a final state yet
+const OPEN_STATUSES: PaymentStatus[] = ['pending', 'processing'];
+
+// Convert a Firestore document into a ReconciliationReport
+const toReconciliationReport = (id: string, data: DocumentData): ReconciliationReport => ({
+  ...data,
+  id,
+  since: data.since?.toDate() || new Date(),
+  started_at: data.started_at?.toDate() || new Date(),
+  completed_at: data.completed_at?.toDate() || new Date(),
+} as ReconciliationReport);
+
+// Classify the difference between a ledger entry and the provider's status, if any
+const compareStatuses = (local: PaymentStatus, remote: PaymentStatus): ReconciliationDiscrepancy['issue'] | null => {
+  if (local === remote) {
+    return null;
+  }
+
+  if (OPEN_STATUSES.includes(local) && remote === 'completed') {
+    return 'captured_remotely';
+  }
+
+  if (remote === 'refunded') {
+    return 'refunded_remotely';
+  }
+
+  // Both still in progress; the provider just has a more detailed view
+  if (OPEN_STATUSES.includes(local) && OPEN_STATUSES.includes(remote)) {
+    return null;
+  }
+
+  return 'status_mismatch';
+};
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+// Compare a single ledger entry with the provider
+const reconcilePayment = async (payment: PaymentRecord): Promise<ReconciliationDiscrepancy | null> => {
+  const base = {
+    provider: payment.provider,
+    provider_payment_id: payment.provider_payment_id,
+    order_id: payment.order_id,
+    local_status: payment.status,
+    amount: payment.amount,
+    currency: payment.currency,
+  };
+
+  try {
+    const remoteStatus = await paymentService.getPaymentStatus(payment.provider, payment.provider_payment_id);
+    const issue = compareStatuses(payment.status, remoteStatus);
+    return issue ? { ...base, issue, remote_status: remoteStatus } : null;
+  } catch (error) {
+    return { ...base, issue: 'lookup_failed', error: getErrorMessage(error) };
+  }
+};
+
+// Find payments the providers told us about through webhooks that have no ledger entry,
+// e.g. because every delivery failed before the payment was recorded
+const findPaymentsMissingLocally = async (
+  since: Date,
+  known: Set<string>
+): Promise<ReconciliationDiscrepancy[]> => {
+  const events = await listWebhookEvents({}, WEBHOOK_EVENT_SCAN_LIMIT);
+  const discrepancies: ReconciliationDiscrepancy[] = [];
+
+  for (const event of events) {
+    const key = `${event.provider}_${event.payment_id}`;
+    if (event.received_at < since || !event.payment_id || known.has(key)) {
+      continue;
+    }
+    known.add(key);
+
+    if (!paymentService.isProviderEnabled(event.provider)) {
+      continue;
+    }
+
+    if (await findPaymentByProviderId(event.provider, event.payment_id)) {
+      continue;
+    }
+
+    const discrepancy: ReconciliationDiscrepancy = {
+      issue: 'missing_locally',
+      provider: event.provider,
+      provider_payment_id: event.payment_id,
+    };
+
+    try {
+      discrepancy.remote_status = await paymentService.getPaymentStatus(event.provider, event.payment_id);
+    } catch (error) {
+      discrepancy.error = getErrorMessage(error);
+    }
+
+    discrepancies.push(discrepancy);
+  }
+
+  return discrepancies;
+};
+
+// Compare recent ledger entries with their providers and store the findings as a report.
+// Nothing is corrected automatically; discrepancies are left for an admin to review.
+export const runReconciliation = async (options: ReconciliationOptions): Promise<ReconciliationReport> => {
+  try {
+    const startedAt = new Date();
+    const since = new Date(startedAt.getTime() - (options.lookbackDays || DEFAULT_LOOKBACK_DAYS) * 24 * 60 * 60 * 1000);
+
+    const payments = await listPayments({ from: since });
+    const known = new Set(payments.map(payment => `${payment.provider}_${payment.provider_payment_id}`));
+    const discrepancies: ReconciliationDiscrepancy[] = [];
+    let checked = 0;
+    let skipped = 0;
+
+    // Checked one at a time to stay well within provider rate limits
+    for (const payment of payments) {
+      if (!payment.provider_payment_id || !paymentService.isProviderEnabled(payment.provider)) {
+        skipped++;
+        continue;
+      }
+
+      checked++;
+      const discrepancy = await reconcilePayment(payment);
+      if (discrepancy) {
+        discrepancies.push(discrepancy);
+      }
+    }
+
+    discrepancies.push(...await findPaymentsMissingLocally(since, known));
+
+    const data: DocumentData = {
+      trigger: options.trigger,
+      since: Timestamp.fromDate(since),
+      started_at: Timestamp.fromDate(startedAt),
+      completed_at: Timestamp.now(),
+      checked,
+      skipped,
+      // Firestore rejects undefined fields
+      discrepancies: discrepancies.map(discrepancy => JSON.parse(JSON.stringify(discrepancy))),
+    };
+
+    if (options.triggeredBy) {
+      data.triggered_by = options.triggeredBy;
+    }
+
+    const docRef = await addDoc(collection(await getServerDb(), RECONCILIATION_REPORTS_COLLECTION), data);
+    return toReconciliationReport(docRef.id, data);
+  } catch (error) {
+    console.error('Error running reconciliation:', error);
+    throw error;
+  }
+};
+
+// List the most recent reconciliation reports
+export const listReconciliationReports = async (limitCount = 20): Promise<ReconciliationReport[]> => {
+  try {
+    const q = query(
+      collection(await getServerDb(), RECONCILIATION_REPORTS_COLLECTION),
+      orderBy('started_at', 'desc'),
+      limit(limitCount)
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(reportDoc => toReconciliationReport(reportDoc.id, reportDoc.data()));
+  } catch (error) {
+    console.error('Error listing reconciliation reports:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,64 @@
+import { listPayments } from './paymentLedger';
+import { addMoney, roundAmount, subtractMoney } from './money';
+import { CurrencyStats, DashboardStats, PaymentRecord, PaymentStatsFilter } from '@/types/payment';
+
+// Payments that were captured at some point, including ones refunded afterwards
+const isSuccessful = (payment: PaymentRecord): boolean =>
+  payment.status === 'completed' || payment.status === 'refunded';
+
+// Aggregate ledger entries into dashboard figures. Revenue is net of refunds and
+// is reported per currency, since amounts in different currencies cannot be summed.
+export const computePaymentStats = (payments: PaymentRecord[]): DashboardStats => {
+  const successful = payments.filter(isSuccessful);
+  const failedPayments = payments.filter(payment => payment.status === 'failed').length;
+
+  const currencies = new Map<string, CurrencyStats>();
+  const providerCounts = new Map<string, number>();
+
+  successful.forEach(payment => {
+    const currency = payment.currency || 'SAR';
+    const stats = currencies.get(currency) || {
+      currency,
+      totalRevenue: 0,
+      refundedAmount: 0,
+      successfulPayments: 0,
+      averageOrderValue: 0,
+    };
+
+    const captured = { amount: Number(payment.metadata?.amount_captured ?? payment.amount), currency };
+    const refunded = { amount: Number(payment.metadata?.amount_refunded ?? 0), currency };
+
+    stats.totalRevenue = addMoney({ amount: stats.totalRevenue, currency }, subtractMoney(captured, refunded)).amount;
+    stats.refundedAmount = addMoney({ amount: stats.refundedAmount, currency }, refunded).amount;
+    stats.successfulPayments += 1;
+    currencies.set(currency, stats);
+
+    providerCounts.set(payment.provider, (providerCounts.get(payment.provider) || 0) + 1);
+  });
+
+  const byCurrency = Array.from(currencies.values())
+    .map(stats => ({
+      ...stats,
+      averageOrderValue: roundAmount(stats.totalRevenue / stats.successfulPayments, stats.currency),
+    }))
+    .sort((a, b) => b.successfulPayments - a.successfulPayments);
+
+  const primary = byCurrency[0] || { currency: 'SAR', totalRevenue: 0, averageOrderValue: 0 };
+  const topPaymentMethod = Array.from(providerCounts.entries())
+    .sort((a, b) => b[1] - a[1])[0]?.[0] || '';
+
+  return {
+    totalPayments: payments.length,
+    successfulPayments: successful.length,
+    failedPayments,
+    totalRevenue: primary.totalRevenue,
+    currency: primary.currency,
+    averageOrderValue: primary.averageOrderValue,
+    conversionRate: payments.length ? Math.round((successful.length / payments.length) * 1000) / 10 : 0,
+    topPaymentMethod,
+    byCurrency,
+  };
+};
+
+export const getPaymentStats = async (filter: PaymentStatsFilter = {}): Promise<DashboardStats> =>
+  computePaymentStats(await listPayments(filter));
@@ -0,0 +1,18 @@
+import { PaymentStatus } from '@/types/payment';
+
+// Allowed status changes of a ledger entry. Providers deliver webhooks out of order and
+// more than once, so anything not listed here is ignored rather than applied, e.g. a late
+// `payment.authorized` cannot move a refunded payment back to completed.
+export const PAYMENT_STATUS_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ['processing', 'completed', 'failed', 'cancelled'],
+  processing: ['completed', 'failed', 'cancelled'],
+  // Authorized BNPL payments can still be voided; partial refunds stay completed
+  completed: ['refunded', 'cancelled'],
+  // The customer may retry a failed payment on the same checkout
+  failed: ['pending', 'processing', 'completed', 'cancelled'],
+  cancelled: [],
+  refunded: [],
+};
+
+export const canTransitionPaymentStatus = (from: PaymentStatus, to: PaymentStatus): boolean =>
+  from === to || PAYMENT_STATUS_TRANSITIONS[from]?.includes(to) || false;
@@ -0,0 +1,68 @@
+import { listPaymentProviders } from './paymentProviders';
+import { PaymentProviderAdapter, ProviderHealth } from '@/types/payment';
+
+// Probe results are reused for this long so that reloading the dashboard does not
+// hit every provider's API each time
+const PROBE_CACHE_MS = 60 * 1000;
+
+const PROBE_TIMEOUT_MS = 10000;
+
+// Last probe result and last failure per provider. Kept in memory, so a server
+// restart starts from a clean slate.
+const probeResults = new Map<string, Pick<ProviderHealth, 'reachable' | 'latency_ms' | 'checked_at'>>();
+const lastErrors = new Map<string, { message: string; at: Date }>();
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+
+const probeProvider = async (adapter: PaymentProviderAdapter): Promise<void> => {
+  if (!adapter.probe) {
+    return;
+  }
+
+  const startedAt = Date.now();
+
+  try {
+    await withTimeout(adapter.probe(), PROBE_TIMEOUT_MS);
+    probeResults.set(adapter.id, { reachable: true, latency_ms: Date.now() - startedAt, checked_at: new Date() });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Health check failed for ${adapter.id}:`, error);
+    probeResults.set(adapter.id, { reachable: false, latency_ms: Date.now() - startedAt, checked_at: new Date() });
+    lastErrors.set(adapter.id, { message, at: new Date() });
+  }
+};
+
+// Report configuration, mode and connectivity for every registered provider.
+// Unconfigured providers are never probed.
+export const getProviderHealth = async (forceRefresh = false): Promise<ProviderHealth[]> => {
+  const adapters = listPaymentProviders();
+
+  await Promise.all(adapters
+    .filter(adapter => adapter.isConfigured())
+    .filter(adapter => {
+      const previous = probeResults.get(adapter.id);
+      return forceRefresh || !previous?.checked_at || Date.now() - previous.checked_at.getTime() > PROBE_CACHE_MS;
+    })
+    .map(probeProvider));
+
+  return adapters.map(adapter => {
+    const configured = adapter.isConfigured();
+    const probe = configured ? probeResults.get(adapter.id) : undefined;
+    const lastError = lastErrors.get(adapter.id);
+
+    return {
+      provider: adapter.id,
+      name: adapter.name,
+      configured,
+      mode: adapter.getMode(),
+      reachable: probe?.reachable ?? null,
+      latency_ms: probe?.latency_ms ?? null,
+      checked_at: probe?.checked_at ?? null,
+      ...(lastError ? { last_error: lastError.message, last_error_at: lastError.at } : {}),
+    };
+  });
+};
@@ -0,0 +1,62 @@
+import crypto from 'crypto';
+import { findPaymentByProviderId } from '../paymentLedger';
+import {
+  PaymentProviderAdapter,
+  PaymentStatus,
+  UnifiedPaymentRequest,
+  UnifiedPaymentResponse,
+} from '@/types/payment';
+
+// Cash taken at the counter. Staff record the payment once they have the money, so it is
+// complete immediately; refunds are handed back in cash and only recorded here.
+export const cashAdapter: PaymentProviderAdapter = {
+  id: 'cash',
+  name: 'Cash',
+  requiresCapture: false,
+  hostedCheckout: false,
+  staffOnly: true,
+
+  isConfigured: () => true,
+
+  getMode: () => 'live',
+
+  async createPayment(request: UnifiedPaymentRequest): Promise<UnifiedPaymentResponse> {
+    return {
+      provider: 'cash',
+      payment_id: `cash_${request.order_id}`,
+      status: 'completed',
+      metadata: {
+        order_id: request.order_id,
+      },
+    };
+  },
+
+  // The ledger is the only record of a cash payment
+  async getPaymentStatus(paymentId: string): Promise<PaymentStatus> {
+    const payment = await findPaymentByProviderId('cash', paymentId);
+    if (!payment) {
+      throw new Error(`Cash payment ${paymentId} not found`);
+    }
+    return payment.status;
+  },
+
+  async capturePayment(): Promise<Record<string, unknown>> {
+    throw new Error('Cash payments are complete when they are recorded');
+  },
+
+  async refundPayment(paymentId: string): Promise<Record<string, unknown>> {
+    return { id: `cash_refund_${crypto.randomBytes(6).toString('hex')}`, payment_id: paymentId };
+  },
+
+  async cancelPayment(): Promise<Record<string, unknown>> {
+    throw new Error('Cash payments cannot be voided; refund them instead');
+  },
+
+  async verifyWebhook(): Promise<Record<string, unknown>> {
+    throw new Error('Cash payments do not send webhooks');
+  },
+
+  mapStatus: (providerStatus: string) => providerStatus as PaymentStatus,
+
+  getRefundId: (response) => response.id as string | undefined,
+};
@@ -0,0 +1,83 @@
+import {
+  getGiftCardTransaction,
+  redeemGiftCard,
+  refundGiftCardRedemption
+} from '../giftCardService';
+import {
+  Money,
+  PaymentProviderAdapter,
+  PaymentStatus,
+  UnifiedPaymentRequest,
+  UnifiedPaymentResponse,
+} from '@/types/payment';
+
+// Gift cards and other stored value issued by the lounge. A payment redeems part or all
+// of a card's balance, given as `metadata.gift_card_code`; the redemption transaction is
+// the provider payment. Everything happens in our own database, so there is no checkout
+// page, capture step or webhook.
+export const giftCardAdapter: PaymentProviderAdapter = {
+  id: 'gift_card',
+  name: 'Gift Card',
+  requiresCapture: false,
+  hostedCheckout: false,
+
+  isConfigured: () => true,
+
+  // Balances are real money owed to customers, in every environment
+  getMode: () => 'live',
+
+  validateRequest(request: UnifiedPaymentRequest): string[] {
+    return request.metadata?.gift_card_code ? [] : ['A gift card code is required (metadata.gift_card_code)'];
+  },
+
+  async createPayment(request: UnifiedPaymentRequest): Promise<UnifiedPaymentResponse> {
+    const { transaction, error } = await redeemGiftCard(
+      String(request.metadata?.gift_card_code),
+      { amount: request.amount, currency: request.currency },
+      request.order_id
+    );
+
+    if (!transaction) {
+      throw new Error(error || 'Gift card could not be redeemed');
+    }
+
+    return {
+      provider: 'gift_card',
+      payment_id: transaction.id,
+      status: 'completed',
+      metadata: {
+        order_id: request.order_id,
+        gift_card_id: transaction.gift_card_id,
+        balance_after: transaction.balance_after,
+      },
+    };
+  },
+
+  async getPaymentStatus(paymentId: string): Promise<PaymentStatus> {
+    const redemption = await getGiftCardTransaction(paymentId);
+    if (!redemption || redemption.type !== 'redemption') {
+      throw new Error(`Gift card redemption ${paymentId} not found`);
+    }
+    return (redemption.refunded_amount || 0) >= redemption.amount ? 'refunded' : 'completed';
+  },
+
+  async capturePayment(): Promise<Record<string, unknown>> {
+    throw new Error('Gift card payments are captured when they are made');
+  },
+
+  async refundPayment(paymentId: string, amount?: Money): Promise<Record<string, unknown>> {
+    return { ...await refundGiftCardRedemption(paymentId, amount) };
+  },
+
+  async cancelPayment(): Promise<Record<string, unknown>> {
+    throw new Error('Gift card payments cannot be voided; refund them to the card instead');
+  },
+
+  async verifyWebhook(): Promise<Record<string, unknown>> {
+    throw new Error('Gift cards do not send webhooks');
+  },
+
+  mapStatus: (providerStatus: string) => providerStatus as PaymentStatus,
+
+  getRefundId: (response) => response.id as string | undefined,
+};
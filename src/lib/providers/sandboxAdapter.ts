@@ -0,0 +1,83 @@
+import { sandboxService } from '../sandboxservice';
+import { verifySandboxWebhook } from '../webhookSignatures/sandbox';
+import {
+  Money,
+  PaymentProviderAdapter,
+  SandboxScenario,
+  UnifiedPaymentRequest,
+  UnifiedPaymentResponse,
+} from '@/types/payment';
+
+const SCENARIOS: SandboxScenario[] = ['manual', 'success', 'decline', 'expire', 'refund_rejected'];
+
+// Local stand-in provider for development. The outcome of a payment can be scripted
+// with `metadata.sandbox_scenario`; by default the checkout page asks for it.
+export const sandboxAdapter: PaymentProviderAdapter = {
+  id: 'sandbox',
+  name: 'Sandbox',
+  requiresCapture: true,
+  hostedCheckout: true,
+
+  isConfigured: () => sandboxService.isConfigured(),
+
+  // The local stand-in never moves real money
+  getMode: () => 'test',
+
+  probe: () => sandboxService.ping(),
+
+  validateRequest(request: UnifiedPaymentRequest): string[] {
+    const scenario = request.metadata?.sandbox_scenario;
+    if (scenario !== undefined && !SCENARIOS.includes(scenario as SandboxScenario)) {
+      return [`Sandbox scenario must be one of: ${SCENARIOS.join(', ')}`];
+    }
+    return [];
+  },
+
+  async createPayment(request: UnifiedPaymentRequest): Promise<UnifiedPaymentResponse> {
+    const response = await sandboxService.createPayment({
+      order_id: request.order_id,
+      amount: request.amount,
+      currency: request.currency,
+      customer_email: request.customer?.email,
+      scenario: request.metadata?.sandbox_scenario as SandboxScenario | undefined,
+    });
+
+    return {
+      provider: 'sandbox',
+      payment_id: response.payment.id,
+      checkout_url: response.checkout_url,
+      status: sandboxService.mapSandboxStatusToPaymentStatus(response.payment.status),
+      metadata: {
+        order_id: request.order_id,
+        scenario: response.payment.scenario,
+      },
+    };
+  },
+
+  getPaymentStatus: (paymentId: string) => sandboxService.getPaymentStatus(paymentId),
+
+  async capturePayment(paymentId: string, amount?: Money): Promise<Record<string, unknown>> {
+    if (!amount) {
+      throw new Error('Amount is required for sandbox payment capture');
+    }
+    return { ...await sandboxService.capturePayment(paymentId, amount) };
+  },
+
+  async refundPayment(paymentId: string, amount?: Money): Promise<Record<string, unknown>> {
+    const refund = await sandboxService.refundPayment(paymentId, amount);
+    if (refund.status === 'rejected') {
+      throw new Error(`Sandbox refund ${refund.id} was rejected`);
+    }
+    return { ...refund };
+  },
+
+  async cancelPayment(paymentId: string): Promise<Record<string, unknown>> {
+    return { ...await sandboxService.cancelPayment(paymentId) };
+  },
+
+  verifyWebhook: async (payload: string, signature: string) => verifySandboxWebhook(payload, signature),
+
+  mapStatus: (providerStatus: string) => sandboxService.mapSandboxStatusToPaymentStatus(providerStatus),
+
+  getRefundId: (response) => response.id as string | undefined,
+};
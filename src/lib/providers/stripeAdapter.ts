@@ -0,0 +1,69 @@
+import { stripeService } from '../stripeservice';
+import { verifyStripeWebhook } from '../webhookSignatures/stripe';
+import {
+  Money,
+  PaymentProviderAdapter,
+  StripePaymentIntentRequest,
+  UnifiedPaymentRequest,
+  UnifiedPaymentResponse,
+} from '@/types/payment';
+
+export const stripeAdapter: PaymentProviderAdapter = {
+  id: 'stripe',
+  name: 'Stripe',
+  requiresCapture: false,
+  hostedCheckout: false,
+
+  isConfigured: () => stripeService.isConfigured(),
+
+  getMode: () => stripeService.getMode(),
+
+  probe: () => stripeService.ping(),
+
+  async createPayment(request: UnifiedPaymentRequest): Promise<UnifiedPaymentResponse> {
+    const stripeRequest: StripePaymentIntentRequest = {
+      amount: request.amount,
+      currency: request.currency,
+      customer_id: request.customer?.id,
+      metadata: {
+        ...request.metadata,
+        order_id: request.order_id,
+        customer_email: request.customer?.email || '',
+      },
+    };
+
+    const response = await stripeService.createPaymentIntent(stripeRequest);
+
+    return {
+      provider: 'stripe',
+      payment_id: response.payment_intent_id,
+      client_secret: response.client_secret,
+      status: stripeService.mapStripeStatusToPaymentStatus(response.status),
+      metadata: {
+        order_id: request.order_id,
+      },
+    };
+  },
+
+  getPaymentStatus: (paymentId: string) => stripeService.getPaymentStatus(paymentId),
+
+  async capturePayment(paymentId: string): Promise<Record<string, unknown>> {
+    // Stripe payments are automatically captured by default
+    const paymentIntent = await stripeService.retrievePaymentIntent(paymentId);
+    return paymentIntent as unknown as Record<string, unknown>;
+  },
+
+  async refundPayment(paymentId: string, amount?: Money): Promise<Record<string, unknown>> {
+    return await stripeService.createRefund(paymentId, amount) as unknown as Record<string, unknown>;
+  },
+
+  async cancelPayment(paymentId: string): Promise<Record<string, unknown>> {
+    return await stripeService.cancelPaymentIntent(paymentId) as unknown as Record<string, unknown>;
+  },
+
+  verifyWebhook: async (payload: string, signature: string) => verifyStripeWebhook(payload, signature),
+
+  mapStatus: (providerStatus: string) => stripeService.mapStripeStatusToPaymentStatus(providerStatus),
+
+  getRefundId: (response) => response.id as string | undefined,
+};
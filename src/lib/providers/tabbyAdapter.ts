@@ -0,0 +1,103 @@
+import { tabbyService } from '../tabbyservice';
+import { verifyTabbyWebhook } from '../webhookSignatures/tabby';
+import { toDecimalString } from '../money';
+import {
+  BnplEligibilityRequest,
+  Money,
+  PaymentProviderAdapter,
+  TabbyPaymentRequest,
+  UnifiedPaymentRequest,
+  UnifiedPaymentResponse,
+} from '@/types/payment';
+
+export const tabbyAdapter: PaymentProviderAdapter = {
+  id: 'tabby',
+  name: 'Tabby',
+  requiresCapture: true,
+  hostedCheckout: true,
+
+  isConfigured: () => tabbyService.isConfigured(),
+
+  getMode: () => tabbyService.getMode(),
+
+  probe: () => tabbyService.ping(),
+
+  validateRequest(request: UnifiedPaymentRequest): string[] {
+    const errors: string[] = [];
+    if (!request.items || request.items.length === 0) {
+      errors.push('Items are required for Tabby payments');
+    }
+    if (!request.customer?.phone) {
+      errors.push('Customer phone is required for Tabby payments');
+    }
+    return errors;
+  },
+
+  async createPayment(request: UnifiedPaymentRequest): Promise<UnifiedPaymentResponse> {
+    if (!request.customer || !request.items) {
+      throw new Error('Tabby requires customer and items information');
+    }
+
+    const tabbyRequest: TabbyPaymentRequest = {
+      amount: toDecimalString({ amount: request.amount, currency: request.currency }),
+      currency: request.currency,
+      buyer: {
+        phone: request.customer.phone,
+        email: request.customer.email,
+        name: request.customer.name,
+      },
+      order: {
+        reference_id: request.order_id,
+        items: request.items.map(item => ({
+          title: item.name,
+          quantity: item.quantity,
+          unit_price: toDecimalString({ amount: item.unit_price, currency: request.currency }),
+          category: item.category || 'general',
+        })),
+      },
+      merchant_code: process.env.TABBY_MERCHANT_CODE || '',
+    };
+
+    const response = await tabbyService.createPayment(tabbyRequest);
+
+    return {
+      provider: 'tabby',
+      payment_id: response.payment.id,
+      checkout_url: response.configuration.available_products.installments[0]?.web_url,
+      status: tabbyService.mapTabbyStatusToPaymentStatus(response.payment.status),
+      metadata: {
+        order_id: request.order_id,
+      },
+    };
+  },
+
+  getPaymentStatus: (paymentId: string) => tabbyService.getPaymentStatus(paymentId),
+
+  async capturePayment(paymentId: string, amount?: Money): Promise<Record<string, unknown>> {
+    if (!amount) {
+      throw new Error('Amount is required for Tabby payment capture');
+    }
+    return await tabbyService.capturePayment(paymentId, toDecimalString(amount));
+  },
+
+  async refundPayment(paymentId: string, amount?: Money): Promise<Record<string, unknown>> {
+    if (!amount) {
+      throw new Error('Amount is required for Tabby refund');
+    }
+    return await tabbyService.refundPayment(paymentId, toDecimalString(amount));
+  },
+
+  cancelPayment: (paymentId: string) => tabbyService.closePayment(paymentId),
+
+  verifyWebhook: async (payload: string, signature: string) => verifyTabbyWebhook(payload, signature),
+
+  checkEligibility: (request: BnplEligibilityRequest) => tabbyService.checkEligibility(request),
+
+  mapStatus: (providerStatus: string) => tabbyService.mapTabbyStatusToPaymentStatus(providerStatus),
+
+  // The refund response is the updated payment, with the new refund last
+  getRefundId(response) {
+    const refunds = response.refunds as Array<{ id: string }> | undefined;
+    return refunds?.[refunds.length - 1]?.id;
+  },
+};
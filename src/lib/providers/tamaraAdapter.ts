@@ -0,0 +1,121 @@
+import { tamaraService } from '../tamaraservice';
+import { verifyTamaraWebhook } from '../webhookSignatures/tamara';
+import { roundAmount } from '../money';
+import {
+  BnplEligibilityRequest,
+  Money,
+  PaymentProviderAdapter,
+  TamaraCheckoutRequest,
+  UnifiedPaymentRequest,
+  UnifiedPaymentResponse,
+} from '@/types/payment';
+
+export const tamaraAdapter: PaymentProviderAdapter = {
+  id: 'tamara',
+  name: 'Tamara',
+  requiresCapture: true,
+  hostedCheckout: true,
+
+  isConfigured: () => tamaraService.isConfigured(),
+
+  getMode: () => tamaraService.getMode(),
+
+  probe: () => tamaraService.ping(),
+
+  validateRequest(request: UnifiedPaymentRequest): string[] {
+    const errors: string[] = [];
+    if (!request.items || request.items.length === 0) {
+      errors.push('Items are required for Tamara payments');
+    }
+    if (!request.shipping_address) {
+      errors.push('Shipping address is required for Tamara payments');
+    }
+    return errors;
+  },
+
+  async createPayment(request: UnifiedPaymentRequest): Promise<UnifiedPaymentResponse> {
+    if (!request.customer || !request.items || !request.shipping_address) {
+      throw new Error('Tamara requires customer, items, and shipping address information');
+    }
+
+    const tamaraRequest: TamaraCheckoutRequest = {
+      total_amount: {
+        amount: request.amount,
+        currency: request.currency,
+      },
+      consumer: {
+        first_name: request.customer.first_name || request.customer.name.split(' ')[0] || '',
+        last_name: request.customer.last_name || request.customer.name.split(' ').slice(1).join(' ') || '',
+        phone_number: request.customer.phone,
+        email: request.customer.email,
+      },
+      items: request.items.map(item => ({
+        name: item.name,
+        type: item.type || 'product',
+        reference_id: item.sku || `item-${Date.now()}`,
+        sku: item.sku || `sku-${Date.now()}`,
+        quantity: item.quantity,
+        unit_price: {
+          amount: item.unit_price,
+          currency: request.currency,
+        },
+        total_amount: {
+          amount: roundAmount(item.quantity * item.unit_price, request.currency),
+          currency: request.currency,
+        },
+      })),
+      shipping_address: request.shipping_address,
+      billing_address: request.shipping_address,
+      merchant_url: {
+        success: `${process.env.NEXT_PUBLIC_APP_URL}/payments/success?provider=tamara&order_id=${request.order_id}`,
+        failure: `${process.env.NEXT_PUBLIC_APP_URL}/payments/failure?provider=tamara&order_id=${request.order_id}`,
+        cancel: `${process.env.NEXT_PUBLIC_APP_URL}/payments/cancel?provider=tamara&order_id=${request.order_id}`,
+        notification: `${process.env.NEXT_PUBLIC_APP_URL}/api/payments/tamara/webhook`,
+      },
+    };
+
+    const response = await tamaraService.createCheckout(tamaraRequest);
+
+    return {
+      provider: 'tamara',
+      payment_id: response.order_id,
+      checkout_url: response.checkout_url,
+      status: 'pending',
+      metadata: {
+        order_id: request.order_id,
+        checkout_id: response.checkout_id,
+      },
+    };
+  },
+
+  getPaymentStatus: (paymentId: string) => tamaraService.getPaymentStatus(paymentId),
+
+  async capturePayment(paymentId: string, amount?: Money): Promise<Record<string, unknown>> {
+    if (!amount) {
+      throw new Error('Amount is required for Tamara payment capture');
+    }
+    return await tamaraService.capturePayment(paymentId, amount);
+  },
+
+  async refundPayment(paymentId: string, amount?: Money): Promise<Record<string, unknown>> {
+    if (!amount) {
+      throw new Error('Amount is required for Tamara refund');
+    }
+    return await tamaraService.refundPayment(paymentId, amount);
+  },
+
+  async cancelPayment(paymentId: string, amount?: Money): Promise<Record<string, unknown>> {
+    if (!amount) {
+      throw new Error('Amount is required for Tamara cancellation');
+    }
+    return await tamaraService.cancelOrder(paymentId, amount);
+  },
+
+  verifyWebhook: async (payload: string, signature: string) => verifyTamaraWebhook(payload, signature),
+
+  checkEligibility: (request: BnplEligibilityRequest) => tamaraService.checkEligibility(request),
+
+  mapStatus: (providerStatus: string) => tamaraService.mapTamaraStatusToPaymentStatus(providerStatus),
+
+  getRefundId: (response) => response.refund_id as string | undefined,
+};
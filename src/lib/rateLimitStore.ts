@@ -0,0 +1,179 @@
+import net from 'net';
+
+export interface RateLimitHit {
+  count: number;
+  resetAt: number;
+}
+
+// Counts requests per key in fixed windows. The window starts with the first hit
+// on a key and the count resets once it has passed.
+export interface RateLimitStore {
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+// Per-process store. Every server instance keeps its own counts, so use the Redis
+// store when the app runs on more than one instance.
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, RateLimitHit>();
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+
+    // Windows are kept in the order they started. Expired ones are dropped from the front,
+    // stopping at the first that is still running, so a hit does not scan every key.
+    for (const [windowKey, window] of this.windows) {
+      if (window.resetAt > now) {
+        break;
+      }
+      this.windows.delete(windowKey);
+    }
+
+    const current = this.windows.get(key);
+    if (!current || current.resetAt <= now) {
+      // Re-inserted so that the new window moves to the back
+      this.windows.delete(key);
+      const window = { count: 1, resetAt: now + windowMs };
+      this.windows.set(key, window);
+      return { ...window };
+    }
+
+    current.count++;
+    return { ...current };
+  }
+}
+
+type RespValue = string | number | null | RespValue[];
+
+const encodeCommand = (args: string[]): string =>
+  `*${args.length}\r\n` + args.map(arg => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join('');
+
+// Parse one RESP reply from the start of the buffer. Returns null when the buffer
+// does not hold a complete reply yet.
+const parseReply = (buffer: Buffer, offset = 0): { value: RespValue; next: number } | null => {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+
+  switch (type) {
+    case '+':
+      return { value: line, next: lineEnd + 2 };
+    case '-':
+      throw new Error(`Redis error: ${line}`);
+    case ':':
+      return { value: parseInt(line, 10), next: lineEnd + 2 };
+    case '$': {
+      const length = parseInt(line, 10);
+      if (length === -1) return { value: null, next: lineEnd + 2 };
+      const end = lineEnd + 2 + length;
+      if (buffer.length < end + 2) return null;
+      return { value: buffer.toString('utf8', lineEnd + 2, end), next: end + 2 };
+    }
+    case '*': {
+      const length = parseInt(line, 10);
+      if (length === -1) return { value: null, next: lineEnd + 2 };
+      const items: RespValue[] = [];
+      let next = lineEnd + 2;
+      for (let i = 0; i < length; i++) {
+        const item = parseReply(buffer, next);
+        if (!item) return null;
+        items.push(item.value);
+        next = item.next;
+      }
+      return { value: items, next };
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type: ${type}`);
+  }
+};
+
+// Shared store on Redis, or on the local stand-in in scripts/redis-standin.js. Each
+// hit opens a short-lived connection and runs one MULTI/EXEC block, so the window
+// expiry and the increment are applied together.
+export class RedisRateLimitStore implements RateLimitStore {
+  private host: string;
+  private port: number;
+  private password: string | null;
+  private keyPrefix = 'ratelimit:';
+
+  constructor(url: string, private timeoutMs = 1000) {
+    const parsed = new URL(url);
+    this.host = parsed.hostname || 'localhost';
+    this.port = parseInt(parsed.port || '6379', 10);
+    this.password = parsed.password ? decodeURIComponent(parsed.password) : null;
+  }
+
+  private send(commands: string[][]): Promise<RespValue[]> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host: this.host, port: this.port });
+      let buffer = Buffer.alloc(0);
+
+      socket.setTimeout(this.timeoutMs, () => {
+        socket.destroy(new Error('Redis request timed out'));
+      });
+      socket.on('error', reject);
+      socket.on('connect', () => {
+        socket.write(commands.map(encodeCommand).join(''));
+      });
+      socket.on('data', chunk => {
+        buffer = Buffer.concat([buffer, chunk]);
+        try {
+          const replies: RespValue[] = [];
+          let offset = 0;
+          while (replies.length < commands.length) {
+            const reply = parseReply(buffer, offset);
+            if (!reply) return;
+            replies.push(reply.value);
+            offset = reply.next;
+          }
+          socket.end();
+          resolve(replies);
+        } catch (error) {
+          socket.destroy();
+          reject(error);
+        }
+      });
+    });
+  }
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const redisKey = this.keyPrefix + key;
+    const commands = [
+      ['MULTI'],
+      ['SET', redisKey, '0', 'PX', String(windowMs), 'NX'],
+      ['INCR', redisKey],
+      ['PTTL', redisKey],
+      ['EXEC'],
+    ];
+    if (this.password) {
+      commands.unshift(['AUTH', this.password]);
+    }
+
+    const replies = await this.send(commands);
+    const results = replies[replies.length - 1];
+    if (!Array.isArray(results)) {
+      throw new Error('Redis transaction was aborted');
+    }
+
+    const count = Number(results[1]);
+    const ttl = Number(results[2]);
+    return { count, resetAt: Date.now() + (ttl > 0 ? ttl : windowMs) };
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+// Store used by the API route wrapper: Redis when RATE_LIMIT_REDIS_URL is set,
+// otherwise in memory
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    const redisUrl = process.env.RATE_LIMIT_REDIS_URL;
+    store = redisUrl ? new RedisRateLimitStore(redisUrl) : new MemoryRateLimitStore();
+  }
+  return store;
+}
+
+export function setRateLimitStore(custom: RateLimitStore): void {
+  store = custom;
+}
@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { RefundTotals, settleRefund } from './refundSettlement';
+
+const empty: RefundTotals = { amount_refunded: 0, refund_pending: 0, refunds: {} };
+
+// What reserveRefund adds before the provider is asked
+const reserve = (totals: RefundTotals, amount: number): RefundTotals => ({
+  ...totals,
+  refund_pending: totals.refund_pending + amount,
+});
+
+describe('settleRefund', () => {
+  it('counts two partial refunds once when each webhook arrives after the admin route', () => {
+    let totals = reserve(empty, 30);
+    totals = settleRefund(totals, 'SAR', { amount: 30, id: 'rf_1', reserved: true });
+    totals = reserve(totals, 20.5);
+    totals = settleRefund(totals, 'SAR', { amount: 20.5, id: 'rf_2', reserved: true });
+
+    totals = settleRefund(totals, 'SAR', { amount: 30, id: 'rf_1', reserved: false });
+    totals = settleRefund(totals, 'SAR', { amount: 20.5, id: 'rf_2', reserved: false });
+
+    assert.deepEqual(totals, { amount_refunded: 50.5, refund_pending: 0, refunds: { rf_1: 30, rf_2: 20.5 } });
+  });
+
+  it('counts a refund once and releases its reservation when the webhook arrives first', () => {
+    let totals = reserve(empty, 40);
+    totals = settleRefund(totals, 'SAR', { amount: 40, id: 'rf_1', reserved: false });
+    assert.deepEqual(totals, { amount_refunded: 40, refund_pending: 40, refunds: { rf_1: 40 } });
+
+    totals = settleRefund(totals, 'SAR', { amount: 40, id: 'rf_1', reserved: true });
+    assert.deepEqual(totals, { amount_refunded: 40, refund_pending: 0, refunds: { rf_1: 40 } });
+  });
+
+  it('counts a refund made at the provider that was never reserved', () => {
+    const totals = settleRefund(reserve(empty, 10), 'SAR', { amount: 25, id: 'rf_ext', reserved: false });
+    assert.deepEqual(totals, { amount_refunded: 25, refund_pending: 10, refunds: { rf_ext: 25 } });
+  });
+
+  it('counts refunds without a provider ID every time', () => {
+    let totals = settleRefund(reserve(empty, 5), 'SAR', { amount: 5, reserved: true });
+    totals = settleRefund(reserve(totals, 5), 'SAR', { amount: 5, reserved: true });
+    assert.deepEqual(totals, { amount_refunded: 10, refund_pending: 0, refunds: {} });
+  });
+});
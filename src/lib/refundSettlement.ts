@@ -0,0 +1,36 @@
+import { addMoney, subtractMoney } from './money';
+
+// The refund totals of a ledger entry
+export interface RefundTotals {
+  amount_refunded: number;
+  refund_pending: number;
+  // Provider refund IDs already counted in amount_refunded, with their amounts
+  refunds: Record<string, number>;
+}
+
+export interface SettledRefund {
+  amount: number;
+  id?: string;
+  // Whether the amount was set aside with reserveRefund and is still in refund_pending
+  reserved: boolean;
+}
+
+// Count a refund the provider has accepted. The same refund can be reported twice, once by
+// the route that requested it and once by the provider's webhook, in either order, so a
+// refund whose ID was already counted only gives back its reservation.
+export const settleRefund = (totals: RefundTotals, currency: string, refund: SettledRefund): RefundTotals => {
+  const amount = { amount: refund.amount, currency };
+  const counted = refund.id !== undefined && totals.refunds[refund.id] !== undefined;
+
+  return {
+    amount_refunded: counted
+      ? totals.amount_refunded
+      : addMoney({ amount: totals.amount_refunded, currency }, amount).amount,
+    refund_pending: refund.reserved
+      ? Math.max(0, subtractMoney({ amount: totals.refund_pending, currency }, amount).amount)
+      : totals.refund_pending,
+    refunds: refund.id !== undefined && !counted
+      ? { ...totals.refunds, [refund.id]: refund.amount }
+      : totals.refunds,
+  };
+};
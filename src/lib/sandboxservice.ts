@@ -0,0 +1,127 @@
+import axios, { AxiosInstance } from 'axios';
+import { Money, PaymentStatus, SandboxPayment, SandboxRefund, SandboxScenario } from '@/types/payment';
+
+interface SandboxPaymentRequest {
+  order_id: string;
+  amount: number;
+  currency: string;
+  customer_email?: string;
+  scenario?: SandboxScenario;
+}
+
+interface SandboxPaymentResponse {
+  payment: SandboxPayment;
+  checkout_url: string;
+}
+
+// Client for the local stand-in provider in scripts/sandbox-provider.js. It mimics a
+// hosted checkout and sends signed webhooks, so the whole payment flow can be
+// exercised without real provider keys. It is never enabled in production.
+class SandboxService {
+  private client: AxiosInstance | null = null;
+  private apiKey: string | null = null;
+  private baseUrl: string | null = null;
+
+  constructor() {
+    this.baseUrl = process.env.SANDBOX_PROVIDER_URL || null;
+    this.apiKey = process.env.SANDBOX_API_KEY || 'sandbox_secret_key';
+
+    if (this.baseUrl && process.env.NODE_ENV !== 'production') {
+      this.client = axios.create({
+        baseURL: this.baseUrl,
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        timeout: 10000,
+      });
+    }
+  }
+
+  private ensureClientInitialized(): AxiosInstance {
+    if (!this.client) {
+      throw new Error('Sandbox provider is not configured. Set SANDBOX_PROVIDER_URL to the local sandbox server.');
+    }
+    return this.client;
+  }
+
+  private async request<T>(action: string, call: (client: AxiosInstance) => Promise<{ data: T }>): Promise<T> {
+    const client = this.ensureClientInitialized();
+
+    try {
+      const response = await call(client);
+      return response.data;
+    } catch (error) {
+      console.error(`Sandbox ${action} failed:`, error);
+      if (axios.isAxiosError(error)) {
+        throw new Error(`Sandbox ${action} failed: ${error.response?.data?.error || error.message}`);
+      }
+      throw new Error(`Sandbox ${action} failed: Unknown error`);
+    }
+  }
+
+  async createPayment(request: SandboxPaymentRequest): Promise<SandboxPaymentResponse> {
+    return this.request('payment creation', client => client.post('/v1/payments', {
+      ...request,
+      success_url: `${process.env.NEXT_PUBLIC_APP_URL}/payments/success?provider=sandbox&order_id=${request.order_id}`,
+      failure_url: `${process.env.NEXT_PUBLIC_APP_URL}/payments/failure?provider=sandbox&order_id=${request.order_id}`,
+      webhook_url: `${process.env.NEXT_PUBLIC_APP_URL}/api/payments/sandbox/webhook`,
+    }));
+  }
+
+  async getPayment(paymentId: string): Promise<SandboxPayment> {
+    return this.request('payment lookup', client => client.get(`/v1/payments/${paymentId}`));
+  }
+
+  async capturePayment(paymentId: string, amount: Money): Promise<SandboxPayment> {
+    return this.request('capture', client => client.post(`/v1/payments/${paymentId}/capture`, amount));
+  }
+
+  async refundPayment(paymentId: string, amount?: Money): Promise<SandboxRefund> {
+    return this.request('refund', client => client.post(`/v1/payments/${paymentId}/refunds`, amount || {}));
+  }
+
+  async cancelPayment(paymentId: string): Promise<SandboxPayment> {
+    return this.request('cancellation', client => client.post(`/v1/payments/${paymentId}/cancel`));
+  }
+
+  mapSandboxStatusToPaymentStatus(sandboxStatus: string): PaymentStatus {
+    switch (sandboxStatus.toLowerCase()) {
+      case 'created':
+      case 'authorized':
+        return 'pending';
+      case 'captured':
+        return 'completed';
+      case 'cancelled':
+        return 'cancelled';
+      case 'declined':
+      case 'expired':
+        return 'failed';
+      case 'refunded':
+        return 'refunded';
+      default:
+        return 'processing';
+    }
+  }
+
+  async getPaymentStatus(paymentId: string): Promise<PaymentStatus> {
+    try {
+      const payment = await this.getPayment(paymentId);
+      return this.mapSandboxStatusToPaymentStatus(payment.status);
+    } catch (error) {
+      console.error('Failed to get sandbox payment status:', error);
+      throw error;
+    }
+  }
+
+  isConfigured(): boolean {
+    return !!this.client;
+  }
+
+  async ping(): Promise<void> {
+    await this.request('ping', client => client.get('/v1/ping'));
+  }
+}
+
+export const sandboxService = new SandboxService();
+export default sandboxService;
@@ -1,114 +1,13 @@
 import crypto from 'crypto';
 import { z } from 'zod';
+import { getCurrencyExponent, hasValidPrecision } from './money';
+import { recordSecurityEvent } from './securityEventStore';
+import { SecurityEventContext, SecurityEventSeverity } from '@/types/security';
 
 /**
  * Security utilities for payment processing
  */
 export class PaymentSecurity {
-  /**
-   * Verify webhook signature
-   */
-  static verifyWebhookSignature(
-    payload: string,
-    signature: string,
-    secret: string
-  ): Record<string, unknown> {
-    try {
-      const elements = signature.split(',');
-      const signatureElements: { [key: string]: string } = {};
-
-      elements.forEach((element) => {
-        const [key, value] = element.split('=');
-        signatureElements[key] = value;
-      });
-
-      const timestamp = signatureElements.t;
-      const signatures = [
-        signatureElements.v1,
-        signatureElements.v0,
-      ].filter(Boolean);
-
-      if (!timestamp || signatures.length === 0) {
-        return false;
-      }
-
-      // Check timestamp (prevent replay attacks)
-      const timestampNumber = parseInt(timestamp, 10);
-      const currentTime = Math.floor(Date.now() / 1000);
-      const tolerance = 300; // 5 minutes
-
-      if (Math.abs(currentTime - timestampNumber) > tolerance) {
-        console.error('Stripe webhook timestamp too old');
-        return false;
-      }
-
-      // Verify signature
-      const payloadForSignature = `${timestamp}.${payload}`;
-      const expectedSignature = crypto
-        .createHmac('sha256', secret)
-        .update(payloadForSignature)
-        .digest('hex');
-
-      return signatures.some((sig) => {
-        return crypto.timingSafeEqual(
-          Buffer.from(expectedSignature, 'hex'),
-          Buffer.from(sig, 'hex')
-        );
-      });
-    } catch (error) {
-      console.error('Stripe signature verification failed:', error);
-      return false;
-    }
-  }
-
-  /**
-   * Verify Tamara webhook signature
-   */
-  static verifyTamaraSignature(
-    payload: string,
-    signature: string,
-    secret: string
-  ): boolean {
-    try {
-      const expectedSignature = crypto
-        .createHmac('sha256', secret)
-        .update(payload)
-        .digest('hex');
-
-      return crypto.timingSafeEqual(
-        Buffer.from(signature, 'hex'),
-        Buffer.from(expectedSignature, 'hex')
-      );
-    } catch (error) {
-      console.error('Tamara signature verification failed:', error);
-      return false;
-    }
-  }
-
-  /**
-   * Verify Tabby webhook signature
-   */
-  static verifyTabbySignature(
-    payload: string,
-    signature: string,
-    secret: string
-  ): boolean {
-    try {
-      const expectedSignature = crypto
-        .createHmac('sha256', secret)
-        .update(payload)
-        .digest('base64');
-
-      return crypto.timingSafeEqual(
-        Buffer.from(signature),
-        Buffer.from(expectedSignature)
-      );
-    } catch (error) {
-      console.error('Tabby signature verification failed:', error);
-      return false;
-    }
-  }
-
   /**
    * Sanitize and validate payment amount
    */
@@ -124,6 +23,7 @@ export class PaymentSecurity {
       AED: 100000, // 100,000 AED
       USD: 25000,  // 25,000 USD
       EUR: 25000,  // 25,000 EUR
+      KWD: 8000,   // 8,000 KWD
     };
 
     const maxAmount = maxAmounts[currency.toUpperCase()] || 25000;
@@ -131,10 +31,9 @@ export class PaymentSecurity {
       throw new Error(`Payment amount exceeds maximum limit for ${currency}`);
     }
 
-    // Check for decimal precision (max 2 decimal places)
-    const decimalPlaces = (amount.toString().split('.')[1] || '').length;
-    if (decimalPlaces > 2) {
-      throw new Error('Payment amount cannot have more than 2 decimal places');
+    // Check for decimal precision (e.g. 2 decimal places for SAR, 3 for KWD)
+    if (!hasValidPrecision(amount, currency)) {
+      throw new Error(`Payment amount cannot have more than ${getCurrencyExponent(currency)} decimal places for ${currency}`);
     }
 
     return true;
@@ -273,6 +172,24 @@ export class PaymentSecurity {
     return true;
   }
 
+  /**
+   * Client IP address as reported by the proxies in front of the app. Each proxy appends the
+   * address it received the request from to X-Forwarded-For, so only the entries added by our
+   * own proxies can be trusted; anything to their left was sent by the client.
+   * TRUSTED_PROXY_COUNT is the number of those proxies (1 by default, e.g. Vercel or a load balancer).
+   */
+  static getClientIp(request: Request): string {
+    const forwardedFor = (request.headers.get('x-forwarded-for') || '')
+      .split(',')
+      .map(address => address.trim())
+      .filter(Boolean);
+    if (forwardedFor.length > 0) {
+      const trustedProxies = Math.max(1, parseInt(process.env.TRUSTED_PROXY_COUNT || '1', 10) || 1);
+      return forwardedFor[Math.max(0, forwardedFor.length - trustedProxies)];
+    }
+    return request.headers.get('x-real-ip') || 'unknown';
+  }
+
   /**
    * Mask sensitive data for logging
    */
@@ -293,6 +210,10 @@ export class PaymentSecurity {
       return data;
     }
 
+    if (Array.isArray(data)) {
+      return data.map(item => this.maskSensitiveData(item));
+    }
+
     const masked = { ...data };
 
     for (const [key, value] of Object.entries(masked)) {
@@ -322,21 +243,39 @@ export class PaymentSecurity {
   }
 
   /**
-   * Log security events
+   * Log a security event and append it to the `securityEvents` audit log.
+   * A failure to store the event is logged but never thrown.
    */
-  static logSecurityEvent(
+  static async logSecurityEvent(
     event: string,
     details: unknown,
-    severity: 'low' | 'medium' | 'high' = 'medium'
-  ): void {
+    severity: SecurityEventSeverity = 'medium',
+    context: SecurityEventContext = {}
+  ): Promise<void> {
+    const maskedDetails = this.maskSensitiveData(details);
     const logEntry = {
       timestamp: new Date().toISOString(),
       event,
       severity,
-      details: this.maskSensitiveData(details),
+      actor: context.actor || null,
+      ip: context.ip || null,
+      details: maskedDetails,
     };
 
-    // In production, send to security monitoring service
     console.log('Security Event:', JSON.stringify(logEntry, null, 2));
+
+    try {
+      await recordSecurityEvent({
+        event,
+        severity,
+        actor: logEntry.actor,
+        ip: logEntry.ip,
+        details: typeof maskedDetails === 'object' && maskedDetails !== null
+          ? maskedDetails as Record<string, unknown>
+          : { value: maskedDetails },
+      });
+    } catch (error) {
+      console.error('Failed to store security event:', error);
+    }
   }
 }
\ No newline at end of file
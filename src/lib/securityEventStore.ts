@@ -0,0 +1,103 @@
+import {
+  collection,
+  addDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  Timestamp,
+  DocumentData
+} from 'firebase/firestore';
+import { getServerDb } from './firebaseServer';
+import { SecurityEvent, SecurityEventFilter } from '@/types/security';
+
+// Events are only ever added to this collection, never updated or deleted
+const SECURITY_EVENTS_COLLECTION = 'securityEvents';
+
+const CSV_COLUMNS = ['created_at', 'event', 'severity', 'actor', 'ip', 'details'] as const;
+
+// Convert a Firestore document into a SecurityEvent
+const toSecurityEvent = (id: string, data: DocumentData): SecurityEvent => ({
+  id,
+  event: data.event,
+  severity: data.severity,
+  actor: data.actor || null,
+  ip: data.ip || null,
+  details: data.details || {},
+  created_at: data.created_at?.toDate() || new Date(),
+});
+
+// Append an event. Details must already be masked.
+export const recordSecurityEvent = async (event: Omit<SecurityEvent, 'id' | 'created_at'>): Promise<string> => {
+  try {
+    const ref = await addDoc(collection(await getServerDb(), SECURITY_EVENTS_COLLECTION), {
+      // Firestore rejects undefined values anywhere in the document
+      ...JSON.parse(JSON.stringify(event)),
+      created_at: Timestamp.now(),
+    });
+    return ref.id;
+  } catch (error) {
+    console.error('Error recording security event:', error);
+    throw error;
+  }
+};
+
+// List the most recent events, newest first
+export const listSecurityEvents = async (filter: SecurityEventFilter = {}, limitCount = 100): Promise<SecurityEvent[]> => {
+  try {
+    let q = query(
+      collection(await getServerDb(), SECURITY_EVENTS_COLLECTION),
+      orderBy('created_at', 'desc')
+    );
+
+    if (filter.event) {
+      q = query(q, where('event', '==', filter.event));
+    }
+
+    if (filter.severity) {
+      q = query(q, where('severity', '==', filter.severity));
+    }
+
+    if (filter.actor) {
+      q = query(q, where('actor', '==', filter.actor));
+    }
+
+    if (filter.from) {
+      q = query(q, where('created_at', '>=', Timestamp.fromDate(filter.from)));
+    }
+
+    if (filter.to) {
+      q = query(q, where('created_at', '<=', Timestamp.fromDate(filter.to)));
+    }
+
+    const querySnapshot = await getDocs(query(q, limit(limitCount)));
+    return querySnapshot.docs.map(eventDoc => toSecurityEvent(eventDoc.id, eventDoc.data()));
+  } catch (error) {
+    console.error('Error listing security events:', error);
+    throw error;
+  }
+};
+
+// One JSON object per line
+export const formatSecurityEventsAsJsonLines = (events: SecurityEvent[]): string =>
+  events.map(event => JSON.stringify({ ...event, created_at: event.created_at.toISOString() })).join('\n') + '\n';
+
+// Quote a CSV cell, and defuse values a spreadsheet would run as a formula
+const toCsvCell = (value: string): string => {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const formatSecurityEventsAsCsv = (events: SecurityEvent[]): string => {
+  const rows = events.map(event => [
+    event.created_at.toISOString(),
+    event.event,
+    event.severity,
+    event.actor || '',
+    event.ip || '',
+    JSON.stringify(event.details),
+  ].map(toCsvCell).join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
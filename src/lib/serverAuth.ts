@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { NextRequest } from 'next/server';
+import { doc, getDoc } from 'firebase/firestore';
+import { firebaseConfig } from './firebase';
+import { getServerDb } from './firebaseServer';
+import { PaymentSecurity } from './security';
+import { UserRole } from './auth';
+
+// Public certificates used to sign Firebase ID tokens
+const GOOGLE_CERTS_URL = 'https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com';
+
+export interface AuthenticatedUser {
+  uid: string;
+  email?: string;
+  role: UserRole['role'];
+}
+
+export interface AuthResult {
+  user: AuthenticatedUser | null;
+  error: string | null;
+  status: number;
+}
+
+interface IdTokenPayload {
+  sub: string;
+  aud: string;
+  iss: string;
+  exp: number;
+  iat: number;
+  email?: string;
+}
+
+let cachedCerts: { certs: Record<string, string>; expiresAt: number } | null = null;
+
+// Fetch Google's signing certificates, cached for as long as the response allows
+const getSigningCerts = async (): Promise<Record<string, string>> => {
+  if (cachedCerts && cachedCerts.expiresAt > Date.now()) {
+    return cachedCerts.certs;
+  }
+
+  const response = await axios.get<Record<string, string>>(GOOGLE_CERTS_URL, { timeout: 10000 });
+  const maxAge = /max-age=(\d+)/.exec(String(response.headers['cache-control'] || ''));
+  cachedCerts = {
+    certs: response.data,
+    expiresAt: Date.now() + (maxAge ? parseInt(maxAge[1], 10) * 1000 : 60 * 60 * 1000),
+  };
+
+  return cachedCerts.certs;
+};
+
+// Tokens from the Firebase Auth emulator are unsigned. They are only accepted when
+// FIREBASE_AUTH_EMULATOR_HOST is set, and never in production.
+const isAuthEmulatorEnabled = (): boolean =>
+  !!process.env.FIREBASE_AUTH_EMULATOR_HOST && process.env.NODE_ENV !== 'production';
+
+const decodeSegment = <T>(segment: string): T =>
+  JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+
+// Verify a Firebase ID token and return its claims
+export const verifyIdToken = async (idToken: string): Promise<IdTokenPayload> => {
+  const segments = idToken.split('.');
+  if (segments.length !== 3) {
+    throw new Error('Malformed ID token');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+  const header = decodeSegment<{ alg: string; kid?: string }>(encodedHeader);
+  const payload = decodeSegment<IdTokenPayload>(encodedPayload);
+
+  // Emulator tokens carry no signature to check
+  const isEmulatorToken = header.alg === 'none' && isAuthEmulatorEnabled();
+  if (!isEmulatorToken) {
+    if (header.alg !== 'RS256' || !header.kid) {
+      throw new Error('ID token has an unexpected signing algorithm');
+    }
+
+    const certs = await getSigningCerts();
+    const cert = certs[header.kid];
+    if (!cert) {
+      throw new Error('ID token was signed with an unknown key');
+    }
+
+    const validSignature = crypto
+      .createVerify('RSA-SHA256')
+      .update(`${encodedHeader}.${encodedPayload}`)
+      .verify(cert, Buffer.from(encodedSignature, 'base64url'));
+
+    if (!validSignature) {
+      throw new Error('ID token signature is invalid');
+    }
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const projectId = firebaseConfig.projectId;
+
+  if (payload.aud !== projectId || payload.iss !== `https://securetoken.google.com/${projectId}`) {
+    throw new Error('ID token was issued for a different project');
+  }
+
+  if (payload.exp <= now || payload.iat > now + 300) {
+    throw new Error('ID token has expired');
+  }
+
+  if (!payload.sub) {
+    throw new Error('ID token has no subject');
+  }
+
+  return payload;
+};
+
+// Authenticate the caller from the `Authorization: Bearer <ID token>` header and
+// optionally require one of the given roles from the `users` collection
+export const authenticateRequest = async (
+  request: NextRequest,
+  allowedRoles?: UserRole['role'][]
+): Promise<AuthResult> => {
+  const authorization = request.headers.get('authorization') || '';
+  const [scheme, idToken] = authorization.split(' ');
+
+  if (scheme !== 'Bearer' || !idToken) {
+    return { user: null, error: 'Authentication required', status: 401 };
+  }
+
+  let payload: IdTokenPayload;
+  try {
+    payload = await verifyIdToken(idToken);
+  } catch (error) {
+    console.error('ID token verification failed:', error);
+    await PaymentSecurity.logSecurityEvent('auth_token_rejected', {
+      path: new URL(request.url).pathname,
+      reason: error instanceof Error ? error.message : String(error),
+    }, 'low', { ip: PaymentSecurity.getClientIp(request) });
+    return { user: null, error: 'Invalid or expired authentication token', status: 401 };
+  }
+
+  try {
+    const userDoc = await getDoc(doc(await getServerDb(), 'users', payload.sub));
+    const role: UserRole['role'] = userDoc.exists() && userDoc.data().role === 'admin' ? 'admin' : 'user';
+    const user: AuthenticatedUser = { uid: payload.sub, email: payload.email, role };
+
+    if (allowedRoles && !allowedRoles.includes(role)) {
+      await PaymentSecurity.logSecurityEvent('access_denied', {
+        path: new URL(request.url).pathname,
+        method: request.method,
+        role,
+        required_roles: allowedRoles,
+      }, 'medium', { actor: payload.email || payload.sub, ip: PaymentSecurity.getClientIp(request) });
+      return { user: null, error: 'You do not have permission to perform this action', status: 403 };
+    }
+
+    return { user, error: null, status: 200 };
+  } catch (error) {
+    console.error('Error loading user role:', error);
+    return { user: null, error: 'Failed to load user role', status: 500 };
+  }
+};
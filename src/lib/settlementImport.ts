@@ -0,0 +1,388 @@
+import {
+  collection,
+  addDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  Timestamp,
+  DocumentData
+} from 'firebase/firestore';
+import { getServerDb } from './firebaseServer';
+import { findPaymentByProviderId, getPayment } from './paymentLedger';
+import { fromMinorUnits, roundAmount, toMinorUnits } from './money';
+import {
+  PaymentRecord,
+  SettlementImport,
+  SettlementLine,
+  SettlementLineType,
+  SettlementProvider,
+  SettlementTotals
+} from '@/types/payment';
+
+const SETTLEMENT_IMPORTS_COLLECTION = 'settlementImports';
+
+export const SETTLEMENT_PROVIDERS: SettlementProvider[] = ['stripe', 'tamara', 'tabby'];
+
+// Weekly reports are far smaller; the cap keeps an import within one Firestore document
+export const MAX_SETTLEMENT_ROWS = 2000;
+
+// Used when neither the report nor the ledger says which currency a line is in
+const DEFAULT_SETTLEMENT_CURRENCY = 'SAR';
+
+type SettlementField =
+  | 'payment_id'
+  | 'order_id'
+  | 'type'
+  | 'gross'
+  | 'fee'
+  | 'fee_tax'
+  | 'net'
+  | 'currency'
+  | 'settled_at'
+  | 'payout_id';
+
+// Column names each provider uses for a field, as normalized by toColumnKey.
+// The first one present in the file is used.
+const COLUMN_ALIASES: Record<SettlementProvider, Partial<Record<SettlementField, string[]>>> = {
+  // Itemized balance / payout reconciliation report from the Stripe Dashboard
+  stripe: {
+    payment_id: ['payment_intent_id', 'payment_intent'],
+    order_id: ['payment_metadata_order_id', 'metadata_order_id', 'order_id'],
+    type: ['reporting_category', 'type'],
+    gross: ['gross', 'amount'],
+    fee: ['fee', 'fees'],
+    net: ['net'],
+    currency: ['currency'],
+    settled_at: ['available_on_utc', 'available_on', 'created_utc', 'created'],
+    payout_id: ['automatic_payout_id', 'payout_id', 'transfer'],
+  },
+  // Tamara settlement report. Tamara's own order ID is our provider payment ID.
+  tamara: {
+    payment_id: ['tamara_order_id', 'order_id'],
+    order_id: ['order_reference_id', 'merchant_order_reference_id', 'order_reference'],
+    type: ['transaction_type', 'type'],
+    gross: ['order_amount', 'transaction_amount', 'gross_amount', 'amount'],
+    fee: ['merchant_fees', 'merchant_fee', 'fees', 'fee', 'commission'],
+    fee_tax: ['vat_on_fees', 'vat_on_fee', 'fee_vat'],
+    net: ['settlement_amount', 'net_amount', 'payout_amount', 'net'],
+    currency: ['currency'],
+    settled_at: ['settlement_date', 'settled_at', 'transaction_date', 'date'],
+    payout_id: ['settlement_id', 'payout_id', 'payout_reference'],
+  },
+  // Tabby payout report
+  tabby: {
+    payment_id: ['payment_id', 'tabby_payment_id', 'id'],
+    order_id: ['order_number', 'merchant_order_id', 'order_reference_id', 'reference_id', 'order_id'],
+    type: ['transaction_type', 'type'],
+    gross: ['order_amount', 'transaction_amount', 'gross_amount', 'amount'],
+    fee: ['merchant_fee', 'fees', 'fee', 'commission'],
+    fee_tax: ['vat_on_fee', 'vat_on_fees', 'fee_vat'],
+    net: ['net_amount', 'payout_amount', 'settlement_amount', 'net'],
+    currency: ['currency'],
+    settled_at: ['payout_date', 'settlement_date', 'transfer_date', 'date'],
+    payout_id: ['payout_id', 'transfer_id', 'settlement_id'],
+  },
+};
+
+export interface ImportSettlementInput {
+  provider: SettlementProvider;
+  file_name: string;
+  // Cell values of the report's first sheet, header row first
+  rows: unknown[][];
+  imported_by: string;
+}
+
+export interface SettlementImportResult {
+  settlementImport: SettlementImport | null;
+  error: string | null;
+  status: number;
+}
+
+interface ParsedSettlementReport {
+  lines: SettlementLine[];
+  skipped: number;
+}
+
+// "Payment Intent ID" -> "payment_intent_id", "payment_metadata[order_id]" -> "payment_metadata_order_id"
+const toColumnKey = (header: unknown): string =>
+  String(header ?? '').toLowerCase().trim().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+const toText = (value: unknown): string | undefined => {
+  const text = String(value ?? '').trim();
+  return text || undefined;
+};
+
+// Accepts numbers and strings such as "1,250.50", "SAR -12.00" or "(12.00)"
+const parseAmount = (value: unknown): number | null => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+
+  const text = String(value ?? '').trim();
+  const digits = text.replace(/[^0-9.]/g, '');
+  if (!digits || isNaN(Number(digits))) {
+    return null;
+  }
+
+  const negative = text.includes('-') || /^\(.*\)$/.test(text);
+  return negative ? -Number(digits) : Number(digits);
+};
+
+const parseDate = (value: unknown): Date | undefined => {
+  // Excel date serial numbers
+  if (typeof value === 'number') {
+    return value > 25000 && value < 100000 ? new Date(Math.round((value - 25569) * 86400 * 1000)) : undefined;
+  }
+
+  const text = toText(value);
+  if (!text) {
+    return undefined;
+  }
+
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+// Payout rows move the balance to the bank and are not part of the settled amounts
+const classifyLine = (type: string | undefined, gross: number): SettlementLineType | null => {
+  const value = (type || '').toLowerCase();
+
+  if (/payout|transfer/.test(value)) return null;
+  if (value.includes('refund')) return 'refund';
+  if (!value) return gross < 0 ? 'refund' : 'payment';
+  if (/charge|payment|capture|order|sale/.test(value)) return 'payment';
+  return 'other';
+};
+
+// Map the report's rows onto settlement lines, without looking at the ledger yet.
+// When a report has both gross and net, the fee is whatever the provider kept between
+// them, so VAT on fees and the report's sign conventions do not matter.
+export const parseSettlementRows = (provider: SettlementProvider, rows: unknown[][]): ParsedSettlementReport => {
+  const [headerRow = [], ...dataRows] = rows;
+  const headers = headerRow.map(toColumnKey);
+  const aliases = COLUMN_ALIASES[provider];
+
+  const columns = {} as Partial<Record<SettlementField, number>>;
+  for (const [field, names] of Object.entries(aliases) as [SettlementField, string[]][]) {
+    const name = names.find(candidate => headers.includes(candidate));
+    if (name) {
+      columns[field] = headers.indexOf(name);
+    }
+  }
+
+  if (columns.gross === undefined && columns.net === undefined) {
+    throw new Error(`No amount column found. Is this a ${provider} settlement report?`);
+  }
+
+  if (columns.payment_id === undefined && columns.order_id === undefined) {
+    throw new Error(`No payment or order ID column found. Is this a ${provider} settlement report?`);
+  }
+
+  const cell = (row: unknown[], field: SettlementField): unknown =>
+    columns[field] === undefined ? undefined : row[columns[field]!];
+
+  const lines: SettlementLine[] = [];
+  let skipped = 0;
+
+  dataRows.forEach((row, index) => {
+    const gross = row ? parseAmount(cell(row, 'gross')) : null;
+    const net = row ? parseAmount(cell(row, 'net')) : null;
+    if (gross === null && net === null) {
+      skipped++;
+      return;
+    }
+
+    const type = classifyLine(toText(cell(row, 'type')), gross ?? net!);
+    if (!type) {
+      skipped++;
+      return;
+    }
+
+    const fees = Math.abs(parseAmount(cell(row, 'fee')) || 0) + Math.abs(parseAmount(cell(row, 'fee_tax')) || 0);
+    const currency = toText(cell(row, 'currency'))?.toUpperCase() || '';
+
+    lines.push({
+      row: index + 2,
+      type,
+      provider_payment_id: toText(cell(row, 'payment_id')),
+      order_id: toText(cell(row, 'order_id')),
+      gross: gross ?? (net! + fees),
+      fee: gross !== null && net !== null ? gross - net : fees,
+      net: net ?? (gross! - fees),
+      currency,
+      settled_at: parseDate(cell(row, 'settled_at')),
+      payout_id: toText(cell(row, 'payout_id')),
+    });
+  });
+
+  return { lines, skipped };
+};
+
+// Look a line up in the ledger by the provider's payment ID, then by our order ID
+const findLedgerEntry = async (provider: SettlementProvider, line: SettlementLine): Promise<PaymentRecord | null> => {
+  if (line.provider_payment_id) {
+    const payment = await findPaymentByProviderId(provider, line.provider_payment_id);
+    if (payment) {
+      return payment;
+    }
+  }
+
+  // Order IDs are document IDs, which cannot contain slashes
+  if (line.order_id && !line.order_id.includes('/')) {
+    const payment = await getPayment(line.order_id);
+    if (payment?.provider === provider) {
+      return payment;
+    }
+  }
+
+  return null;
+};
+
+// Attach the matching ledger entry, or the reason the line needs a look
+const matchLine = (line: SettlementLine, payment: PaymentRecord | null): SettlementLine => {
+  const currency = line.currency || payment?.currency?.toUpperCase() || DEFAULT_SETTLEMENT_CURRENCY;
+  const matched: SettlementLine = {
+    ...line,
+    currency,
+    gross: roundAmount(line.gross, currency),
+    fee: roundAmount(line.fee, currency),
+    net: roundAmount(line.net, currency),
+  };
+
+  if (!payment) {
+    matched.issue = line.provider_payment_id || line.order_id ? 'unmatched' : 'no_reference';
+    return matched;
+  }
+
+  matched.matched_order_id = payment.order_id;
+
+  const amountDiffers = currency !== payment.currency.toUpperCase() ||
+    toMinorUnits({ amount: matched.gross, currency }) !== toMinorUnits({ amount: payment.amount, currency });
+  if (matched.type === 'payment' && amountDiffers) {
+    matched.issue = 'amount_mismatch';
+  }
+
+  return matched;
+};
+
+// Gross, fees and net per currency, summed in minor units
+const sumSettlementLines = (lines: SettlementLine[]): SettlementTotals[] => {
+  const totals = new Map<string, { lines: number; gross: number; fees: number; net: number }>();
+
+  for (const line of lines) {
+    const current = totals.get(line.currency) || { lines: 0, gross: 0, fees: 0, net: 0 };
+    current.lines++;
+    current.gross += toMinorUnits({ amount: line.gross, currency: line.currency });
+    current.fees += toMinorUnits({ amount: line.fee, currency: line.currency });
+    current.net += toMinorUnits({ amount: line.net, currency: line.currency });
+    totals.set(line.currency, current);
+  }
+
+  return Array.from(totals.entries()).map(([currency, total]) => ({
+    currency,
+    lines: total.lines,
+    gross: fromMinorUnits(total.gross, currency).amount,
+    fees: fromMinorUnits(total.fees, currency).amount,
+    net: fromMinorUnits(total.net, currency).amount,
+  }));
+};
+
+// Firestore rejects undefined fields, and dates inside arrays must be Timestamps
+const toLineData = ({ settled_at, ...line }: SettlementLine): DocumentData => ({
+  ...JSON.parse(JSON.stringify(line)),
+  ...(settled_at && { settled_at: Timestamp.fromDate(settled_at) }),
+});
+
+// Convert a Firestore document into a SettlementImport
+const toSettlementImport = (id: string, data: DocumentData): SettlementImport => ({
+  ...data,
+  id,
+  imported_at: data.imported_at?.toDate() || new Date(),
+  period_start: data.period_start?.toDate(),
+  period_end: data.period_end?.toDate(),
+  lines: (data.lines || []).map((line: DocumentData) => ({
+    ...line,
+    settled_at: line.settled_at?.toDate(),
+  })),
+} as SettlementImport);
+
+// Import a provider's settlement report: match each line to the ledger, total the
+// fees and net payout, and store the result. Nothing in the ledger is changed.
+export const importSettlementReport = async (input: ImportSettlementInput): Promise<SettlementImportResult> => {
+  try {
+    let parsed: ParsedSettlementReport;
+    try {
+      parsed = parseSettlementRows(input.provider, input.rows);
+    } catch (error) {
+      return { settlementImport: null, error: error instanceof Error ? error.message : 'Failed to read report', status: 400 };
+    }
+
+    if (parsed.lines.length === 0) {
+      return { settlementImport: null, error: 'The report has no settlement lines', status: 400 };
+    }
+
+    // Refunds and captures of the same payment share a lookup
+    const lookups = new Map<string, Promise<PaymentRecord | null>>();
+    const lines: SettlementLine[] = [];
+
+    for (const line of parsed.lines) {
+      const key = `${line.provider_payment_id || ''}|${line.order_id || ''}`;
+      if (!lookups.has(key)) {
+        lookups.set(key, findLedgerEntry(input.provider, line));
+      }
+      lines.push(matchLine(line, await lookups.get(key)!));
+    }
+
+    const settledDates = lines
+      .map(line => line.settled_at?.getTime())
+      .filter((time): time is number => time !== undefined);
+
+    const data: DocumentData = {
+      provider: input.provider,
+      file_name: input.file_name,
+      imported_at: Timestamp.now(),
+      imported_by: input.imported_by,
+      skipped: parsed.skipped,
+      matched: lines.filter(line => line.matched_order_id).length,
+      flagged: lines.filter(line => line.issue).length,
+      totals: sumSettlementLines(lines),
+      lines: lines.map(toLineData),
+    };
+
+    if (settledDates.length > 0) {
+      data.period_start = Timestamp.fromMillis(Math.min(...settledDates));
+      data.period_end = Timestamp.fromMillis(Math.max(...settledDates));
+    }
+
+    const docRef = await addDoc(collection(await getServerDb(), SETTLEMENT_IMPORTS_COLLECTION), data);
+    return { settlementImport: toSettlementImport(docRef.id, data), error: null, status: 200 };
+  } catch (error) {
+    console.error('Error importing settlement report:', error);
+    throw error;
+  }
+};
+
+// List the most recent settlement imports, optionally for one provider
+export const listSettlementImports = async (
+  provider?: SettlementProvider,
+  limitCount = 20
+): Promise<SettlementImport[]> => {
+  try {
+    let q = query(
+      collection(await getServerDb(), SETTLEMENT_IMPORTS_COLLECTION),
+      orderBy('imported_at', 'desc')
+    );
+
+    if (provider) {
+      q = query(q, where('provider', '==', provider));
+    }
+
+    const querySnapshot = await getDocs(query(q, limit(limitCount)));
+    return querySnapshot.docs.map(importDoc => toSettlementImport(importDoc.id, importDoc.data()));
+  } catch (error) {
+    console.error('Error listing settlement imports:', error);
+    throw error;
+  }
+};
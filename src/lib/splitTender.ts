@@ -0,0 +1,637 @@
+import crypto from 'crypto';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  runTransaction,
+  setDoc,
+  updateDoc,
+  Timestamp,
+  DocumentData
+} from 'firebase/firestore';
+import { getServerDb } from './firebaseServer';
+import { getBookingCurrency, getBookingCustomer } from './bookingDeposits';
+import { addMoney, formatMoney, hasValidPrecision, subtractMoney } from './money';
+import {
+  getPayment,
+  getRefundableAmount,
+  isAwaitingCapture,
+  recordPayment,
+  releaseRefund,
+  reserveRefund
+} from './paymentLedger';
+import { getPaymentProvider } from './paymentProviders';
+import { paymentService } from './paymentservice';
+import {
+  Money,
+  PaymentLinkCustomer,
+  PaymentRecord,
+  PaymentStatus,
+  UnifiedPaymentRequest,
+  UnifiedPaymentResponse
+} from '@/types/payment';
+import { TenderLeg, TenderOrder, TenderRefundAllocation } from '@/types/tender';
+
+const TENDER_ORDERS_COLLECTION = 'tenderOrders';
+
+export interface CreateTenderOrderInput {
+  booking_id?: string;
+  // Default to the booking's total and its branch's currency
+  total?: number;
+  currency?: string;
+  customer?: PaymentLinkCustomer;
+  customer_id?: string;
+  branch?: string;
+  created_by: string;
+}
+
+export interface AddTenderLegInput {
+  provider: string;
+  amount: number;
+  items?: UnifiedPaymentRequest['items'];
+  // Provider-specific details, e.g. gift_card_code
+  metadata?: Record<string, string | number | boolean>;
+}
+
+export interface TenderOrderResult {
+  order: TenderOrder | null;
+  error: string | null;
+  status: number;
+}
+
+export interface TenderLegResult extends TenderOrderResult {
+  payment: UnifiedPaymentResponse | null;
+}
+
+export interface TenderRefundResult extends TenderOrderResult {
+  allocations: TenderRefundAllocation[];
+}
+
+type LedgerEntry = Pick<PaymentRecord, 'status' | 'metadata'> | null;
+
+const PAID_STATUSES: PaymentStatus[] = ['completed', 'refunded'];
+const PENDING_STATUSES: PaymentStatus[] = ['pending', 'processing'];
+
+// Combine a leg stored on the order with its ledger entry
+const toTenderLeg = (stored: DocumentData, payment: LedgerEntry): TenderLeg => {
+  const voidedAt = stored.voided_at?.toDate();
+  return {
+    order_id: stored.order_id,
+    provider: stored.provider,
+    amount: stored.amount,
+    status: payment?.status || 'pending',
+    refunded_amount: voidedAt ? stored.amount : Number(payment?.metadata?.amount_refunded ?? 0),
+    voided_at: voidedAt,
+    created_at: stored.created_at?.toDate() || new Date(),
+  };
+};
+
+// Convert a Firestore document and its legs' ledger entries into a TenderOrder
+const toTenderOrder = (id: string, data: DocumentData, payments: LedgerEntry[]): TenderOrder => {
+  const legs = (data.legs || []).map((stored: DocumentData, index: number) => toTenderLeg(stored, payments[index]));
+  const sum = (selected: TenderLeg[], amount: (leg: TenderLeg) => number): Money => selected.reduce(
+    (total, leg) => addMoney(total, { amount: amount(leg), currency: data.currency }),
+    { amount: 0, currency: data.currency } as Money
+  );
+
+  // A voided leg was paid before it was given back
+  const paid = sum(legs.filter((leg: TenderLeg) => PAID_STATUSES.includes(leg.status) || leg.voided_at), leg => leg.amount);
+  const pending = sum(legs.filter((leg: TenderLeg) => PENDING_STATUSES.includes(leg.status)), leg => leg.amount);
+  const outstanding = subtractMoney(subtractMoney({ amount: data.total, currency: data.currency }, paid), pending);
+
+  return {
+    ...data,
+    id,
+    legs,
+    paid_amount: paid.amount,
+    pending_amount: pending.amount,
+    // Once paid the order stays paid, even when legs are refunded later
+    outstanding_amount: data.status === 'open' ? Math.max(0, outstanding.amount) : 0,
+    refunded_amount: sum(legs, leg => leg.refunded_amount).amount,
+    created_at: data.created_at?.toDate() || new Date(),
+    updated_at: data.updated_at?.toDate() || new Date(),
+    paid_at: data.paid_at?.toDate(),
+  } as TenderOrder;
+};
+
+// Read an order with its legs' ledger entries and bring its status up to date
+const loadTenderOrder = async (orderId: string): Promise<TenderOrder | null> => {
+  const orderRef = doc(await getServerDb(), TENDER_ORDERS_COLLECTION, orderId);
+  const snapshot = await getDoc(orderRef);
+  if (!snapshot.exists()) {
+    return null;
+  }
+
+  const data = snapshot.data();
+  const payments = await Promise.all((data.legs || []).map((leg: DocumentData) => getPayment(leg.order_id)));
+  const order = toTenderOrder(snapshot.id, data, payments);
+
+  if (order.status === 'open' && order.paid_amount >= order.total) {
+    const paidAt = Timestamp.now();
+    await updateDoc(orderRef, { status: 'paid', paid_at: paidAt, updated_at: paidAt });
+    return { ...order, status: 'paid', outstanding_amount: 0, paid_at: paidAt.toDate() };
+  }
+
+  if (order.status === 'paid' && order.refunded_amount >= order.paid_amount) {
+    await updateDoc(orderRef, { status: 'refunded', updated_at: Timestamp.now() });
+    return { ...order, status: 'refunded' };
+  }
+
+  return order;
+};
+
+// Start an order that can be paid with several tenders
+export const createTenderOrder = async (input: CreateTenderOrderInput): Promise<TenderOrderResult> => {
+  try {
+    const db = await getServerDb();
+    let total = input.total;
+    let currency = input.currency;
+    let customer = input.customer || {};
+    let customerId = input.customer_id;
+    let branch = input.branch;
+
+    if (input.booking_id) {
+      const bookingDoc = await getDoc(doc(db, 'bookings', input.booking_id));
+      if (!bookingDoc.exists()) {
+        return { order: null, error: 'Booking not found', status: 404 };
+      }
+
+      const booking = bookingDoc.data();
+      total = total ?? Number(booking.totalPrice);
+      currency = currency || await getBookingCurrency(booking);
+      customer = { ...await getBookingCustomer(booking), ...input.customer };
+      customerId = customerId || booking.userId || undefined;
+      branch = branch || booking.branch || undefined;
+    }
+
+    if (!total || total <= 0 || !currency) {
+      return { order: null, error: 'A total and currency are required for orders that are not tied to a booking', status: 400 };
+    }
+
+    currency = currency.toUpperCase();
+    if (!hasValidPrecision(total, currency)) {
+      return { order: null, error: `Total has more decimal places than ${currency} allows`, status: 400 };
+    }
+
+    const id = `split_${crypto.randomBytes(8).toString('hex')}`;
+    const now = Timestamp.now();
+    const data: DocumentData = {
+      total,
+      currency,
+      status: 'open',
+      customer: JSON.parse(JSON.stringify(customer)),
+      legs: [],
+      leg_count: 0,
+      created_by: input.created_by,
+      created_at: now,
+      updated_at: now,
+    };
+
+    if (input.booking_id) {
+      data.booking_id = input.booking_id;
+    }
+
+    if (customerId) {
+      data.customer_id = customerId;
+    }
+
+    if (branch) {
+      data.branch = branch;
+    }
+
+    await setDoc(doc(db, TENDER_ORDERS_COLLECTION, id), data);
+    return { order: toTenderOrder(id, data, []), error: null, status: 200 };
+  } catch (error) {
+    console.error('Error creating split tender order:', error);
+    throw error;
+  }
+};
+
+// Get an order with its legs and balances, or null if it does not exist
+export const getTenderOrder = async (orderId: string): Promise<TenderOrder | null> => {
+  try {
+    return await loadTenderOrder(orderId);
+  } catch (error) {
+    console.error('Error getting split tender order:', error);
+    throw error;
+  }
+};
+
+// List the split tender orders of a booking, newest first
+export const listTenderOrders = async (bookingId: string): Promise<TenderOrder[]> => {
+  try {
+    const q = query(collection(await getServerDb(), TENDER_ORDERS_COLLECTION), where('booking_id', '==', bookingId));
+    const querySnapshot = await getDocs(q);
+    const orders = await Promise.all(querySnapshot.docs.map(orderDoc => loadTenderOrder(orderDoc.id)));
+    return orders
+      .filter((order): order is TenderOrder => order !== null)
+      .sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+  } catch (error) {
+    console.error('Error listing split tender orders:', error);
+    throw error;
+  }
+};
+
+// Hold part of the outstanding balance for a new leg. Runs in a transaction with the
+// legs' ledger entries so two tills cannot take the same part of the balance.
+const reserveLeg = async (
+  orderId: string,
+  provider: string,
+  amount: number
+): Promise<{ order: TenderOrder | null; legId: string | null; legNumber: number; error: string | null; status: number }> => {
+  const db = await getServerDb();
+  const orderRef = doc(db, TENDER_ORDERS_COLLECTION, orderId);
+
+  return await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(orderRef);
+    if (!snapshot.exists()) {
+      return { order: null, legId: null, legNumber: 0, error: 'Split payment not found', status: 404 };
+    }
+
+    const data = snapshot.data();
+    const legs: DocumentData[] = data.legs || [];
+    const payments = await Promise.all(legs.map(async leg => {
+      const payment = await transaction.get(doc(db, 'payments', leg.order_id));
+      return payment.exists() ? payment.data() as LedgerEntry : null;
+    }));
+    const order = toTenderOrder(snapshot.id, data, payments);
+
+    if (order.status !== 'open' || order.paid_amount >= order.total) {
+      return { order, legId: null, legNumber: 0, error: 'This order has already been paid', status: 409 };
+    }
+
+    if (amount > order.outstanding_amount) {
+      const outstanding = formatMoney({ amount: order.outstanding_amount, currency: order.currency });
+      return { order, legId: null, legNumber: 0, error: `Amount exceeds the outstanding balance of ${outstanding}`, status: 422 };
+    }
+
+    const legNumber = (data.leg_count || 0) + 1;
+    const legId = `${orderId}_${legNumber}`;
+    const now = Timestamp.now();
+
+    transaction.update(orderRef, {
+      legs: [...legs, { order_id: legId, provider, amount, created_at: now }],
+      leg_count: legNumber,
+      updated_at: now,
+    });
+
+    return { order, legId, legNumber, error: null, status: 200 };
+  });
+};
+
+// Give a reserved leg's part of the balance back if its payment never reached the provider
+const releaseLeg = async (orderId: string, legId: string): Promise<void> => {
+  const db = await getServerDb();
+  const orderRef = doc(db, TENDER_ORDERS_COLLECTION, orderId);
+
+  await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(orderRef);
+    if (snapshot.exists()) {
+      transaction.update(orderRef, {
+        legs: (snapshot.data().legs || []).filter((leg: DocumentData) => leg.order_id !== legId),
+        updated_at: Timestamp.now(),
+      });
+    }
+  });
+};
+
+// Pay part of the outstanding balance with one provider. The leg can be completed straight
+// away (cash, gift cards) or later through the provider's checkout (cards, BNPL).
+export const addTenderLeg = async (orderId: string, input: AddTenderLegInput): Promise<TenderLegResult> => {
+  try {
+    const reservation = await reserveLeg(orderId, input.provider, input.amount);
+    if (!reservation.legId || !reservation.order) {
+      return { order: reservation.order, payment: null, error: reservation.error, status: reservation.status };
+    }
+
+    const order = reservation.order;
+    const legId = reservation.legId;
+    const request: UnifiedPaymentRequest = {
+      provider: input.provider,
+      amount: input.amount,
+      currency: order.currency,
+      order_id: legId,
+      customer: {
+        id: order.customer_id,
+        email: order.customer.email || '',
+        phone: order.customer.phone || '',
+        name: order.customer.name || '',
+      },
+      items: input.items || [{
+        name: order.booking_id ? `Booking ${order.booking_id}` : `Order ${order.id}`,
+        quantity: 1,
+        unit_price: input.amount,
+        category: 'Services',
+      }],
+      branch: order.branch,
+      metadata: {
+        ...input.metadata,
+        tender_order_id: order.id,
+        tender_leg: reservation.legNumber,
+        ...(order.booking_id ? { booking_id: order.booking_id } : {}),
+      },
+    };
+
+    const { valid, errors } = paymentService.validatePaymentRequest(request);
+    if (!valid) {
+      await releaseLeg(orderId, legId);
+      return { order: await loadTenderOrder(orderId), payment: null, error: errors.join('; '), status: 400 };
+    }
+
+    if (!paymentService.isProviderEnabled(input.provider)) {
+      await releaseLeg(orderId, legId);
+      return { order: await loadTenderOrder(orderId), payment: null, error: `${input.provider} is not configured or enabled`, status: 503 };
+    }
+
+    let payment: UnifiedPaymentResponse;
+    try {
+      payment = await paymentService.createPayment(request);
+    } catch (error) {
+      await releaseLeg(orderId, legId);
+      return {
+        order: await loadTenderOrder(orderId),
+        payment: null,
+        error: error instanceof Error ? error.message : 'Payment could not be created',
+        status: 502,
+      };
+    }
+
+    // As with POST /api/payments, the provider payment exists now; if the ledger write
+    // fails the leg keeps holding its part of the balance until a webhook records it.
+    try {
+      await recordPayment(legId, {
+        provider: payment.provider,
+        provider_payment_id: payment.payment_id,
+        source: 'checkout',
+        status: payment.status,
+        amount: request.amount,
+        currency: request.currency,
+        customer_id: order.customer_id,
+        branch: order.branch,
+        metadata: request.metadata,
+        event: 'tender.leg_created',
+      });
+    } catch (error) {
+      console.error('Failed to record split tender leg in ledger:', error);
+    }
+
+    return { order: await loadTenderOrder(orderId), payment, error: null, status: 200 };
+  } catch (error) {
+    console.error('Error adding split tender leg:', error);
+    throw error;
+  }
+};
+
+// Cancel a leg that has not been paid, e.g. a BNPL checkout the customer walked away from,
+// so that its part of the balance can be paid another way. The provider payment is voided
+// first; a leg the provider reports as paid is recorded instead and stays on the order.
+export const cancelTenderLeg = async (orderId: string, legId: string, cancelledBy: string): Promise<TenderOrderResult> => {
+  try {
+    const order = await loadTenderOrder(orderId);
+    if (!order) {
+      return { order: null, error: 'Split payment not found', status: 404 };
+    }
+
+    const leg = order.legs.find(candidate => candidate.order_id === legId);
+    if (!leg) {
+      return { order, error: 'Payment not found on this split payment', status: 404 };
+    }
+
+    if (!PENDING_STATUSES.includes(leg.status)) {
+      return { order, error: `Only pending payments can be cancelled; this one is ${leg.status}`, status: 409 };
+    }
+
+    // Without a ledger entry the provider payment ID is unknown, so the payment cannot be
+    // voided; the leg keeps its part of the balance until a webhook records it
+    const payment = await getPayment(legId);
+    if (!payment?.provider_payment_id) {
+      return { order, error: 'This payment has not been recorded yet and cannot be cancelled', status: 409 };
+    }
+
+    const record = (status: PaymentStatus, event: string, metadata?: PaymentRecord['metadata']) =>
+      recordPayment(legId, {
+        provider: payment.provider,
+        provider_payment_id: payment.provider_payment_id,
+        source: event === 'status.poll' ? 'poll' : 'admin',
+        status,
+        metadata,
+        event,
+      });
+
+    let status: PaymentStatus;
+    try {
+      status = await paymentService.getPaymentStatus(payment.provider, payment.provider_payment_id);
+    } catch (error) {
+      return {
+        order,
+        error: `Could not check the ${payment.provider} payment: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        status: 502,
+      };
+    }
+
+    if (PAID_STATUSES.includes(status)) {
+      await record(status, 'status.poll');
+      return { order: await loadTenderOrder(orderId), error: 'This payment has already been completed', status: 409 };
+    }
+
+    if (status === 'cancelled' || status === 'failed') {
+      await record(status, 'status.poll');
+      return { order: await loadTenderOrder(orderId), error: null, status: 200 };
+    }
+
+    try {
+      await paymentService.cancelPayment(payment.provider, payment.provider_payment_id, { amount: payment.amount, currency: payment.currency });
+    } catch (error) {
+      return {
+        order,
+        error: `Cancelling the ${payment.provider} payment failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        status: 502,
+      };
+    }
+
+    await record('cancelled', 'tender.leg_cancelled', { cancelled_by: cancelledBy });
+    return { order: await loadTenderOrder(orderId), error: null, status: 200 };
+  } catch (error) {
+    console.error('Error cancelling split tender leg:', error);
+    throw error;
+  }
+};
+
+interface PlannedRefund {
+  payment: PaymentRecord;
+  amount: number;
+  action: TenderRefundAllocation['action'];
+}
+
+// Spread a refund over the legs, starting with the one paid last. Legs that are still
+// awaiting capture can only be voided in full; returns null if the amount cannot be split.
+const planRefund = (payments: PaymentRecord[], amount: number, currency: string): PlannedRefund[] | null => {
+  const plan: PlannedRefund[] = [];
+  let remaining: Money = { amount, currency };
+
+  for (const payment of [...payments].reverse()) {
+    if (remaining.amount <= 0) {
+      break;
+    }
+
+    if (isAwaitingCapture(payment)) {
+      if (payment.status === 'completed' && payment.amount <= remaining.amount) {
+        plan.push({ payment, amount: payment.amount, action: 'void' });
+        remaining = subtractMoney(remaining, { amount: payment.amount, currency });
+      }
+      continue;
+    }
+
+    const refundable = Math.min(getRefundableAmount(payment), remaining.amount);
+    if (refundable > 0) {
+      plan.push({ payment, amount: refundable, action: 'refund' });
+      remaining = subtractMoney(remaining, { amount: refundable, currency });
+    }
+  }
+
+  return remaining.amount > 0 ? null : plan;
+};
+
+// Remember which legs were voided as refunds, so they still count as paid and refunded
+const markVoided = async (orderId: string, legIds: string[]): Promise<void> => {
+  if (legIds.length === 0) {
+    return;
+  }
+
+  const db = await getServerDb();
+  const orderRef = doc(db, TENDER_ORDERS_COLLECTION, orderId);
+  const now = Timestamp.now();
+
+  await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(orderRef);
+    if (snapshot.exists()) {
+      transaction.update(orderRef, {
+        legs: (snapshot.data().legs || []).map((leg: DocumentData) =>
+          legIds.includes(leg.order_id) ? { ...leg, voided_at: now } : leg
+        ),
+        updated_at: now,
+      });
+    }
+  });
+};
+
+// Refund part or all of what was paid towards an order, spread over its legs. Stops at
+// the first leg whose provider rejects the refund; legs refunded before it stay refunded.
+export const refundTenderOrder = async (
+  orderId: string,
+  refundedBy: string,
+  amount?: number,
+  reason?: string
+): Promise<TenderRefundResult> => {
+  try {
+    const order = await loadTenderOrder(orderId);
+    if (!order) {
+      return { order: null, allocations: [], error: 'Split payment not found', status: 404 };
+    }
+
+    const payments = (await Promise.all(order.legs.map(leg => getPayment(leg.order_id))))
+      .filter((payment): payment is PaymentRecord => payment !== null);
+    const refundable = payments.reduce((total, payment) => addMoney(total, {
+      amount: isAwaitingCapture(payment) && payment.status === 'completed' ? payment.amount : getRefundableAmount(payment),
+      currency: order.currency,
+    }), { amount: 0, currency: order.currency } as Money);
+
+    if (refundable.amount <= 0) {
+      return { order, allocations: [], error: 'Nothing has been paid that can be refunded', status: 409 };
+    }
+
+    const refundAmount = amount ?? refundable.amount;
+    if (refundAmount > refundable.amount) {
+      return { order, allocations: [], error: `Refund amount exceeds the refundable balance of ${formatMoney(refundable)}`, status: 400 };
+    }
+
+    const plan = planRefund(payments, refundAmount, order.currency);
+    if (!plan) {
+      return {
+        order,
+        allocations: [],
+        error: 'The refund cannot be split over the legs: legs awaiting capture can only be voided in full',
+        status: 422,
+      };
+    }
+
+    const allocations: TenderRefundAllocation[] = [];
+    const voided: string[] = [];
+
+    for (const { payment, amount: legAmount, action } of plan) {
+      const money: Money = { amount: legAmount, currency: payment.currency };
+
+      try {
+        if (action === 'void') {
+          await paymentService.cancelPayment(payment.provider, payment.provider_payment_id, money);
+          await recordPayment(payment.order_id, {
+            provider: payment.provider,
+            provider_payment_id: payment.provider_payment_id,
+            source: 'admin',
+            status: 'cancelled',
+            metadata: { cancelled_by: refundedBy },
+            event: 'tender.refund',
+          });
+          voided.push(payment.order_id);
+          allocations.push({ order_id: payment.order_id, provider: payment.provider, amount: legAmount, action });
+          continue;
+        }
+
+        // Held the same way as a refund from the payments page, so the two cannot overlap
+        const available = await reserveRefund(payment.order_id, legAmount);
+        if (available === null) {
+          await markVoided(orderId, voided);
+          return {
+            order: await loadTenderOrder(orderId),
+            allocations,
+            error: `The refundable balance of ${payment.provider} leg ${payment.order_id} has changed, possibly because of another refund. Refresh and try again.`,
+            status: 409,
+          };
+        }
+
+        let response: Record<string, unknown>;
+        try {
+          response = await paymentService.refundPayment(payment.provider, payment.provider_payment_id, money);
+        } catch (error) {
+          await releaseRefund(payment.order_id, legAmount);
+          throw error;
+        }
+        const refundId = getPaymentProvider(payment.provider)?.getRefundId?.(response);
+        const remaining = subtractMoney({ amount: available, currency: payment.currency }, money).amount;
+
+        await recordPayment(payment.order_id, {
+          provider: payment.provider,
+          provider_payment_id: payment.provider_payment_id,
+          source: 'admin',
+          status: remaining === 0 ? 'refunded' : undefined,
+          settled_refund: legAmount,
+          refund_id: refundId,
+          metadata: {
+            refunded_by: refundedBy,
+            ...(refundId ? { refund_id: refundId } : {}),
+            ...(reason ? { refund_reason: reason } : {}),
+          },
+          event: 'tender.refund',
+        });
+        allocations.push({ order_id: payment.order_id, provider: payment.provider, amount: legAmount, action, refund_id: refundId });
+      } catch (error) {
+        await markVoided(orderId, voided);
+        return {
+          order: await loadTenderOrder(orderId),
+          allocations,
+          error: `Refund of ${payment.provider} leg ${payment.order_id} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          status: 502,
+        };
+      }
+    }
+
+    await markVoided(orderId, voided);
+    return { order: await loadTenderOrder(orderId), allocations, error: null, status: 200 };
+  } catch (error) {
+    console.error('Error refunding split tender order:', error);
+    throw error;
+  }
+};
@@ -1,5 +1,6 @@
 import Stripe from 'stripe';
-import { StripePaymentIntentRequest, StripePaymentIntentResponse, PaymentStatus } from '@/types/payment';
+import { Money, StripePaymentIntentRequest, StripePaymentIntentResponse, PaymentStatus, PaymentProviderMode } from '@/types/payment';
+import { toMinorUnits } from './money';
 
 class StripeService {
   private stripe: Stripe | null = null;
@@ -24,7 +25,7 @@ class StripeService {
 
     try {
       const paymentIntent = await stripe.paymentIntents.create({
-        amount: Math.round(request.amount * 100), // Convert to cents
+        amount: toMinorUnits({ amount: request.amount, currency: request.currency }),
         currency: request.currency.toLowerCase(),
         customer: request.customer_id,
         metadata: request.metadata || {},
@@ -82,7 +83,7 @@ class StripeService {
     }
   }
 
-  async createRefund(paymentIntentId: string, amount?: number): Promise<Stripe.Refund> {
+  async createRefund(paymentIntentId: string, amount?: Money): Promise<Stripe.Refund> {
     const stripe = this.ensureStripeInitialized();
 
     try {
@@ -91,7 +92,7 @@ class StripeService {
       };
 
       if (amount) {
-        refundParams.amount = Math.round(amount * 100); // Convert to cents
+        refundParams.amount = toMinorUnits(amount);
       }
 
       return await stripe.refunds.create(refundParams);
@@ -101,19 +102,84 @@ class StripeService {
     }
   }
 
-  verifyWebhookSignature(payload: string, signature: string): Record<string, unknown> {
+  // ==================== MEMBERSHIPS ====================
+
+  // Product and monthly recurring price a membership plan is billed with
+  async createMonthlyPrice(name: string, monthlyPrice: Money): Promise<{ productId: string; priceId: string }> {
+    const stripe = this.ensureStripeInitialized();
+
+    try {
+      const product = await stripe.products.create({ name });
+      const price = await stripe.prices.create({
+        product: product.id,
+        currency: monthlyPrice.currency.toLowerCase(),
+        unit_amount: toMinorUnits(monthlyPrice),
+        recurring: { interval: 'month' },
+      });
+      return { productId: product.id, priceId: price.id };
+    } catch (error) {
+      console.error('Failed to create Stripe price:', error);
+      throw new Error(`Failed to create Stripe price: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async createCustomer(details: { name: string; email: string; phone?: string }, metadata: Record<string, string>): Promise<string> {
+    const stripe = this.ensureStripeInitialized();
+
+    try {
+      const customer = await stripe.customers.create({ ...details, metadata });
+      return customer.id;
+    } catch (error) {
+      console.error('Failed to create Stripe customer:', error);
+      throw new Error(`Failed to create Stripe customer: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Hosted Checkout page where the customer enters their card and starts the subscription.
+  // The metadata is copied onto the subscription so its webhooks can be traced back.
+  async createSubscriptionCheckout(customerId: string, priceId: string, metadata: Record<string, string>, origin: string): Promise<string> {
+    const stripe = this.ensureStripeInitialized();
+
+    try {
+      const session = await stripe.checkout.sessions.create({
+        mode: 'subscription',
+        customer: customerId,
+        line_items: [{ price: priceId, quantity: 1 }],
+        subscription_data: { metadata },
+        metadata,
+        success_url: `${origin}/payments/success?membership=started`,
+        cancel_url: `${origin}/payments/cancel?membership=cancelled`,
+      });
+      return session.url!;
+    } catch (error) {
+      console.error('Failed to create subscription checkout:', error);
+      throw new Error(`Failed to create subscription checkout: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Cancel now, or let the subscription run until the end of the paid period
+  async cancelSubscription(subscriptionId: string, atPeriodEnd: boolean): Promise<Stripe.Subscription> {
     const stripe = this.ensureStripeInitialized();
-    const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
 
-    if (!webhookSecret) {
-      throw new Error('Stripe webhook secret is not configured');
+    try {
+      return atPeriodEnd
+        ? await stripe.subscriptions.update(subscriptionId, { cancel_at_period_end: true })
+        : await stripe.subscriptions.cancel(subscriptionId);
+    } catch (error) {
+      console.error('Failed to cancel subscription:', error);
+      throw new Error(`Failed to cancel subscription: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+  }
+
+  // Undo a cancellation scheduled for the end of the period
+  async resumeSubscription(subscriptionId: string): Promise<Stripe.Subscription> {
+    const stripe = this.ensureStripeInitialized();
 
     try {
-      return stripe.webhooks.constructEvent(payload, signature, webhookSecret);
+      return await stripe.subscriptions.update(subscriptionId, { cancel_at_period_end: false });
     } catch (error) {
-      console.error('Webhook signature verification failed:', error);
-      throw new Error(`Webhook signature verification failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Failed to resume subscription:', error);
+      throw new Error(`Failed to resume subscription: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -140,13 +206,23 @@ class StripeService {
       return this.mapStripeStatusToPaymentStatus(paymentIntent.status);
     } catch (error) {
       console.error('Failed to get payment status:', error);
-      return 'failed';
+      throw error;
     }
   }
 
   isConfigured(): boolean {
     return !!process.env.STRIPE_SECRET_KEY && !!process.env.STRIPE_PUBLISHABLE_KEY;
   }
+
+  getMode(): PaymentProviderMode {
+    return /^(sk|rk)_live_/.test(process.env.STRIPE_SECRET_KEY || '') ? 'live' : 'test';
+  }
+
+  // Cheapest authenticated call Stripe offers; fails on a bad key or no connectivity
+  async ping(): Promise<void> {
+    const stripe = this.ensureStripeInitialized();
+    await stripe.balance.retrieve();
+  }
 }
 
 export const stripeService = new StripeService();
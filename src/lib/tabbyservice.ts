@@ -1,6 +1,17 @@
 import axios, { AxiosInstance } from 'axios';
-import crypto from 'crypto';
-import { TabbyPaymentRequest, PaymentStatus } from '@/types/payment';
+import {
+  BnplEligibility,
+  BnplEligibilityRequest,
+  BnplUnavailableReason,
+  Money,
+  TabbyPaymentRequest,
+  PaymentStatus,
+  PaymentProviderMode
+} from '@/types/payment';
+import { fromMinorUnits, splitMoney, toDecimalString, toMinorUnits } from './money';
+
+// Tabby's Pay in 4: a quarter at checkout and the rest monthly
+const TABBY_INSTALMENTS = 4;
 
 interface TabbyPaymentResponse {
   payment: {
@@ -16,6 +27,26 @@ interface TabbyPaymentResponse {
   };
 }
 
+interface TabbyPreScoringResponse {
+  status: string;
+  configuration: {
+    available_products: {
+      installments?: Array<{
+        downpayment: string;
+        installments: Array<{
+          due_date: string;
+          amount: string;
+        }>;
+      }>;
+    };
+    products?: {
+      installments?: {
+        rejection_reason?: string | null;
+      };
+    };
+  };
+}
+
 interface TabbyPaymentDetails {
   id: string;
   status: string;
@@ -36,11 +67,16 @@ class TabbyService {
   private secretKey: string | null = null;
   private publicKey: string | null = null;
   private baseUrl: string;
+  // Order limits from the merchant agreement; Tabby does not publish them through its API
+  private minOrderAmount: number | null;
+  private maxOrderAmount: number | null;
 
   constructor() {
     this.secretKey = process.env.TABBY_SECRET_KEY || null;
     this.publicKey = process.env.TABBY_PUBLIC_KEY || null;
     this.baseUrl = process.env.TABBY_API_URL || 'https://api.tabby.ai';
+    this.minOrderAmount = parseFloat(process.env.TABBY_MIN_ORDER_AMOUNT || '') || null;
+    this.maxOrderAmount = parseFloat(process.env.TABBY_MAX_ORDER_AMOUNT || '') || null;
 
     if (this.secretKey) {
       this.client = axios.create({
@@ -132,7 +168,7 @@ class TabbyService {
     }
   }
 
-  async refundPayment(paymentId: string, amount: number): Promise<Record<string, unknown>> {
+  async refundPayment(paymentId: string, amount: string): Promise<Record<string, unknown>> {
     const client = this.ensureClientInitialized();
 
     try {
@@ -164,18 +200,104 @@ class TabbyService {
     }
   }
 
-  async verifyWebhookSignature(payload: string, signature: string): Promise<Record<string, unknown>> {
-    // Tabby webhook signature verification
-    const expectedSignature = crypto
-      .createHmac('sha256', process.env.TABBY_WEBHOOK_SECRET || '')
-      .update(payload)
-      .digest('hex');
+  // Background pre-scoring: Tabby scores the customer for this basket without sending them
+  // through checkout
+  async preScore(request: BnplEligibilityRequest): Promise<TabbyPreScoringResponse> {
+    const client = this.ensureClientInitialized();
+    const currency = request.currency;
 
-    if (signature !== expectedSignature) {
-      throw new Error('Invalid webhook signature');
+    try {
+      const response = await client.post('/api/v2/checkout', {
+        payment: {
+          amount: toDecimalString({ amount: request.amount, currency }),
+          currency,
+          buyer: {
+            phone: request.customer?.phone,
+            email: request.customer?.email,
+            name: request.customer?.name,
+          },
+          order: {
+            reference_id: `prescoring-${Date.now()}`,
+            items: (request.items || [{ name: 'Order', quantity: 1, unit_price: request.amount }]).map(item => ({
+              title: item.name,
+              quantity: item.quantity,
+              unit_price: toDecimalString({ amount: item.unit_price, currency }),
+              category: item.category || 'general',
+            })),
+          },
+        },
+        lang: 'en',
+        merchant_code: process.env.TABBY_MERCHANT_CODE || '',
+      });
+
+      return response.data;
+    } catch (error) {
+      console.error('Tabby pre-scoring failed:', error);
+      if (axios.isAxiosError(error)) {
+        throw new Error(`Failed to pre-score Tabby payment: ${error.response?.data?.error || error.message}`);
+      }
+      throw new Error('Failed to pre-score Tabby payment: Unknown error');
     }
+  }
 
-    return JSON.parse(payload) as Record<string, unknown>;
+  // Pre-check an order before offering Tabby. The customer is only scored when their phone
+  // and email are known; otherwise the amount is checked against the configured limits.
+  async checkEligibility(request: BnplEligibilityRequest): Promise<BnplEligibility> {
+    const orderValue = { amount: request.amount, currency: request.currency };
+    const limit = (amount: number | null): Money | null => amount === null ? null : { amount, currency: request.currency };
+
+    const eligibility: BnplEligibility = {
+      provider: 'tabby',
+      available: false,
+      min_limit: limit(this.minOrderAmount),
+      max_limit: limit(this.maxOrderAmount),
+      plans: [],
+    };
+
+    if (this.minOrderAmount !== null && request.amount < this.minOrderAmount) {
+      return { ...eligibility, reason: 'below_min_limit' };
+    }
+
+    if (this.maxOrderAmount !== null && request.amount > this.maxOrderAmount) {
+      return { ...eligibility, reason: 'above_max_limit' };
+    }
+
+    if (!request.customer?.phone || !request.customer?.email) {
+      return {
+        ...eligibility,
+        available: true,
+        plans: [{
+          payment_type: 'installments',
+          instalments: TABBY_INSTALMENTS,
+          amounts: splitMoney(orderValue, TABBY_INSTALMENTS).map(part => part.amount),
+        }],
+      };
+    }
+
+    const response = await this.preScore(request);
+    const product = response.configuration.available_products.installments?.[0];
+
+    if (response.status !== 'created' || !product) {
+      const rejectionReasons: Record<string, BnplUnavailableReason> = {
+        order_amount_too_low: 'below_min_limit',
+        order_amount_too_high: 'above_max_limit',
+      };
+      const rejectionReason = response.configuration.products?.installments?.rejection_reason || '';
+      return { ...eligibility, reason: rejectionReasons[rejectionReason] || 'rejected' };
+    }
+
+    const amounts = [product.downpayment, ...product.installments.map(installment => installment.amount)]
+      .map(amount => parseFloat(amount));
+
+    return {
+      ...eligibility,
+      available: true,
+      plans: [{
+        payment_type: 'installments',
+        instalments: amounts.length,
+        amounts,
+      }],
+    };
   }
 
   mapTabbyStatusToPaymentStatus(tabbyStatus: string): PaymentStatus {
@@ -197,13 +319,13 @@ class TabbyService {
     }
   }
 
-  async getPaymentStatus(paymentId: string): Promise<Record<string, unknown>> {
+  async getPaymentStatus(paymentId: string): Promise<PaymentStatus> {
     try {
       const payment = await this.getPayment(paymentId);
       return this.mapTabbyStatusToPaymentStatus(payment.status);
     } catch (error) {
       console.error('Failed to get Tabby payment status:', error);
-      return 'failed';
+      throw error;
     }
   }
 
@@ -211,6 +333,24 @@ class TabbyService {
     return !!this.secretKey && !!this.publicKey;
   }
 
+  getMode(): PaymentProviderMode {
+    return this.secretKey?.startsWith('sk_test_') ? 'test' : 'live';
+  }
+
+  // Lightweight authenticated request used by the provider health check
+  async ping(): Promise<void> {
+    const client = this.ensureClientInitialized();
+
+    try {
+      await client.get('/api/v2/payments', { params: { limit: 1 } });
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(`Tabby is unreachable: ${error.response?.data?.error || error.message}`);
+      }
+      throw error;
+    }
+  }
+
   // Helper method to validate payment request
   validatePaymentRequest(request: TabbyPaymentRequest): { valid: boolean; errors: string[] } {
     const errors: string[] = [];
@@ -246,11 +386,11 @@ class TabbyService {
   }
 
   // Helper method to calculate total amount from items
-  calculateTotalAmount(items: Array<{ quantity: number; unit_price: string }>): string {
+  calculateTotalAmount(items: Array<{ quantity: number; unit_price: string }>, currency: string): string {
     const total = items.reduce((sum, item) => {
-      return sum + (item.quantity * parseFloat(item.unit_price));
+      return sum + toMinorUnits({ amount: parseFloat(item.unit_price), currency }) * item.quantity;
     }, 0);
-    return total.toFixed(2);
+    return toDecimalString(fromMinorUnits(total, currency));
   }
 }
 
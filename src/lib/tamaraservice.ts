@@ -1,6 +1,13 @@
 import axios, { AxiosInstance } from 'axios';
-import crypto from 'crypto';
-import { TamaraCheckoutRequest, PaymentStatus } from '@/types/payment';
+import {
+  BnplEligibility,
+  BnplEligibilityRequest,
+  Money,
+  TamaraCheckoutRequest,
+  PaymentStatus,
+  PaymentProviderMode
+} from '@/types/payment';
+import { splitMoney } from './money';
 
 interface TamaraCheckoutResponse {
   checkout_id: string;
@@ -23,6 +30,18 @@ interface TamaraOrderResponse {
   };
 }
 
+interface TamaraPaymentType {
+  name: string;
+  description?: string;
+  min_limit: Money;
+  max_limit: Money;
+  supported_instalments?: Array<{
+    instalments: number;
+    min_limit?: Money;
+    max_limit?: Money;
+  }>;
+}
+
 class TamaraService {
   private client: AxiosInstance | null = null;
   private apiToken: string | null = null;
@@ -83,7 +102,7 @@ class TamaraService {
     }
   }
 
-  async capturePayment(orderId: string, totalAmount: { amount: number; currency: string }): Promise<Record<string, unknown>> {
+  async capturePayment(orderId: string, totalAmount: Money): Promise<Record<string, unknown>> {
     const client = this.ensureClientInitialized();
 
     try {
@@ -100,7 +119,7 @@ class TamaraService {
     }
   }
 
-  async cancelOrder(orderId: string, totalAmount: { amount: number; currency: string }): Promise<Record<string, unknown>> {
+  async cancelOrder(orderId: string, totalAmount: Money): Promise<Record<string, unknown>> {
     const client = this.ensureClientInitialized();
 
     try {
@@ -117,7 +136,7 @@ class TamaraService {
     }
   }
 
-  async refundPayment(orderId: string, refundAmount: { amount: number; currency: string }): Promise<Record<string, unknown>> {
+  async refundPayment(orderId: string, refundAmount: Money): Promise<Record<string, unknown>> {
     const client = this.ensureClientInitialized();
 
     try {
@@ -134,18 +153,79 @@ class TamaraService {
     }
   }
 
-  async verifyWebhookSignature(payload: string, signature: string): Promise<Record<string, unknown>> {
-    // Tamara webhook signature verification
-    const expectedSignature = crypto
-      .createHmac('sha256', process.env.TAMARA_WEBHOOK_SECRET || '')
-      .update(payload)
-      .digest('hex');
+  // Payment types Tamara offers for an order value. With a phone number the customer's own
+  // eligibility is taken into account too.
+  async getPaymentTypes(countryCode: string, orderValue: Money, phoneNumber?: string): Promise<TamaraPaymentType[]> {
+    const client = this.ensureClientInitialized();
+
+    try {
+      const response = await client.get('/checkout/payment-types', {
+        params: {
+          country: countryCode,
+          currency: orderValue.currency,
+          order_value: orderValue.amount,
+          phone: phoneNumber,
+        },
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Failed to get Tamara payment types:', error);
+      if (axios.isAxiosError(error)) {
+        throw new Error(`Failed to get Tamara payment types: ${error.response?.data?.message || error.message}`);
+      }
+      throw new Error('Failed to get Tamara payment types: Unknown error');
+    }
+  }
+
+  // Pre-check an order before offering Tamara: its limits and the instalment plans the
+  // amount qualifies for
+  async checkEligibility(request: BnplEligibilityRequest): Promise<BnplEligibility> {
+    const orderValue = { amount: request.amount, currency: request.currency };
+    const paymentTypes = await this.getPaymentTypes(request.country_code, orderValue, request.customer?.phone);
 
-    if (signature !== expectedSignature) {
-      throw new Error('Invalid webhook signature');
+    const eligibility: BnplEligibility = {
+      provider: 'tamara',
+      available: false,
+      min_limit: null,
+      max_limit: null,
+      plans: [],
+    };
+
+    // Tamara returns no payment types for customers or countries it does not serve
+    if (paymentTypes.length === 0) {
+      return { ...eligibility, reason: 'rejected' };
     }
 
-    return JSON.parse(payload) as Record<string, unknown>;
+    eligibility.min_limit = { amount: Math.min(...paymentTypes.map(type => type.min_limit.amount)), currency: request.currency };
+    eligibility.max_limit = { amount: Math.max(...paymentTypes.map(type => type.max_limit.amount)), currency: request.currency };
+
+    for (const type of paymentTypes) {
+      // Pay later and pay next month are a single payment
+      const options = type.supported_instalments?.length ? type.supported_instalments : [{ instalments: 1 }];
+
+      for (const option of options) {
+        const minLimit = option.min_limit || type.min_limit;
+        const maxLimit = option.max_limit || type.max_limit;
+        if (request.amount < minLimit.amount || request.amount > maxLimit.amount) {
+          continue;
+        }
+
+        eligibility.plans.push({
+          payment_type: type.name,
+          instalments: option.instalments,
+          amounts: splitMoney(orderValue, option.instalments).map(part => part.amount),
+        });
+      }
+    }
+
+    eligibility.available = eligibility.plans.length > 0;
+    if (!eligibility.available) {
+      eligibility.reason = request.amount < eligibility.min_limit.amount
+        ? 'below_min_limit'
+        : request.amount > eligibility.max_limit.amount ? 'above_max_limit' : 'rejected';
+    }
+
+    return eligibility;
   }
 
   mapTamaraStatusToPaymentStatus(tamaraStatus: string): PaymentStatus {
@@ -175,7 +255,7 @@ class TamaraService {
       return this.mapTamaraStatusToPaymentStatus(order.status);
     } catch (error) {
       console.error('Failed to get Tamara payment status:', error);
-      return 'failed';
+      throw error;
     }
   }
 
@@ -183,6 +263,24 @@ class TamaraService {
     return !!this.apiToken && !!this.notificationKey;
   }
 
+  getMode(): PaymentProviderMode {
+    return this.baseUrl.includes('sandbox') ? 'test' : 'live';
+  }
+
+  // Lightweight authenticated request used by the provider health check
+  async ping(): Promise<void> {
+    const client = this.ensureClientInitialized();
+
+    try {
+      await client.get('/checkout/payment-types', { params: { country: 'SA' } });
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(`Tamara is unreachable: ${error.response?.data?.message || error.message}`);
+      }
+      throw error;
+    }
+  }
+
   // Helper method to validate checkout request
   validateCheckoutRequest(request: TamaraCheckoutRequest): { valid: boolean; errors: string[] } {
     const errors: string[] = [];
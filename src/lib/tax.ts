@@ -0,0 +1,32 @@
+import { subtractMoney, roundAmount } from './money';
+import { Money } from '@/types/payment';
+import { TaxCountry } from '@/types/invoice';
+
+// Standard VAT rates in percent
+export const VAT_RATES: Record<TaxCountry, number> = {
+  SA: 15,
+  AE: 5,
+};
+
+// Country names as entered on branches
+const COUNTRY_ALIASES: Record<string, TaxCountry> = {
+  'sa': 'SA',
+  'ksa': 'SA',
+  'saudi arabia': 'SA',
+  'ae': 'AE',
+  'uae': 'AE',
+  'united arab emirates': 'AE',
+};
+
+// Map a branch country to the tax regime we invoice under, or null if we do not invoice there
+export const getTaxCountry = (country?: string): TaxCountry | null =>
+  COUNTRY_ALIASES[(country || '').trim().toLowerCase()] || null;
+
+// Split a VAT-inclusive amount into its net amount and VAT, rounded to the currency's minor units
+export const splitVatInclusive = (gross: Money, ratePercent: number): { net: Money; vat: Money } => {
+  const net: Money = {
+    amount: roundAmount(gross.amount / (1 + ratePercent / 100), gross.currency),
+    currency: gross.currency,
+  };
+  return { net, vat: subtractMoney(gross, net) };
+};
@@ -4,7 +4,6 @@ import {
   collection, 
   getDocs, 
   doc, 
-  updateDoc, 
   deleteDoc,
   query,
   orderBy,
@@ -12,6 +11,7 @@ import {
 } from 'firebase/firestore';
 import { db, isFirebaseConfigured } from './firebase';
 import { UserRole } from './auth';
+import { authorizedFetch } from './networkUtils';
 
 // Get all users
 export const getAllUsers = async (): Promise<UserRole[]> => {
@@ -65,17 +65,22 @@ export const subscribeToUsersChanges = (
   );
 };
 
-// Update user role
+// Update user role. This goes through the API so the change is recorded in the
+// security audit log.
 export const updateUserRole = async (uid: string, role: 'admin' | 'user') => {
   try {
-    if (!isFirebaseConfigured() || !db) {
-      return { error: 'Firebase is not configured. Please set up your Firebase environment variables.' };
-    }
-
-    await updateDoc(doc(db, 'users', uid), {
-      role,
-      updatedAt: new Date()
+    const response = await authorizedFetch(`/api/users/${encodeURIComponent(uid)}/role`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ role })
     });
+
+    if (!response.ok) {
+      const data = await response.json();
+      return { error: data.error || 'Failed to update user role' };
+    }
     return { error: null };
   } catch (error: unknown) {
     return { error: error instanceof Error ? error.message : 'Unknown error' };
@@ -0,0 +1,163 @@
+import crypto from 'crypto';
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  runTransaction,
+  updateDoc,
+  deleteField,
+  Timestamp,
+  DocumentData
+} from 'firebase/firestore';
+import { getServerDb } from './firebaseServer';
+import { WebhookEvent } from '@/types/payment';
+
+const WEBHOOK_EVENTS_COLLECTION = 'webhookEvents';
+
+// A delivery still marked `received` after this long is assumed to have died mid-way,
+// so a retry from the provider is allowed to process it again.
+const IN_FLIGHT_TIMEOUT_MS = 5 * 60 * 1000;
+
+type IncomingWebhookEvent = Pick<WebhookEvent, 'id' | 'provider' | 'event_type' | 'payment_id' | 'payload'>;
+
+export interface WebhookEventFilter {
+  provider?: string;
+  status?: WebhookEvent['status'];
+}
+
+// Provider event IDs are only unique per provider
+const getEventKey = (provider: string, eventId: string): string => `${provider}_${eventId}`;
+
+// Fallback event ID for providers that do not send one; retried deliveries carry the same body
+export const hashWebhookPayload = (body: string): string =>
+  crypto.createHash('sha256').update(body).digest('hex');
+
+// Convert a Firestore document into a WebhookEvent
+const toWebhookEvent = (data: DocumentData): WebhookEvent => ({
+  ...data,
+  received_at: data.received_at?.toDate() || new Date(),
+  processed_at: data.processed_at?.toDate(),
+  last_attempt_at: data.last_attempt_at?.toDate(),
+} as WebhookEvent);
+
+// Store an incoming event before it is processed. Returns `duplicate: true` when the
+// event was already processed, or is currently being processed by another delivery.
+export const receiveWebhookEvent = async (incoming: IncomingWebhookEvent): Promise<{ event: WebhookEvent; duplicate: boolean }> => {
+  try {
+    const db = await getServerDb();
+    const eventRef = doc(db, WEBHOOK_EVENTS_COLLECTION, getEventKey(incoming.provider, incoming.id));
+
+    return await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(eventRef);
+      const existing = snapshot.exists() ? snapshot.data() : null;
+      const now = Timestamp.now();
+
+      if (existing) {
+        const lastAttempt: Timestamp = existing.last_attempt_at || existing.received_at;
+        const inFlight = existing.status === 'received' && now.toMillis() - lastAttempt.toMillis() < IN_FLIGHT_TIMEOUT_MS;
+
+        if (existing.status === 'processed' || inFlight) {
+          return { event: toWebhookEvent(existing), duplicate: true };
+        }
+      }
+
+      const data: DocumentData = {
+        ...incoming,
+        status: 'received',
+        attempts: (existing?.attempts || 0) + 1,
+        received_at: existing?.received_at || now,
+        last_attempt_at: now,
+      };
+
+      transaction.set(eventRef, data);
+      return { event: toWebhookEvent(data), duplicate: false };
+    });
+  } catch (error) {
+    console.error('Error storing webhook event:', error);
+    throw error;
+  }
+};
+
+// Mark an event as successfully handled
+export const markWebhookEventProcessed = async (provider: string, eventId: string): Promise<void> => {
+  try {
+    await updateDoc(doc(await getServerDb(), WEBHOOK_EVENTS_COLLECTION, getEventKey(provider, eventId)), {
+      status: 'processed',
+      processed_at: Timestamp.now(),
+      error: deleteField(),
+    });
+  } catch (error) {
+    console.error('Error marking webhook event as processed:', error);
+    throw error;
+  }
+};
+
+// Mark an event as failed, keeping the error for later inspection and replay
+export const markWebhookEventFailed = async (provider: string, eventId: string, errorMessage: string): Promise<void> => {
+  try {
+    await updateDoc(doc(await getServerDb(), WEBHOOK_EVENTS_COLLECTION, getEventKey(provider, eventId)), {
+      status: 'failed',
+      error: errorMessage,
+    });
+  } catch (error) {
+    console.error('Error marking webhook event as failed:', error);
+    throw error;
+  }
+};
+
+// Flag a stored event for another processing attempt, triggered by an admin
+export const startWebhookEventReplay = async (provider: string, eventId: string, replayedBy: string): Promise<WebhookEvent | null> => {
+  try {
+    const db = await getServerDb();
+    const eventRef = doc(db, WEBHOOK_EVENTS_COLLECTION, getEventKey(provider, eventId));
+
+    return await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(eventRef);
+      if (!snapshot.exists()) {
+        return null;
+      }
+
+      const data: DocumentData = {
+        ...snapshot.data(),
+        status: 'received',
+        attempts: (snapshot.data().attempts || 0) + 1,
+        last_attempt_at: Timestamp.now(),
+        replayed_by: replayedBy,
+      };
+
+      transaction.set(eventRef, data);
+      return toWebhookEvent(data);
+    });
+  } catch (error) {
+    console.error('Error starting webhook event replay:', error);
+    throw error;
+  }
+};
+
+// List the most recent stored events
+export const listWebhookEvents = async (filter: WebhookEventFilter = {}, limitCount = 50): Promise<WebhookEvent[]> => {
+  try {
+    let q = query(
+      collection(await getServerDb(), WEBHOOK_EVENTS_COLLECTION),
+      orderBy('received_at', 'desc')
+    );
+
+    if (filter.provider) {
+      q = query(q, where('provider', '==', filter.provider));
+    }
+
+    if (filter.status) {
+      q = query(q, where('status', '==', filter.status));
+    }
+
+    const querySnapshot = await getDocs(query(q, limit(limitCount)));
+    return querySnapshot.docs.map(eventDoc => toWebhookEvent(eventDoc.data()));
+  } catch (error) {
+    console.error('Error listing webhook events:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,450 @@
+import Stripe from 'stripe';
+import { tamaraService } from './tamaraservice';
+import { tabbyService } from './tabbyservice';
+import { sandboxService } from './sandboxservice';
+import { recordPayment, findPaymentByProviderId } from './paymentLedger';
+import { addMoney, fromMinorUnits } from './money';
+import { markWebhookEventProcessed, markWebhookEventFailed } from './webhookEventStore';
+import {
+  recordMembershipPaymentFailed,
+  recordMembershipPaymentSucceeded,
+  syncMembershipFromSubscription
+} from './membershipService';
+import {
+  PaymentStatus,
+  SandboxWebhookEvent,
+  StripeWebhookEvent,
+  TamaraWebhookEvent,
+  TamaraWebhookOrderData,
+  TabbyWebhookEvent,
+  TabbyWebhookPaymentData,
+  TabbyWebhookRefundData,
+  WebhookEvent,
+} from '@/types/payment';
+
+// Webhook event handlers shared by the provider webhook routes and the admin replay route.
+// Handlers throw on ledger errors so that the stored event is marked as failed.
+
+const webhookHandlers: Record<string, (payload: Record<string, unknown>) => Promise<void>> = {
+  stripe: (payload) => handleStripeEvent(payload as unknown as StripeWebhookEvent),
+  tamara: (payload) => handleTamaraEvent(payload as unknown as TamaraWebhookEvent),
+  tabby: (payload) => handleTabbyEvent(payload as unknown as TabbyWebhookEvent),
+  sandbox: (payload) => handleSandboxEvent(payload as unknown as SandboxWebhookEvent),
+};
+
+// Run a stored event through its provider handler and record the outcome
+export async function dispatchWebhookEvent(event: WebhookEvent): Promise<{ success: boolean; error?: string }> {
+  const handler = webhookHandlers[event.provider];
+  if (!handler) {
+    const error = `No webhook handler for provider ${event.provider}`;
+    await markWebhookEventFailed(event.provider, event.id, error);
+    return { success: false, error };
+  }
+
+  try {
+    await handler(event.payload);
+    await markWebhookEventProcessed(event.provider, event.id);
+    return { success: true };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Webhook event ${event.provider}/${event.id} failed:`, error);
+    await markWebhookEventFailed(event.provider, event.id, message);
+    return { success: false, error: message };
+  }
+}
+
+// ==================== STRIPE ====================
+
+export async function handleStripeEvent(event: StripeWebhookEvent): Promise<void> {
+  switch (event.type) {
+    case 'payment_intent.succeeded':
+      await handlePaymentIntentSucceeded(event.data.object);
+      break;
+
+    case 'payment_intent.payment_failed':
+      await handlePaymentIntentFailed(event.data.object);
+      break;
+
+    case 'payment_intent.canceled':
+      await handlePaymentIntentCanceled(event.data.object);
+      break;
+
+    case 'payment_intent.requires_action':
+      await handlePaymentIntentRequiresAction(event.data.object);
+      break;
+
+    case 'charge.refunded':
+      await handleChargeRefunded(event.data.object);
+      break;
+
+    case 'charge.dispute.created':
+      await handleChargeDisputeCreated(event.data.object);
+      break;
+
+    // Memberships
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted':
+      await syncMembershipFromSubscription(event.data.object, event.created);
+      break;
+
+    case 'invoice.payment_failed':
+      await recordMembershipPaymentFailed(event.data.object);
+      break;
+
+    case 'invoice.paid':
+      await recordMembershipPaymentSucceeded(event.data.object);
+      break;
+
+    default:
+      console.log(`Unhandled Stripe event type: ${event.type}`);
+  }
+}
+
+// Payment intents created by PaymentService carry our order_id in their metadata
+function getStripeOrderId(paymentIntent: Stripe.PaymentIntent): string {
+  return paymentIntent.metadata?.order_id || paymentIntent.id;
+}
+
+async function recordPaymentIntent(paymentIntent: Stripe.PaymentIntent, status: PaymentStatus, eventType: string) {
+  await recordPayment(getStripeOrderId(paymentIntent), {
+    provider: 'stripe',
+    provider_payment_id: paymentIntent.id,
+    source: 'webhook',
+    status,
+    amount: fromMinorUnits(paymentIntent.amount, paymentIntent.currency).amount,
+    currency: paymentIntent.currency,
+    customer_id: typeof paymentIntent.customer === 'string' ? paymentIntent.customer : paymentIntent.customer?.id,
+    event: eventType,
+  });
+}
+
+async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent) {
+  console.log('Payment succeeded:', paymentIntent.id);
+  await recordPaymentIntent(paymentIntent, 'completed', 'payment_intent.succeeded');
+}
+
+async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent) {
+  console.log('Payment failed:', paymentIntent.id);
+  await recordPaymentIntent(paymentIntent, 'failed', 'payment_intent.payment_failed');
+}
+
+async function handlePaymentIntentCanceled(paymentIntent: Stripe.PaymentIntent) {
+  console.log('Payment canceled:', paymentIntent.id);
+  await recordPaymentIntent(paymentIntent, 'cancelled', 'payment_intent.canceled');
+}
+
+async function handlePaymentIntentRequiresAction(paymentIntent: Stripe.PaymentIntent) {
+  console.log('Payment requires action:', paymentIntent.id);
+  await recordPaymentIntent(paymentIntent, 'pending', 'payment_intent.requires_action');
+}
+
+async function handleChargeRefunded(charge: Stripe.Charge) {
+  console.log('Charge refunded:', charge.id);
+
+  const paymentIntentId = typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id;
+  if (!paymentIntentId) {
+    console.warn(`Refunded charge ${charge.id} has no payment intent, skipping ledger update`);
+    return;
+  }
+
+  await recordPayment(charge.metadata?.order_id || paymentIntentId, {
+    provider: 'stripe',
+    provider_payment_id: paymentIntentId,
+    source: 'webhook',
+    status: charge.refunded ? 'refunded' : undefined,
+    metadata: {
+      amount_refunded: fromMinorUnits(charge.amount_refunded, charge.currency).amount,
+    },
+    event: 'charge.refunded',
+  });
+}
+
+async function handleChargeDisputeCreated(dispute: Stripe.Dispute) {
+  console.log('Charge dispute created:', dispute.id);
+
+  const paymentIntentId = typeof dispute.payment_intent === 'string' ? dispute.payment_intent : dispute.payment_intent?.id;
+  if (!paymentIntentId) {
+    console.warn(`Dispute ${dispute.id} has no payment intent, skipping ledger update`);
+    return;
+  }
+
+  // A dispute does not change the payment status, it is flagged for follow-up
+  await recordPayment(dispute.metadata?.order_id || paymentIntentId, {
+    provider: 'stripe',
+    provider_payment_id: paymentIntentId,
+    source: 'webhook',
+    metadata: {
+      disputed: true,
+      dispute_id: dispute.id,
+    },
+    event: 'charge.dispute.created',
+  });
+}
+
+// ==================== TAMARA ====================
+
+export async function handleTamaraEvent(event: TamaraWebhookEvent): Promise<void> {
+  switch (event.event_type) {
+    case 'order_approved':
+      await handleOrderApproved(event.data);
+      break;
+
+    case 'order_declined':
+      await handleOrderDeclined(event.data);
+      break;
+
+    case 'order_expired':
+      await handleOrderExpired(event.data);
+      break;
+
+    case 'order_canceled':
+      await handleOrderCanceled(event.data);
+      break;
+
+    case 'order_captured':
+      await handleOrderCaptured(event.data);
+      break;
+
+    case 'order_refunded':
+      await handleOrderRefunded(event.data);
+      break;
+
+    default:
+      console.log(`Unhandled Tamara event type: ${event.event_type}`);
+  }
+}
+
+async function recordTamaraOrder(orderData: TamaraWebhookOrderData, status: PaymentStatus, eventType: string, metadata?: Record<string, string | number | boolean>) {
+  await recordPayment(orderData.order_reference_id, {
+    provider: 'tamara',
+    provider_payment_id: orderData.order_id,
+    source: 'webhook',
+    status,
+    amount: orderData.total_amount?.amount,
+    currency: orderData.total_amount?.currency,
+    metadata,
+    event: eventType,
+  });
+}
+
+async function handleOrderApproved(orderData: TamaraWebhookOrderData) {
+  console.log('Tamara order approved:', orderData.order_id);
+  await recordTamaraOrder(orderData, tamaraService.mapTamaraStatusToPaymentStatus('approved'), 'order_approved');
+}
+
+async function handleOrderDeclined(orderData: TamaraWebhookOrderData) {
+  console.log('Tamara order declined:', orderData.order_id);
+  await recordTamaraOrder(orderData, 'failed', 'order_declined');
+}
+
+async function handleOrderExpired(orderData: TamaraWebhookOrderData) {
+  console.log('Tamara order expired:', orderData.order_id);
+  await recordTamaraOrder(orderData, 'failed', 'order_expired');
+}
+
+async function handleOrderCanceled(orderData: TamaraWebhookOrderData) {
+  console.log('Tamara order canceled:', orderData.order_id);
+  await recordTamaraOrder(orderData, 'cancelled', 'order_canceled');
+}
+
+async function handleOrderCaptured(orderData: TamaraWebhookOrderData) {
+  console.log('Tamara order captured:', orderData.order_id);
+  await recordTamaraOrder(orderData, 'completed', 'order_captured', {
+    amount_captured: orderData.captured_amount?.amount ?? orderData.total_amount?.amount,
+  });
+}
+
+async function handleOrderRefunded(orderData: TamaraWebhookOrderData) {
+  console.log('Tamara order refunded:', orderData.order_id);
+  await recordTamaraOrder(orderData, 'refunded', 'order_refunded', {
+    amount_refunded: orderData.refunded_amount?.amount ?? orderData.total_amount?.amount,
+  });
+}
+
+// ==================== TABBY ====================
+
+export async function handleTabbyEvent(event: TabbyWebhookEvent): Promise<void> {
+  switch (event.type) {
+    case 'payment.created':
+      await handlePaymentCreated(event.data as TabbyWebhookPaymentData);
+      break;
+
+    case 'payment.authorized':
+      await handlePaymentAuthorized(event.data as TabbyWebhookPaymentData);
+      break;
+
+    case 'payment.captured':
+      await handlePaymentCaptured(event.data as TabbyWebhookPaymentData);
+      break;
+
+    case 'payment.rejected':
+      await handlePaymentRejected(event.data as TabbyWebhookPaymentData);
+      break;
+
+    case 'payment.canceled':
+      await handlePaymentCanceled(event.data as TabbyWebhookPaymentData);
+      break;
+
+    case 'payment.expired':
+      await handlePaymentExpired(event.data as TabbyWebhookPaymentData);
+      break;
+
+    case 'payment.closed':
+      await handlePaymentClosed(event.data as TabbyWebhookPaymentData);
+      break;
+
+    case 'refund.created':
+      await handleRefundCreated(event.data as TabbyWebhookRefundData);
+      break;
+
+    case 'refund.rejected':
+      await handleRefundRejected(event.data as TabbyWebhookRefundData);
+      break;
+
+    default:
+      console.log(`Unhandled Tabby event type: ${event.type}`);
+  }
+}
+
+async function recordTabbyPayment(paymentData: TabbyWebhookPaymentData, status: PaymentStatus, eventType: string, metadata?: Record<string, string | number | boolean>) {
+  await recordPayment(paymentData.order?.reference_id || paymentData.id, {
+    provider: 'tabby',
+    provider_payment_id: paymentData.id,
+    source: 'webhook',
+    status,
+    amount: parseFloat(paymentData.amount),
+    currency: paymentData.currency,
+    metadata,
+    event: eventType,
+  });
+}
+
+async function handlePaymentCreated(paymentData: TabbyWebhookPaymentData) {
+  console.log('Tabby payment created:', paymentData.id);
+  await recordTabbyPayment(paymentData, 'pending', 'payment.created');
+}
+
+async function handlePaymentAuthorized(paymentData: TabbyWebhookPaymentData) {
+  console.log('Tabby payment authorized:', paymentData.id);
+  await recordTabbyPayment(paymentData, tabbyService.mapTabbyStatusToPaymentStatus('authorized'), 'payment.authorized');
+}
+
+async function handlePaymentCaptured(paymentData: TabbyWebhookPaymentData) {
+  console.log('Tabby payment captured:', paymentData.id);
+
+  const capturedAmount = (paymentData.captures || []).reduce(
+    (sum, capture) => addMoney(sum, { amount: parseFloat(capture.amount), currency: paymentData.currency }),
+    { amount: 0, currency: paymentData.currency }
+  ).amount;
+  await recordTabbyPayment(paymentData, 'completed', 'payment.captured', {
+    amount_captured: capturedAmount || parseFloat(paymentData.amount),
+  });
+}
+
+async function handlePaymentRejected(paymentData: TabbyWebhookPaymentData) {
+  console.log('Tabby payment rejected:', paymentData.id);
+  await recordTabbyPayment(paymentData, 'failed', 'payment.rejected');
+}
+
+async function handlePaymentCanceled(paymentData: TabbyWebhookPaymentData) {
+  console.log('Tabby payment canceled:', paymentData.id);
+  await recordTabbyPayment(paymentData, 'cancelled', 'payment.canceled');
+}
+
+async function handlePaymentExpired(paymentData: TabbyWebhookPaymentData) {
+  console.log('Tabby payment expired:', paymentData.id);
+  await recordTabbyPayment(paymentData, 'failed', 'payment.expired');
+}
+
+async function handlePaymentClosed(paymentData: TabbyWebhookPaymentData) {
+  console.log('Tabby payment closed:', paymentData.id);
+  await recordTabbyPayment(paymentData, tabbyService.mapTabbyStatusToPaymentStatus('closed'), 'payment.closed');
+}
+
+// Refund events only reference the Tabby payment ID, so the order is looked up from the ledger
+async function handleRefundCreated(refundData: TabbyWebhookRefundData) {
+  console.log('Tabby refund created:', refundData.id);
+
+  const payment = await findPaymentByProviderId('tabby', refundData.payment_id);
+  if (!payment) {
+    console.warn(`No ledger entry for Tabby payment ${refundData.payment_id}, skipping refund ${refundData.id}`);
+    return;
+  }
+
+  // Refunds issued from the admin panel are counted when the provider accepts them. The
+  // ledger also skips IDs it has seen, in case the webhook arrives before that is recorded.
+  if (payment.refunds?.[refundData.id] !== undefined) {
+    return;
+  }
+
+  const refundAmount = parseFloat(refundData.amount);
+  const amountRefunded = addMoney(
+    { amount: Number(payment.metadata?.amount_refunded ?? 0), currency: payment.currency },
+    { amount: refundAmount, currency: payment.currency }
+  ).amount;
+  await recordPayment(payment.order_id, {
+    provider: 'tabby',
+    provider_payment_id: refundData.payment_id,
+    source: 'webhook',
+    status: amountRefunded >= payment.amount ? 'refunded' : undefined,
+    reported_refund: refundAmount,
+    refund_id: refundData.id,
+    metadata: {
+      refund_id: refundData.id,
+    },
+    event: 'refund.created',
+  });
+}
+
+async function handleRefundRejected(refundData: TabbyWebhookRefundData) {
+  console.log('Tabby refund rejected:', refundData.id);
+
+  const payment = await findPaymentByProviderId('tabby', refundData.payment_id);
+  if (!payment) {
+    console.warn(`No ledger entry for Tabby payment ${refundData.payment_id}, skipping refund ${refundData.id}`);
+    return;
+  }
+
+  // The payment itself is unaffected; the rejection is kept for follow-up
+  await recordPayment(payment.order_id, {
+    provider: 'tabby',
+    provider_payment_id: refundData.payment_id,
+    source: 'webhook',
+    metadata: {
+      rejected_refund_id: refundData.id,
+    },
+    event: 'refund.rejected',
+  });
+}
+
+// ==================== SANDBOX ====================
+
+// Sandbox events always carry the full payment state, so every event type is
+// recorded the same way from the payment snapshot.
+export async function handleSandboxEvent(event: SandboxWebhookEvent): Promise<void> {
+  const { payment, refund } = event.data;
+  console.log(`Sandbox ${event.type}:`, payment.id);
+
+  const metadata: Record<string, string | number | boolean> = {};
+  if (payment.status !== 'created' && payment.status !== 'authorized' && payment.captured_amount > 0) {
+    metadata.amount_captured = payment.captured_amount;
+  }
+  if (payment.refunded_amount > 0) {
+    metadata.amount_refunded = payment.refunded_amount;
+  }
+  if (refund) {
+    metadata[refund.status === 'rejected' ? 'rejected_refund_id' : 'refund_id'] = refund.id;
+  }
+
+  await recordPayment(payment.order_id, {
+    provider: 'sandbox',
+    provider_payment_id: payment.id,
+    source: 'webhook',
+    status: sandboxService.mapSandboxStatusToPaymentStatus(payment.status),
+    amount: payment.amount,
+    currency: payment.currency,
+    metadata,
+    event: event.type,
+  });
+}
@@ -0,0 +1,18 @@
+import {
+  parseWebhookPayload,
+  resolveWebhookSecrets,
+  verifyTimestampedSignature,
+  WebhookVerificationOptions
+} from './shared';
+
+// The local sandbox provider (scripts/sandbox-provider.js) signs like Stripe:
+// `Sandbox-Signature: t=<timestamp>,v1=<hex hmac of "${t}.${payload}">`
+export const verifySandboxWebhook = <T = Record<string, unknown>>(
+  payload: string,
+  signature: string,
+  options: WebhookVerificationOptions = {}
+): T => {
+  const secrets = resolveWebhookSecrets(options, process.env.SANDBOX_WEBHOOK_SECRET || 'sandbox_webhook_secret');
+  verifyTimestampedSignature(payload, signature, secrets, options);
+  return parseWebhookPayload<T>(payload);
+};
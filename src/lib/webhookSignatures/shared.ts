@@ -0,0 +1,100 @@
+import crypto from 'crypto';
+
+export interface WebhookVerificationOptions {
+  // Secrets to try, newest first. Defaults to the provider's environment variable.
+  secrets?: string[];
+  // How far the signed timestamp may be from now, for schemes that sign one
+  toleranceSeconds?: number;
+  // Current time in seconds, for verifying recorded payloads
+  now?: number;
+}
+
+export const DEFAULT_TOLERANCE_SECONDS = 300;
+
+// Secrets are configured as a comma-separated list so a new secret can be added
+// before the provider switches to it, and the old one removed afterwards
+export const parseWebhookSecrets = (value: string | undefined): string[] =>
+  (value || '')
+    .split(',')
+    .map(secret => secret.trim())
+    .filter(Boolean);
+
+export const resolveWebhookSecrets = (options: WebhookVerificationOptions, envValue: string | undefined): string[] => {
+  const secrets = options.secrets ?? parseWebhookSecrets(envValue);
+  if (secrets.length === 0) {
+    throw new Error('Webhook secret is not configured');
+  }
+  return secrets;
+};
+
+export const hmacSha256 = (secret: string, data: string, encoding: 'hex' | 'base64' = 'hex'): string =>
+  crypto.createHmac('sha256', secret).update(data, 'utf8').digest(encoding);
+
+// Constant-time comparison that also copes with signatures of the wrong length
+export const signaturesMatch = (expected: string, received: string): boolean => {
+  const expectedBuffer = Buffer.from(expected);
+  const receivedBuffer = Buffer.from(received);
+  return expectedBuffer.length === receivedBuffer.length && crypto.timingSafeEqual(expectedBuffer, receivedBuffer);
+};
+
+export const checkTimestamp = (timestamp: number, options: WebhookVerificationOptions): void => {
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const tolerance = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+
+  if (Math.abs(now - timestamp) > tolerance) {
+    throw new Error('Webhook timestamp is outside the tolerance window');
+  }
+};
+
+// Parse a `t=<timestamp>,v1=<signature>[,v1=<signature>...]` header
+export const parseTimestampedSignature = (header: string): { timestamp: number; signatures: string[] } => {
+  let timestamp = NaN;
+  const signatures: string[] = [];
+
+  for (const part of header.split(',')) {
+    const separator = part.indexOf('=');
+    const key = part.slice(0, separator).trim();
+    const value = part.slice(separator + 1).trim();
+
+    if (key === 't') {
+      timestamp = parseInt(value, 10);
+    } else if (key === 'v1' && value) {
+      signatures.push(value);
+    }
+  }
+
+  if (!Number.isFinite(timestamp) || signatures.length === 0) {
+    throw new Error('Malformed webhook signature');
+  }
+
+  return { timestamp, signatures };
+};
+
+// Verify a `t=...,v1=...` signature made over `${timestamp}.${payload}` with any of the secrets
+export const verifyTimestampedSignature = (
+  payload: string,
+  header: string,
+  secrets: string[],
+  options: WebhookVerificationOptions
+): void => {
+  const { timestamp, signatures } = parseTimestampedSignature(header);
+  checkTimestamp(timestamp, options);
+
+  const signedPayload = `${timestamp}.${payload}`;
+  const valid = secrets.some(secret => {
+    const expected = hmacSha256(secret, signedPayload);
+    return signatures.some(signature => signaturesMatch(expected, signature.toLowerCase()));
+  });
+
+  if (!valid) {
+    throw new Error('Invalid webhook signature');
+  }
+};
+
+export const parseWebhookPayload = <T>(payload: string): T => {
+  try {
+    return JSON.parse(payload) as T;
+  } catch {
+    throw new Error('Webhook payload is not valid JSON');
+  }
+};
@@ -0,0 +1,19 @@
+import {
+  parseWebhookPayload,
+  resolveWebhookSecrets,
+  verifyTimestampedSignature,
+  WebhookVerificationOptions
+} from './shared';
+
+// Stripe signs `${t}.${payload}` with HMAC-SHA256 and sends `Stripe-Signature:
+// t=<timestamp>,v1=<hex>`. While a secret is being rolled in the dashboard the
+// header carries one v1 signature per active secret.
+export const verifyStripeWebhook = <T = Record<string, unknown>>(
+  payload: string,
+  signature: string,
+  options: WebhookVerificationOptions = {}
+): T => {
+  const secrets = resolveWebhookSecrets(options, process.env.STRIPE_WEBHOOK_SECRET);
+  verifyTimestampedSignature(payload, signature, secrets, options);
+  return parseWebhookPayload<T>(payload);
+};
@@ -0,0 +1,25 @@
+import {
+  hmacSha256,
+  parseWebhookPayload,
+  resolveWebhookSecrets,
+  signaturesMatch,
+  WebhookVerificationOptions
+} from './shared';
+
+// Tabby webhooks carry a hex HMAC-SHA256 of the raw body in `X-Tabby-Signature`.
+// The scheme signs no timestamp, so replays are caught by the webhook event store
+// deduplicating on the event ID (or a hash of the body) instead.
+export const verifyTabbyWebhook = <T = Record<string, unknown>>(
+  payload: string,
+  signature: string,
+  options: WebhookVerificationOptions = {}
+): T => {
+  const secrets = resolveWebhookSecrets(options, process.env.TABBY_WEBHOOK_SECRET);
+  const received = signature.trim().toLowerCase();
+
+  if (!secrets.some(secret => signaturesMatch(hmacSha256(secret, payload), received))) {
+    throw new Error('Invalid webhook signature');
+  }
+
+  return parseWebhookPayload<T>(payload);
+};
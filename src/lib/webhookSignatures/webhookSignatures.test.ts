@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { verifySandboxWebhook } from './sandbox';
+import { verifyStripeWebhook } from './stripe';
+import { verifyTabbyWebhook } from './tabby';
+import { verifyTamaraWebhook } from './tamara';
+import { WebhookVerificationOptions } from './shared';
+import sandboxFixtures from './__fixtures__/sandbox.json';
+import stripeFixtures from './__fixtures__/stripe.json';
+import tabbyFixtures from './__fixtures__/tabby.json';
+import tamaraFixtures from './__fixtures__/tamara.json';
+
+// Recorded payloads with their signature header. Cases without an `error` must verify;
+// the others must be rejected with that message.
+interface SignatureFixtures {
+  secrets: string[];
+  now: number;
+  cases: { name: string; payload: string; signature: string; error?: string }[];
+}
+
+type Verifier = (payload: string, signature: string, options?: WebhookVerificationOptions) => unknown;
+
+const providers: { name: string; verify: Verifier; fixtures: SignatureFixtures; envVar: string }[] = [
+  { name: 'Stripe', verify: verifyStripeWebhook, fixtures: stripeFixtures, envVar: 'STRIPE_WEBHOOK_SECRET' },
+  { name: 'Tabby', verify: verifyTabbyWebhook, fixtures: tabbyFixtures, envVar: 'TABBY_WEBHOOK_SECRET' },
+  { name: 'Tamara', verify: verifyTamaraWebhook, fixtures: tamaraFixtures, envVar: 'TAMARA_WEBHOOK_SECRET' },
+  { name: 'Sandbox', verify: verifySandboxWebhook, fixtures: sandboxFixtures, envVar: 'SANDBOX_WEBHOOK_SECRET' },
+];
+
+for (const { name, verify, fixtures, envVar } of providers) {
+  describe(`${name} webhook signatures`, () => {
+    const options = { secrets: fixtures.secrets, now: fixtures.now };
+
+    for (const { name: caseName, payload, signature, error } of fixtures.cases) {
+      it(error ? `rejects: ${caseName}` : `accepts: ${caseName}`, () => {
+        if (error) {
+          assert.throws(() => verify(payload, signature, options), { message: error });
+        } else {
+          assert.deepEqual(verify(payload, signature, options), JSON.parse(payload));
+        }
+      });
+    }
+
+    it('reads comma-separated secrets from the environment', () => {
+      const { payload, signature } = fixtures.cases[1];
+      const configured = process.env[envVar];
+      process.env[envVar] = ` ${fixtures.secrets.join(' , ')} `;
+
+      try {
+        assert.deepEqual(verify(payload, signature, { now: fixtures.now }), JSON.parse(payload));
+      } finally {
+        if (configured === undefined) {
+          delete process.env[envVar];
+        } else {
+          process.env[envVar] = configured;
+        }
+      }
+    });
+
+    it('refuses to verify without a secret', () => {
+      const { payload, signature } = fixtures.cases[0];
+      assert.throws(() => verify(payload, signature, { secrets: [], now: fixtures.now }), { message: 'Webhook secret is not configured' });
+    });
+  });
+}
@@ -0,0 +1,27 @@
+// ZATCA e-invoicing Phase 1 QR code content: the seller name, VAT number, timestamp,
+// invoice total and VAT total as tag-length-value fields, base64 encoded.
+
+interface ZatcaQrFields {
+  sellerName: string;
+  vatNumber: string;
+  timestamp: Date;
+  total: string;
+  vatTotal: string;
+}
+
+const encodeField = (tag: number, value: string): Buffer => {
+  const bytes = Buffer.from(value, 'utf8');
+  if (bytes.length > 255) {
+    throw new Error(`ZATCA QR field ${tag} is too long`);
+  }
+  return Buffer.concat([Buffer.from([tag, bytes.length]), bytes]);
+};
+
+export const encodeZatcaQr = (fields: ZatcaQrFields): string =>
+  Buffer.concat([
+    encodeField(1, fields.sellerName),
+    encodeField(2, fields.vatNumber),
+    encodeField(3, fields.timestamp.toISOString().replace(/\.\d{3}Z$/, 'Z')),
+    encodeField(4, fields.total),
+    encodeField(5, fields.vatTotal),
+  ]).toString('base64');
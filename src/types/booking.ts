@@ -0,0 +1,106 @@
+import { BookingCancellation, BookingDeposit } from './deposit';
+
+export type BookingStatus =
+  | 'upcoming'
+  // Completed
+  | 'past'
+  | 'cancelled'
+  | 'no_show';
+
+export interface BookingServiceItem {
+  serviceId: string;
+  serviceName: string;
+  category: string;
+  // Minutes
+  duration: number;
+  price: number;
+  quantity: number;
+}
+
+// Stored in the `bookings` collection. Bookings are made in the customer app;
+// the admin panel manages them.
+export interface Booking {
+  id: string;
+  userId: string;
+  customerName: string;
+  services: BookingServiceItem[];
+  // Day of the appointment; the time is in bookingTime
+  bookingDate: Date;
+  // e.g. "2:30 PM" or "14:30"
+  bookingTime: string;
+  // Branch name
+  branch: string;
+  totalPrice: number;
+  totalDuration: number;
+  status: BookingStatus;
+  paymentMethod: string;
+  emailConfirmation: boolean;
+  smsConfirmation: boolean;
+  deposit?: BookingDeposit;
+  cancellation?: BookingCancellation;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface BookingFormData {
+  userId: string;
+  customerName: string;
+  services: BookingServiceItem[];
+  bookingDate: Date;
+  bookingTime: string;
+  branch: string;
+  paymentMethod: string;
+  emailConfirmation?: boolean;
+  smsConfirmation?: boolean;
+}
+
+export interface BookingFilter {
+  status?: BookingStatus | 'all';
+  branch?: string;
+  userId?: string;
+  // Appointment dates, inclusive
+  dateRange?: {
+    start: Date;
+    end: Date;
+  };
+}
+
+// Returned when a booking is cancelled through the cancellation policy
+export interface BookingCancellationResult extends BookingCancellation {
+  // Link for the customer to pay the fee; only returned once
+  fee_payment_url?: string;
+}
+
+// Set on a branch as `availability`; DEFAULT_AVAILABILITY_SETTINGS in lib/bookingPolicy applies otherwise
+export interface AvailabilitySettings {
+  // Minutes between the start times offered
+  slot_interval_minutes: number;
+  // Minutes kept free after each appointment to get ready for the next one
+  buffer_minutes: number;
+  // Appointments the branch can take at the same time
+  staff_count: number;
+}
+
+export interface AvailabilitySlot {
+  // Start time in the form Booking.bookingTime takes, e.g. "14:30"
+  time: string;
+  starts_at: Date;
+  ends_at: Date;
+  // Staff still free for the whole appointment
+  available_staff: number;
+}
+
+export interface Availability {
+  branch_id: string;
+  branch: string;
+  // YYYY-MM-DD
+  date: string;
+  // IANA time zone of the branch; slot times are wall clock times there
+  time_zone: string;
+  // Total length of the services asked for
+  duration_minutes: number;
+  // Null when the branch is closed or its opening hours could not be read
+  opening_hours: { open: string; close: string } | null;
+  settings: AvailabilitySettings;
+  slots: AvailabilitySlot[];
+}
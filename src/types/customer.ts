@@ -1,3 +1,6 @@
+// Bronze is the default; higher tiers come with a paid membership (see types/membership)
+export type MembershipTier = 'bronze' | 'silver' | 'gold' | 'platinum';
+
 export interface Customer {
   id?: string;
   name: string;
@@ -25,7 +28,9 @@ export interface Customer {
     favoriteServices?: string[];
   };
   loyaltyPoints?: number;
-  membershipTier?: 'bronze' | 'silver' | 'gold' | 'platinum';
+  membershipTier?: MembershipTier;
+  // Stripe customer the membership subscriptions are billed to
+  stripeCustomerId?: string;
   referredBy?: string;
   marketingConsent?: {
     email: boolean;
@@ -80,7 +85,7 @@ export interface CustomerStats {
 export interface CustomerFilter {
   search?: string;
   status?: 'active' | 'inactive' | 'blocked' | 'all';
-  membershipTier?: 'bronze' | 'silver' | 'gold' | 'platinum' | 'all';
+  membershipTier?: MembershipTier | 'all';
   branch?: string;
   dateRange?: {
     start: Date;
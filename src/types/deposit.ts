@@ -0,0 +1,81 @@
+import { Money } from './payment';
+
+// A deposit rule, set on a service or on a branch. Service rules take precedence.
+export interface DepositRule {
+  type: 'percentage' | 'fixed';
+  // Percent of the service price, or an amount in the branch's currency per service booked
+  value: number;
+}
+
+// Set on a branch; DEFAULT_CANCELLATION_POLICY in lib/bookingPolicy applies otherwise
+export interface CancellationPolicy {
+  // Cancelling at least this many hours before the appointment gets the deposit back
+  free_cancellation_hours: number;
+  // Fees in percent of the booking total. The deposit is kept and counts towards the fee.
+  late_cancellation_fee_percent: number;
+  no_show_fee_percent: number;
+}
+
+export type DepositStatus =
+  // Payment link sent, not paid yet
+  | 'pending'
+  | 'paid'
+  | 'refunded'
+  | 'forfeited'
+  // Link revoked or expired before it was paid
+  | 'cancelled';
+
+// Stored on the booking document as `deposit`
+export interface BookingDeposit {
+  amount: number;
+  currency: string;
+  status: DepositStatus;
+  payment_link_id: string;
+  // Ledger order the deposit was paid under
+  order_id?: string;
+  requested_at: Date;
+  requested_by: string;
+  paid_at?: Date;
+  settled_at?: Date;
+}
+
+// Deposit a booking requires under the current rules, and the one requested so far
+export interface DepositQuote {
+  required: Money;
+  deposit: BookingDeposit | null;
+}
+
+export type CancellationType = 'cancelled' | 'no_show';
+
+export type CancellationAction =
+  // Nothing was paid and nothing is owed
+  | 'none'
+  | 'refund'
+  | 'forfeit'
+  | 'charge_fee';
+
+// What the cancellation policy decided for a booking
+export interface CancellationOutcome {
+  type: CancellationType;
+  action: CancellationAction;
+  reason: string;
+  currency: string;
+  // Hours between the cancellation and the appointment; negative once it has started
+  hours_before: number;
+  deposit_paid: number;
+  refund_amount: number;
+  retained_amount: number;
+  // Charged on top of the retained deposit through a payment link
+  fee_amount: number;
+}
+
+// Stored on the booking document as `cancellation`
+export interface BookingCancellation extends CancellationOutcome {
+  cancelled_at: Date;
+  cancelled_by: string;
+  fee_payment_link_id?: string;
+  // Set if the refund could not be made and has to be handled manually
+  refund_error?: string;
+  // Set if a kept BNPL deposit could not be captured and has to be collected manually
+  retain_error?: string;
+}
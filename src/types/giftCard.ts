@@ -0,0 +1,51 @@
+export type GiftCardStatus =
+  // Sold through a payment link that has not been paid yet
+  | 'pending'
+  | 'active'
+  // No balance left
+  | 'depleted'
+  | 'expired'
+  | 'disabled';
+
+// Stored in the `giftCards` collection, keyed by the code without separators.
+// Amounts are in major units of the card's currency.
+export interface GiftCard {
+  id: string;
+  code: string;
+  status: GiftCardStatus;
+  currency: string;
+  initial_amount: number;
+  balance: number;
+  expires_at: Date;
+  customer_id?: string;
+  recipient_name?: string;
+  message?: string;
+  // Payment link the card was sold through, if it was sold rather than given away
+  sale_link_id?: string;
+  // When the card got its balance: at issue, or once a sold card was paid for
+  activated_at?: Date;
+  issued_by: string;
+  created_at: Date;
+  updated_at: Date;
+  disabled_by?: string;
+}
+
+export type GiftCardTransactionType = 'issue' | 'redemption' | 'refund';
+
+// Stored in the `giftCardTransactions` collection. Redemptions are the provider
+// payments of the gift card tender, so their IDs appear in the payments ledger.
+export interface GiftCardTransaction {
+  id: string;
+  gift_card_id: string;
+  type: GiftCardTransactionType;
+  amount: number;
+  currency: string;
+  balance_after: number;
+  order_id?: string;
+  // Redemptions only: how much of it has been refunded to the card
+  refunded_amount?: number;
+  // Refunds only: the redemption being refunded
+  redemption_id?: string;
+  created_by?: string;
+  created_at: Date;
+}
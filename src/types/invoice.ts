@@ -0,0 +1,56 @@
+// Countries we issue tax invoices in: Saudi Arabia (ZATCA) and the UAE (FTA)
+export type TaxCountry = 'SA' | 'AE';
+
+export type InvoiceType = 'invoice' | 'credit_note';
+
+export interface InvoiceSeller {
+  name: string;
+  vat_number: string;
+  address: string;
+  branch: string;
+}
+
+export interface InvoiceBuyer {
+  name?: string;
+  email?: string;
+}
+
+// Amounts are in major units. Prices are VAT-inclusive, as shown to customers.
+export interface InvoiceLine {
+  description: string;
+  quantity: number;
+  unit_price: number;
+  net_amount: number;
+  vat_amount: number;
+  total: number;
+}
+
+// Stored in the `invoices` collection. Invoices and credit notes share the collection
+// but have separate number sequences.
+export interface Invoice {
+  id: string;
+  number: string;
+  type: InvoiceType;
+  country: TaxCountry;
+  currency: string;
+  order_id: string;
+  provider: string;
+  provider_payment_id: string;
+  booking_id?: string;
+  seller: InvoiceSeller;
+  buyer?: InvoiceBuyer;
+  lines: InvoiceLine[];
+  vat_rate: number;
+  subtotal: number;
+  vat_amount: number;
+  total: number;
+  // Invoices only: total of the credit notes issued against it
+  credited_amount?: number;
+  // Credit notes only
+  original_invoice_id?: string;
+  original_invoice_number?: string;
+  reason?: string;
+  // ZATCA Phase 1 QR payload (base64 TLV), Saudi invoices only
+  zatca_qr?: string;
+  issued_at: Date;
+}
@@ -0,0 +1,62 @@
+import { MembershipTier } from './customer';
+
+export interface MembershipIncludedService {
+  service_id: string;
+  service_name: string;
+  // Times the service can be used per billing period
+  quantity: number;
+}
+
+// Stored in the `membershipPlans` collection. Each plan is billed monthly through its
+// own Stripe price; the price cannot change once members are subscribed to it.
+export interface MembershipPlan {
+  id: string;
+  name: string;
+  // Tier the customer holds while the membership is in good standing
+  tier: Exclude<MembershipTier, 'bronze'>;
+  monthly_price: number;
+  currency: string;
+  stripe_product_id: string;
+  stripe_price_id: string;
+  included_services: MembershipIncludedService[];
+  // Percentage off services that are not included
+  discount_percent: number;
+  // Inactive plans keep their members but cannot be signed up to
+  active: boolean;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type MembershipStatus =
+  // Signed up, but the first payment has not gone through yet
+  | 'incomplete'
+  | 'active'
+  // A renewal payment failed and Stripe is retrying it. Benefits continue meanwhile.
+  | 'past_due'
+  // Retries ran out, or billing was paused; benefits are suspended
+  | 'suspended'
+  | 'canceled';
+
+// Stored in the `memberships` collection, keyed by the Stripe subscription ID and kept
+// in sync by the subscription webhooks
+export interface Membership {
+  id: string;
+  customer_id: string;
+  plan_id: string;
+  plan_name: string;
+  tier: MembershipPlan['tier'];
+  status: MembershipStatus;
+  stripe_customer_id: string;
+  current_period_end: Date;
+  cancel_at_period_end: boolean;
+  // Dunning: failed attempts at the current invoice, reset once it is paid
+  failed_payment_attempts: number;
+  next_payment_attempt?: Date;
+  last_payment_error?: string;
+  started_at: Date;
+  canceled_at?: Date;
+  // When the Stripe event last applied to the membership was created; older events are ignored
+  last_event_at?: Date;
+  updated_at: Date;
+}
@@ -1,7 +1,9 @@
+import type Stripe from 'stripe';
+
 // Common Payment Types
 export interface PaymentMethod {
   id: string;
-  type: 'stripe' | 'tamara' | 'tabby';
+  type: PaymentProvider;
   name: string;
   enabled: boolean;
 }
@@ -18,6 +20,16 @@ export interface PaymentIntent {
   updated_at: Date;
 }
 
+// A monetary amount in major units (e.g. 10.50 SAR) with its ISO 4217 currency code.
+// Use the helpers in lib/money to convert to the minor units providers expect.
+export interface Money {
+  amount: number;
+  currency: string;
+}
+
+// ID of a provider registered in lib/paymentProviders, e.g. 'stripe', 'tamara' or 'tabby'
+export type PaymentProvider = string;
+
 export type PaymentStatus = 
   | 'pending'
   | 'processing'
@@ -26,6 +38,139 @@ export type PaymentStatus =
   | 'cancelled'
   | 'refunded';
 
+// Ledger record stored in the `payments` collection, keyed by our order_id
+export interface PaymentRecord extends PaymentIntent {
+  order_id: string;
+  provider_payment_id: string;
+  // Branch name, as stored on bookings
+  branch?: string;
+  last_event?: string;
+  // Provider refund IDs already counted in metadata.amount_refunded, with their amounts
+  refunds?: Record<string, number>;
+}
+
+// Where a ledger update came from
+export type PaymentStatusSource =
+  // Created through our API, a payment link or a split payment
+  | 'checkout'
+  | 'webhook'
+  // Status read back from the provider
+  | 'poll'
+  | 'admin';
+
+// A status change of a ledger entry, stored in its `statusHistory` subcollection.
+// Rejected transitions are kept too; the payment stayed in its `from` status.
+export interface PaymentStatusTransition {
+  id: string;
+  from: PaymentStatus | null;
+  to: PaymentStatus;
+  source: PaymentStatusSource;
+  event?: string;
+  accepted: boolean;
+  created_at: Date;
+}
+
+export interface PaymentRecordUpdate {
+  provider: string;
+  provider_payment_id: string;
+  source: PaymentStatusSource;
+  status?: PaymentStatus;
+  amount?: number;
+  currency?: string;
+  customer_id?: string;
+  branch?: string;
+  metadata?: Record<string, string | number | boolean>;
+  event?: string;
+  // A refund set aside with reserveRefund that the provider has accepted. It is added to
+  // metadata.amount_refunded and taken off the reservation in the same transaction.
+  settled_refund?: number;
+  // A refund the provider reported without one being reserved here, e.g. by webhook.
+  // It is added to metadata.amount_refunded; reservations are left alone.
+  reported_refund?: number;
+  // Provider ID of settled_refund or reported_refund. A refund already in `refunds` is
+  // not counted again, so the route and the webhook can both report it.
+  refund_id?: string;
+}
+
+// Provider-agnostic payment request, as accepted by POST /api/payments
+export interface UnifiedPaymentRequest {
+  provider: PaymentProvider;
+  amount: number;
+  currency: string;
+  customer?: {
+    id?: string;
+    email: string;
+    phone: string;
+    name: string;
+    first_name?: string;
+    last_name?: string;
+  };
+  items?: Array<{
+    name: string;
+    quantity: number;
+    unit_price: number;
+    category?: string;
+    sku?: string;
+    type?: string;
+  }>;
+  shipping_address?: {
+    first_name: string;
+    last_name: string;
+    line1: string;
+    city: string;
+    country_code: string;
+    phone_number: string;
+  };
+  metadata?: Record<string, string | number | boolean>;
+  order_id: string;
+  branch?: string;
+}
+
+export interface UnifiedPaymentResponse {
+  provider: string;
+  payment_id: string;
+  checkout_url?: string;
+  client_secret?: string;
+  status: PaymentStatus;
+  metadata?: Record<string, string | number | boolean>;
+}
+
+// Whether a provider is using test credentials or moving real money
+export type PaymentProviderMode = 'test' | 'live';
+
+// A payment provider (card processor, BNPL, cash, bank transfer, ...) as seen by
+// PaymentService. Adapters are registered in lib/paymentProviders.
+export interface PaymentProviderAdapter {
+  id: PaymentProvider;
+  name: string;
+  // Payments are only authorized at checkout and must be captured before they can be refunded
+  requiresCapture: boolean;
+  // Returns a checkout_url to redirect the customer to, rather than a secret for client-side
+  // confirmation. Only these providers can be offered on pages without provider SDKs.
+  hostedCheckout: boolean;
+  // Taken by staff at the counter, so customers cannot create these payments themselves
+  staffOnly?: boolean;
+  isConfigured(): boolean;
+  getMode(): PaymentProviderMode;
+  // Cheap authenticated request to check credentials and connectivity; throws on failure.
+  // Adapters without a remote API leave this out.
+  probe?(): Promise<void>;
+  // Provider-specific checks on top of PaymentService.validatePaymentRequest
+  validateRequest?(request: UnifiedPaymentRequest): string[];
+  createPayment(request: UnifiedPaymentRequest): Promise<UnifiedPaymentResponse>;
+  getPaymentStatus(paymentId: string): Promise<PaymentStatus>;
+  capturePayment(paymentId: string, amount?: Money): Promise<Record<string, unknown>>;
+  refundPayment(paymentId: string, amount?: Money): Promise<Record<string, unknown>>;
+  cancelPayment(paymentId: string, amount?: Money): Promise<Record<string, unknown>>;
+  // Verify a webhook delivery and return the parsed event; throws on an invalid signature
+  verifyWebhook(payload: string, signature: string): Promise<Record<string, unknown>>;
+  // Whether the provider would accept this basket and customer, for instalment providers
+  checkEligibility?(request: BnplEligibilityRequest): Promise<BnplEligibility>;
+  mapStatus(providerStatus: string): PaymentStatus;
+  // Extract the refund ID from a refundPayment response
+  getRefundId?(response: Record<string, unknown>): string | undefined;
+}
+
 // Stripe Types
 export interface StripePaymentIntentRequest {
   amount: number;
@@ -111,7 +256,135 @@ export interface TabbyItem {
   category: string;
 }
 
+// BNPL Types
+// Basket checked by POST /api/payments/bnpl/eligibility before instalment providers are offered
+export interface BnplEligibilityRequest {
+  amount: number;
+  currency: string;
+  country_code: string;
+  // Without a phone number only the amount limits can be checked
+  customer?: {
+    email?: string;
+    phone?: string;
+    name?: string;
+  };
+  items?: UnifiedPaymentRequest['items'];
+}
+
+export type BnplUnavailableReason =
+  | 'not_configured'
+  | 'below_min_limit'
+  | 'above_max_limit'
+  // The provider declined the customer or does not serve the country or currency
+  | 'rejected'
+  // The provider could not be reached
+  | 'unavailable';
+
+// One way of paying, e.g. Tamara's PAY_BY_INSTALMENTS in 3
+export interface BnplInstalmentPlan {
+  payment_type: string;
+  instalments: number;
+  // Amount of each instalment, in the order they are due
+  amounts: number[];
+}
+
+export interface BnplEligibility {
+  provider: PaymentProvider;
+  available: boolean;
+  reason?: BnplUnavailableReason;
+  // Null when the provider does not publish its limits
+  min_limit: Money | null;
+  max_limit: Money | null;
+  plans: BnplInstalmentPlan[];
+}
+
 // Webhook Types
+export type StripeWebhookEvent = Stripe.Event;
+
+export interface TamaraWebhookAmount {
+  amount: number;
+  currency: string;
+}
+
+export interface TamaraWebhookOrderData {
+  order_id: string;
+  order_reference_id: string;
+  total_amount: TamaraWebhookAmount;
+  captured_amount?: TamaraWebhookAmount;
+  refunded_amount?: TamaraWebhookAmount;
+  consumer?: {
+    email?: string;
+  };
+}
+
+export interface TamaraWebhookEvent {
+  notification_id?: string;
+  event_type: string;
+  order_id: string;
+  order_reference_id: string;
+  data: TamaraWebhookOrderData;
+}
+
+export interface TabbyWebhookPaymentData {
+  id: string;
+  status?: string;
+  amount: string;
+  currency: string;
+  order: {
+    reference_id: string;
+  };
+  buyer?: {
+    email?: string;
+  };
+  captures?: Array<{
+    amount: string;
+  }>;
+}
+
+export interface TabbyWebhookRefundData {
+  id: string;
+  payment_id: string;
+  amount: string;
+}
+
+export interface TabbyWebhookEvent {
+  id?: string;
+  type: string;
+  data: TabbyWebhookPaymentData | TabbyWebhookRefundData;
+}
+
+// Sandbox provider (scripts/sandbox-provider.js) used for local development
+export type SandboxScenario = 'manual' | 'success' | 'decline' | 'expire' | 'refund_rejected';
+
+export interface SandboxPayment {
+  id: string;
+  order_id: string;
+  status: 'created' | 'authorized' | 'captured' | 'declined' | 'expired' | 'cancelled' | 'refunded';
+  amount: number;
+  currency: string;
+  captured_amount: number;
+  refunded_amount: number;
+  scenario: SandboxScenario;
+  created_at: string;
+}
+
+export interface SandboxRefund {
+  id: string;
+  payment_id: string;
+  amount: number;
+  status: 'succeeded' | 'rejected';
+}
+
+export interface SandboxWebhookEvent {
+  id: string;
+  type: string;
+  created: number;
+  data: {
+    payment: SandboxPayment;
+    refund?: SandboxRefund;
+  };
+}
+
 export interface WebhookEvent {
   id: string;
   provider: string;
@@ -121,6 +394,10 @@ export interface WebhookEvent {
   status: 'received' | 'processed' | 'failed';
   received_at: Date;
   processed_at?: Date;
+  last_attempt_at?: Date;
+  attempts?: number;
+  error?: string;
+  replayed_by?: string;
 }
 
 // Dashboard Types
@@ -131,6 +408,36 @@ export interface PaymentStats {
   active_customers: number;
 }
 
+export interface PaymentStatsFilter {
+  from?: Date;
+  to?: Date;
+  branch?: string;
+  provider?: string;
+}
+
+// Revenue figures for a single currency; amounts in different currencies are never summed
+export interface CurrencyStats {
+  currency: string;
+  totalRevenue: number;
+  refundedAmount: number;
+  successfulPayments: number;
+  averageOrderValue: number;
+}
+
+export interface DashboardStats {
+  totalPayments: number;
+  successfulPayments: number;
+  failedPayments: number;
+  // Revenue of the currency with the most successful payments
+  totalRevenue: number;
+  currency: string;
+  averageOrderValue: number;
+  // Percentage of payments that completed, out of all attempts in the period
+  conversionRate: number;
+  topPaymentMethod: PaymentProvider;
+  byCurrency: CurrencyStats[];
+}
+
 export interface RecentTransaction {
   id: string;
   customer_name: string;
@@ -139,4 +446,165 @@ export interface RecentTransaction {
   provider: string;
   status: PaymentStatus;
   created_at: Date;
-}
\ No newline at end of file
+}
+// Provider health, as reported by GET /api/payments/providers
+export interface ProviderHealth {
+  provider: PaymentProvider;
+  name: string;
+  configured: boolean;
+  mode: PaymentProviderMode;
+  reachable: boolean | null;
+  latency_ms: number | null;
+  checked_at: Date | null;
+  last_error?: string;
+  last_error_at?: Date;
+}
+
+// Payment links, shared with customers as /pay/[token]
+export type PaymentLinkStatus =
+  | 'active'
+  // A checkout was started and may still complete
+  | 'processing'
+  | 'paid'
+  | 'revoked'
+  | 'expired';
+
+export interface PaymentLinkCustomer {
+  name?: string;
+  email?: string;
+  phone?: string;
+}
+
+// Stored in the `paymentLinks` collection, keyed by a hash of the token so the
+// token itself is never stored
+export interface PaymentLink {
+  id: string;
+  booking_id?: string;
+  description: string;
+  amount: number;
+  currency: string;
+  status: PaymentLinkStatus;
+  customer?: PaymentLinkCustomer;
+  branch?: string;
+  metadata?: Record<string, string | number | boolean>;
+  expires_at: Date;
+  created_at: Date;
+  created_by: string;
+  // Checkouts started from this link; each one gets its own order ID
+  attempts: number;
+  order_id?: string;
+  provider?: PaymentProvider;
+  provider_payment_id?: string;
+  checkout_started_at?: Date;
+  paid_at?: Date;
+  revoked_at?: Date;
+  revoked_by?: string;
+}
+
+// What the customer sees on the /pay/[token] page
+export interface PublicPaymentLink {
+  description: string;
+  amount: number;
+  currency: string;
+  status: PaymentLinkStatus;
+  expires_at: Date;
+  customer?: PaymentLinkCustomer;
+  providers: PaymentMethod[];
+}
+
+// Reconciliation Types
+export type ReconciliationIssue =
+  // Pending or processing locally, but already captured at the provider
+  | 'captured_remotely'
+  // Refunded at the provider, but not in the ledger
+  | 'refunded_remotely'
+  // Any other difference between the ledger and the provider
+  | 'status_mismatch'
+  // The provider sent webhooks for a payment that has no ledger entry
+  | 'missing_locally'
+  // The provider could not be asked for the payment's status
+  | 'lookup_failed';
+
+export interface ReconciliationDiscrepancy {
+  issue: ReconciliationIssue;
+  provider: PaymentProvider;
+  provider_payment_id: string;
+  order_id?: string;
+  local_status?: PaymentStatus;
+  remote_status?: PaymentStatus;
+  amount?: number;
+  currency?: string;
+  error?: string;
+}
+
+export interface ReconciliationReport {
+  id: string;
+  trigger: 'manual' | 'scheduled';
+  triggered_by?: string;
+  since: Date;
+  started_at: Date;
+  completed_at: Date;
+  checked: number;
+  // Ledger entries whose provider is not configured in this environment
+  skipped: number;
+  discrepancies: ReconciliationDiscrepancy[];
+}
+
+// Settlement Types
+// Providers whose settlement / payout reports can be imported
+export type SettlementProvider = 'stripe' | 'tamara' | 'tabby';
+
+export type SettlementLineType = 'payment' | 'refund' | 'other';
+
+export type SettlementIssue =
+  // The line references a payment that is not in the ledger
+  | 'unmatched'
+  // The line has neither a payment ID nor an order ID, e.g. an adjustment
+  | 'no_reference'
+  // Gross amount or currency differs from the ledger entry
+  | 'amount_mismatch';
+
+// One line of a provider's settlement report. Amounts are in major units; fees
+// include any VAT charged on them.
+export interface SettlementLine {
+  // Row number in the uploaded file, counting the header as row 1
+  row: number;
+  type: SettlementLineType;
+  provider_payment_id?: string;
+  order_id?: string;
+  gross: number;
+  fee: number;
+  net: number;
+  currency: string;
+  settled_at?: Date;
+  payout_id?: string;
+  // Ledger entry the line was matched to
+  matched_order_id?: string;
+  issue?: SettlementIssue;
+}
+
+// Totals of an import for a single currency
+export interface SettlementTotals {
+  currency: string;
+  lines: number;
+  gross: number;
+  fees: number;
+  net: number;
+}
+
+// An imported report, stored in the `settlementImports` collection
+export interface SettlementImport {
+  id: string;
+  provider: SettlementProvider;
+  file_name: string;
+  imported_at: Date;
+  imported_by: string;
+  // Payout rows and blank lines that are not part of the totals
+  skipped: number;
+  matched: number;
+  flagged: number;
+  period_start?: Date;
+  period_end?: Date;
+  totals: SettlementTotals[];
+  lines: SettlementLine[];
+}
@@ -0,0 +1,28 @@
+export type SecurityEventSeverity = 'low' | 'medium' | 'high';
+
+// Stored in the append-only `securityEvents` collection. Details are masked with
+// PaymentSecurity.maskSensitiveData before they are stored.
+export interface SecurityEvent {
+  id: string;
+  event: string;
+  severity: SecurityEventSeverity;
+  // User ID or email of whoever caused the event, when known
+  actor: string | null;
+  ip: string | null;
+  details: Record<string, unknown>;
+  created_at: Date;
+}
+
+// Who caused a security event and where from, as passed to PaymentSecurity.logSecurityEvent
+export interface SecurityEventContext {
+  actor?: string | null;
+  ip?: string | null;
+}
+
+export interface SecurityEventFilter {
+  event?: string;
+  severity?: SecurityEventSeverity;
+  actor?: string;
+  from?: Date;
+  to?: Date;
+}
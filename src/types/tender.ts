@@ -0,0 +1,58 @@
+import { PaymentLinkCustomer, PaymentStatus } from './payment';
+
+export type TenderOrderStatus =
+  // Waiting for legs that add up to the total
+  | 'open'
+  // Completed legs add up to the total
+  | 'paid'
+  // Everything that was paid has been given back
+  | 'refunded';
+
+// One payment towards a split-tender order, e.g. a gift card, then cash, then Tabby for the
+// rest. Each leg is a ledger payment of its own, so webhooks, captures and reports see it as usual.
+export interface TenderLeg {
+  // Ledger order ID: the tender order ID with the leg number appended
+  order_id: string;
+  provider: string;
+  amount: number;
+  // Ledger status; 'pending' until the provider payment has been recorded
+  status: PaymentStatus;
+  refunded_amount: number;
+  // Set when an authorized BNPL leg was voided as part of a refund
+  voided_at?: Date;
+  created_at: Date;
+}
+
+// An order paid with several tenders, stored in the `tenderOrders` collection. The balances
+// are worked out from the legs' ledger entries whenever the order is read.
+export interface TenderOrder {
+  id: string;
+  total: number;
+  currency: string;
+  status: TenderOrderStatus;
+  booking_id?: string;
+  customer: PaymentLinkCustomer;
+  customer_id?: string;
+  branch?: string;
+  legs: TenderLeg[];
+  paid_amount: number;
+  // Legs started but not completed yet (e.g. a Tabby checkout) hold their part of the balance
+  // until they are paid, fail, or are cancelled with cancelTenderLeg
+  pending_amount: number;
+  outstanding_amount: number;
+  refunded_amount: number;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+  paid_at?: Date;
+}
+
+// How a refund of a split-tender order was spread over its legs
+export interface TenderRefundAllocation {
+  order_id: string;
+  provider: string;
+  amount: number;
+  // Legs still awaiting capture are voided in full instead of refunded
+  action: 'refund' | 'void';
+  refund_id?: string;
+}